@@ -39,7 +39,7 @@ async function main() {
     name: 'Assistant',
     role: 'Helps the user solve problems and generate code',
     tools: ['web_search'],
-    model_preset_id: 'gpt-4.1-turbo',
+    model_preset_id: 'gpt-4.1',
     mcp: {
       servers: ['brave-search'],
       tools: ['search']
@@ -37,7 +37,7 @@ async function main() {
     name: 'Analyst',
     role: 'Analyzes research findings and identifies key insights',
     tools: [],
-    model_preset_id: 'gpt-4.1-turbo'
+    model_preset_id: 'gpt-4.1'
   });
 
   // Add a writer agent with Claude
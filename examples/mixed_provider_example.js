@@ -43,7 +43,7 @@ async function main() {
     name: 'Orchestrator',
     role: 'Breaks down tasks and coordinates work',
     tools: ['web_search'],
-    model_preset_id: 'gpt-4.1-turbo',
+    model_preset_id: 'gpt-4.1',
     mcp: {
       servers: ['brave-search'],
       tools: ['search']
@@ -1,30 +1,33 @@
-import { Agent, ModelPreset } from '../core/models';
+import { Agent, ModelPreset, getPresetCapabilities } from '../core/models';
 import { MCPClient, MCPTool } from '../core/mcp';
+import { FrameworkAdapter, ToolExecutor } from './index';
 
 /**
  * Adapter for AutoGen framework
  */
-export class AutoGenAdapter {
+export class AutoGenAdapter implements FrameworkAdapter {
   private mcpClient: MCPClient;
+  private executeTool: ToolExecutor;
   
-  constructor(mcpClient: MCPClient) {
+  constructor(mcpClient: MCPClient, executeTool?: ToolExecutor) {
     this.mcpClient = mcpClient;
+    this.executeTool = executeTool || ((agentId, toolId, params) => mcpClient.executeTool(toolId, params, { agentId }));
   }
   
   /**
    * Convert an MCP tool to an AutoGen-compatible tool
    */
-  async convertTool(tool: MCPTool): Promise<any> {
+  async convertTool(tool: MCPTool, agentId: string): Promise<any> {
     return {
       name: tool.name,
       description: tool.description,
       parameters: tool.parameters,
-      async function(params: any): Promise<any> {
+      function: async (params: any): Promise<any> => {
         try {
-          const result = await this.mcpClient.executeTool(
-            tool.id, 
-            params
-          );
+          const result = await this.executeTool(agentId, tool.id, params);
+          if (result.error) {
+            return { error: result.error };
+          }
           return { result: result.data };
         } catch (error: any) {
           return { error: error.message };
@@ -36,28 +39,48 @@ export class AutoGenAdapter {
   /**
    * Create AutoGen tools from MCP tools
    */
-  async createAutoGenTools(toolIds: string[]): Promise<any[]> {
+  async createAutoGenTools(toolIds: string[], agentId: string): Promise<any[]> {
     const tools: any[] = [];
     
     for (const toolId of toolIds) {
       const tool = await this.mcpClient.getTool(toolId);
       if (tool) {
-        tools.push(await this.convertTool(tool));
+        tools.push(await this.convertTool(tool, agentId));
       }
     }
     
     return tools;
   }
   
+  /**
+   * Get the API base URL for a model preset
+   */
+  private getApiBase(modelPreset: ModelPreset): string | undefined {
+    switch (modelPreset.provider) {
+      case 'anthropic':
+        return 'https://api.anthropic.com';
+      
+      case 'openai':
+        return 'https://api.openai.com';
+      
+      case 'openai-compatible':
+        return modelPreset.base_url;
+      
+      default:
+        // Providers such as "mock" do not talk to an HTTP API
+        return undefined;
+    }
+  }
+  
   /**
    * Create an AutoGen agent
    */
   async createAgent(agent: Agent, modelPreset: ModelPreset): Promise<any> {
-    // Get tools for this agent
+    // Get tools for this agent, unless the model cannot call them
     let tools: any[] = [];
     
-    if (agent.mcp?.tools) {
-      tools = await this.createAutoGenTools(agent.mcp.tools);
+    if (agent.mcp?.tools && getPresetCapabilities(modelPreset).tool_calling) {
+      tools = await this.createAutoGenTools(agent.mcp.tools, agent.id);
     }
     
     // Create AutoGen config
@@ -69,7 +92,8 @@ export class AutoGenAdapter {
         config_list: [{
           model: modelPreset.model,
           api_key: '<API_KEY>',  // This would be filled in at runtime
-          api_base: modelPreset.provider === 'anthropic' ? 'https://api.anthropic.com' : 'https://api.openai.com'
+          api_base: this.getApiBase(modelPreset),
+          default_headers: modelPreset.headers
         }],
         temperature: modelPreset.temperature,
         top_p: modelPreset.top_p,
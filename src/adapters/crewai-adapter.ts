@@ -1,26 +1,29 @@
-import { Agent, ModelPreset } from '../core/models';
+import { Agent, ModelPreset, getPresetCapabilities } from '../core/models';
 import { MCPClient, MCPTool } from '../core/mcp';
+import { FrameworkAdapter, ToolExecutor } from './index';
 
 /**
  * Adapter for CrewAI framework
  */
-export class CrewAIAdapter {
+export class CrewAIAdapter implements FrameworkAdapter {
   private mcpClient: MCPClient;
+  private executeTool: ToolExecutor;
   
-  constructor(mcpClient: MCPClient) {
+  constructor(mcpClient: MCPClient, executeTool?: ToolExecutor) {
     this.mcpClient = mcpClient;
+    this.executeTool = executeTool || ((agentId, toolId, params) => mcpClient.executeTool(toolId, params, { agentId }));
   }
   
   /**
    * Convert an MCP tool to a CrewAI-compatible tool
    */
-  async convertTool(tool: MCPTool): Promise<any> {
+  async convertTool(tool: MCPTool, agentId: string): Promise<any> {
     // In Python this would be a Tool object
     return {
       name: tool.name,
       description: tool.description,
       metadata: tool.metadata,
-      async function(...args: any[]): Promise<any> {
+      function: async (...args: any[]): Promise<any> => {
         try {
           // Parse arguments based on tool parameters
           const params: Record<string, any> = {};
@@ -30,10 +33,10 @@ export class CrewAIAdapter {
             params[paramNames[i]] = args[i];
           }
           
-          const result = await this.mcpClient.executeTool(
-            tool.id, 
-            params
-          );
+          const result = await this.executeTool(agentId, tool.id, params);
+          if (result.error) {
+            return { error: result.error };
+          }
           
           return result.data;
         } catch (error: any) {
@@ -46,13 +49,13 @@ export class CrewAIAdapter {
   /**
    * Create CrewAI tools from MCP tools
    */
-  async createCrewAITools(toolIds: string[]): Promise<any[]> {
+  async createCrewAITools(toolIds: string[], agentId: string): Promise<any[]> {
     const tools: any[] = [];
     
     for (const toolId of toolIds) {
       const tool = await this.mcpClient.getTool(toolId);
       if (tool) {
-        tools.push(await this.convertTool(tool));
+        tools.push(await this.convertTool(tool, agentId));
       }
     }
     
@@ -66,8 +69,8 @@ export class CrewAIAdapter {
     // Get tools for this agent
     let tools: any[] = [];
     
-    if (agent.mcp?.tools) {
-      tools = await this.createCrewAITools(agent.mcp.tools);
+    if (agent.mcp?.tools && getPresetCapabilities(modelPreset).tool_calling) {
+      tools = await this.createCrewAITools(agent.mcp.tools, agent.id);
     }
     
     // Create CrewAI agent config
@@ -78,6 +81,8 @@ export class CrewAIAdapter {
       backstory: agent.system_prompt || `You are a ${agent.name} who ${agent.role}`,
       llm_model: modelPreset.model,
       provider: modelPreset.provider,
+      base_url: modelPreset.base_url,
+      headers: modelPreset.headers,
       temperature: modelPreset.temperature,
       top_p: modelPreset.top_p,
       max_tokens: modelPreset.max_tokens,
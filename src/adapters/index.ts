@@ -1,5 +1,30 @@
 // Framework adapters
 
+import { Agent, ModelPreset } from '../core/models';
+import { MCPTool, MCPToolResult } from '../core/mcp';
+
+/**
+ * Runs a converted tool's call on behalf of an agent
+ *
+ * Bound to a session (`SwarmSession.executeTool`), calls count against that
+ * session's limits, costs and budgets, and can be sent for approval.
+ */
+export type ToolExecutor = (agentId: string, toolId: string, params: any) => Promise<MCPToolResult>;
+
+/**
+ * Builds a framework's representation of agents and MCP tools
+ *
+ * Converted tools call MCP as the agent they were converted for, so the
+ * agent's permissions apply; a refused call returns `{ error }` with the
+ * MCPToolError. Calls go through the adapter's ToolExecutor, or, without
+ * one, straight to the MCP client outside any session, where a tool that
+ * requires approval is refused.
+ */
+export interface FrameworkAdapter {
+  createAgent(agent: Agent, modelPreset: ModelPreset): Promise<any>;
+  convertTool(tool: MCPTool, agentId: string): Promise<any>;
+}
+
 // Re-export adapters from files
 export * from './autogen-adapter';
 export * from './crewai-adapter';
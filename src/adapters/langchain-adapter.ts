@@ -1,30 +1,33 @@
-import { Agent, ModelPreset } from '../core/models';
+import { Agent, ModelPreset, getPresetCapabilities } from '../core/models';
 import { MCPClient, MCPTool } from '../core/mcp';
+import { FrameworkAdapter, ToolExecutor } from './index';
 
 /**
  * Adapter for LangChain framework
  */
-export class LangChainAdapter {
+export class LangChainAdapter implements FrameworkAdapter {
   private mcpClient: MCPClient;
+  private executeTool: ToolExecutor;
   
-  constructor(mcpClient: MCPClient) {
+  constructor(mcpClient: MCPClient, executeTool?: ToolExecutor) {
     this.mcpClient = mcpClient;
+    this.executeTool = executeTool || ((agentId, toolId, params) => mcpClient.executeTool(toolId, params, { agentId }));
   }
   
   /**
    * Convert an MCP tool to a LangChain-compatible tool
    */
-  async convertTool(tool: MCPTool): Promise<any> {
+  async convertTool(tool: MCPTool, agentId: string): Promise<any> {
     return {
       name: tool.name,
       description: tool.description,
       schema: tool.parameters,
-      async func(args: any): Promise<any> {
+      func: async (args: any): Promise<any> => {
         try {
-          const result = await this.mcpClient.executeTool(
-            tool.id, 
-            args
-          );
+          const result = await this.executeTool(agentId, tool.id, args);
+          if (result.error) {
+            return { error: result.error };
+          }
           return result.data;
         } catch (error: any) {
           return { error: error.message };
@@ -36,19 +39,34 @@ export class LangChainAdapter {
   /**
    * Create LangChain tools from MCP tools
    */
-  async createLangChainTools(toolIds: string[]): Promise<any[]> {
+  async createLangChainTools(toolIds: string[], agentId: string): Promise<any[]> {
     const tools: any[] = [];
     
     for (const toolId of toolIds) {
       const tool = await this.mcpClient.getTool(toolId);
       if (tool) {
-        tools.push(await this.convertTool(tool));
+        tools.push(await this.convertTool(tool, agentId));
       }
     }
     
     return tools;
   }
   
+  /**
+   * Create a LangChain agent
+   *
+   * LangChain agents are not created individually; the router is configured
+   * from the whole swarm, so this only describes the agent.
+   */
+  async createAgent(agent: Agent, modelPreset: ModelPreset): Promise<any> {
+    return {
+      id: agent.id,
+      name: agent.name,
+      model: modelPreset.model,
+      provider: modelPreset.provider
+    };
+  }
+  
   /**
    * Create LangChain router configuration
    */
@@ -61,8 +79,8 @@ export class LangChainAdapter {
       if (!preset) continue;
       
       let tools: any[] = [];
-      if (agent.mcp?.tools) {
-        tools = await this.createLangChainTools(agent.mcp.tools);
+      if (agent.mcp?.tools && getPresetCapabilities(preset).tool_calling) {
+        tools = await this.createLangChainTools(agent.mcp.tools, agent.id);
       }
       
       agentMap[agent.id] = {
@@ -71,6 +89,8 @@ export class LangChainAdapter {
         llm: {
           provider: preset.provider,
           model: preset.model,
+          base_url: preset.base_url,
+          headers: preset.headers,
           temperature: preset.temperature,
           max_tokens: preset.max_tokens,
           top_p: preset.top_p
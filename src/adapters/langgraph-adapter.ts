@@ -1,20 +1,23 @@
-import { Agent, ModelPreset } from '../core/models';
+import { Agent, ModelPreset, getPresetCapabilities } from '../core/models';
 import { MCPClient, MCPTool } from '../core/mcp';
+import { FrameworkAdapter, ToolExecutor } from './index';
 
 /**
  * Adapter for LangGraph framework
  */
-export class LangGraphAdapter {
+export class LangGraphAdapter implements FrameworkAdapter {
   private mcpClient: MCPClient;
+  private executeTool: ToolExecutor;
   
-  constructor(mcpClient: MCPClient) {
+  constructor(mcpClient: MCPClient, executeTool?: ToolExecutor) {
     this.mcpClient = mcpClient;
+    this.executeTool = executeTool || ((agentId, toolId, params) => mcpClient.executeTool(toolId, params, { agentId }));
   }
   
   /**
    * Convert an MCP tool to a LangGraph-compatible tool
    */
-  async convertTool(tool: MCPTool): Promise<any> {
+  async convertTool(tool: MCPTool, agentId: string): Promise<any> {
     // In Python this would be formatted for LangGraph
     return {
       type: "function",
@@ -26,10 +29,10 @@ export class LangGraphAdapter {
       // This is a placeholder for the actual executor function in Python
       executor: async (args: any) => {
         try {
-          const result = await this.mcpClient.executeTool(
-            tool.id, 
-            args
-          );
+          const result = await this.executeTool(agentId, tool.id, args);
+          if (result.error) {
+            return { error: result.error };
+          }
           return result.data;
         } catch (error: any) {
           return { error: error.message };
@@ -41,13 +44,13 @@ export class LangGraphAdapter {
   /**
    * Create LangGraph tools from MCP tools
    */
-  async createLangGraphTools(toolIds: string[]): Promise<any[]> {
+  async createLangGraphTools(toolIds: string[], agentId: string): Promise<any[]> {
     const tools: any[] = [];
     
     for (const toolId of toolIds) {
       const tool = await this.mcpClient.getTool(toolId);
       if (tool) {
-        tools.push(await this.convertTool(tool));
+        tools.push(await this.convertTool(tool, agentId));
       }
     }
     
@@ -127,6 +130,13 @@ async def ${agent.name.toLowerCase().replace(/\s+/g, '_')}_node(state):
     return pythonTemplate;
   }
   
+  /**
+   * Create a LangGraph agent, described as a graph node
+   */
+  async createAgent(agent: Agent, modelPreset: ModelPreset): Promise<any> {
+    return this.createNodeDescription(agent, modelPreset);
+  }
+  
   /**
    * Create a description of the LangGraph node
    */
@@ -134,8 +144,8 @@ async def ${agent.name.toLowerCase().replace(/\s+/g, '_')}_node(state):
     // Get tools for this agent
     let tools: any[] = [];
     
-    if (agent.mcp?.tools) {
-      tools = await this.createLangGraphTools(agent.mcp.tools);
+    if (agent.mcp?.tools && getPresetCapabilities(modelPreset).tool_calling) {
+      tools = await this.createLangGraphTools(agent.mcp.tools, agent.id);
     }
     
     // Return a description of the node
@@ -146,6 +156,7 @@ async def ${agent.name.toLowerCase().replace(/\s+/g, '_')}_node(state):
       role: agent.role,
       model: modelPreset.model,
       provider: modelPreset.provider,
+      base_url: modelPreset.base_url,
       tools: tools.map(t => t.function.name),
       system_prompt: agent.system_prompt || agent.role,
       temperature: modelPreset.temperature,
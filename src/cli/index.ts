@@ -1,9 +1,22 @@
 // Command-line interface for Swarm-Builder
 
-import { SwarmBuilder } from '../core/models';
+import * as readline from 'readline';
+import { SwarmBuilder, ServiceSpec } from '../core/models';
 import { ModelPresetManager } from '../core/models/model-preset-manager';
+import { loadServiceSpecFile, isSpecFilePath } from '../core/models/spec-format';
 import { MCPServerRegistry } from '../core/mcp/mcp-server-registry';
-import { SwarmOrchestrator } from '../core/orchestrator';
+import { MCPApprovalManager } from '../core/mcp/mcp-approval-manager';
+import { ApprovalRequest, ApprovalDecision, ApprovalRecord } from '../core/mcp';
+import {
+  SwarmOrchestrator,
+  SwarmEvent,
+  CostLimitEvent,
+  RuntimeAgent,
+  SessionManager,
+  MessageCancelledError
+} from '../core/orchestrator';
+import { Tracer, JsonlSpanExporter, OtlpHttpSpanExporter } from '../core/tracing';
+import { Cassette, ReplayMismatch } from '../core/replay';
 
 /**
  * Start the CLI
@@ -21,6 +34,14 @@ export function startCLI(): void {
       handleRunCommand(args.slice(1));
       break;
     
+    case 'import':
+      handleImportCommand(args.slice(1));
+      break;
+    
+    case 'export':
+      handleExportCommand(args.slice(1));
+      break;
+    
     case 'config':
       handleConfigCommand(args.slice(1));
       break;
@@ -33,6 +54,10 @@ export function startCLI(): void {
       handleServersCommand(args.slice(1));
       break;
     
+    case 'sessions':
+      handleSessionsCommand(args.slice(1));
+      break;
+    
     case 'ui':
       handleUICommand(args.slice(1));
       break;
@@ -63,56 +88,375 @@ function handleCreateCommand(args: string[]): void {
  * Handle the run command
  */
 function handleRunCommand(args: string[]): void {
-  if (args.length < 1) {
-    console.error('Error: Missing service ID');
-    console.log('Usage: swarm-builder run <service-id>');
+  const usage = 'Usage: swarm-builder run <service-id | spec-file> [--session <session-id>] ' +
+    '[--message-timeout <ms>] [--step-timeout <ms>] [--approval-timeout <ms>] [--trace <file | url>] ' +
+    '[--record <file> | --replay <file>]';
+  
+  if (args.length < 1 || args[0].startsWith('--')) {
+    console.error('Error: Missing service ID or spec file');
+    console.log(usage);
     process.exit(1);
   }
   
-  const serviceId = args[0];
-  console.log(`Running swarm with ID: ${serviceId}...`);
+  let sessionId: string | undefined;
+  let messageTimeout: number | undefined;
+  let stepTimeout: number | undefined;
+  let approvalTimeout: number | undefined;
+  let traceTarget: string | undefined;
+  let cassette: Cassette | undefined;
   
-  // Create and start the orchestrator
-  const orchestrator = new SwarmOrchestrator(serviceId);
+  try {
+    sessionId = getOptionValue(args, '--session');
+    messageTimeout = getTimeoutOption(args, '--message-timeout');
+    stepTimeout = getTimeoutOption(args, '--step-timeout');
+    approvalTimeout = getTimeoutOption(args, '--approval-timeout');
+    traceTarget = getOptionValue(args, '--trace');
+    cassette = getCassetteOption(args);
+  } catch (error: any) {
+    console.error(`Error: ${error.message}`);
+    console.log(usage);
+    process.exit(1);
+  }
   
-  orchestrator.start().then(() => {
+  const target = args[0];
+  
+  // Spec files are parsed directly; anything else is a stored spec ID
+  const specSource: Promise<string | ServiceSpec> = isSpecFilePath(target)
+    ? loadServiceSpecFile(target)
+    : Promise.resolve(target);
+  
+  // Created once the swarm is running; manual group chats prompt through it
+  let rl: readline.Interface | null = null;
+  
+  specSource.then(serviceSpec => {
+    if (typeof serviceSpec === 'string') {
+      console.log(`Running swarm with ID: ${serviceSpec}...`);
+    } else {
+      console.log(`Running swarm from ${target}: ${serviceSpec.name}...`);
+    }
+    
+    // Create and start the orchestrator
+    const orchestrator = new SwarmOrchestrator(serviceSpec, {
+      selectSpeaker: candidates => promptForSpeaker(rl, candidates),
+      sessionId,
+      messageTimeout,
+      stepTimeout,
+      tracer: traceTarget ? createTracer(traceTarget) : undefined,
+      cassette,
+      approvalManager: new MCPApprovalManager({
+        handler: (request, signal) => promptForApproval(rl, request, signal),
+        defaults: { timeout: approvalTimeout }
+      })
+    });
+    
+    orchestrator.on(SwarmEvent.COST_LIMIT_WARNING, (event: CostLimitEvent) => {
+      console.warn(`Warning: agent ${event.agentId} has spent $${event.spent.toFixed(4)} of its $${event.limit.toFixed(2)} limit`);
+    });
+    orchestrator.on(SwarmEvent.COST_LIMIT_EXCEEDED, (event: CostLimitEvent) => {
+      console.warn(`Agent ${event.agentId} reached its $${event.limit.toFixed(2)} cost limit and has been halted`);
+    });
+    orchestrator.on(SwarmEvent.APPROVAL_DECIDED, (record: ApprovalRecord) => {
+      if (record.source === 'timeout' || record.source === 'default') {
+        console.warn(`Call to ${record.tool_id} by agent ${record.agent_id} was ${record.approved ? 'approved' : 'denied'}: ${record.reason}`);
+      }
+    });
+    orchestrator.on(SwarmEvent.REPLAY_MISMATCH, (mismatch: ReplayMismatch) => {
+      const where = mismatch.differences.length > 0 ? ` at ${mismatch.differences.join(', ')}` : '';
+      console.warn(`Warning: ${mismatch.kind} request to ${mismatch.target} differs from the recording${where}`);
+    });
+    
+    return orchestrator.start().then(() => orchestrator);
+  }).then(async orchestrator => {
+    const session = orchestrator.getSession();
+    if (!session) {
+      throw new Error('The swarm started without a session');
+    }
+    
     console.log('Swarm started successfully');
+    console.log(sessionId
+      ? `Resumed session ${session.id} (${session.messages.length} messages)`
+      : `Session ID: ${session.id}`);
     
     // Set up REPL for interaction
-    const readline = require('readline');
-    const rl = readline.createInterface({
+    const repl = readline.createInterface({
       input: process.stdin,
       output: process.stdout,
       prompt: '> '
     });
+    rl = repl;
     
-    rl.prompt();
+    // Ctrl-C cancels the message in flight, including a resumed one; otherwise it exits
+    repl.on('SIGINT', () => {
+      if (orchestrator.cancelMessage()) {
+        console.log('\nCancelling message...');
+      } else {
+        repl.close();
+      }
+    });
     
-    rl.on('line', async (line: string) => {
+    repl.on('close', async () => {
+      await orchestrator.stop();
+      console.log('Swarm stopped');
+      if (cassette?.isReplaying()) {
+        console.log(`Replay finished with ${cassette.getMismatches().length} mismatches; ` +
+          `${cassette.getUnplayedCount()} recorded exchanges were not replayed`);
+      }
+      process.exit(0);
+    });
+    
+    // Finish a message the previous run was interrupted in
+    const pending = orchestrator.getPendingRun();
+    if (pending) {
+      console.log(`Resuming interrupted message (${pending.step} steps completed): ${pending.message}`);
+      await printResponse(orchestrator.resumeRun());
+    }
+    
+    repl.prompt();
+    
+    repl.on('line', async (line: string) => {
       if (line.trim() === 'exit' || line.trim() === 'quit') {
         await orchestrator.stop();
-        rl.close();
+        repl.close();
         return;
       }
       
+      if (line.trim() === 'resume' && orchestrator.getPendingRun()) {
+        await printResponse(orchestrator.resumeRun());
+      } else {
+        await printResponse(orchestrator.sendMessage(line));
+      }
+      
+      repl.prompt();
+    });
+    
+  }).catch(error => {
+    console.error(`Error starting swarm: ${error.message}`);
+    process.exit(1);
+  });
+}
+
+/**
+ * Print the swarm's response to a message, or why there is none
+ */
+async function printResponse(response: Promise<string>): Promise<void> {
+  try {
+    console.log(await response);
+  } catch (error: any) {
+    if (error instanceof MessageCancelledError) {
+      console.log(`${error.message} Type "resume" to finish it, or send a new message.`);
+    } else {
+      console.error(`Error: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Get the value following an option, e.g. `--session <id>`
+ */
+function getOptionValue(args: string[], option: string): string | undefined {
+  const index = args.indexOf(option);
+  if (index < 0) {
+    return undefined;
+  }
+  
+  const value = args[index + 1];
+  if (!value || value.startsWith('--')) {
+    throw new Error(`Missing value for ${option}`);
+  }
+  
+  return value;
+}
+
+/**
+ * Get a timeout option in milliseconds
+ */
+function getTimeoutOption(args: string[], option: string): number | undefined {
+  const value = getOptionValue(args, option);
+  if (value === undefined) {
+    return undefined;
+  }
+  
+  const timeout = Number(value);
+  if (!Number.isInteger(timeout) || timeout <= 0) {
+    throw new Error(`${option} must be a positive number of milliseconds`);
+  }
+  
+  return timeout;
+}
+
+/**
+ * Get the cassette to record to or replay from, if any
+ */
+function getCassetteOption(args: string[]): Cassette | undefined {
+  const recordFile = getOptionValue(args, '--record');
+  const replayFile = getOptionValue(args, '--replay');
+  
+  if (recordFile && replayFile) {
+    throw new Error('--record and --replay cannot be used together');
+  }
+  
+  if (recordFile) {
+    return new Cassette(recordFile, { mode: 'record' });
+  }
+  
+  return replayFile ? new Cassette(replayFile, { mode: 'replay' }) : undefined;
+}
+
+/**
+ * Create a tracer exporting to an OTLP/HTTP collector URL, or else to a JSONL file
+ */
+function createTracer(target: string): Tracer {
+  const exporter = /^https?:\/\//.test(target)
+    ? new OtlpHttpSpanExporter({ endpoint: target })
+    : new JsonlSpanExporter(target);
+  
+  return new Tracer({ exporter });
+}
+
+/**
+ * Ask the user who speaks next in a manual group chat
+ */
+function promptForSpeaker(rl: readline.Interface | null, candidates: RuntimeAgent[]): Promise<string | null> {
+  if (!rl) {
+    return Promise.reject(new Error('The prompt is not ready'));
+  }
+  
+  const ids = candidates.map(agent => agent.id);
+  
+  return new Promise(resolve => {
+    const ask = () => {
+      rl.question(`Next speaker (${ids.join(', ')}; empty to end): `, (answer: string) => {
+        const agentId = answer.trim();
+        if (!agentId) {
+          resolve(null);
+        } else if (ids.includes(agentId)) {
+          resolve(agentId);
+        } else {
+          console.log(`Unknown speaker: ${agentId}`);
+          ask();
+        }
+      });
+    };
+    
+    ask();
+  });
+}
+
+/**
+ * Ask the user whether an agent may make a tool call
+ */
+function promptForApproval(rl: readline.Interface | null, request: ApprovalRequest, signal: AbortSignal): Promise<ApprovalDecision> {
+  if (!rl) {
+    return Promise.reject(new Error('The prompt is not ready'));
+  }
+  
+  console.log(`\nAgent ${request.agent_id} wants to call ${request.tool_id} with ${JSON.stringify(request.params)}`);
+  
+  return new Promise((resolve, reject) => {
+    let decided = false;
+    const decide = (decision: ApprovalDecision) => {
+      decided = true;
+      resolve(decision);
+    };
+    
+    // The request is withdrawn after a timeout or when the message is cancelled
+    signal.addEventListener('abort', () => {
+      if (!decided) {
+        console.log('\nApproval request withdrawn');
+        reject(signal.reason);
+      }
+    }, { once: true });
+    
+    const ask = (query: string, handle: (answer: string) => void) => {
+      rl.question(query, { signal }, handle);
+    };
+    
+    const askParams = () => ask('Parameters (JSON object): ', answer => {
       try {
-        const response = await orchestrator.sendMessage(line);
-        console.log(response);
+        const params = JSON.parse(answer);
+        if (typeof params === 'object' && params !== null && !Array.isArray(params)) {
+          decide({ action: 'edit', params });
+          return;
+        }
       } catch (error) {
-        console.error(`Error: ${error.message}`);
+        // Asked again below
       }
-      
-      rl.prompt();
+      console.log('Enter the parameters as a JSON object');
+      askParams();
     });
     
-    rl.on('close', async () => {
-      await orchestrator.stop();
-      console.log('Swarm stopped');
-      process.exit(0);
+    const askAction = () => ask('Allow? [y]es once, for the [s]ession, [n]o, [e]dit parameters: ', answer => {
+      switch (answer.trim().toLowerCase()) {
+        case 'y':
+        case 'yes':
+          decide({ action: 'approve_once' });
+          break;
+        case 's':
+        case 'session':
+          decide({ action: 'approve_session' });
+          break;
+        case 'n':
+        case 'no':
+          ask('Reason (optional): ', reason => decide({ action: 'deny', reason: reason.trim() || 'Denied by the user' }));
+          break;
+        case 'e':
+        case 'edit':
+          askParams();
+          break;
+        default:
+          console.log('Answer y, s, n or e');
+          askAction();
+      }
     });
     
+    askAction();
+  });
+}
+
+/**
+ * Handle the import command
+ */
+function handleImportCommand(args: string[]): void {
+  if (args.length < 1) {
+    console.error('Error: Missing spec file');
+    console.log('Usage: swarm-builder import <spec-file>');
+    process.exit(1);
+  }
+  
+  const builder = new SwarmBuilder();
+  
+  builder.importServiceSpec(args[0]).then(spec => {
+    return builder.saveServiceSpec(spec);
+  }).then(spec => {
+    console.log(`Imported swarm "${spec.name}" with ID: ${spec.id}`);
   }).catch(error => {
-    console.error(`Error starting swarm: ${error.message}`);
+    console.error(`Error importing spec: ${error.message}`);
+    process.exit(1);
+  });
+}
+
+/**
+ * Handle the export command
+ */
+function handleExportCommand(args: string[]): void {
+  if (args.length < 2) {
+    console.error('Error: Missing service ID or spec file');
+    console.log('Usage: swarm-builder export <service-id> <spec-file>');
+    process.exit(1);
+  }
+  
+  const [serviceId, filePath] = args;
+  const builder = new SwarmBuilder();
+  
+  builder.loadServiceSpec(serviceId).then(spec => {
+    if (!spec) {
+      throw new Error(`Service specification not found: ${serviceId}`);
+    }
+    return builder.exportServiceSpec(spec, filePath);
+  }).then(() => {
+    console.log(`Exported swarm ${serviceId} to ${filePath}`);
+  }).catch(error => {
+    console.error(`Error exporting spec: ${error.message}`);
     process.exit(1);
   });
 }
@@ -156,7 +500,7 @@ function handleConfigCommand(args: string[]): void {
 function handlePresetsCommand(args: string[]): void {
   if (args.length < 1) {
     console.error('Error: Missing presets option');
-    console.log('Usage: swarm-builder presets [--list | --add=JSON | --delete=ID]');
+    console.log('Usage: swarm-builder presets [--list | --catalog | --add=JSON | --delete=ID]');
     process.exit(1);
   }
   
@@ -170,6 +514,17 @@ function handlePresetsCommand(args: string[]): void {
     }).catch(error => {
       console.error(`Error listing presets: ${error.message}`);
     });
+  } else if (option === '--catalog') {
+    console.log('Listing known models...');
+    console.table(presetManager.getCatalog().map(entry => ({
+      provider: entry.provider,
+      model: entry.model,
+      context_window: entry.context_window,
+      max_output_tokens: entry.max_output_tokens,
+      input_per_million: entry.pricing.input_per_million,
+      output_per_million: entry.pricing.output_per_million,
+      features: entry.features.join(', ')
+    })));
   } else if (option.startsWith('--add=')) {
     const json = option.substring(6);
     try {
@@ -193,7 +548,7 @@ function handlePresetsCommand(args: string[]): void {
     });
   } else {
     console.error(`Error: Unknown presets option: ${option}`);
-    console.log('Usage: swarm-builder presets [--list | --add=JSON | --delete=ID]');
+    console.log('Usage: swarm-builder presets [--list | --catalog | --add=JSON | --delete=ID]');
     process.exit(1);
   }
 }
@@ -236,6 +591,51 @@ function handleServersCommand(args: string[]): void {
   }
 }
 
+/**
+ * Handle the sessions command
+ */
+function handleSessionsCommand(args: string[]): void {
+  if (args.length < 1) {
+    console.error('Error: Missing sessions option');
+    console.log('Usage: swarm-builder sessions [--list [--spec=ID] | --delete=ID]');
+    process.exit(1);
+  }
+  
+  const option = args[0];
+  const sessionManager = new SessionManager();
+  
+  if (option === '--list') {
+    const specOption = args.find(arg => arg.startsWith('--spec='));
+    const specId = specOption ? specOption.substring(7) : undefined;
+    
+    console.log('Listing sessions...');
+    sessionManager.listSessions(specId).then(sessions => {
+      console.table(sessions.map(session => ({
+        id: session.id,
+        spec_id: session.spec_id,
+        spec_revision: session.spec_revision,
+        messages: session.message_count,
+        cost: session.cost.toFixed(4),
+        updated_at: new Date(session.updated_at).toISOString()
+      })));
+    }).catch(error => {
+      console.error(`Error listing sessions: ${error.message}`);
+    });
+  } else if (option.startsWith('--delete=')) {
+    const id = option.substring(9);
+    console.log(`Deleting session: ${id}...`);
+    sessionManager.deleteSession(id).then(deleted => {
+      console.log(deleted ? 'Session deleted successfully' : `Session not found: ${id}`);
+    }).catch(error => {
+      console.error(`Error deleting session: ${error.message}`);
+    });
+  } else {
+    console.error(`Error: Unknown sessions option: ${option}`);
+    console.log('Usage: swarm-builder sessions [--list [--spec=ID] | --delete=ID]');
+    process.exit(1);
+  }
+}
+
 /**
  * Handle the UI command
  */
@@ -263,10 +663,18 @@ function showHelp(): void {
   console.log('Usage: swarm-builder [command] [options]\n');
   console.log('Commands:');
   console.log('  create               Create a new swarm');
-  console.log('  run <service-id>     Run a swarm service');
+  console.log('  run <id | file>      Run a stored swarm or a YAML/JSON spec file');
+  console.log('                       (--session <session-id> resumes a stored session;');
+  console.log('                       --message-timeout <ms> and --step-timeout <ms> set time limits;');
+  console.log('                       --trace <file | url> writes spans to a JSONL file or OTLP/HTTP collector;');
+  console.log('                       --record <file> and --replay <file> record and replay provider and MCP calls;');
+  console.log('                       --approval-timeout <ms> denies tool calls left unapproved)');
+  console.log('  import <file>        Import a YAML/JSON spec file');
+  console.log('  export <id> <file>   Export a stored swarm to a YAML/JSON spec file');
   console.log('  config [options]     Configure API keys and settings');
   console.log('  presets [options]    Manage model presets');
   console.log('  servers [options]    Manage MCP servers');
+  console.log('  sessions [options]   Manage conversation sessions');
   console.log('  ui                   Start the Swarm-Builder UI');
   console.log('  --version, -v        Show version');
   console.log('  --help, -h           Show help');
@@ -278,10 +686,14 @@ function showHelp(): void {
   console.log('    --view                    View config');
   console.log('\n  presets:');
   console.log('    --list                     List model presets');
+  console.log('    --catalog                  List known models with pricing');
   console.log('    --add=JSON                 Add a model preset');
   console.log('    --delete=ID                Delete a model preset');
   console.log('\n  servers:');
   console.log('    --list                     List MCP servers');
   console.log('    --add=JSON                 Add an MCP server');
   console.log('    --delete=ID                Delete an MCP server');
+  console.log('\n  sessions:');
+  console.log('    --list [--spec=ID]         List sessions, optionally of one swarm');
+  console.log('    --delete=ID                Delete a session');
 }
@@ -1,5 +1,9 @@
 // MCP Client and interfaces
 
+import { Cassette } from '../replay';
+import { ParameterConstraint } from '../models';
+import { MCPPermissionManager } from './mcp-permission-manager';
+
 /**
  * Options for the MCP client
  */
@@ -12,6 +16,17 @@ export interface MCPClientOptions {
     type: 'basic' | 'token' | 'oauth';
     credentials: any;
   };
+  permissionManager?: MCPPermissionManager; // Checks every tool call and records its usage (default: calls are not checked)
+}
+
+/**
+ * Who makes a tool call, and how
+ */
+export interface MCPToolContext {
+  agentId?: string;          // Calling agent; required when the client checks permissions
+  sessionId?: string;        // Session whose usage limits apply
+  signal?: AbortSignal;      // Cancels the call
+  approve?: (params: any) => Promise<ApprovalResult>; // Asks a reviewer when the tool requires approval
 }
 
 /**
@@ -23,6 +38,7 @@ export interface MCPServerConnectionOptions {
   keepAlive?: boolean;
   reconnect?: boolean;
   maxReconnectAttempts?: number;
+  cassette?: Cassette;       // Records or replays the server's capabilities and tool calls
 }
 
 /**
@@ -47,14 +63,27 @@ export interface MCPTool {
     version?: string;
     permissions?: string[];
     costEstimate?: string;
+    sideEffects?: boolean;   // Calls change external state, so they must not be repeated blindly
   };
 }
 
+/**
+ * Why a tool call was refused before it ran
+ */
+export interface MCPToolError {
+  code: 'permission_denied' | 'approval_required' | 'approval_denied';
+  message: string;
+  tool_id: string;
+  agent_id?: string;
+  rule?: string;             // Policy rule that refused the call
+}
+
 /**
  * Result of an MCP tool execution
  */
 export interface MCPToolResult {
-  data: any;                 // Result data
+  data: any;                 // Result data (null when the call was refused)
+  error?: MCPToolError;      // Set when the call was refused
   metadata?: {               // Result metadata
     cost?: number;           // Cost of execution
     latency?: number;        // Execution time in ms
@@ -88,6 +117,137 @@ export interface PermissionCheckResult {
   allowed: boolean;          // Whether the operation is allowed
   reason?: string;           // Reason if not allowed
   requiresApproval?: boolean; // Whether approval is required
+  rule?: string;             // Policy rule, or allow rules, that refused the call
+}
+
+/**
+ * A tool policy with its globs and patterns compiled, ready to evaluate
+ */
+export interface CompiledToolPolicy {
+  allow: CompiledPolicyRule[];
+  deny: CompiledPolicyRule[];
+}
+
+/**
+ * A policy rule with its globs and patterns compiled
+ */
+export interface CompiledPolicyRule {
+  label: string;             // Name given in refusals: the rule ID, or e.g. "deny[0]"
+  tools: { matcher: RegExp; qualified: boolean }[]; // Tool globs; qualified ones match tool IDs
+  params: [string, CompiledParameterConstraint][]; // Constraints by parameter name
+}
+
+/**
+ * A parameter constraint with its globs and patterns compiled
+ */
+export interface CompiledParameterConstraint {
+  constraint: ParameterConstraint;
+  pattern?: RegExp;          // Compiled constraint.pattern
+  globs?: RegExp[];          // Compiled constraint.glob
+  urlHosts?: RegExp[];       // Compiled constraint.urlHost, case-insensitive
+}
+
+/**
+ * How a reviewer decided on a tool call: run it once, run it and every
+ * later call of the tool by the agent in the session, refuse it, or run it
+ * with changed parameters
+ */
+export type ApprovalAction = 'approve_once' | 'approve_session' | 'deny' | 'edit';
+
+/**
+ * A reviewer's decision on a tool call
+ */
+export interface ApprovalDecision {
+  action: ApprovalAction;
+  params?: any;              // Parameters to run the call with (edit)
+  reason?: string;           // Why; a denial reason is reported to the agent
+}
+
+/**
+ * A tool call waiting for a decision
+ */
+export interface ApprovalRequest {
+  id: string;
+  session_id: string;
+  agent_id: string;
+  tool_id: string;
+  params: any;
+  requested_at: number;
+  expires_at: number | null; // When the default response applies; null without a timeout
+}
+
+/**
+ * What made a decision: a reviewer, an earlier approve_session decision,
+ * autoApproveParams, or the default response after a timeout or without a
+ * reviewer
+ */
+export type ApprovalSource = 'reviewer' | 'session' | 'auto' | 'timeout' | 'default';
+
+/**
+ * Record of a decision on a tool call
+ */
+export interface ApprovalRecord {
+  request_id: string;
+  session_id: string;
+  agent_id: string;
+  tool_id: string;
+  params: any;               // Parameters the agent asked for
+  action: ApprovalAction;
+  approved: boolean;
+  approved_params?: any;     // Parameters the call runs with, if approved
+  source: ApprovalSource;
+  reason?: string;
+  requested_at: number;
+  decided_at: number;
+}
+
+/**
+ * Outcome of an approval request
+ */
+export interface ApprovalResult {
+  approved: boolean;
+  params: any;               // Parameters to run the call with
+  record: ApprovalRecord;
+}
+
+/**
+ * Front end that asks a reviewer about a tool call
+ *
+ * The signal is aborted once the request no longer needs an answer, e.g.
+ * after a timeout or when the message is cancelled.
+ */
+export type ApprovalHandler = (request: ApprovalRequest, signal: AbortSignal) => Promise<ApprovalDecision>;
+
+/**
+ * Options for approving tool calls
+ */
+export interface MCPApprovalOptions {
+  timeout?: number;          // Approval timeout in ms (default: wait for the reviewer)
+  autoApproveParams?: Record<string, any>; // Calls whose parameters have all of these values need no approval
+  defaultResponse?: 'approve' | 'deny'; // Decision after a timeout or without a reviewer (default: deny)
+}
+
+/**
+ * Sends approval requests over IPC, e.g. an Electron WebContents
+ */
+export interface ApprovalIpcSender {
+  send(channel: string, ...args: any[]): void;
+}
+
+/**
+ * Receives decisions over IPC, e.g. Electron's ipcMain
+ */
+export interface ApprovalIpcReceiver {
+  on(channel: string, listener: (event: any, ...args: any[]) => void): any;
+  removeListener(channel: string, listener: (event: any, ...args: any[]) => void): any;
+}
+
+/**
+ * A decision sent back over IPC
+ */
+export interface ApprovalIpcDecision {
+  request_id: string;
+  decision: ApprovalDecision;
 }
 
 /**
@@ -120,4 +280,12 @@ export { MCPClient } from './mcp-client';
 export { MCPServerConnection } from './mcp-server-connection';
 export { MCPToolRegistry } from './mcp-tool-registry';
 export { MCPPermissionManager } from './mcp-permission-manager';
+export { compileToolPolicy, evaluateToolPolicy } from './mcp-tool-policy';
+export { MCPApprovalManager, MCPApprovalManagerOptions } from './mcp-approval-manager';
+export {
+  MCPApprovalIpcChannel,
+  APPROVAL_REQUEST_CHANNEL,
+  APPROVAL_DECISION_CHANNEL,
+  APPROVAL_CANCEL_CHANNEL
+} from './mcp-approval-ipc';
 export { MCPServerRegistry } from './mcp-server-registry';
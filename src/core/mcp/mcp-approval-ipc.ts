@@ -0,0 +1,104 @@
+import {
+  ApprovalDecision,
+  ApprovalHandler,
+  ApprovalIpcDecision,
+  ApprovalIpcReceiver,
+  ApprovalIpcSender,
+  ApprovalRequest
+} from './index';
+
+// Main process to UI: an ApprovalRequest to show
+export const APPROVAL_REQUEST_CHANNEL = 'swarm:approval-request';
+
+// UI to main process: an ApprovalIpcDecision
+export const APPROVAL_DECISION_CHANNEL = 'swarm:approval-decision';
+
+// Main process to UI: { request_id } of a request that no longer needs an answer
+export const APPROVAL_CANCEL_CHANNEL = 'swarm:approval-cancel';
+
+/**
+ * Approval front end for the Electron UI
+ *
+ * Requests are sent to the UI on APPROVAL_REQUEST_CHANNEL; the UI answers
+ * with an ApprovalIpcDecision on APPROVAL_DECISION_CHANNEL, e.g.
+ * `ipcRenderer.send(APPROVAL_DECISION_CHANNEL, { request_id, decision })`.
+ * Requests settled without an answer, by a timeout or a cancelled message,
+ * are withdrawn on APPROVAL_CANCEL_CHANNEL.
+ */
+export class MCPApprovalIpcChannel {
+  private sender: ApprovalIpcSender;
+  private receiver: ApprovalIpcReceiver;
+  private pending: Map<string, { resolve: (decision: ApprovalDecision) => void; reject: (reason: any) => void }>;
+  private listener: (event: any, message: ApprovalIpcDecision) => void;
+
+  /**
+   * Create a channel sending requests with `sender` and receiving decisions with `receiver`
+   */
+  constructor(sender: ApprovalIpcSender, receiver: ApprovalIpcReceiver) {
+    this.sender = sender;
+    this.receiver = receiver;
+    this.pending = new Map();
+    this.listener = (event, message) => this.handleDecision(message);
+
+    this.receiver.on(APPROVAL_DECISION_CHANNEL, this.listener);
+  }
+
+  /**
+   * Get the channel as an approval handler
+   */
+  getHandler(): ApprovalHandler {
+    return (request, signal) => this.requestApproval(request, signal);
+  }
+
+  /**
+   * Send a request to the UI and wait for its decision
+   */
+  requestApproval(request: ApprovalRequest, signal: AbortSignal): Promise<ApprovalDecision> {
+    return new Promise((resolve, reject) => {
+      if (signal.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const onAbort = () => {
+        if (this.pending.delete(request.id)) {
+          this.sender.send(APPROVAL_CANCEL_CHANNEL, { request_id: request.id });
+          reject(signal.reason);
+        }
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      this.pending.set(request.id, {
+        resolve: decision => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(decision);
+        },
+        reject
+      });
+      this.sender.send(APPROVAL_REQUEST_CHANNEL, request);
+    });
+  }
+
+  /**
+   * Stop listening for decisions, failing requests still waiting
+   */
+  dispose(): void {
+    this.receiver.removeListener(APPROVAL_DECISION_CHANNEL, this.listener);
+
+    for (const [id, request] of this.pending.entries()) {
+      request.reject(new Error('Approval channel closed'));
+      this.pending.delete(id);
+    }
+  }
+
+  /**
+   * Settle the request a decision answers; unknown or late decisions are ignored
+   */
+  private handleDecision(message: ApprovalIpcDecision): void {
+    const request = message && this.pending.get(message.request_id);
+    if (!request) return;
+
+    this.pending.delete(message.request_id);
+    request.resolve(message.decision);
+  }
+}
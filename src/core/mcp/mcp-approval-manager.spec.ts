@@ -0,0 +1,144 @@
+import { MCPApprovalManager } from './mcp-approval-manager';
+import { ApprovalDecision, ApprovalHandler, ApprovalRequest } from './index';
+
+/**
+ * Build a handler that answers every request with a decision and keeps the requests
+ */
+function answer(decision: ApprovalDecision): { handler: ApprovalHandler; requests: ApprovalRequest[] } {
+  const requests: ApprovalRequest[] = [];
+  const handler: ApprovalHandler = async request => {
+    requests.push(request);
+    return decision;
+  };
+
+  return { handler, requests };
+}
+
+describe('MCPApprovalManager', () => {
+  it('passes the reviewer decision on and records it', async () => {
+    const { handler, requests } = answer({ action: 'approve_once' });
+    const manager = new MCPApprovalManager({ handler });
+
+    const result = await manager.requestApproval('agent', 'fs:write', { path: 'a' }, undefined, { sessionId: 's1' });
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0]).toMatchObject({ session_id: 's1', agent_id: 'agent', tool_id: 'fs:write', params: { path: 'a' }, expires_at: null });
+    expect(result).toMatchObject({ approved: true, params: { path: 'a' } });
+    expect(result.record).toMatchObject({ action: 'approve_once', approved: true, source: 'reviewer', approved_params: { path: 'a' } });
+    expect(manager.getRecords('s1')).toEqual([result.record]);
+  });
+
+  it('runs an edited call with the edited parameters', async () => {
+    const manager = new MCPApprovalManager({ handler: answer({ action: 'edit', params: { path: 'safe' } }).handler });
+
+    const result = await manager.requestApproval('agent', 'fs:write', { path: 'unsafe' });
+
+    expect(result.approved).toBe(true);
+    expect(result.params).toEqual({ path: 'safe' });
+    expect(result.record).toMatchObject({ params: { path: 'unsafe' }, approved_params: { path: 'safe' } });
+  });
+
+  it('reports the reason of a denial', async () => {
+    const manager = new MCPApprovalManager({ handler: answer({ action: 'deny', reason: 'Too risky' }).handler });
+
+    const result = await manager.requestApproval('agent', 'fs:delete', {});
+
+    expect(result.approved).toBe(false);
+    expect(result.record).toMatchObject({ action: 'deny', reason: 'Too risky', source: 'reviewer' });
+    expect(result.record).not.toHaveProperty('approved_params');
+  });
+
+  it('denies invalid decisions', async () => {
+    const manager = new MCPApprovalManager({ handler: answer({ action: 'edit' }).handler });
+
+    const result = await manager.requestApproval('agent', 'fs:write', {});
+
+    expect(result.record).toMatchObject({ approved: false, source: 'default', reason: 'Invalid approval decision' });
+  });
+
+  it('denies when the handler fails', async () => {
+    const manager = new MCPApprovalManager({ handler: async () => { throw new Error('UI closed'); } });
+
+    const result = await manager.requestApproval('agent', 'fs:write', {});
+
+    expect(result.record).toMatchObject({ approved: false, source: 'default', reason: 'Approval failed: UI closed' });
+  });
+
+  it('approves a tool for the rest of a session after approve_session', async () => {
+    const { handler, requests } = answer({ action: 'approve_session' });
+    const manager = new MCPApprovalManager({ handler });
+
+    await manager.requestApproval('agent', 'fs:write', {}, undefined, { sessionId: 's1' });
+    const again = await manager.requestApproval('agent', 'fs:write', {}, undefined, { sessionId: 's1' });
+    await manager.requestApproval('agent', 'fs:write', {}, undefined, { sessionId: 's2' });
+    await manager.requestApproval('other', 'fs:write', {}, undefined, { sessionId: 's1' });
+
+    expect(again.record).toMatchObject({ approved: true, source: 'session' });
+    expect(requests.map(request => [request.session_id, request.agent_id])).toEqual([['s1', 'agent'], ['s2', 'agent'], ['s1', 'other']]);
+  });
+
+  it('restores approve_session grants of a resumed session and forgets them when it ends', async () => {
+    const first = new MCPApprovalManager({ handler: answer({ action: 'approve_session' }).handler });
+    await first.requestApproval('agent', 'fs:write', {}, undefined, { sessionId: 's1' });
+
+    const { handler, requests } = answer({ action: 'deny' });
+    const second = new MCPApprovalManager({ handler });
+    second.startSession('s1', first.getRecords('s1'));
+
+    expect((await second.requestApproval('agent', 'fs:write', {}, undefined, { sessionId: 's1' })).approved).toBe(true);
+    expect(requests).toHaveLength(0);
+
+    second.endSession('s1');
+    expect(second.getRecords('s1')).toEqual([]);
+    expect((await second.requestApproval('agent', 'fs:write', {}, undefined, { sessionId: 's1' })).approved).toBe(false);
+  });
+
+  it('approves calls matching autoApproveParams without asking', async () => {
+    const { handler, requests } = answer({ action: 'deny' });
+    const manager = new MCPApprovalManager({ handler, defaults: { autoApproveParams: { dry_run: true } } });
+
+    const auto = await manager.requestApproval('agent', 'deploy', { dry_run: true, target: 'prod' });
+    const asked = await manager.requestApproval('agent', 'deploy', { dry_run: false });
+
+    expect(auto.record).toMatchObject({ approved: true, source: 'auto' });
+    expect(asked.approved).toBe(false);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('applies the default response without a reviewer', async () => {
+    const manager = new MCPApprovalManager();
+
+    const denied = await manager.requestApproval('agent', 'deploy', {});
+    const approved = await manager.requestApproval('agent', 'deploy', {}, { defaultResponse: 'approve' });
+
+    expect(denied.record).toMatchObject({ approved: false, source: 'default', reason: 'No reviewer is available' });
+    expect(approved.record).toMatchObject({ approved: true, source: 'default' });
+  });
+
+  it('applies the default response after a timeout and tells the front end to stop asking', async () => {
+    let frontEndSignal: AbortSignal | undefined;
+    const manager = new MCPApprovalManager({
+      handler: (request, signal) => {
+        frontEndSignal = signal;
+        return new Promise(() => undefined);
+      }
+    });
+
+    const result = await manager.requestApproval('agent', 'deploy', {}, { timeout: 20, defaultResponse: 'approve' });
+
+    expect(result.record).toMatchObject({ approved: true, source: 'timeout', reason: 'No decision within 20 ms' });
+    expect(result.record.requested_at).toBeLessThanOrEqual(result.record.decided_at);
+    expect(frontEndSignal?.aborted).toBe(true);
+  });
+
+  it('rejects with the reason of an aborted signal while waiting', async () => {
+    const manager = new MCPApprovalManager({ handler: () => new Promise(() => undefined) });
+    const controller = new AbortController();
+
+    const result = manager.requestApproval('agent', 'deploy', {}, undefined, { signal: controller.signal });
+    controller.abort(new Error('cancelled'));
+
+    await expect(result).rejects.toThrow('cancelled');
+    expect(manager.getRecords()).toEqual([]);
+  });
+});
@@ -0,0 +1,237 @@
+import { randomUUID } from 'crypto';
+import { isDeepStrictEqual } from 'util';
+import {
+  ApprovalDecision,
+  ApprovalHandler,
+  ApprovalRecord,
+  ApprovalRequest,
+  ApprovalResult,
+  ApprovalSource,
+  MCPApprovalOptions
+} from './index';
+
+export interface MCPApprovalManagerOptions {
+  handler?: ApprovalHandler;      // Front end asking a reviewer (default: none, so the default response applies)
+  defaults?: MCPApprovalOptions;  // Options of every request, overridden per request
+}
+
+// Session of callers that do not name one
+const DEFAULT_SESSION = '';
+
+const ACTIONS = ['approve_once', 'approve_session', 'deny', 'edit'];
+
+/**
+ * Manager for human approval of MCP tool calls
+ *
+ * Requests go to a pluggable front end (a CLI prompt, a callback or the
+ * Electron UI over IPC). Every decision is recorded, including those made
+ * by an earlier approve_session decision, autoApproveParams or the default
+ * response.
+ */
+export class MCPApprovalManager {
+  private handler: ApprovalHandler | null;
+  private defaults: MCPApprovalOptions;
+  private sessionGrants: Map<string, Set<string>>;
+  private records: ApprovalRecord[];
+
+  constructor(options?: MCPApprovalManagerOptions) {
+    this.handler = options?.handler || null;
+    this.defaults = options?.defaults || {};
+    this.sessionGrants = new Map();
+    this.records = [];
+  }
+
+  /**
+   * Set the front end asking a reviewer, or remove it with null
+   */
+  setHandler(handler: ApprovalHandler | null): void {
+    this.handler = handler;
+  }
+
+  /**
+   * Request approval for a tool call
+   *
+   * Resolves with the decision and the parameters to run the call with.
+   * Rejects with the signal's reason if it is aborted while waiting.
+   */
+  async requestApproval(
+    agentId: string,
+    toolId: string,
+    params: any,
+    options?: MCPApprovalOptions,
+    context?: { sessionId?: string; signal?: AbortSignal }
+  ): Promise<ApprovalResult> {
+    const { timeout, autoApproveParams, defaultResponse } = { ...this.defaults, ...options };
+    const sessionId = context?.sessionId ?? DEFAULT_SESSION;
+    const signal = context?.signal;
+
+    if (signal?.aborted) {
+      throw signal.reason;
+    }
+
+    const requestedAt = Date.now();
+    const request: ApprovalRequest = {
+      id: randomUUID(),
+      session_id: sessionId,
+      agent_id: agentId,
+      tool_id: toolId,
+      params,
+      requested_at: requestedAt,
+      expires_at: timeout ? requestedAt + timeout : null
+    };
+
+    // Decisions that need no reviewer
+    if (this.sessionGrants.get(sessionId)?.has(grantKey(agentId, toolId))) {
+      return this.decide(request, { action: 'approve_once' }, 'session');
+    }
+
+    if (autoApproveParams && Object.keys(autoApproveParams).length > 0 &&
+        Object.entries(autoApproveParams).every(([key, value]) => isDeepStrictEqual(params?.[key], value))) {
+      return this.decide(request, { action: 'approve_once' }, 'auto');
+    }
+
+    const fallback: ApprovalDecision = { action: defaultResponse === 'approve' ? 'approve_once' : 'deny' };
+
+    if (!this.handler) {
+      return this.decide(request, { ...fallback, reason: 'No reviewer is available' }, 'default');
+    }
+
+    let decision: ApprovalDecision | null;
+    try {
+      decision = await this.waitForDecision(this.handler, request, timeout, signal);
+    } catch (error: any) {
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+      return this.decide(request, { action: 'deny', reason: `Approval failed: ${error?.message || error}` }, 'default');
+    }
+
+    if (decision === null) {
+      return this.decide(request, { ...fallback, reason: `No decision within ${timeout} ms` }, 'timeout');
+    }
+
+    if (!ACTIONS.includes(decision?.action) ||
+        (decision.action === 'edit' && (typeof decision.params !== 'object' || decision.params === null))) {
+      return this.decide(request, { action: 'deny', reason: 'Invalid approval decision' }, 'default');
+    }
+
+    return this.decide(request, decision, 'reviewer');
+  }
+
+  /**
+   * Get recorded decisions, optionally of one session
+   */
+  getRecords(sessionId?: string): ApprovalRecord[] {
+    return this.records.filter(record => sessionId === undefined || record.session_id === sessionId);
+  }
+
+  /**
+   * Start tracking a session, restoring its approve_session decisions
+   */
+  startSession(sessionId: string, records?: ApprovalRecord[]): void {
+    const grants = new Set<string>();
+
+    for (const record of records || []) {
+      if (record.action === 'approve_session' && record.approved) {
+        grants.add(grantKey(record.agent_id, record.tool_id));
+      }
+    }
+
+    this.sessionGrants.set(sessionId, grants);
+  }
+
+  /**
+   * Forget a session's grants and records once it has ended
+   */
+  endSession(sessionId: string): void {
+    this.sessionGrants.delete(sessionId);
+    this.records = this.records.filter(record => record.session_id !== sessionId);
+  }
+
+  /**
+   * Ask the handler, resolving with null if the timeout passes first
+   */
+  private waitForDecision(
+    handler: ApprovalHandler,
+    request: ApprovalRequest,
+    timeout: number | undefined,
+    signal: AbortSignal | undefined
+  ): Promise<ApprovalDecision | null> {
+    return new Promise((resolve, reject) => {
+      // Tells the front end to stop asking once the request is settled
+      const controller = new AbortController();
+      let timer: NodeJS.Timeout | null = null;
+
+      const finish = () => {
+        if (timer) clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        controller.abort();
+      };
+      const onAbort = () => {
+        finish();
+        reject(signal!.reason);
+      };
+
+      if (timeout) {
+        timer = setTimeout(() => {
+          finish();
+          resolve(null);
+        }, timeout);
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      handler(request, controller.signal).then(
+        decision => {
+          finish();
+          resolve(decision);
+        },
+        error => {
+          finish();
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Record a decision and apply an approve_session grant
+   */
+  private decide(request: ApprovalRequest, decision: ApprovalDecision, source: ApprovalSource): ApprovalResult {
+    const approved = decision.action !== 'deny';
+    const params = decision.action === 'edit' ? decision.params : request.params;
+
+    if (decision.action === 'approve_session') {
+      let grants = this.sessionGrants.get(request.session_id);
+      if (!grants) {
+        grants = new Set();
+        this.sessionGrants.set(request.session_id, grants);
+      }
+      grants.add(grantKey(request.agent_id, request.tool_id));
+    }
+
+    const record: ApprovalRecord = {
+      request_id: request.id,
+      session_id: request.session_id,
+      agent_id: request.agent_id,
+      tool_id: request.tool_id,
+      params: request.params,
+      action: decision.action,
+      approved,
+      ...(approved ? { approved_params: params } : {}),
+      source,
+      ...(decision.reason ? { reason: decision.reason } : {}),
+      requested_at: request.requested_at,
+      decided_at: Date.now()
+    };
+    this.records.push(record);
+
+    return { approved, params, record };
+  }
+}
+
+/**
+ * Key of an approve_session grant
+ */
+function grantKey(agentId: string, toolId: string): string {
+  return `${agentId}\u0000${toolId}`;
+}
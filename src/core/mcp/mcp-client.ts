@@ -1,4 +1,5 @@
-import { MCPClientOptions, MCPTool, MCPToolResult, MCPToolFilter } from './index';
+import { isDeepStrictEqual } from 'util';
+import { MCPClientOptions, MCPTool, MCPToolResult, MCPToolFilter, MCPToolContext, MCPToolError } from './index';
 import { MCPServerConnection } from './mcp-server-connection';
 import { MCPToolRegistry } from './mcp-tool-registry';
 
@@ -84,11 +85,15 @@ export class MCPClient {
   
   /**
    * Execute a tool
+   *
+   * With a permission manager, the call must name its agent and pass
+   * checkPermission, and its usage is recorded afterwards. A refused call
+   * resolves with a result whose `error` says why, rather than throwing.
    */
   async executeTool(
     toolId: string, 
     params: any, 
-    context?: any
+    context?: MCPToolContext
   ): Promise<MCPToolResult> {
     const tool = this.toolRegistry.getTool(toolId);
     if (!tool) {
@@ -100,6 +105,82 @@ export class MCPClient {
       throw new Error(`Server for tool ${toolId} not connected`);
     }
     
-    return await connection.executeTool(tool.name, params, context);
+    const permissionManager = this.options.permissionManager;
+    if (!permissionManager) {
+      return await connection.executeTool(tool.name, params, context);
+    }
+    
+    const agentId = context?.agentId;
+    if (!agentId) {
+      return refuse({ code: 'permission_denied', message: 'Tool calls must name the calling agent', tool_id: toolId });
+    }
+    
+    const sessionId = context?.sessionId;
+    const permission = permissionManager.checkPermission(agentId, toolId, params, sessionId);
+    if (!permission.allowed) {
+      return refuse({
+        code: 'permission_denied',
+        message: permission.reason || 'Permission denied',
+        tool_id: toolId,
+        agent_id: agentId,
+        ...(permission.rule ? { rule: permission.rule } : {})
+      });
+    }
+    
+    let callParams = params;
+    if (permission.requiresApproval) {
+      if (!context?.approve) {
+        return refuse({
+          code: 'approval_required',
+          message: 'The call needs approval, but no reviewer can be asked',
+          tool_id: toolId,
+          agent_id: agentId
+        });
+      }
+      
+      const approval = await context.approve(params);
+      if (!approval.approved) {
+        return refuse({
+          code: 'approval_denied',
+          message: approval.record.reason || 'The call was not approved',
+          tool_id: toolId,
+          agent_id: agentId
+        });
+      }
+      callParams = approval.params;
+      
+      // Parameters a reviewer edited must still pass the agent's policy
+      if (!isDeepStrictEqual(callParams, params)) {
+        const edited = permissionManager.checkPermission(agentId, toolId, callParams, sessionId);
+        if (!edited.allowed) {
+          return refuse({
+            code: 'permission_denied',
+            message: `Edited parameters: ${edited.reason || 'Permission denied'}`,
+            tool_id: toolId,
+            agent_id: agentId,
+            ...(edited.rule ? { rule: edited.rule } : {})
+          });
+        }
+      }
+    }
+    
+    // A failed call still counts against the call limit
+    let result: MCPToolResult;
+    try {
+      result = await connection.executeTool(tool.name, callParams, context);
+    } catch (error) {
+      permissionManager.recordToolUsage(agentId, toolId, 0, sessionId);
+      throw error;
+    }
+    
+    permissionManager.recordToolUsage(agentId, toolId, result.metadata?.cost, sessionId);
+    return result;
   }
 }
+
+/**
+ * Build the result of a refused call
+ */
+function refuse(error: MCPToolError): MCPToolResult {
+  return { data: null, error };
+}
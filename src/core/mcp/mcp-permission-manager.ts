@@ -1,4 +1,6 @@
-import { PermissionCheckResult } from './index';
+import { ToolPolicy } from '../models';
+import { CompiledToolPolicy, PermissionCheckResult } from './index';
+import { compileToolPolicy, evaluateToolPolicy } from './mcp-tool-policy';
 
 export interface MCPPermissionOptions {
   requireApproval?: boolean;      // Require user approval
@@ -7,18 +9,32 @@ export interface MCPPermissionOptions {
   allowedParameters?: string[];   // Allowed parameters (others filtered)
 }
 
+// Session of callers that do not name one
+const DEFAULT_SESSION = '';
+
+/**
+ * Usage counters of one session, by agent and tool
+ */
+interface SessionUsage {
+  callCounts: Map<string, Map<string, number>>;
+  costTracking: Map<string, Map<string, number>>;
+}
+
 /**
  * Manager for MCP tool permissions
+ *
+ * Permissions are shared; the usage that per-session limits are checked
+ * against is counted separately for every session.
  */
 export class MCPPermissionManager {
   private permissions: Map<string, Map<string, MCPPermissionOptions>>;
-  private callCounts: Map<string, Map<string, number>>;
-  private costTracking: Map<string, Map<string, number>>;
+  private policies: Map<string, CompiledToolPolicy>;
+  private sessions: Map<string, SessionUsage>;
   
   constructor() {
     this.permissions = new Map();
-    this.callCounts = new Map();
-    this.costTracking = new Map();
+    this.policies = new Map();
+    this.sessions = new Map();
   }
   
   /**
@@ -38,13 +54,28 @@ export class MCPPermissionManager {
     agentPermissions.set(toolId, options);
   }
   
+  /**
+   * Set the policy on an agent's tool call arguments, or remove it with null
+   *
+   * The policy is compiled here, so an invalid pattern throws now rather
+   * than on a call.
+   */
+  setPolicy(agentId: string, policy: ToolPolicy | null): void {
+    if (policy) {
+      this.policies.set(agentId, compileToolPolicy(policy));
+    } else {
+      this.policies.delete(agentId);
+    }
+  }
+  
   /**
    * Check if an agent has permission to use a tool
    */
   checkPermission(
     agentId: string,
     toolId: string,
-    params?: any
+    params?: any,
+    sessionId: string = DEFAULT_SESSION
   ): PermissionCheckResult {
     // Get agent permissions
     const agentPermissions = this.permissions.get(agentId);
@@ -60,7 +91,7 @@ export class MCPPermissionManager {
     
     // Check call count limit
     if (toolPermissions.maxCallsPerSession) {
-      const callCount = this.getCallCount(agentId, toolId);
+      const callCount = this.getCallCount(sessionId, agentId, toolId);
       if (callCount >= toolPermissions.maxCallsPerSession) {
         return { 
           allowed: false, 
@@ -71,7 +102,7 @@ export class MCPPermissionManager {
     
     // Check cost limit
     if (toolPermissions.maxCostPerSession) {
-      const cost = this.getCost(agentId, toolId);
+      const cost = this.getCost(sessionId, agentId, toolId);
       if (cost >= toolPermissions.maxCostPerSession) {
         return { 
           allowed: false, 
@@ -95,6 +126,15 @@ export class MCPPermissionManager {
       }
     }
     
+    // Check the arguments against the agent's policy
+    const policy = this.policies.get(agentId);
+    if (policy) {
+      const decision = evaluateToolPolicy(policy, toolId, params);
+      if (!decision.allowed) {
+        return decision;
+      }
+    }
+    
     // Check if approval is required
     if (toolPermissions.requireApproval) {
       return { 
@@ -107,59 +147,83 @@ export class MCPPermissionManager {
   }
   
   /**
-   * Record tool usage
+   * Record tool usage in a session
    */
   recordToolUsage(
     agentId: string,
     toolId: string,
-    cost?: number
+    cost?: number,
+    sessionId: string = DEFAULT_SESSION
   ): void {
+    const usage = this.getSessionUsage(sessionId);
+    
     // Record call count
-    if (!this.callCounts.has(agentId)) {
-      this.callCounts.set(agentId, new Map());
+    if (!usage.callCounts.has(agentId)) {
+      usage.callCounts.set(agentId, new Map());
     }
     
-    const agentCallCounts = this.callCounts.get(agentId)!;
+    const agentCallCounts = usage.callCounts.get(agentId)!;
     const currentCount = agentCallCounts.get(toolId) || 0;
     agentCallCounts.set(toolId, currentCount + 1);
     
     // Record cost
     if (cost) {
-      if (!this.costTracking.has(agentId)) {
-        this.costTracking.set(agentId, new Map());
+      if (!usage.costTracking.has(agentId)) {
+        usage.costTracking.set(agentId, new Map());
       }
       
-      const agentCosts = this.costTracking.get(agentId)!;
+      const agentCosts = usage.costTracking.get(agentId)!;
       const currentCost = agentCosts.get(toolId) || 0;
       agentCosts.set(toolId, currentCost + cost);
     }
   }
   
   /**
-   * Get the call count for an agent and tool
+   * Get the call count for an agent and tool in a session
    */
-  private getCallCount(agentId: string, toolId: string): number {
-    const agentCallCounts = this.callCounts.get(agentId);
+  private getCallCount(sessionId: string, agentId: string, toolId: string): number {
+    const agentCallCounts = this.sessions.get(sessionId)?.callCounts.get(agentId);
     if (!agentCallCounts) return 0;
     
     return agentCallCounts.get(toolId) || 0;
   }
   
   /**
-   * Get the total cost for an agent and tool
+   * Get the total cost for an agent and tool in a session
    */
-  private getCost(agentId: string, toolId: string): number {
-    const agentCosts = this.costTracking.get(agentId);
+  private getCost(sessionId: string, agentId: string, toolId: string): number {
+    const agentCosts = this.sessions.get(sessionId)?.costTracking.get(agentId);
     if (!agentCosts) return 0;
     
     return agentCosts.get(toolId) || 0;
   }
   
+  /**
+   * Get the usage counters of a session, creating them on first use
+   */
+  private getSessionUsage(sessionId: string): SessionUsage {
+    let usage = this.sessions.get(sessionId);
+    if (!usage) {
+      usage = { callCounts: new Map(), costTracking: new Map() };
+      this.sessions.set(sessionId, usage);
+    }
+    
+    return usage;
+  }
+  
   /**
    * Reset session counters for an agent
    */
-  resetSession(agentId: string): void {
-    this.callCounts.delete(agentId);
-    this.costTracking.delete(agentId);
+  resetSession(agentId: string, sessionId: string = DEFAULT_SESSION): void {
+    const usage = this.sessions.get(sessionId);
+    usage?.callCounts.delete(agentId);
+    usage?.costTracking.delete(agentId);
+  }
+  
+  /**
+   * Forget all counters of a session once it has ended
+   */
+  endSession(sessionId: string): void {
+    this.sessions.delete(sessionId);
   }
 }
\ No newline at end of file
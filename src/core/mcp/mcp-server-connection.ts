@@ -1,4 +1,4 @@
-import { MCPServerConnectionOptions, ConnectionStatus, MCPToolResult } from './index';
+import { MCPServerConnectionOptions, ConnectionStatus, MCPToolResult, MCPToolContext } from './index';
 
 /**
  * Represents a connection to an MCP server
@@ -39,8 +39,13 @@ export class MCPServerConnection {
     
     this.status = ConnectionStatus.CONNECTING;
     
+    const cassette = this.options.cassette;
+    
     try {
-      if (this.options.transport === 'websocket') {
+      if (cassette?.isReplaying()) {
+        // A replayed connection reaches no server
+        this.status = ConnectionStatus.CONNECTED;
+      } else if (this.options.transport === 'websocket') {
         await this.connectWebSocket();
       } else if (this.options.transport === 'http') {
         // HTTP transport doesn't need a persistent connection
@@ -50,7 +55,9 @@ export class MCPServerConnection {
       }
       
       // Fetch server capabilities
-      this.capabilities = await this.fetchCapabilities();
+      this.capabilities = cassette
+        ? await cassette.exchange('server', this.endpoint, null, () => this.fetchCapabilities())
+        : await this.fetchCapabilities();
       
     } catch (error) {
       this.status = ConnectionStatus.ERROR;
@@ -225,14 +232,36 @@ export class MCPServerConnection {
   async executeTool(
     toolName: string, 
     params: any, 
-    context?: any
+    context?: MCPToolContext
   ): Promise<MCPToolResult> {
     if (this.status !== ConnectionStatus.CONNECTED) {
       throw new Error('Not connected to server');
     }
     
-    // For a real implementation, we would send a request to the server
-    // and wait for a response. For demonstration purposes, simulate a response.
+    // context.signal cancels the call
+    const signal = context?.signal;
+    if (signal?.aborted) {
+      throw signal.reason;
+    }
+    
+    const cassette = this.options.cassette;
+    if (cassette) {
+      return cassette.exchange('tool', this.endpoint, { tool: toolName, params }, () => this.callTool(toolName, params, signal));
+    }
+    
+    return this.callTool(toolName, params, signal);
+  }
+  
+  /**
+   * Send a tool call to the MCP server
+   */
+  private async callTool(toolName: string, params: any, signal?: AbortSignal): Promise<MCPToolResult> {
+    // For a real implementation, we would send the call and wait for its response:
+    // return this.sendRequest('tools/call', { name: toolName, arguments: params }, signal);
+    // For demonstration purposes, simulate a response.
+    if (signal?.aborted) {
+      throw signal.reason;
+    }
     
     if (toolName === 'echo' && params.message) {
       return {
@@ -250,12 +279,19 @@ export class MCPServerConnection {
   
   /**
    * Send a request to the MCP server
+   *
+   * Aborting `signal` rejects the request with the signal's reason. The server
+   * is not told, so a cancelled call can still take effect.
    */
-  private async sendRequest(method: string, params: any): Promise<any> {
+  private async sendRequest(method: string, params: any, signal?: AbortSignal): Promise<any> {
     if (this.status !== ConnectionStatus.CONNECTED) {
       throw new Error('Not connected to server');
     }
     
+    if (signal?.aborted) {
+      throw signal.reason;
+    }
+    
     const id = ++this.requestId;
     const timeout = this.options.timeout || 30000;
     
@@ -267,18 +303,35 @@ export class MCPServerConnection {
     };
     
     return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        const request = this.pendingRequests.get(id);
+        if (!request) return;
+        
+        clearTimeout(request.timeout);
+        this.pendingRequests.delete(id);
+        reject(signal!.reason);
+      };
+      
       // Set timeout for the request
       const timeoutId = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
         this.pendingRequests.delete(id);
         reject(new Error(`Request timed out after ${timeout}ms`));
       }, timeout);
       
       // Store the pending request
       this.pendingRequests.set(id, {
-        resolve,
-        reject,
+        resolve: value => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        reject: reason => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(reason);
+        },
         timeout: timeoutId
       });
+      signal?.addEventListener('abort', onAbort, { once: true });
       
       // Send the request
       if (this.options.transport === 'websocket' && this.socket) {
@@ -297,4 +350,4 @@ export class MCPServerConnection {
       }
     });
   }
-}
\ No newline at end of file
+}
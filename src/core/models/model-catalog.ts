@@ -0,0 +1,180 @@
+import { ModelCatalogEntry, ModelCapabilities, ModelPreset, ModelPricing } from './index';
+
+/**
+ * Built-in catalog of known models
+ *
+ * Prices are list prices in USD per million tokens.
+ */
+export const MODEL_CATALOG: ModelCatalogEntry[] = [
+  // Anthropic
+  {
+    provider: 'anthropic',
+    model: 'claude-3-7-sonnet-20250219',
+    display_name: 'Claude 3.7 Sonnet',
+    context_window: 200000,
+    max_output_tokens: 128000,
+    pricing: { input_per_million: 3, output_per_million: 15 },
+    features: ['tools', 'vision', 'streaming', 'extended_thinking']
+  },
+  {
+    provider: 'anthropic',
+    model: 'claude-3-5-sonnet-20241022',
+    display_name: 'Claude 3.5 Sonnet',
+    context_window: 200000,
+    max_output_tokens: 8192,
+    pricing: { input_per_million: 3, output_per_million: 15 },
+    features: ['tools', 'vision', 'streaming']
+  },
+  {
+    provider: 'anthropic',
+    model: 'claude-3-5-haiku-20241022',
+    display_name: 'Claude 3.5 Haiku',
+    context_window: 200000,
+    max_output_tokens: 8192,
+    pricing: { input_per_million: 0.8, output_per_million: 4 },
+    features: ['tools', 'streaming']
+  },
+  {
+    provider: 'anthropic',
+    model: 'claude-3-opus-20240229',
+    display_name: 'Claude 3 Opus',
+    context_window: 200000,
+    max_output_tokens: 4096,
+    pricing: { input_per_million: 15, output_per_million: 75 },
+    features: ['tools', 'vision', 'streaming']
+  },
+
+  // OpenAI
+  {
+    provider: 'openai',
+    model: 'gpt-4.1',
+    display_name: 'GPT-4.1',
+    context_window: 1047576,
+    max_output_tokens: 32768,
+    pricing: { input_per_million: 2, output_per_million: 8 },
+    features: ['tools', 'vision', 'streaming', 'json_mode']
+  },
+  {
+    provider: 'openai',
+    model: 'gpt-4.1-mini',
+    display_name: 'GPT-4.1 mini',
+    context_window: 1047576,
+    max_output_tokens: 32768,
+    pricing: { input_per_million: 0.4, output_per_million: 1.6 },
+    features: ['tools', 'vision', 'streaming', 'json_mode']
+  },
+  {
+    provider: 'openai',
+    model: 'gpt-4.1-nano',
+    display_name: 'GPT-4.1 nano',
+    context_window: 1047576,
+    max_output_tokens: 32768,
+    pricing: { input_per_million: 0.1, output_per_million: 0.4 },
+    features: ['tools', 'vision', 'streaming', 'json_mode']
+  },
+  {
+    provider: 'openai',
+    model: 'gpt-4o',
+    display_name: 'GPT-4o',
+    context_window: 128000,
+    max_output_tokens: 16384,
+    pricing: { input_per_million: 2.5, output_per_million: 10 },
+    features: ['tools', 'vision', 'streaming', 'json_mode']
+  },
+  {
+    provider: 'openai',
+    model: 'gpt-4o-mini',
+    display_name: 'GPT-4o mini',
+    context_window: 128000,
+    max_output_tokens: 16384,
+    pricing: { input_per_million: 0.15, output_per_million: 0.6 },
+    features: ['tools', 'vision', 'streaming', 'json_mode']
+  },
+  {
+    provider: 'openai',
+    model: 'o3',
+    display_name: 'o3',
+    context_window: 200000,
+    max_output_tokens: 100000,
+    pricing: { input_per_million: 10, output_per_million: 40 },
+    features: ['tools', 'vision', 'streaming', 'json_mode', 'reasoning']
+  },
+  {
+    provider: 'openai',
+    model: 'o4-mini',
+    display_name: 'o4-mini',
+    context_window: 200000,
+    max_output_tokens: 100000,
+    pricing: { input_per_million: 1.1, output_per_million: 4.4 },
+    features: ['tools', 'vision', 'streaming', 'json_mode', 'reasoning']
+  }
+];
+
+/**
+ * Look up a model in the catalog
+ */
+export function getModelInfo(provider: string, model: string): ModelCatalogEntry | null {
+  return MODEL_CATALOG.find(entry => entry.provider === provider && entry.model === model) || null;
+}
+
+/**
+ * List catalog models, optionally for a single provider
+ */
+export function listCatalogModels(provider?: string): ModelCatalogEntry[] {
+  if (!provider) {
+    return [...MODEL_CATALOG];
+  }
+
+  return MODEL_CATALOG.filter(entry => entry.provider === provider);
+}
+
+/**
+ * Get the capabilities of the model a preset uses
+ *
+ * Catalog models report their catalog features. Other models use the
+ * preset's declared capabilities and are assumed to lack tool calling
+ * unless they declare it.
+ */
+export function getPresetCapabilities(preset: ModelPreset): ModelCapabilities {
+  const info = getModelInfo(preset.provider, preset.model);
+
+  if (info) {
+    return {
+      tool_calling: info.features.includes('tools'),
+      context_window: info.context_window,
+      max_output_tokens: info.max_output_tokens
+    };
+  }
+
+  if (preset.capabilities) {
+    return { ...preset.capabilities };
+  }
+
+  // The mock provider can script tool calls for any model name
+  return { tool_calling: preset.provider === 'mock' };
+}
+
+/**
+ * Get the token pricing of the model a preset uses
+ *
+ * A preset's own `pricing` wins over the catalog. Returns null for models
+ * without known pricing, which are then treated as free.
+ */
+export function getPresetPricing(preset: ModelPreset): ModelPricing | null {
+  if (preset.pricing) {
+    return preset.pricing;
+  }
+
+  return getModelInfo(preset.provider, preset.model)?.pricing || null;
+}
+
+/**
+ * Calculate the cost in USD of a number of input and output tokens
+ */
+export function calculateCost(pricing: ModelPricing | null, inputTokens: number, outputTokens: number): number {
+  if (!pricing) {
+    return 0;
+  }
+
+  return (inputTokens * pricing.input_per_million + outputTokens * pricing.output_per_million) / 1_000_000;
+}
@@ -0,0 +1,118 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ModelPreset } from './index';
+import { BUILTIN_PRESETS, ModelPresetManager } from './model-preset-manager';
+import { getModelInfo } from './model-catalog';
+
+describe('ModelPresetManager', () => {
+  let dataDir: string;
+  let manager: ModelPresetManager;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'model-preset-manager-'));
+    manager = new ModelPresetManager({ dataDir });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Read the custom presets stored on disk
+   */
+  function storedPresets(): ModelPreset[] {
+    return JSON.parse(fs.readFileSync(path.join(dataDir, 'presets.json'), 'utf8')).presets;
+  }
+
+  it('ships built-in presets whose IDs are unique and whose models are in the catalog', async () => {
+    const ids = BUILTIN_PRESETS.map(preset => preset.id);
+    expect(new Set(ids).size).toBe(ids.length);
+
+    for (const preset of BUILTIN_PRESETS.filter(preset => preset.provider !== 'mock')) {
+      expect(getModelInfo(preset.provider, preset.model)).not.toBeNull();
+    }
+
+    expect((await manager.getAllPresets()).map(preset => preset.id)).toEqual(ids);
+    expect(manager.isBuiltinPreset('gpt-4.1')).toBe(true);
+  });
+
+  it('fills in the context window from the catalog', async () => {
+    expect((await manager.getPreset('gpt-4.1'))?.context_window).toBe(1047576);
+    expect((await manager.getPresetModelInfo('claude-haiku-3.5'))?.display_name).toBe('Claude 3.5 Haiku');
+    expect(await manager.getPreset('missing')).toBeNull();
+  });
+
+  it('stores custom presets without catalog fields', async () => {
+    const created = await manager.createPreset({
+      id: 'writer',
+      provider: 'anthropic',
+      model: 'claude-3-5-haiku-20241022',
+      temperature: 0.2,
+      top_p: 1,
+      max_tokens: 1000,
+      context_window: 5
+    });
+
+    expect(created.context_window).toBe(200000);
+    expect(storedPresets()).toEqual([expect.not.objectContaining({ context_window: expect.anything() })]);
+    await expect(manager.createPreset(created)).rejects.toThrow('Preset already exists: writer');
+  });
+
+  it('inherits unset fields but not the description through extends', async () => {
+    await manager.createPreset({ id: 'cold', extends: 'gpt-4.1-mini', temperature: 0 } as ModelPreset);
+
+    expect(await manager.getPreset('cold')).toEqual({
+      id: 'cold',
+      extends: 'gpt-4.1-mini',
+      provider: 'openai',
+      model: 'gpt-4.1-mini',
+      temperature: 0,
+      top_p: 1,
+      max_tokens: 8192,
+      context_window: 1047576
+    });
+  });
+
+  it('overrides a built-in preset on update and restores it on delete', async () => {
+    await manager.updatePreset('gpt-4o', { temperature: 0.1 });
+    expect((await manager.getPreset('gpt-4o'))).toMatchObject({ temperature: 0.1, max_tokens: 4096 });
+
+    await manager.deletePreset('gpt-4o');
+    expect((await manager.getPreset('gpt-4o'))?.temperature).toBe(0.7);
+    await expect(manager.deletePreset('gpt-4o')).rejects.toThrow('Built-in presets cannot be deleted: gpt-4o');
+  });
+
+  it('rejects invalid presets before writing them', async () => {
+    await expect(manager.updatePreset('o3', { max_tokens: 200000 }))
+      .rejects.toThrow('Preset o3: max_tokens 200000 exceeds the 100000 output tokens supported by o3');
+    await expect(manager.createPreset({ id: 'hot', extends: 'gpt-4o', temperature: 3 } as ModelPreset))
+      .rejects.toThrow('Preset hot: temperature must be a number between 0 and 2');
+    await expect(manager.createPreset({
+      id: 'local',
+      provider: 'openai-compatible',
+      model: 'llama',
+      temperature: 0.5,
+      top_p: 1,
+      max_tokens: 100
+    })).rejects.toThrow('Preset local: base_url is required for openai-compatible presets');
+
+    expect(fs.existsSync(path.join(dataDir, 'presets.json'))).toBe(false);
+  });
+
+  it('refuses to delete a preset others extend', async () => {
+    await manager.createPreset({ id: 'base', provider: 'openai', model: 'gpt-4o', temperature: 0.5, top_p: 1, max_tokens: 100 });
+    await manager.createPreset({ id: 'child', extends: 'base', temperature: 0 } as ModelPreset);
+
+    await expect(manager.deletePreset('base')).rejects.toThrow('Preset base is extended by: child');
+    await expect(manager.deletePreset('missing')).rejects.toThrow('Preset not found: missing');
+  });
+
+  it('reports circular inheritance', async () => {
+    fs.writeFileSync(path.join(dataDir, 'presets.json'), JSON.stringify({
+      presets: [{ id: 'a', extends: 'b' }, { id: 'b', extends: 'a' }]
+    }));
+
+    await expect(manager.getPreset('a')).rejects.toThrow('Circular preset inheritance: a -> b -> a');
+  });
+});
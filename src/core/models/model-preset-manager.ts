@@ -0,0 +1,437 @@
+import * as path from 'path';
+import { ModelPreset, ModelCatalogEntry } from './index';
+import { MODEL_CATALOG, getModelInfo } from './model-catalog';
+import { getDataDir, readJsonFile, writeJsonFile } from '../storage';
+
+export interface ModelPresetManagerOptions {
+  dataDir?: string;               // Root data directory (default: ~/.swarm-builder)
+}
+
+/**
+ * On-disk format of the presets file
+ */
+interface PresetFile {
+  presets: ModelPreset[];
+}
+
+/**
+ * Presets that ship with Swarm-Builder, one or more per catalog model
+ */
+export const BUILTIN_PRESETS: ModelPreset[] = [
+  {
+    id: 'claude-sonnet-3.7',
+    provider: 'anthropic',
+    model: 'claude-3-7-sonnet-20250219',
+    temperature: 0.7,
+    top_p: 1.0,
+    max_tokens: 8192,
+    description: 'Claude 3.7 Sonnet - strong code generation and planning'
+  },
+  {
+    id: 'claude-sonnet-3.5',
+    provider: 'anthropic',
+    model: 'claude-3-5-sonnet-20241022',
+    temperature: 0.7,
+    top_p: 1.0,
+    max_tokens: 8192,
+    description: 'Claude 3.5 Sonnet - balanced quality and speed'
+  },
+  {
+    id: 'claude-haiku-3.5',
+    provider: 'anthropic',
+    model: 'claude-3-5-haiku-20241022',
+    temperature: 0.7,
+    top_p: 1.0,
+    max_tokens: 4096,
+    description: 'Claude 3.5 Haiku - fast and inexpensive'
+  },
+  {
+    id: 'claude-opus-3',
+    provider: 'anthropic',
+    model: 'claude-3-opus-20240229',
+    temperature: 0.7,
+    top_p: 1.0,
+    max_tokens: 4096,
+    description: 'Claude 3 Opus - deep analysis on complex tasks'
+  },
+  {
+    id: 'gpt-4.1',
+    provider: 'openai',
+    model: 'gpt-4.1',
+    temperature: 0.7,
+    top_p: 1.0,
+    max_tokens: 8192,
+    description: 'GPT-4.1 - long context, strong instruction following'
+  },
+  {
+    id: 'gpt-4.1-mini',
+    provider: 'openai',
+    model: 'gpt-4.1-mini',
+    temperature: 0.7,
+    top_p: 1.0,
+    max_tokens: 8192,
+    description: 'GPT-4.1 mini - fast and inexpensive'
+  },
+  {
+    id: 'gpt-4.1-nano',
+    provider: 'openai',
+    model: 'gpt-4.1-nano',
+    temperature: 0.7,
+    top_p: 1.0,
+    max_tokens: 4096,
+    description: 'GPT-4.1 nano - lowest cost'
+  },
+  {
+    id: 'gpt-4o',
+    provider: 'openai',
+    model: 'gpt-4o',
+    temperature: 0.7,
+    top_p: 1.0,
+    max_tokens: 4096,
+    description: 'GPT-4o - general purpose multimodal model'
+  },
+  {
+    id: 'gpt-4o-mini',
+    provider: 'openai',
+    model: 'gpt-4o-mini',
+    temperature: 0.7,
+    top_p: 1.0,
+    max_tokens: 4096,
+    description: 'GPT-4o mini - fast and inexpensive'
+  },
+  {
+    id: 'o3',
+    provider: 'openai',
+    model: 'o3',
+    temperature: 1.0,
+    top_p: 1.0,
+    max_tokens: 16384,
+    description: 'o3 - reasoning model for hard problems'
+  },
+  {
+    id: 'o4-mini',
+    provider: 'openai',
+    model: 'o4-mini',
+    temperature: 1.0,
+    top_p: 1.0,
+    max_tokens: 16384,
+    description: 'o4-mini - fast reasoning model'
+  },
+  {
+    id: 'mock',
+    provider: 'mock',
+    model: 'mock',
+    temperature: 0,
+    top_p: 1.0,
+    max_tokens: 1024,
+    description: 'Scripted offline mock for tests - no network, no spend'
+  }
+];
+
+/**
+ * Manager for model presets
+ *
+ * Built-in presets are always available. Team-defined presets are stored in
+ * <dataDir>/presets.json; a custom preset with the same ID as a built-in one
+ * overrides it, and `extends` inherits every unset field from another preset.
+ * `context_window` always comes from the model catalog when the model is known.
+ */
+export class ModelPresetManager {
+  private presetsPath: string;
+
+  constructor(options?: ModelPresetManagerOptions) {
+    this.presetsPath = path.join(options?.dataDir || getDataDir(), 'presets.json');
+  }
+
+  /**
+   * Get a resolved preset by ID
+   */
+  async getPreset(id: string): Promise<ModelPreset | null> {
+    const presets = await this.loadRawPresets();
+    if (!presets.has(id)) {
+      return null;
+    }
+
+    return this.resolvePreset(id, presets, []);
+  }
+
+  /**
+   * Get all resolved presets, built-in and custom
+   */
+  async getAllPresets(): Promise<ModelPreset[]> {
+    const presets = await this.loadRawPresets();
+
+    return Array.from(presets.keys()).map(id => this.resolvePreset(id, presets, []));
+  }
+
+  /**
+   * Create a custom preset
+   *
+   * Using the ID of a built-in preset overrides it.
+   */
+  async createPreset(preset: ModelPreset): Promise<ModelPreset> {
+    const custom = await this.loadCustomPresets();
+
+    if (!preset.id) {
+      throw new Error('Preset ID is required');
+    }
+
+    if (custom.some(p => p.id === preset.id)) {
+      throw new Error(`Preset already exists: ${preset.id}`);
+    }
+
+    const stored = { ...preset };
+    custom.push(stored);
+
+    // Validate before writing so a bad preset never reaches disk
+    const presets = this.mergePresets(custom);
+    const resolved = this.resolvePreset(stored.id, presets, []);
+    this.validatePreset(resolved);
+    this.stripCatalogFields(stored, resolved);
+
+    await this.saveCustomPresets(custom);
+
+    return resolved;
+  }
+
+  /**
+   * Update a custom preset, or override a built-in one
+   */
+  async updatePreset(id: string, data: Partial<ModelPreset>): Promise<ModelPreset> {
+    const custom = await this.loadCustomPresets();
+    const index = custom.findIndex(p => p.id === id);
+
+    if (index === -1) {
+      if (!BUILTIN_PRESETS.some(p => p.id === id)) {
+        throw new Error(`Preset not found: ${id}`);
+      }
+
+      // First change to a built-in preset stores an override for it
+      return this.createPreset({ ...data, id } as ModelPreset);
+    }
+
+    const stored = { ...custom[index], ...data, id };
+    custom[index] = stored;
+
+    const presets = this.mergePresets(custom);
+    const resolved = this.resolvePreset(id, presets, []);
+    this.validatePreset(resolved);
+    this.stripCatalogFields(stored, resolved);
+
+    await this.saveCustomPresets(custom);
+
+    return resolved;
+  }
+
+  /**
+   * Delete a custom preset
+   *
+   * Deleting an override of a built-in preset restores the built-in version.
+   */
+  async deletePreset(id: string): Promise<void> {
+    const custom = await this.loadCustomPresets();
+    const remaining = custom.filter(p => p.id !== id);
+
+    if (remaining.length === custom.length) {
+      if (BUILTIN_PRESETS.some(p => p.id === id)) {
+        throw new Error(`Built-in presets cannot be deleted: ${id}`);
+      }
+      throw new Error(`Preset not found: ${id}`);
+    }
+
+    const dependents = remaining.filter(p => p.extends === id);
+    if (dependents.length > 0 && !BUILTIN_PRESETS.some(p => p.id === id)) {
+      throw new Error(
+        `Preset ${id} is extended by: ${dependents.map(p => p.id).join(', ')}`
+      );
+    }
+
+    await this.saveCustomPresets(remaining);
+  }
+
+  /**
+   * Check whether a preset is built in
+   */
+  isBuiltinPreset(id: string): boolean {
+    return BUILTIN_PRESETS.some(p => p.id === id);
+  }
+
+  /**
+   * Get the built-in model catalog
+   */
+  getCatalog(): ModelCatalogEntry[] {
+    return [...MODEL_CATALOG];
+  }
+
+  /**
+   * Get the catalog entry for the model a preset uses
+   */
+  async getPresetModelInfo(id: string): Promise<ModelCatalogEntry | null> {
+    const preset = await this.getPreset(id);
+    if (!preset) {
+      return null;
+    }
+
+    return getModelInfo(preset.provider, preset.model);
+  }
+
+  /**
+   * Resolve a preset's inheritance chain and catalog metadata
+   */
+  private resolvePreset(id: string, presets: Map<string, ModelPreset>, chain: string[]): ModelPreset {
+    if (chain.includes(id)) {
+      throw new Error(`Circular preset inheritance: ${[...chain, id].join(' -> ')}`);
+    }
+
+    const preset = presets.get(id);
+    if (!preset) {
+      throw new Error(`Preset not found: ${id}`);
+    }
+
+    let resolved: ModelPreset = { ...preset };
+
+    if (preset.extends) {
+      const base = this.resolvePreset(preset.extends, presets, [...chain, id]);
+      const { description, ...inherited } = base;
+      resolved = { ...inherited, ...withoutUndefined(preset) } as ModelPreset;
+    }
+
+    const info = getModelInfo(resolved.provider, resolved.model);
+    if (info) {
+      resolved.context_window = info.context_window;
+    } else if (resolved.capabilities?.context_window) {
+      resolved.context_window = resolved.capabilities.context_window;
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Validate a resolved preset
+   */
+  private validatePreset(preset: ModelPreset): void {
+    if (!preset.provider) {
+      throw new Error(`Preset ${preset.id}: provider is required`);
+    }
+
+    if (!preset.model) {
+      throw new Error(`Preset ${preset.id}: model is required`);
+    }
+
+    if (preset.provider === 'openai-compatible') {
+      if (!preset.base_url) {
+        throw new Error(`Preset ${preset.id}: base_url is required for openai-compatible presets`);
+      }
+
+      if (!preset.capabilities) {
+        throw new Error(`Preset ${preset.id}: capabilities must be declared for openai-compatible presets`);
+      }
+    }
+
+    if (typeof preset.temperature !== 'number' || preset.temperature < 0 || preset.temperature > 2) {
+      throw new Error(`Preset ${preset.id}: temperature must be a number between 0 and 2`);
+    }
+
+    if (typeof preset.top_p !== 'number' || preset.top_p < 0 || preset.top_p > 1) {
+      throw new Error(`Preset ${preset.id}: top_p must be a number between 0 and 1`);
+    }
+
+    if (typeof preset.max_tokens !== 'number' || preset.max_tokens <= 0) {
+      throw new Error(`Preset ${preset.id}: max_tokens must be a positive number`);
+    }
+
+    if (preset.pricing) {
+      const { input_per_million, output_per_million } = preset.pricing;
+      if (!(input_per_million >= 0) || !(output_per_million >= 0)) {
+        throw new Error(`Preset ${preset.id}: pricing must be non-negative numbers`);
+      }
+    }
+
+    const info = getModelInfo(preset.provider, preset.model);
+    const maxOutputTokens = info?.max_output_tokens ?? preset.capabilities?.max_output_tokens;
+    if (maxOutputTokens && preset.max_tokens > maxOutputTokens) {
+      throw new Error(
+        `Preset ${preset.id}: max_tokens ${preset.max_tokens} exceeds the ` +
+        `${maxOutputTokens} output tokens supported by ${info?.display_name || preset.model}`
+      );
+    }
+  }
+
+  /**
+   * Drop fields that are derived from the catalog rather than stored
+   */
+  private stripCatalogFields(stored: ModelPreset, resolved: ModelPreset): void {
+    if (getModelInfo(resolved.provider, resolved.model)) {
+      delete stored.context_window;
+    }
+  }
+
+  /**
+   * Load built-in and custom presets, keyed by ID
+   */
+  private async loadRawPresets(): Promise<Map<string, ModelPreset>> {
+    return this.mergePresets(await this.loadCustomPresets());
+  }
+
+  /**
+   * Merge custom presets over the built-in ones
+   */
+  private mergePresets(custom: ModelPreset[]): Map<string, ModelPreset> {
+    const presets = new Map<string, ModelPreset>();
+
+    for (const preset of BUILTIN_PRESETS) {
+      presets.set(preset.id, preset);
+    }
+
+    for (const preset of custom) {
+      const builtin = BUILTIN_PRESETS.find(p => p.id === preset.id);
+
+      // A custom preset that shares a built-in ID overrides only the fields it sets
+      if (builtin && !preset.extends) {
+        presets.set(preset.id, { ...builtin, ...withoutUndefined(preset) });
+      } else {
+        presets.set(preset.id, preset);
+      }
+    }
+
+    return presets;
+  }
+
+  /**
+   * Load custom presets from disk
+   */
+  private async loadCustomPresets(): Promise<ModelPreset[]> {
+    const file = await readJsonFile<PresetFile>(this.presetsPath);
+    return file?.presets || [];
+  }
+
+  /**
+   * Save custom presets to disk
+   */
+  private async saveCustomPresets(presets: ModelPreset[]): Promise<void> {
+    const file: PresetFile = { presets };
+    await writeJsonFile(this.presetsPath, file);
+  }
+}
+
+/**
+ * Copy a preset without its undefined fields
+ */
+function withoutUndefined(preset: ModelPreset): Partial<ModelPreset> {
+  const result: Partial<ModelPreset> = {};
+
+  for (const key of Object.keys(preset) as (keyof ModelPreset)[]) {
+    if (preset[key] !== undefined) {
+      copyField(result, preset, key);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Copy one field of a preset, keeping its key and value types tied together
+ */
+function copyField<K extends keyof ModelPreset>(target: Partial<ModelPreset>, source: ModelPreset, key: K): void {
+  target[key] = source[key];
+}
@@ -0,0 +1,129 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ServiceSpec } from './index';
+import { ServiceSpecManager } from './service-spec-manager';
+
+/**
+ * Build a minimal service spec
+ */
+function createSpec(name: string): ServiceSpec {
+  return {
+    id: 'support',
+    name,
+    agents: [],
+    orchestration: { type: 'autogen', config: {} },
+    created_at: 1,
+    updated_at: 1
+  };
+}
+
+describe('ServiceSpecManager', () => {
+  let dataDir: string;
+  let manager: ServiceSpecManager;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'service-spec-manager-'));
+    manager = new ServiceSpecManager({ dataDir });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('saves every change as a new revision and returns the latest', async () => {
+    const first = await manager.saveServiceSpec(createSpec('v1'));
+    const second = await manager.saveServiceSpec({ ...first, name: 'v2' }, { message: 'Rename' });
+
+    expect(second.updated_at).toBeGreaterThan(first.updated_at);
+    expect((await manager.getServiceSpec('support'))?.name).toBe('v2');
+    expect((await manager.listRevisions('support')).map(revision => [revision.revision, revision.message]))
+      .toEqual([[1, undefined], [2, 'Rename']]);
+    expect(fs.readdirSync(path.join(dataDir, 'specs', 'support', 'revisions'))).toEqual(['000001.json', '000002.json']);
+  });
+
+  it('does not change the spec it is given', async () => {
+    const spec = createSpec('v1');
+    await manager.saveServiceSpec(spec);
+
+    expect(spec.updated_at).toBe(1);
+  });
+
+  it('rejects a save based on an outdated version', async () => {
+    const other = new ServiceSpecManager({ dataDir });
+    const saved = await manager.saveServiceSpec(createSpec('v1'));
+    await other.getServiceSpec('support');
+
+    await manager.saveServiceSpec({ ...saved, name: 'mine' });
+
+    await expect(other.saveServiceSpec({ ...saved, name: 'theirs' })).rejects.toThrow('was modified by another writer');
+    await expect(manager.saveServiceSpec({ ...saved, name: 'stale' }, { expectedUpdatedAt: saved.updated_at }))
+      .rejects.toThrow(`expected updated_at ${saved.updated_at}`);
+  });
+
+  it('lets only one of two concurrent writers of the same version win', async () => {
+    const saved = await manager.saveServiceSpec(createSpec('v1'));
+    const writers = [new ServiceSpecManager({ dataDir }), new ServiceSpecManager({ dataDir })];
+
+    const results = await Promise.allSettled(writers.map((writer, index) =>
+      writer.saveServiceSpec({ ...saved, name: `writer ${index}` }, { expectedUpdatedAt: saved.updated_at })
+    ));
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(await manager.listRevisions('support')).toHaveLength(2);
+    expect(fs.readdirSync(path.join(dataDir, 'specs'))).toEqual(['support']);
+  });
+
+  it('lists current specs, most recently updated first, and deletes them with their history', async () => {
+    await manager.saveServiceSpec(createSpec('support'));
+    await manager.saveServiceSpec({ ...createSpec('sales'), id: 'sales', updated_at: Date.now() + 1000 });
+
+    expect((await manager.listServiceSpecs()).map(spec => spec.id)).toEqual(['sales', 'support']);
+
+    await manager.deleteServiceSpec('sales');
+    expect(await manager.getServiceSpec('sales')).toBeNull();
+    expect(await manager.listRevisions('sales')).toEqual([]);
+  });
+
+  it('diffs two revisions', async () => {
+    const saved = await manager.saveServiceSpec(createSpec('v1'));
+    await manager.saveServiceSpec({ ...saved, name: 'v2', description: 'New' });
+
+    const changes = await manager.diffRevisions('support', 1, 2);
+
+    expect(changes.filter(change => change.path !== '$.updated_at')).toEqual([
+      { path: '$.name', type: 'changed', before: 'v1', after: 'v2' },
+      { path: '$.description', type: 'added', after: 'New' }
+    ]);
+    await expect(manager.diffRevisions('support', 1, 9)).rejects.toThrow('Revision 9 of service specification support not found');
+  });
+
+  it('rolls back by saving an old revision as a new one', async () => {
+    const saved = await manager.saveServiceSpec(createSpec('v1'));
+    await manager.saveServiceSpec({ ...saved, name: 'v2' });
+
+    const restored = await manager.rollbackServiceSpec('support', 1);
+
+    expect(restored.name).toBe('v1');
+    expect((await manager.getCurrentRevision('support'))).toMatchObject({ revision: 3, message: 'Rollback to revision 1' });
+    await expect(manager.rollbackServiceSpec('support', 7)).rejects.toThrow('Revision 7 of service specification support not found');
+  });
+
+  it('does not restore a revision that fails validation', async () => {
+    const saved = await manager.saveServiceSpec(createSpec('v1'));
+    await manager.saveServiceSpec({ ...saved, name: 'v2' });
+
+    const validate = async (spec: ServiceSpec): Promise<void> => {
+      if (spec.name === 'v1') {
+        throw new Error('Unknown preset');
+      }
+    };
+
+    await expect(manager.rollbackServiceSpec('support', 1, { validate })).rejects.toThrow('Unknown preset');
+    expect(await manager.listRevisions('support')).toHaveLength(2);
+  });
+
+  it('rejects unsafe IDs', async () => {
+    await expect(manager.getServiceSpec('../etc')).rejects.toThrow('Invalid service specification ID: ../etc');
+  });
+});
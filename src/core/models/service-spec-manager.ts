@@ -0,0 +1,311 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ServiceSpec, ServiceSpecRevision, ServiceSpecChange } from './index';
+import { getDataDir, createJsonFile, readJsonFile, listDir, withFileLock, assertSafeId } from '../storage';
+
+export interface ServiceSpecManagerOptions {
+  dataDir?: string;               // Root data directory (default: ~/.swarm-builder)
+}
+
+export interface SaveServiceSpecOptions {
+  expectedUpdatedAt?: number;     // Reject the save if the stored spec has a different updated_at
+  message?: string;               // Optional note stored with the revision
+}
+
+export interface RollbackServiceSpecOptions {
+  validate?: (spec: ServiceSpec) => Promise<void>; // Rejects a restored spec that is no longer valid
+}
+
+/**
+ * File-backed store for service specifications
+ *
+ * Every save writes a new immutable revision file:
+ *
+ *   <dataDir>/specs/<spec-id>/revisions/000001.json
+ *
+ * The latest revision is the current version of the spec. Revision files are
+ * created atomically and exclusively, so readers never see a partial
+ * revision and two writers can never claim the same revision number.
+ * Saves hold a lock file per spec, so writers in other processes are
+ * checked against each other's updated_at too.
+ */
+export class ServiceSpecManager {
+  private specsDir: string;
+  private knownVersions: Map<string, number>;
+  private locks: Map<string, Promise<void>>;
+
+  constructor(options?: ServiceSpecManagerOptions) {
+    this.specsDir = path.join(options?.dataDir || getDataDir(), 'specs');
+    this.knownVersions = new Map();
+    this.locks = new Map();
+  }
+
+  /**
+   * Save a service specification as a new revision
+   *
+   * The save is rejected if the stored spec was changed since this manager
+   * last read or wrote it (or since `expectedUpdatedAt`, when given).
+   * Returns the saved copy, with its new updated_at; `spec` is not changed.
+   */
+  async saveServiceSpec(spec: ServiceSpec, options?: SaveServiceSpecOptions): Promise<ServiceSpec> {
+    assertSafeId(spec.id, 'service specification');
+
+    return this.withLock(spec.id, async () => {
+      const latest = await this.getLatestRevision(spec.id);
+      const expected = options?.expectedUpdatedAt ?? this.knownVersions.get(spec.id);
+
+      if (latest && expected !== undefined && latest.spec.updated_at !== expected) {
+        throw new Error(
+          `Service specification ${spec.id} was modified by another writer ` +
+          `(expected updated_at ${expected}, found ${latest.spec.updated_at})`
+        );
+      }
+
+      // updated_at must move forward on every save for the optimistic check to work
+      const updatedAt = latest ? Math.max(Date.now(), latest.spec.updated_at + 1) : Math.max(Date.now(), spec.updated_at);
+      const saved: ServiceSpec = { ...JSON.parse(JSON.stringify(spec)), updated_at: updatedAt };
+
+      const revision: ServiceSpecRevision = {
+        revision: latest ? latest.revision + 1 : 1,
+        saved_at: Date.now(),
+        message: options?.message,
+        spec: saved
+      };
+
+      const created = await createJsonFile(this.getRevisionPath(spec.id, revision.revision), revision);
+      if (!created) {
+        throw new Error(
+          `Service specification ${spec.id} was modified by another writer ` +
+          `(revision ${revision.revision} already exists)`
+        );
+      }
+
+      this.knownVersions.set(spec.id, updatedAt);
+
+      return saved;
+    });
+  }
+
+  /**
+   * Get the current version of a service specification
+   */
+  async getServiceSpec(id: string): Promise<ServiceSpec | null> {
+    assertSafeId(id, 'service specification');
+
+    const latest = await this.getLatestRevision(id);
+    if (!latest) {
+      return null;
+    }
+
+    this.knownVersions.set(id, latest.spec.updated_at);
+    return latest.spec;
+  }
+
+  /**
+   * List the current version of every stored service specification
+   */
+  async listServiceSpecs(): Promise<ServiceSpec[]> {
+    const specs: ServiceSpec[] = [];
+
+    for (const id of await listDir(this.specsDir)) {
+      const latest = await this.getLatestRevision(id);
+      if (latest) {
+        specs.push(latest.spec);
+      }
+    }
+
+    return specs.sort((a, b) => b.updated_at - a.updated_at);
+  }
+
+  /**
+   * Delete a service specification and its entire revision history
+   */
+  async deleteServiceSpec(id: string): Promise<void> {
+    assertSafeId(id, 'service specification');
+
+    await this.withLock(id, async () => {
+      await fs.promises.rm(path.join(this.specsDir, id), { recursive: true, force: true });
+      this.knownVersions.delete(id);
+    });
+  }
+
+  /**
+   * List all revisions of a service specification, oldest first
+   */
+  async listRevisions(id: string): Promise<ServiceSpecRevision[]> {
+    assertSafeId(id, 'service specification');
+
+    const revisions: ServiceSpecRevision[] = [];
+
+    for (const number of await this.listRevisionNumbers(id)) {
+      const revision = await readJsonFile<ServiceSpecRevision>(this.getRevisionPath(id, number));
+      if (revision) {
+        revisions.push(revision);
+      }
+    }
+
+    return revisions;
+  }
+
+  /**
+   * Get a specific revision of a service specification
+   */
+  async getRevision(id: string, revision: number): Promise<ServiceSpecRevision | null> {
+    assertSafeId(id, 'service specification');
+
+    return readJsonFile<ServiceSpecRevision>(this.getRevisionPath(id, revision));
+  }
+
+  /**
+   * Get the latest revision of a service specification, or null if it is not stored
+   */
+  async getCurrentRevision(id: string): Promise<ServiceSpecRevision | null> {
+    assertSafeId(id, 'service specification');
+
+    return this.getLatestRevision(id);
+  }
+
+  /**
+   * Compare two revisions of a service specification
+   */
+  async diffRevisions(id: string, fromRevision: number, toRevision: number): Promise<ServiceSpecChange[]> {
+    const from = await this.getRevision(id, fromRevision);
+    if (!from) {
+      throw new Error(`Revision ${fromRevision} of service specification ${id} not found`);
+    }
+
+    const to = await this.getRevision(id, toRevision);
+    if (!to) {
+      throw new Error(`Revision ${toRevision} of service specification ${id} not found`);
+    }
+
+    const changes: ServiceSpecChange[] = [];
+    diffValues(from.spec, to.spec, '$', changes);
+
+    return changes;
+  }
+
+  /**
+   * Roll a service specification back to an earlier revision
+   *
+   * History is never rewritten: the old content is saved as a new revision.
+   * With `validate`, a revision that no longer validates (for example, one
+   * whose preset was deleted since) is not restored.
+   */
+  async rollbackServiceSpec(id: string, revision: number, options?: RollbackServiceSpecOptions): Promise<ServiceSpec> {
+    const target = await this.getRevision(id, revision);
+    if (!target) {
+      throw new Error(`Revision ${revision} of service specification ${id} not found`);
+    }
+
+    if (options?.validate) {
+      await options.validate(target.spec);
+    }
+
+    const current = await this.getLatestRevision(id);
+
+    return this.saveServiceSpec(
+      { ...target.spec },
+      {
+        expectedUpdatedAt: current?.spec.updated_at,
+        message: `Rollback to revision ${revision}`
+      }
+    );
+  }
+
+  /**
+   * Get the latest revision of a service specification
+   */
+  private async getLatestRevision(id: string): Promise<ServiceSpecRevision | null> {
+    const numbers = await this.listRevisionNumbers(id);
+    if (numbers.length === 0) {
+      return null;
+    }
+
+    return readJsonFile<ServiceSpecRevision>(this.getRevisionPath(id, numbers[numbers.length - 1]));
+  }
+
+  /**
+   * List the revision numbers stored for a service specification, ascending
+   */
+  private async listRevisionNumbers(id: string): Promise<number[]> {
+    const files = await listDir(path.join(this.specsDir, id, 'revisions'));
+
+    return files
+      .filter(file => /^\d+\.json$/.test(file))
+      .map(file => parseInt(file, 10))
+      .sort((a, b) => a - b);
+  }
+
+  /**
+   * Get the file path of a revision
+   */
+  private getRevisionPath(id: string, revision: number): string {
+    return path.join(this.specsDir, id, 'revisions', `${String(revision).padStart(6, '0')}.json`);
+  }
+
+  /**
+   * Serialize writes to the same service specification
+   *
+   * Writers in this process queue up; writers in other processes are kept
+   * out by a `<spec-id>.lock` file next to the spec's directory.
+   */
+  private async withLock<T>(id: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(id) || Promise.resolve();
+    const result = previous.then(() => withFileLock(path.join(this.specsDir, id), fn));
+    const done = result.then(() => undefined, () => undefined);
+
+    this.locks.set(id, done);
+    done.then(() => {
+      if (this.locks.get(id) === done) {
+        this.locks.delete(id);
+      }
+    });
+
+    return result;
+  }
+}
+
+/**
+ * Recursively collect the differences between two JSON values
+ */
+function diffValues(before: any, after: any, path: string, changes: ServiceSpecChange[]): void {
+  if (before === after) {
+    return;
+  }
+
+  if (before === undefined) {
+    changes.push({ path, type: 'added', after });
+    return;
+  }
+
+  if (after === undefined) {
+    changes.push({ path, type: 'removed', before });
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const length = Math.max(before.length, after.length);
+    for (let i = 0; i < length; i++) {
+      diffValues(before[i], after[i], `${path}[${i}]`, changes);
+    }
+    return;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      diffValues(before[key], after[key], `${path}.${key}`, changes);
+    }
+    return;
+  }
+
+  changes.push({ path, type: 'changed', before, after });
+}
+
+/**
+ * Check whether a value is a plain JSON object
+ */
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,119 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ServiceSpec } from './index';
+import { SpecValidationError } from './spec-validator';
+import {
+  SPEC_SCHEMA_VERSION,
+  getSpecFileFormat,
+  isSpecFilePath,
+  loadServiceSpecFile,
+  migrateSpecDocument,
+  parseServiceSpec,
+  saveServiceSpecFile,
+  serializeServiceSpec
+} from './spec-format';
+
+const SPEC: ServiceSpec = {
+  id: 'support',
+  name: 'Support',
+  agents: [
+    { id: 'triage', name: 'Triage', role: 'Routes questions', tools: [], model_preset_id: 'gpt-4o-mini' },
+    { id: 'expert', name: 'Expert', role: 'Answers', tools: ['search'], model_preset_id: 'gpt-4.1', max_cost: 0.5 }
+  ],
+  orchestration: { type: 'langchain', config: { strategy: 'keyword' } },
+  budget: { per_day: 5 },
+  created_at: 100,
+  updated_at: 200
+};
+
+describe('spec format', () => {
+  it('round-trips a spec through YAML and JSON without its timestamps', () => {
+    for (const format of ['yaml', 'json'] as const) {
+      const text = serializeServiceSpec(SPEC, format);
+      expect(text).not.toContain('updated_at');
+
+      const { created_at, updated_at, ...parsed } = parseServiceSpec(text, format);
+      const { created_at: _created, updated_at: _updated, ...expected } = SPEC;
+      expect(parsed).toEqual(expected);
+      expect(created_at).toBe(updated_at);
+    }
+  });
+
+  it('writes the schema version first and omits undefined fields', () => {
+    const yaml = serializeServiceSpec({ ...SPEC, description: undefined }, 'yaml');
+
+    expect(yaml.startsWith(`schema_version: ${SPEC_SCHEMA_VERSION}\n`)).toBe(true);
+    expect(yaml).not.toContain('description');
+  });
+
+  it('derives missing IDs from names and defaults tools and config', () => {
+    const spec = parseServiceSpec([
+      'schema_version: 1',
+      'name: Customer Support!',
+      'orchestration:',
+      '  type: autogen',
+      'agents:',
+      '  - name: First Responder',
+      '    role: Answers',
+      '    model_preset_id: mock'
+    ].join('\n'), 'yaml');
+
+    expect(spec.id).toBe('customer-support');
+    expect(spec.orchestration.config).toEqual({});
+    expect(spec.agents[0]).toMatchObject({ id: 'first-responder', tools: [] });
+  });
+
+  it('migrates raw ServiceSpec JSON from before the file format', () => {
+    expect(migrateSpecDocument({ ...SPEC })).toEqual({
+      schema_version: 1,
+      id: 'support',
+      name: 'Support',
+      agents: SPEC.agents,
+      orchestration: SPEC.orchestration,
+      budget: SPEC.budget
+    });
+    expect(parseServiceSpec(JSON.stringify(SPEC), 'json').id).toBe('support');
+  });
+
+  it('rejects documents it cannot read', () => {
+    expect(() => migrateSpecDocument([])).toThrow('Spec document must be an object');
+    expect(() => migrateSpecDocument({ schema_version: 99 }))
+      .toThrow('Spec document uses schema_version 99, but this version of Swarm-Builder only supports up to 1');
+    expect(() => parseServiceSpec('schema_version: 1\nname: x\nagents: []\n', 'yaml')).toThrow(SpecValidationError);
+  });
+
+  it('chooses the format from the file extension', () => {
+    expect(getSpecFileFormat('a/spec.YML')).toBe('yaml');
+    expect(getSpecFileFormat('spec.json')).toBe('json');
+    expect(() => getSpecFileFormat('spec.toml')).toThrow('Unsupported spec file extension ".toml"');
+    expect(isSpecFilePath('spec.yaml')).toBe(true);
+    expect(isSpecFilePath('support')).toBe(false);
+  });
+
+  describe('files', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'spec-format-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('saves and loads a spec file', async () => {
+      const file = path.join(dir, 'support.yaml');
+      await saveServiceSpecFile(SPEC, file);
+
+      expect((await loadServiceSpecFile(file)).agents).toEqual(SPEC.agents);
+    });
+
+    it('names the file in load errors', async () => {
+      const file = path.join(dir, 'broken.json');
+      fs.writeFileSync(file, '{"schema_version": 1, "name": ""}');
+
+      await expect(loadServiceSpecFile(file)).rejects.toThrow(`${file}: Service specification`);
+    });
+  });
+});
@@ -0,0 +1,215 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import YAML from 'yaml';
+import { z } from 'zod';
+import { ServiceSpec, ServiceSpecBudget, Agent, SpecDiagnostic } from './index';
+import { SpecValidationError, toJsonPath } from './spec-validator';
+import { writeFileAtomic } from '../storage';
+
+/**
+ * Current version of the on-disk spec format
+ */
+export const SPEC_SCHEMA_VERSION = 1;
+
+/**
+ * Supported spec file formats
+ */
+export type SpecFileFormat = 'yaml' | 'json';
+
+/**
+ * A service specification as written to a spec file
+ *
+ * IDs are optional: a missing spec or agent ID is derived from its name.
+ * Timestamps are not stored, so files stay stable under version control.
+ */
+export interface SpecDocument {
+  schema_version: number;
+  id?: string;
+  name: string;
+  description?: string;
+  orchestration: {
+    type: string;
+    config?: any;
+  };
+  agents: Array<Omit<Agent, 'id'> & { id?: string }>;
+  budget?: ServiceSpecBudget;
+}
+
+/**
+ * Migration from one schema version to the next, keyed by the source version
+ */
+type SpecMigration = (doc: any) => any;
+
+const MIGRATIONS: Record<number, SpecMigration> = {
+  /**
+   * Version 0: raw ServiceSpec JSON, as stored by ServiceSpecManager or
+   * serialized by hand before the file format existed
+   */
+  0: (doc: any) => {
+    const { created_at, updated_at, ...rest } = doc;
+    return { ...rest, schema_version: 1 };
+  }
+};
+
+const SpecDocumentSchema = z.object({
+  schema_version: z.literal(SPEC_SCHEMA_VERSION),
+  id: z.string().min(1).optional(),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  orchestration: z.object({
+    type: z.string().min(1),
+    config: z.any().optional()
+  }),
+  agents: z.array(z.object({
+    id: z.string().min(1).optional(),
+    name: z.string().min(1)
+  }).passthrough())
+});
+
+/**
+ * Upgrade a parsed spec document to the current schema version
+ */
+export function migrateSpecDocument(doc: any): SpecDocument {
+  if (!doc || typeof doc !== 'object' || Array.isArray(doc)) {
+    throw new Error('Spec document must be an object');
+  }
+
+  let version = typeof doc.schema_version === 'number' ? doc.schema_version : 0;
+
+  if (version > SPEC_SCHEMA_VERSION) {
+    throw new Error(
+      `Spec document uses schema_version ${version}, but this version of ` +
+      `Swarm-Builder only supports up to ${SPEC_SCHEMA_VERSION}`
+    );
+  }
+
+  let migrated = doc;
+  while (version < SPEC_SCHEMA_VERSION) {
+    const migration = MIGRATIONS[version];
+    if (!migration) {
+      throw new Error(`No migration from spec schema_version ${version}`);
+    }
+
+    migrated = migration(migrated);
+    version = migrated.schema_version;
+  }
+
+  return migrated as SpecDocument;
+}
+
+/**
+ * Parse a spec document from YAML or JSON text into a service specification
+ */
+export function parseServiceSpec(text: string, format: SpecFileFormat): ServiceSpec {
+  const raw = format === 'yaml' ? YAML.parse(text) : JSON.parse(text);
+  const doc = migrateSpecDocument(raw);
+
+  const parsed = SpecDocumentSchema.safeParse(doc);
+  if (!parsed.success) {
+    const diagnostics: SpecDiagnostic[] = parsed.error.issues.map(issue => ({
+      path: toJsonPath(issue.path),
+      code: 'schema',
+      message: issue.message,
+      severity: 'error'
+    }));
+    throw new SpecValidationError(doc.id || doc.name, diagnostics);
+  }
+
+  const now = Date.now();
+
+  return {
+    id: doc.id || slugify(doc.name),
+    name: doc.name,
+    description: doc.description,
+    agents: doc.agents.map(agent => ({
+      ...agent,
+      id: agent.id || slugify(agent.name),
+      tools: agent.tools || []
+    })),
+    orchestration: {
+      type: doc.orchestration.type,
+      config: doc.orchestration.config || {}
+    },
+    budget: doc.budget,
+    created_at: now,
+    updated_at: now
+  };
+}
+
+/**
+ * Serialize a service specification as a YAML or JSON spec document
+ */
+export function serializeServiceSpec(spec: ServiceSpec, format: SpecFileFormat): string {
+  const doc: SpecDocument = withoutUndefinedDeep({
+    schema_version: SPEC_SCHEMA_VERSION,
+    id: spec.id,
+    name: spec.name,
+    description: spec.description,
+    orchestration: spec.orchestration,
+    agents: spec.agents.map(({ id, ...agent }) => ({ id, ...agent })),
+    budget: spec.budget
+  });
+
+  return format === 'yaml' ? YAML.stringify(doc) : `${JSON.stringify(doc, null, 2)}\n`;
+}
+
+/**
+ * Determine the format of a spec file from its extension
+ */
+export function getSpecFileFormat(filePath: string): SpecFileFormat {
+  const extension = path.extname(filePath).toLowerCase();
+
+  switch (extension) {
+    case '.yaml':
+    case '.yml':
+      return 'yaml';
+
+    case '.json':
+      return 'json';
+
+    default:
+      throw new Error(`Unsupported spec file extension "${extension}" (expected .yaml, .yml or .json)`);
+  }
+}
+
+/**
+ * Check whether a string looks like a path to a spec file
+ */
+export function isSpecFilePath(value: string): boolean {
+  return /\.(ya?ml|json)$/i.test(value);
+}
+
+/**
+ * Load a service specification from a YAML or JSON file
+ */
+export async function loadServiceSpecFile(filePath: string): Promise<ServiceSpec> {
+  const text = await fs.promises.readFile(filePath, 'utf8');
+
+  try {
+    return parseServiceSpec(text, getSpecFileFormat(filePath));
+  } catch (error: any) {
+    error.message = `${filePath}: ${error.message}`;
+    throw error;
+  }
+}
+
+/**
+ * Write a service specification to a YAML or JSON file
+ */
+export async function saveServiceSpecFile(spec: ServiceSpec, filePath: string): Promise<void> {
+  await writeFileAtomic(filePath, serializeServiceSpec(spec, getSpecFileFormat(filePath)));
+}
+
+/**
+ * Derive a file-safe ID from a display name
+ */
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'unnamed';
+}
+
+/**
+ * Deep copy a JSON value without undefined fields
+ */
+function withoutUndefinedDeep<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
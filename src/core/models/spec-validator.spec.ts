@@ -0,0 +1,169 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Agent, ServiceSpec } from './index';
+import { ModelPresetManager } from './model-preset-manager';
+import { ServiceSpecValidator, SpecValidationError, toJsonPath } from './spec-validator';
+import { MCPServerRegistry } from '../mcp/mcp-server-registry';
+import { MCPClient } from '../mcp/mcp-client';
+
+/**
+ * Build an agent on a built-in preset
+ */
+function createAgent(id: string, extra?: Partial<Agent>): Agent {
+  return { id, name: id, role: 'helper', tools: [], model_preset_id: 'gpt-4o-mini', ...extra };
+}
+
+/**
+ * Build a valid group chat spec
+ */
+function createSpec(extra?: Partial<ServiceSpec>): ServiceSpec {
+  return {
+    id: 'support',
+    name: 'Support',
+    agents: [createAgent('a'), createAgent('b')],
+    orchestration: { type: 'autogen', config: {} },
+    created_at: 1,
+    updated_at: 1,
+    ...extra
+  };
+}
+
+/**
+ * List the codes and paths of a validation result's diagnostics
+ */
+async function check(validator: ServiceSpecValidator, spec: ServiceSpec): Promise<Array<[string, string, string]>> {
+  const result = await validator.validate(spec);
+  return result.diagnostics.map(diagnostic => [diagnostic.severity, diagnostic.code, diagnostic.path]);
+}
+
+describe('ServiceSpecValidator', () => {
+  let dataDir: string;
+  let presets: ModelPresetManager;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'spec-validator-'));
+    presets = new ModelPresetManager({ dataDir });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('accepts a valid spec', async () => {
+    const result = await new ServiceSpecValidator({ modelPresetManager: presets }).validate(createSpec());
+
+    expect(result).toEqual({ valid: true, diagnostics: [] });
+  });
+
+  it('reports schema errors with JSON paths and skips reference checks', async () => {
+    const spec = createSpec({ agents: [createAgent('a', { name: '', max_cost: -1 })] });
+
+    expect(await check(new ServiceSpecValidator({ modelPresetManager: presets }), spec)).toEqual([
+      ['error', 'schema', '$.agents[0].name'],
+      ['error', 'schema', '$.agents[0].max_cost']
+    ]);
+  });
+
+  it('reports unknown frameworks, invalid configs and duplicate agents', async () => {
+    const validator = new ServiceSpecValidator({ modelPresetManager: presets });
+
+    expect(await check(validator, createSpec({ orchestration: { type: 'swarmy', config: {} } })))
+      .toEqual([['error', 'unknown_framework', '$.orchestration.type']]);
+    expect(await check(validator, createSpec({ orchestration: { type: 'autogen', config: { max_round: 'many' } } })))
+      .toEqual([['error', 'invalid_config', '$.orchestration.config.max_round']]);
+    expect(await check(validator, createSpec({ agents: [createAgent('a'), createAgent('a')] })))
+      .toEqual([['error', 'duplicate_agent', '$.agents[1].id']]);
+  });
+
+  it('reports unknown presets and presets without tool calling', async () => {
+    await presets.createPreset({
+      id: 'local',
+      provider: 'openai-compatible',
+      model: 'llama',
+      base_url: 'http://localhost:8000/v1',
+      capabilities: { tool_calling: false },
+      temperature: 0.5,
+      top_p: 1,
+      max_tokens: 100
+    });
+
+    const spec = createSpec({
+      agents: [
+        createAgent('a', { model_preset_id: 'missing' }),
+        createAgent('b', { model_preset_id: 'local', mcp: { servers: ['fs'], tools: ['read'] } })
+      ],
+      budget: { per_day: 1, downgrade: { 'gpt-4o': 'gone' } }
+    });
+
+    const diagnostics = await check(new ServiceSpecValidator({ modelPresetManager: presets }), spec);
+
+    expect(diagnostics.filter(([severity]) => severity === 'error')).toEqual([
+      ['error', 'unknown_preset', '$.agents[0].model_preset_id'],
+      ['error', 'tool_calling_unsupported', '$.agents[1].model_preset_id'],
+      ['error', 'unknown_preset', '$.budget.downgrade.gpt-4o']
+    ]);
+  });
+
+  it('warns about references it has no source to check against', async () => {
+    const spec = createSpec({
+      agents: [createAgent('a', { mcp: { servers: ['fs'], tools: ['read'] } })],
+      budget: { per_day: 1, downgrade: { 'gpt-4o': 'gpt-4o-mini' } }
+    });
+
+    const result = await new ServiceSpecValidator().validate(spec);
+
+    expect(result.valid).toBe(true);
+    expect(result.diagnostics.map(diagnostic => [diagnostic.severity, diagnostic.code, diagnostic.path])).toEqual([
+      ['warning', 'preset_not_checked', '$.agents[0].model_preset_id'],
+      ['warning', 'preset_not_checked', '$.budget.downgrade.gpt-4o'],
+      ['warning', 'server_not_checked', '$.agents[0].mcp.servers[0]'],
+      ['warning', 'tool_not_checked', '$.agents[0].mcp.tools[0]']
+    ]);
+  });
+
+  it('checks MCP servers, tools, permissions and policy patterns', async () => {
+    const serverRegistry = new MCPServerRegistry();
+    serverRegistry.registerServer({ id: 'fs', endpoint: 'ws://localhost:1', transport: 'websocket' });
+    const mcpClient = {
+      listTools: async ({ serverId }: { serverId: string }) => serverId === 'fs'
+        ? [{ id: 'fs:read', serverId: 'fs', name: 'read' }]
+        : []
+    } as unknown as MCPClient;
+
+    const spec = createSpec({
+      agents: [createAgent('a', {
+        mcp: {
+          servers: ['fs', 'web'],
+          tools: ['read', 'write', 'shell:run'],
+          permissions: { delete: { requireApproval: true } },
+          policy: { deny: [{ tools: 'read', params: { path: { pattern: '(' } } }] }
+        }
+      })]
+    });
+
+    expect(await check(new ServiceSpecValidator({ modelPresetManager: presets, serverRegistry, mcpClient }), spec)).toEqual([
+      ['error', 'unknown_server', '$.agents[0].mcp.servers[1]'],
+      ['error', 'unknown_tool', '$.agents[0].mcp.tools[1]'],
+      ['error', 'tool_server_not_assigned', '$.agents[0].mcp.tools[2]'],
+      ['warning', 'unused_permission', '$.agents[0].mcp.permissions.delete'],
+      ['error', 'invalid_policy_pattern', '$.agents[0].mcp.policy.deny[0].params.path.pattern']
+    ]);
+  });
+
+  it('throws a SpecValidationError listing the errors', async () => {
+    const validator = new ServiceSpecValidator({ modelPresetManager: presets });
+    const spec = createSpec({ agents: [createAgent('a', { model_preset_id: 'missing' })] });
+
+    await expect(validator.assertValid(spec)).rejects.toThrow(SpecValidationError);
+    await expect(validator.assertValid(spec))
+      .rejects.toThrow('Service specification support is invalid:\n  $.agents[0].model_preset_id: Model preset "missing" does not exist');
+  });
+});
+
+describe('toJsonPath', () => {
+  it('joins property names and indexes', () => {
+    expect(toJsonPath(['agents', 0, 'mcp', 'tools', 2])).toBe('$.agents[0].mcp.tools[2]');
+    expect(toJsonPath([])).toBe('$');
+  });
+});
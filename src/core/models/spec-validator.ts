@@ -0,0 +1,435 @@
+import { z } from 'zod';
+import { ServiceSpec, SpecDiagnostic, SpecValidationResult } from './index';
+import { ModelPresetManager } from './model-preset-manager';
+import { getPresetCapabilities } from './model-catalog';
+import { MCPServerRegistry } from '../mcp/mcp-server-registry';
+import { MCPClient } from '../mcp/mcp-client';
+import { FrameworkRegistry } from '../orchestrator/framework-registry';
+
+const ToolPermissionSchema = z.object({
+  maxCallsPerSession: z.number().int().nonnegative().optional(),
+  maxCostPerSession: z.number().nonnegative().optional(),
+  requireApproval: z.boolean().optional()
+}).passthrough();
+
+const StringOrListSchema = z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]);
+
+const ParameterConstraintSchema = z.object({
+  required: z.boolean().optional(),
+  equals: z.any().optional(),
+  oneOf: z.array(z.any()).optional(),
+  pattern: z.string().optional(),
+  glob: StringOrListSchema.optional(),
+  pathPrefix: StringOrListSchema.optional(),
+  command: z.array(z.string().min(1)).min(1).optional(),
+  urlHost: z.array(z.string().min(1)).min(1).optional(),
+  min: z.number().optional(),
+  max: z.number().optional()
+}).strict();
+
+const ToolPolicyRuleSchema = z.object({
+  id: z.string().min(1).optional(),
+  tools: StringOrListSchema,
+  params: z.record(ParameterConstraintSchema).optional()
+}).strict();
+
+const ToolPolicySchema = z.object({
+  allow: z.array(ToolPolicyRuleSchema).optional(),
+  deny: z.array(ToolPolicyRuleSchema).optional()
+}).strict();
+
+const AgentMCPConfigSchema = z.object({
+  servers: z.array(z.string().min(1)),
+  tools: z.array(z.string().min(1)),
+  permissions: z.record(ToolPermissionSchema).optional(),
+  defaultParameters: z.record(z.any()).optional(),
+  policy: ToolPolicySchema.optional()
+});
+
+const AgentSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  role: z.string().min(1),
+  tools: z.array(z.string()),
+  model_preset_id: z.string().min(1),
+  system_prompt: z.string().optional(),
+  max_cost: z.number().positive().optional(),
+  cost_warning_threshold: z.number().gt(0).max(1).optional(),
+  mcp: AgentMCPConfigSchema.optional()
+});
+
+const BudgetSchema = z.object({
+  per_message: z.number().positive().optional(),
+  per_session: z.number().positive().optional(),
+  per_day: z.number().positive().optional(),
+  per_month: z.number().positive().optional(),
+  warning_threshold: z.number().gt(0).max(1).optional(),
+  downgrade: z.record(z.string().min(1)).optional()
+});
+
+/**
+ * zod schema for the shape of a service specification
+ */
+export const ServiceSpecSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  agents: z.array(AgentSchema),
+  orchestration: z.object({
+    type: z.string().min(1),
+    config: z.any()
+  }),
+  budget: BudgetSchema.optional(),
+  created_at: z.number(),
+  updated_at: z.number()
+});
+
+/**
+ * Sources the validator checks references against
+ *
+ * Each source is optional. A check that needs a missing source cannot run,
+ * and is reported as a warning rather than passed.
+ */
+export interface SpecValidationContext {
+  modelPresetManager?: ModelPresetManager; // Resolves model_preset_id
+  serverRegistry?: MCPServerRegistry;      // Resolves agent.mcp.servers
+  mcpClient?: MCPClient;                   // Lists tools of connected servers
+  frameworkRegistry?: FrameworkRegistry;   // Resolves orchestration.type (default: the built-in frameworks)
+}
+
+/**
+ * Error thrown when a service specification fails validation
+ */
+export class SpecValidationError extends Error {
+  diagnostics: SpecDiagnostic[];
+
+  constructor(specId: string, diagnostics: SpecDiagnostic[]) {
+    const errors = diagnostics.filter(d => d.severity === 'error');
+    super(
+      `Service specification ${specId || '<unnamed>'} is invalid:\n` +
+      errors.map(d => `  ${d.path}: ${d.message}`).join('\n')
+    );
+    this.name = 'SpecValidationError';
+    this.diagnostics = diagnostics;
+  }
+}
+
+/**
+ * Validates the shape and cross-references of a service specification
+ */
+export class ServiceSpecValidator {
+  private context: SpecValidationContext;
+  private frameworkRegistry: FrameworkRegistry;
+
+  constructor(context?: SpecValidationContext) {
+    this.context = context || {};
+    this.frameworkRegistry = this.context.frameworkRegistry || new FrameworkRegistry();
+  }
+
+  /**
+   * Validate a service specification
+   */
+  async validate(spec: ServiceSpec): Promise<SpecValidationResult> {
+    const diagnostics: SpecDiagnostic[] = [];
+
+    const parsed = ServiceSpecSchema.safeParse(spec);
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        diagnostics.push({
+          path: toJsonPath(issue.path),
+          code: 'schema',
+          message: issue.message,
+          severity: 'error'
+        });
+      }
+
+      // Reference checks assume a well-formed spec
+      return { valid: false, diagnostics };
+    }
+
+    this.checkFramework(spec, diagnostics);
+    this.checkAgentIds(spec, diagnostics);
+    await this.checkPresets(spec, diagnostics);
+    await this.checkMCPReferences(spec, diagnostics);
+
+    return {
+      valid: !diagnostics.some(d => d.severity === 'error'),
+      diagnostics
+    };
+  }
+
+  /**
+   * Validate a service specification and throw if it has errors
+   */
+  async assertValid(spec: ServiceSpec): Promise<SpecValidationResult> {
+    const result = await this.validate(spec);
+    if (!result.valid) {
+      throw new SpecValidationError(spec.id, result.diagnostics);
+    }
+
+    return result;
+  }
+
+  /**
+   * Check that the orchestration type is registered and its config is valid
+   */
+  private checkFramework(spec: ServiceSpec, diagnostics: SpecDiagnostic[]): void {
+    const type = spec.orchestration.type;
+
+    if (!this.frameworkRegistry.hasFramework(type)) {
+      diagnostics.push({
+        path: '$.orchestration.type',
+        code: 'unknown_framework',
+        message: `Unsupported framework type "${type}" (expected one of: ${this.frameworkRegistry.listFrameworks().join(', ')})`,
+        severity: 'error'
+      });
+      return;
+    }
+
+    const plugin = this.frameworkRegistry.getFramework(type);
+    const config = spec.orchestration.config ?? {};
+
+    if (plugin.configSchema) {
+      const parsed = plugin.configSchema.safeParse(config);
+      if (!parsed.success) {
+        for (const issue of parsed.error.issues) {
+          diagnostics.push({
+            path: toJsonPath(['orchestration', 'config', ...issue.path]),
+            code: 'invalid_config',
+            message: issue.message,
+            severity: 'error'
+          });
+        }
+
+        // Plugin checks assume a well-formed config
+        return;
+      }
+    }
+
+    if (plugin.validateConfig) {
+      diagnostics.push(...plugin.validateConfig(config, spec));
+    }
+  }
+
+  /**
+   * Check that agent IDs are unique
+   */
+  private checkAgentIds(spec: ServiceSpec, diagnostics: SpecDiagnostic[]): void {
+    const seen = new Set<string>();
+
+    spec.agents.forEach((agent, i) => {
+      if (seen.has(agent.id)) {
+        diagnostics.push({
+          path: `$.agents[${i}].id`,
+          code: 'duplicate_agent',
+          message: `Duplicate agent ID "${agent.id}"`,
+          severity: 'error'
+        });
+      }
+      seen.add(agent.id);
+    });
+  }
+
+  /**
+   * Check that every agent and budget downgrade references an existing model preset
+   */
+  private async checkPresets(spec: ServiceSpec, diagnostics: SpecDiagnostic[]): Promise<void> {
+    const presetManager = this.context.modelPresetManager;
+
+    if (!presetManager) {
+      spec.agents.forEach((agent, i) => {
+        diagnostics.push({
+          path: `$.agents[${i}].model_preset_id`,
+          code: 'preset_not_checked',
+          message: `Model preset "${agent.model_preset_id}" was not checked: no preset manager is available`,
+          severity: 'warning'
+        });
+      });
+
+      for (const [from, to] of Object.entries(spec.budget?.downgrade || {})) {
+        diagnostics.push({
+          path: toJsonPath(['budget', 'downgrade', from]),
+          code: 'preset_not_checked',
+          message: `Downgrade preset "${to}" was not checked: no preset manager is available`,
+          severity: 'warning'
+        });
+      }
+      return;
+    }
+
+    for (let i = 0; i < spec.agents.length; i++) {
+      const agent = spec.agents[i];
+      const preset = await presetManager.getPreset(agent.model_preset_id);
+
+      if (!preset) {
+        diagnostics.push({
+          path: `$.agents[${i}].model_preset_id`,
+          code: 'unknown_preset',
+          message: `Model preset "${agent.model_preset_id}" does not exist`,
+          severity: 'error'
+        });
+      } else if (agent.mcp?.tools?.length && !getPresetCapabilities(preset).tool_calling) {
+        diagnostics.push({
+          path: `$.agents[${i}].model_preset_id`,
+          code: 'tool_calling_unsupported',
+          message: `Model preset "${preset.id}" does not support tool calling, so the agent's MCP tools cannot be used`,
+          severity: 'error'
+        });
+      }
+    }
+
+    for (const [from, to] of Object.entries(spec.budget?.downgrade || {})) {
+      if (!await presetManager.getPreset(to)) {
+        diagnostics.push({
+          path: toJsonPath(['budget', 'downgrade', from]),
+          code: 'unknown_preset',
+          message: `Downgrade preset "${to}" does not exist`,
+          severity: 'error'
+        });
+      }
+    }
+  }
+
+  /**
+   * Check MCP server, tool and permission references, and policy patterns, of every agent
+   */
+  private async checkMCPReferences(spec: ServiceSpec, diagnostics: SpecDiagnostic[]): Promise<void> {
+    const { serverRegistry, mcpClient } = this.context;
+
+    for (let i = 0; i < spec.agents.length; i++) {
+      const mcp = spec.agents[i].mcp;
+      if (!mcp) continue;
+
+      const basePath = `$.agents[${i}].mcp`;
+
+      // Servers must be registered
+      mcp.servers.forEach((serverId, j) => {
+        if (!serverRegistry) {
+          diagnostics.push({
+            path: `${basePath}.servers[${j}]`,
+            code: 'server_not_checked',
+            message: `MCP server "${serverId}" was not checked: no server registry is available`,
+            severity: 'warning'
+          });
+        } else if (!serverRegistry.getServerConfig(serverId)) {
+          diagnostics.push({
+            path: `${basePath}.servers[${j}]`,
+            code: 'unknown_server',
+            message: `MCP server "${serverId}" is not registered`,
+            severity: 'error'
+          });
+        }
+      });
+
+      // Tools must be exposed by one of the agent's own servers
+      for (let j = 0; j < mcp.tools.length; j++) {
+        const toolRef = mcp.tools[j];
+        const path = `${basePath}.tools[${j}]`;
+        const separator = toolRef.indexOf(':');
+        let candidateServers = mcp.servers;
+
+        // Qualified tool IDs (server:tool) can only come from the named server
+        if (separator !== -1) {
+          const serverId = toolRef.substring(0, separator);
+          candidateServers = [serverId];
+
+          if (!mcp.servers.includes(serverId)) {
+            diagnostics.push({
+              path,
+              code: 'tool_server_not_assigned',
+              message: `Tool "${toolRef}" belongs to server "${serverId}", which is not in this agent's servers`,
+              severity: 'error'
+            });
+            continue;
+          }
+        }
+
+        const exposed = mcpClient ? await this.isToolExposed(toolRef, candidateServers, mcpClient) : null;
+        if (exposed === null) {
+          diagnostics.push({
+            path,
+            code: 'tool_not_checked',
+            message: mcpClient
+              ? `Tool "${toolRef}" was not checked: none of its servers are connected`
+              : `Tool "${toolRef}" was not checked: no MCP client is available`,
+            severity: 'warning'
+          });
+        } else if (!exposed) {
+          diagnostics.push({
+            path,
+            code: 'unknown_tool',
+            message: `Tool "${toolRef}" is not exposed by any of this agent's servers (${mcp.servers.join(', ') || 'none'})`,
+            severity: 'error'
+          });
+        }
+      }
+
+      // Permissions should only mention tools the agent may use
+      for (const toolId of Object.keys(mcp.permissions || {})) {
+        if (!mcp.tools.includes(toolId)) {
+          diagnostics.push({
+            path: `${basePath}.permissions.${toolId}`,
+            code: 'unused_permission',
+            message: `Permissions are set for "${toolId}", which is not in this agent's tools`,
+            severity: 'warning'
+          });
+        }
+      }
+
+      // Policy patterns are compiled when the policy is set, so must be valid
+      for (const kind of ['allow', 'deny'] as const) {
+        (mcp.policy?.[kind] || []).forEach((rule, index) => {
+          for (const [param, constraint] of Object.entries(rule.params || {})) {
+            if (constraint.pattern === undefined) continue;
+
+            try {
+              new RegExp(constraint.pattern);
+            } catch (error: any) {
+              diagnostics.push({
+                path: `${basePath}.policy.${kind}[${index}].params.${param}.pattern`,
+                code: 'invalid_policy_pattern',
+                message: `Pattern /${constraint.pattern}/ is not a valid regular expression: ${error.message}`,
+                severity: 'error'
+              });
+            }
+          }
+        });
+      }
+    }
+  }
+
+  /**
+   * Check whether a tool is exposed by one of the given servers
+   *
+   * Returns null when none of the servers are connected, since their tools
+   * cannot be known yet.
+   */
+  private async isToolExposed(
+    toolRef: string,
+    serverIds: string[],
+    mcpClient: MCPClient
+  ): Promise<boolean | null> {
+    let checked = false;
+
+    for (const serverId of serverIds) {
+      const tools = await mcpClient.listTools({ serverId });
+      if (tools.length === 0) continue;
+
+      checked = true;
+      if (tools.some(tool => tool.id === toolRef || tool.name === toolRef)) {
+        return true;
+      }
+    }
+
+    return checked ? false : null;
+  }
+}
+
+/**
+ * Convert a property path to a JSON path string, e.g. ['agents', 0, 'name'] -> $.agents[0].name
+ */
+export function toJsonPath(segments: (string | number)[]): string {
+  return segments.reduce<string>((path, segment) =>
+    typeof segment === 'number' ? `${path}[${segment}]` : `${path}.${segment}`,
+  '$');
+}
@@ -0,0 +1,108 @@
+import { StateGraphConfig } from './index';
+import { GRAPH_END, findGraphIssues, resolveStateGraph } from './state-graph';
+
+/**
+ * List the codes and paths of a config's issues
+ */
+function issues(config: StateGraphConfig | undefined, agentIds: string[]): Array<[string, string]> {
+  return findGraphIssues(config, agentIds).map(issue => [issue.code, issue.path]);
+}
+
+describe('resolveStateGraph', () => {
+  it('chains one node per agent when nodes and edges are omitted', () => {
+    const graph = resolveStateGraph(undefined, ['a', 'b']);
+
+    expect(graph.nodes).toEqual([{ id: 'a', agent_id: 'a' }, { id: 'b', agent_id: 'b' }]);
+    expect(graph.edges).toEqual([{ from: 'a', to: 'b' }, { from: 'b', to: GRAPH_END }]);
+    expect(graph.entry_point).toBe('a');
+    expect(graph.recursion_limit).toBe(25);
+  });
+
+  it('adds no default edges when there are conditional edges', () => {
+    const graph = resolveStateGraph({
+      conditional_edges: [{ from: 'a', routes: [{ equals: 'done', to: GRAPH_END }], default: 'a' }]
+    }, ['a']);
+
+    expect(graph.edges).toEqual([]);
+  });
+});
+
+describe('findGraphIssues', () => {
+  it('accepts the default graph', () => {
+    expect(findGraphIssues(undefined, ['a', 'b'])).toEqual([]);
+  });
+
+  it('accepts a loop with an exit', () => {
+    expect(issues({
+      nodes: [{ id: 'write', agent_id: 'writer' }, { id: 'review', agent_id: 'reviewer', output_key: 'verdict' }],
+      edges: [{ from: 'write', to: 'review' }],
+      conditional_edges: [{
+        from: 'review',
+        key: 'verdict',
+        routes: [{ equals: 'approve', to: GRAPH_END }, { matches: '^revise', to: 'write' }],
+        default: 'write'
+      }],
+      state: { verdict: { type: 'string' } }
+    }, ['writer', 'reviewer'])).toEqual([]);
+  });
+
+  it('reports fields that are not lists', () => {
+    expect(issues({ nodes: {} as any }, ['a'])).toEqual([['invalid_graph', '$.orchestration.config.nodes']]);
+  });
+
+  it('reports unknown agents, unknown targets and duplicate nodes', () => {
+    expect(issues({
+      nodes: [{ id: 'a', agent_id: 'a' }, { id: 'a', agent_id: 'ghost' }],
+      edges: [{ from: 'a', to: 'nowhere' }]
+    }, ['a'])).toEqual([
+      ['invalid_graph', '$.orchestration.config.nodes[1].id'],
+      ['unknown_agent', '$.orchestration.config.nodes[1].agent_id'],
+      ['unknown_graph_node', '$.orchestration.config.edges[0].to']
+    ]);
+  });
+
+  it('reports nodes with two ways out and nodes with none', () => {
+    expect(issues({
+      nodes: [{ id: 'a', agent_id: 'a' }, { id: 'b', agent_id: 'b' }],
+      edges: [{ from: 'a', to: 'b' }, { from: 'a', to: GRAPH_END }]
+    }, ['a', 'b'])).toEqual([
+      ['invalid_graph', '$.orchestration.config.edges[1]'],
+      ['dead_end_node', '$.orchestration.config.nodes[1]']
+    ]);
+  });
+
+  it('reports nodes the entry point cannot reach', () => {
+    expect(issues({
+      nodes: [{ id: 'a', agent_id: 'a' }, { id: 'b', agent_id: 'b' }],
+      edges: [{ from: 'a', to: GRAPH_END }, { from: 'b', to: 'a' }]
+    }, ['a', 'b'])).toEqual([['unreachable_node', '$.orchestration.config.nodes[1]']]);
+  });
+
+  it('reports invalid routes and undeclared state keys', () => {
+    expect(issues({
+      nodes: [{ id: 'a', agent_id: 'a', output_key: 'missing' }],
+      conditional_edges: [{ from: 'a', key: 'other', routes: [{ to: GRAPH_END }, { matches: '(', to: GRAPH_END }] }],
+      state: { verdict: { type: 'string' }, score: { type: 'float' as any } }
+    }, ['a'])).toEqual([
+      ['invalid_graph', '$.orchestration.config.state.score.type'],
+      ['invalid_graph', '$.orchestration.config.nodes[0].output_key'],
+      ['invalid_graph', '$.orchestration.config.conditional_edges[0].key'],
+      ['invalid_graph', '$.orchestration.config.conditional_edges[0].routes[0]'],
+      ['invalid_graph', '$.orchestration.config.conditional_edges[0].routes[1].matches']
+    ]);
+  });
+
+  it('reports a conditional edge without routes', () => {
+    expect(issues({
+      conditional_edges: [{ from: 'a', routes: [], default: GRAPH_END }]
+    }, ['a'])).toEqual([['invalid_graph', '$.orchestration.config.conditional_edges[0].routes']]);
+  });
+
+  it('reports an invalid recursion limit and an unknown entry point', () => {
+    expect(issues({ entry_point: 'z', recursion_limit: 0 }, ['a'])).toEqual([
+      ['invalid_graph', '$.orchestration.config.recursion_limit'],
+      ['unknown_graph_node', '$.orchestration.config.entry_point'],
+      ['unreachable_node', '$.orchestration.config.nodes[0]']
+    ]);
+  });
+});
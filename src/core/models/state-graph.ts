@@ -0,0 +1,229 @@
+import {
+  StateGraphConfig,
+  StateGraphNode,
+  StateGraphEdge,
+  StateGraphConditionalEdge,
+  StateGraphChannel,
+  SpecDiagnostic
+} from './index';
+
+/**
+ * Target that ends a graph run
+ */
+export const GRAPH_END = 'END';
+
+const DEFAULT_RECURSION_LIMIT = 25;
+const CHANNEL_TYPES = ['string', 'number', 'boolean', 'json'];
+const CONFIG_PATH = '$.orchestration.config';
+
+/**
+ * A state graph with defaults applied
+ */
+export interface ResolvedStateGraph {
+  nodes: StateGraphNode[];
+  edges: StateGraphEdge[];
+  conditional_edges: StateGraphConditionalEdge[];
+  entry_point: string;
+  finish_points: string[];
+  state: Record<string, StateGraphChannel>;
+  recursion_limit: number;
+}
+
+/**
+ * Apply defaults to a state graph config
+ *
+ * Without nodes every agent becomes a node; without edges the nodes are
+ * chained in order and the last one ends the graph.
+ */
+export function resolveStateGraph(config: StateGraphConfig | undefined, agentIds: string[]): ResolvedStateGraph {
+  const graph = config || {};
+  const nodes = graph.nodes || agentIds.map(agentId => ({ id: agentId, agent_id: agentId }));
+  const conditionalEdges = graph.conditional_edges || [];
+
+  let edges = graph.edges || [];
+  if (!graph.edges && conditionalEdges.length === 0) {
+    edges = nodes.map((node, index) => ({
+      from: node.id,
+      to: index < nodes.length - 1 ? nodes[index + 1].id : GRAPH_END
+    }));
+  }
+
+  return {
+    nodes,
+    edges,
+    conditional_edges: conditionalEdges,
+    entry_point: graph.entry_point || nodes[0]?.id || '',
+    finish_points: graph.finish_points || [],
+    state: graph.state || {},
+    recursion_limit: graph.recursion_limit || DEFAULT_RECURSION_LIMIT
+  };
+}
+
+/**
+ * Statically check a state graph config
+ *
+ * Reports unknown agents and targets, ambiguous or missing transitions,
+ * untyped state keys, invalid patterns and nodes the entry point cannot reach.
+ */
+export function findGraphIssues(config: StateGraphConfig | undefined, agentIds: string[]): SpecDiagnostic[] {
+  const diagnostics: SpecDiagnostic[] = [];
+  const error = (path: string, code: string, message: string): void => {
+    diagnostics.push({ path: `${CONFIG_PATH}${path}`, code, message, severity: 'error' });
+  };
+
+  for (const field of ['nodes', 'edges', 'conditional_edges', 'finish_points'] as const) {
+    if (config?.[field] !== undefined && !Array.isArray(config[field])) {
+      error(`.${field}`, 'invalid_graph', `"${field}" must be a list`);
+    }
+  }
+  if (diagnostics.length > 0) return diagnostics;
+
+  const graph = resolveStateGraph(config, agentIds);
+
+  if (config?.recursion_limit !== undefined && !(Number.isInteger(config.recursion_limit) && config.recursion_limit > 0)) {
+    error('.recursion_limit', 'invalid_graph', '"recursion_limit" must be a positive integer');
+  }
+
+  const nodeIds = new Set<string>();
+  const stateKeys = Object.keys(graph.state);
+
+  for (const [key, channel] of Object.entries(graph.state)) {
+    if (!CHANNEL_TYPES.includes(channel?.type)) {
+      error(`.state.${key}.type`, 'invalid_graph', `State key "${key}" needs a type (one of: ${CHANNEL_TYPES.join(', ')})`);
+    }
+  }
+
+  graph.nodes.forEach((node, index) => {
+    if (!node.id || node.id === GRAPH_END) {
+      error(`.nodes[${index}].id`, 'invalid_graph', `Node ${index} needs an ID other than "${GRAPH_END}"`);
+    } else if (nodeIds.has(node.id)) {
+      error(`.nodes[${index}].id`, 'invalid_graph', `Duplicate node ID "${node.id}"`);
+    }
+    nodeIds.add(node.id);
+
+    if (!agentIds.includes(node.agent_id)) {
+      error(`.nodes[${index}].agent_id`, 'unknown_agent', `Node "${node.id}" runs unknown agent "${node.agent_id}"`);
+    }
+
+    if (node.output_key && stateKeys.length > 0 && !stateKeys.includes(node.output_key)) {
+      error(`.nodes[${index}].output_key`, 'invalid_graph', `State key "${node.output_key}" is not declared in "state"`);
+    }
+  });
+
+  if (graph.nodes.length === 0) {
+    error('.nodes', 'invalid_graph', 'The graph has no nodes');
+    return diagnostics;
+  }
+
+  const checkNode = (path: string, nodeId: string, allowEnd: boolean): void => {
+    if (!nodeIds.has(nodeId) && !(allowEnd && nodeId === GRAPH_END)) {
+      error(path, 'unknown_graph_node', `Unknown graph node "${nodeId}"`);
+    }
+  };
+
+  checkNode('.entry_point', graph.entry_point, false);
+  graph.finish_points.forEach((nodeId, index) => checkNode(`.finish_points[${index}]`, nodeId, false));
+
+  // Each node has at most one way out: an edge, a conditional edge or being a finish point
+  const exits = new Map<string, string>();
+  const addExit = (path: string, from: string): void => {
+    if (exits.has(from)) {
+      error(path, 'invalid_graph', `Node "${from}" already has an outgoing transition at ${exits.get(from)}`);
+    } else {
+      exits.set(from, `${CONFIG_PATH}${path}`);
+    }
+  };
+
+  graph.finish_points.forEach((nodeId, index) => addExit(`.finish_points[${index}]`, nodeId));
+
+  graph.edges.forEach((edge, index) => {
+    checkNode(`.edges[${index}].from`, edge.from, false);
+    checkNode(`.edges[${index}].to`, edge.to, true);
+    addExit(`.edges[${index}]`, edge.from);
+  });
+
+  graph.conditional_edges.forEach((edge, index) => {
+    const path = `.conditional_edges[${index}]`;
+    checkNode(`${path}.from`, edge.from, false);
+    addExit(path, edge.from);
+
+    if (edge.key && !stateKeys.includes(edge.key)) {
+      error(`${path}.key`, 'invalid_graph', `State key "${edge.key}" is not declared in "state"`);
+    }
+
+    if (edge.default !== undefined) {
+      checkNode(`${path}.default`, edge.default, true);
+    }
+
+    (Array.isArray(edge.routes) ? edge.routes : []).forEach((route, routeIndex) => {
+      const routePath = `${path}.routes[${routeIndex}]`;
+      checkNode(`${routePath}.to`, route.to, true);
+
+      if (route.equals === undefined && route.contains === undefined && route.matches === undefined) {
+        error(routePath, 'invalid_graph', 'A route needs "equals", "contains" or "matches"');
+      }
+
+      if (route.matches !== undefined) {
+        try {
+          new RegExp(route.matches);
+        } catch {
+          error(`${routePath}.matches`, 'invalid_graph', `Invalid regular expression "${route.matches}"`);
+        }
+      }
+    });
+
+    if (!Array.isArray(edge.routes) || edge.routes.length === 0) {
+      error(`${path}.routes`, 'invalid_graph', `Conditional edge from "${edge.from}" has no routes`);
+    }
+  });
+
+  graph.nodes.forEach((node, index) => {
+    if (nodeIds.has(node.id) && !exits.has(node.id)) {
+      error(`.nodes[${index}]`, 'dead_end_node', `Node "${node.id}" has no outgoing edge and is not a finish point`);
+    }
+  });
+
+  for (const nodeId of findUnreachableNodes(graph)) {
+    const index = graph.nodes.findIndex(node => node.id === nodeId);
+    error(`.nodes[${index}]`, 'unreachable_node', `Node "${nodeId}" cannot be reached from "${graph.entry_point}"`);
+  }
+
+  return diagnostics;
+}
+
+/**
+ * List nodes no path from the entry point leads to
+ */
+function findUnreachableNodes(graph: ResolvedStateGraph): string[] {
+  const targets = new Map<string, string[]>();
+  const addTarget = (from: string, to: string | undefined): void => {
+    if (to) {
+      targets.set(from, [...(targets.get(from) || []), to]);
+    }
+  };
+
+  for (const edge of graph.edges) {
+    addTarget(edge.from, edge.to);
+  }
+
+  for (const edge of graph.conditional_edges) {
+    addTarget(edge.from, edge.default);
+    for (const route of Array.isArray(edge.routes) ? edge.routes : []) {
+      addTarget(edge.from, route.to);
+    }
+  }
+
+  const reached = new Set<string>([graph.entry_point]);
+  const queue = [graph.entry_point];
+
+  while (queue.length > 0) {
+    for (const target of targets.get(queue.shift()!) || []) {
+      if (!reached.has(target)) {
+        reached.add(target);
+        queue.push(target);
+      }
+    }
+  }
+
+  return graph.nodes.map(node => node.id).filter(nodeId => nodeId && !reached.has(nodeId));
+}
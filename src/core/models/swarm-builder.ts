@@ -1,7 +1,20 @@
 import { v4 as uuidv4 } from 'uuid';
-import { ServiceSpec, Agent, ModelPreset } from './index';
+import { ServiceSpec, ServiceSpecRevision, ServiceSpecChange, Agent, ModelPreset, SpecValidationResult, ToolPolicy } from './index';
 import { ServiceSpecManager } from './service-spec-manager';
 import { ModelPresetManager } from './model-preset-manager';
+import { ServiceSpecValidator } from './spec-validator';
+import { loadServiceSpecFile, saveServiceSpecFile } from './spec-format';
+import { MCPServerRegistry } from '../mcp/mcp-server-registry';
+import { FrameworkRegistry } from '../orchestrator/framework-registry';
+
+/**
+ * Options for creating a swarm builder
+ */
+export interface SwarmBuilderOptions {
+  dataDir?: string;                   // Root data directory (default: ~/.swarm-builder)
+  serverRegistry?: MCPServerRegistry; // Registry used to validate MCP server references
+  frameworkRegistry?: FrameworkRegistry; // Orchestration types specs may use (default: the built-in frameworks)
+}
 
 /**
  * Options for creating a new service specification
@@ -30,6 +43,7 @@ export interface AgentOptions {
     tools: string[];
     permissions?: Record<string, any>;
     defaultParameters?: Record<string, any>;
+    policy?: ToolPolicy;
   };
 }
 
@@ -39,10 +53,16 @@ export interface AgentOptions {
 export class SwarmBuilder {
   private serviceSpecManager: ServiceSpecManager;
   private modelPresetManager: ModelPresetManager;
+  private validator: ServiceSpecValidator;
 
-  constructor() {
-    this.serviceSpecManager = new ServiceSpecManager();
-    this.modelPresetManager = new ModelPresetManager();
+  constructor(options?: SwarmBuilderOptions) {
+    this.serviceSpecManager = new ServiceSpecManager({ dataDir: options?.dataDir });
+    this.modelPresetManager = new ModelPresetManager({ dataDir: options?.dataDir });
+    this.validator = new ServiceSpecValidator({
+      modelPresetManager: this.modelPresetManager,
+      serverRegistry: options?.serverRegistry,
+      frameworkRegistry: options?.frameworkRegistry
+    });
   }
 
   /**
@@ -85,10 +105,20 @@ export class SwarmBuilder {
     return agent;
   }
 
+  /**
+   * Validate a service specification and its preset and MCP references
+   */
+  async validateServiceSpec(spec: ServiceSpec): Promise<SpecValidationResult> {
+    return await this.validator.validate(spec);
+  }
+
   /**
    * Save a service specification
+   *
+   * Throws a SpecValidationError carrying the diagnostics if the spec is invalid.
    */
   async saveServiceSpec(spec: ServiceSpec): Promise<ServiceSpec> {
+    await this.validator.assertValid(spec);
     return await this.serviceSpecManager.saveServiceSpec(spec);
   }
 
@@ -106,6 +136,61 @@ export class SwarmBuilder {
     return await this.serviceSpecManager.listServiceSpecs();
   }
 
+  /**
+   * Load a service specification from a YAML or JSON spec file
+   *
+   * Older schema versions are migrated automatically. The spec is validated
+   * but not saved; pass it to saveServiceSpec to store it.
+   */
+  async importServiceSpec(filePath: string): Promise<ServiceSpec> {
+    const spec = await loadServiceSpecFile(filePath);
+    await this.validator.assertValid(spec);
+    return spec;
+  }
+
+  /**
+   * Write a service specification to a YAML or JSON spec file
+   *
+   * The format is chosen from the file extension.
+   */
+  async exportServiceSpec(spec: ServiceSpec, filePath: string): Promise<void> {
+    await saveServiceSpecFile(spec, filePath);
+  }
+
+  /**
+   * Delete a service specification and its revision history
+   */
+  async deleteServiceSpec(id: string): Promise<void> {
+    await this.serviceSpecManager.deleteServiceSpec(id);
+  }
+
+  /**
+   * List all saved revisions of a service specification
+   */
+  async listServiceSpecRevisions(id: string): Promise<ServiceSpecRevision[]> {
+    return await this.serviceSpecManager.listRevisions(id);
+  }
+
+  /**
+   * Compare two revisions of a service specification
+   */
+  async diffServiceSpecRevisions(id: string, fromRevision: number, toRevision: number): Promise<ServiceSpecChange[]> {
+    return await this.serviceSpecManager.diffRevisions(id, fromRevision, toRevision);
+  }
+
+  /**
+   * Roll a service specification back to an earlier revision
+   *
+   * Throws a SpecValidationError carrying the diagnostics if the revision no longer validates.
+   */
+  async rollbackServiceSpec(id: string, revision: number): Promise<ServiceSpec> {
+    return await this.serviceSpecManager.rollbackServiceSpec(id, revision, {
+      validate: async spec => {
+        await this.validator.assertValid(spec);
+      }
+    });
+  }
+
   /**
    * Get a model preset by ID
    */
@@ -0,0 +1,326 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { ChatMessage, ChatResponse } from '../providers';
+import { MCPToolResult } from '../mcp';
+import { CostLimitExceededError } from './cost-tracker';
+import { BudgetExceededError } from './budget-manager';
+import { MessageCancelledError, linkAbortSignal, throwIfAborted } from './cancellation';
+import { Span, SpanKind, SpanAttributes } from '../tracing';
+import {
+  SwarmEvent,
+  AgentChatRequest,
+  RuntimeAgent,
+  RuntimeTool,
+  AgentRunOptions,
+  AgentRunResult,
+  AgentMessageEvent,
+  CallOptions
+} from './index';
+
+const DEFAULT_MAX_TURNS = 10;
+
+/**
+ * What the runtime needs from the orchestrator: metered model and tool
+ * calls, a place to keep agent transcripts and checkpoints, and ways to
+ * report and trace progress
+ */
+export interface AgentRuntimeHost {
+  callModel(agentId: string, request: AgentChatRequest, options?: CallOptions): Promise<ChatResponse>;
+  executeTool(agentId: string, toolId: string, params: any, options?: CallOptions): Promise<MCPToolResult>;
+  recordAgentMessage(agentId: string, message: ChatMessage): void;
+  saveCheckpoint(state: any): Promise<void>;
+  startSpan(kind: SpanKind, name: string, attributes?: SpanAttributes, parent?: Span): Span;
+  emit(event: string | symbol, ...args: any[]): boolean;
+}
+
+/**
+ * In-process agent execution loop
+ *
+ * A run calls the agent's model, executes any tool calls it asks for, feeds
+ * the results back and repeats until the model answers without tool calls or
+ * the turn limit is reached.
+ */
+export class AgentRuntime {
+  private host: AgentRuntimeHost;
+  private agents: Map<string, RuntimeAgent>;
+  private maxTurns: number;
+  private stepTimeout: number | undefined;
+  private runSignals: AsyncLocalStorage<AbortSignal>;
+
+  constructor(host: AgentRuntimeHost, agents: Map<string, RuntimeAgent>, options?: { maxTurns?: number; stepTimeout?: number }) {
+    this.host = host;
+    this.agents = agents;
+    this.maxTurns = options?.maxTurns || DEFAULT_MAX_TURNS;
+    this.stepTimeout = options?.stepTimeout;
+    this.runSignals = new AsyncLocalStorage();
+  }
+
+  /**
+   * Handle a message with a framework under the message's own signal
+   *
+   * Every runtime call the framework makes for this message carries the
+   * signal, including calls made after the message was cancelled and
+   * abandoned; once it is aborted, they are refused. A later message's
+   * signal never reaches them.
+   */
+  handleMessage<T>(signal: AbortSignal, handle: () => Promise<T>): Promise<T> {
+    return this.runSignals.run(signal, handle);
+  }
+
+  /**
+   * Get an agent by ID
+   */
+  getAgent(agentId: string): RuntimeAgent {
+    const agent = this.agents.get(agentId);
+    if (!agent) {
+      throw new Error(`Unknown agent: ${agentId}`);
+    }
+
+    return agent;
+  }
+
+  /**
+   * List agents in spec order
+   */
+  listAgents(): RuntimeAgent[] {
+    return Array.from(this.agents.values());
+  }
+
+  /**
+   * Make a single metered model call with an agent's preset
+   *
+   * Frameworks use this for coordination calls such as picking the next speaker.
+   */
+  async complete(agentId: string, request: AgentChatRequest): Promise<ChatResponse> {
+    this.getAgent(agentId);
+    return this.host.callModel(agentId, request, { signal: this.getRunSignal() });
+  }
+
+  /**
+   * Emit a swarm event on behalf of a framework
+   */
+  emit(event: SwarmEvent, payload: any): void {
+    this.host.emit(event, payload);
+  }
+
+  /**
+   * Save a framework snapshot after a completed agent step
+   *
+   * The snapshot must be JSON-serializable. If the run is interrupted, the
+   * framework's `resume` is given the last snapshot to finish the message.
+   */
+  async checkpoint(state: any): Promise<void> {
+    // An abandoned run must not overwrite the checkpoint of the message handled after it
+    throwIfAborted(this.getRunSignal());
+    await this.host.saveCheckpoint(state);
+  }
+
+  /**
+   * Run an agent on a conversation until it produces a final answer
+   *
+   * `input` is either a user message or the conversation so far; it is not
+   * modified. Cost and budget errors are passed on so the framework can
+   * decide whether to continue without the agent; tool failures are
+   * reported to the model instead. A run that exceeds the step timeout
+   * cancels the message. Each run is traced as an agent step.
+   */
+  async run(agentId: string, input: string | ChatMessage[], options?: AgentRunOptions): Promise<AgentRunResult> {
+    const agent = this.getAgent(agentId);
+    const span = this.host.startSpan('agent_step', `agent_step ${agent.id}`, {
+      'swarm.agent_id': agent.id,
+      'swarm.agent_name': agent.name
+    });
+
+    try {
+      const result = await this.runWithTimeout(agent, input, options, span);
+      span.setAttributes({ 'swarm.turns': result.turns, 'swarm.stop_reason': result.stop_reason });
+      return result;
+    } catch (error) {
+      span.recordError(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Get the signal of the message whose handling made the current call, if any
+   */
+  private getRunSignal(): AbortSignal | undefined {
+    return this.runSignals.getStore();
+  }
+
+  /**
+   * Run an agent under the message's signal and the step timeout, if there is one
+   */
+  private async runWithTimeout(
+    agent: RuntimeAgent,
+    input: string | ChatMessage[],
+    options: AgentRunOptions | undefined,
+    span: Span
+  ): Promise<AgentRunResult> {
+    const signal = this.getRunSignal();
+    throwIfAborted(signal);
+
+    const stepTimeout = this.stepTimeout;
+    if (!stepTimeout) {
+      return this.runSteps(agent, input, options, { signal, span });
+    }
+
+    const controller = new AbortController();
+    const unlink = linkAbortSignal(signal, controller);
+    const timer = setTimeout(() => {
+      controller.abort(new MessageCancelledError('step_timeout', { timeout: stepTimeout, agentId: agent.id, agentName: agent.name }));
+    }, stepTimeout);
+
+    try {
+      return await this.runSteps(agent, input, options, { signal: controller.signal, span });
+    } finally {
+      clearTimeout(timer);
+      unlink();
+    }
+  }
+
+  /**
+   * Run the model and tool loop of an agent, making calls with the given signal and span
+   */
+  private async runSteps(
+    agent: RuntimeAgent,
+    input: string | ChatMessage[],
+    options: AgentRunOptions | undefined,
+    callOptions: CallOptions
+  ): Promise<AgentRunResult> {
+    const agentId = agent.id;
+    const maxTurns = options?.maxTurns || this.maxTurns;
+    const toolsByName = new Map(agent.tools.map(tool => [tool.definition.name, tool]));
+
+    const conversation: ChatMessage[] = typeof input === 'string'
+      ? [{ role: 'user', content: input }]
+      : [...input];
+    const added: ChatMessage[] = [];
+
+    const addMessage = (message: ChatMessage): void => {
+      throwIfAborted(callOptions.signal);
+      conversation.push(message);
+      added.push(message);
+      this.host.recordAgentMessage(agentId, message);
+
+      const event: AgentMessageEvent = { agentId, message };
+      this.host.emit(SwarmEvent.AGENT_MESSAGE, event);
+    };
+
+    this.host.emit(SwarmEvent.AGENT_START, { agentId });
+
+    try {
+      for (let turn = 1; turn <= maxTurns; turn++) {
+        throwIfAborted(callOptions.signal);
+
+        const response = await this.host.callModel(agentId, {
+          system: options?.system ?? agent.system_prompt,
+          messages: conversation,
+          tools: agent.tools.length > 0 ? agent.tools.map(tool => tool.definition) : undefined
+        }, callOptions);
+
+        addMessage({
+          role: 'assistant',
+          name: agent.name,
+          content: response.content,
+          tool_calls: response.tool_calls.length > 0 ? response.tool_calls : undefined
+        });
+
+        if (response.tool_calls.length === 0) {
+          return this.finish({
+            agent_id: agentId,
+            content: response.content,
+            messages: added,
+            turns: turn,
+            stop_reason: response.stop_reason
+          });
+        }
+
+        for (const call of response.tool_calls) {
+          const result = await this.callTool(agentId, toolsByName.get(call.name), call.name, call.arguments, callOptions);
+          addMessage({
+            role: 'tool',
+            tool_call_id: call.id,
+            name: call.name,
+            content: result.content,
+            is_error: result.is_error || undefined
+          });
+        }
+      }
+
+      const lastAnswer = [...added].reverse().find(message => message.role === 'assistant' && message.content);
+
+      return this.finish({
+        agent_id: agentId,
+        content: lastAnswer?.content || `${agent.name} did not reach a final answer within ${maxTurns} turns.`,
+        messages: added,
+        turns: maxTurns,
+        stop_reason: 'max_turns'
+      });
+    } catch (error) {
+      this.host.emit(SwarmEvent.AGENT_ERROR, { agentId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Execute a tool call and turn the outcome into tool message content
+   */
+  private async callTool(
+    agentId: string,
+    tool: RuntimeTool | undefined,
+    name: string,
+    args: Record<string, any>,
+    callOptions: CallOptions
+  ): Promise<{ content: string; is_error: boolean }> {
+    if (!tool) {
+      return { content: `Error: unknown tool "${name}"`, is_error: true };
+    }
+
+    try {
+      const result = await this.host.executeTool(agentId, tool.tool_id, args, callOptions);
+
+      // A refused call is reported to the model as a structured error it can act on
+      if (result.error) {
+        return { content: JSON.stringify({ error: result.error }), is_error: true };
+      }
+
+      return { content: stringifyToolData(result.data), is_error: false };
+    } catch (error: any) {
+      if (
+        error instanceof CostLimitExceededError ||
+        error instanceof BudgetExceededError ||
+        error instanceof MessageCancelledError
+      ) {
+        throw error;
+      }
+
+      return { content: `Error: ${error.message}`, is_error: true };
+    }
+  }
+
+  /**
+   * Report the end of a run
+   */
+  private finish(result: AgentRunResult): AgentRunResult {
+    this.host.emit(SwarmEvent.AGENT_STOP, {
+      agentId: result.agent_id,
+      turns: result.turns,
+      stop_reason: result.stop_reason
+    });
+
+    return result;
+  }
+}
+
+/**
+ * Render tool output as text for the model
+ */
+function stringifyToolData(data: any): string {
+  if (typeof data === 'string') {
+    return data;
+  }
+
+  return JSON.stringify(data ?? null);
+}
@@ -0,0 +1,129 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BudgetManager, BudgetExceededError } from './budget-manager';
+
+describe('BudgetManager', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'budget-manager-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('resets message spend per message but keeps session spend', async () => {
+    const budget = new BudgetManager('spec', { per_message: 1, per_session: 5 }, { dataDir });
+    budget.startSession('s1');
+    budget.startMessage('s1');
+
+    await budget.record('s1', 0.75);
+    budget.startMessage('s1');
+    await budget.record('s1', 0.5);
+
+    const { windows } = budget.getStatus('s1');
+    expect(windows.per_message).toEqual({ limit: 1, spent: 0.5, remaining: 0.5 });
+    expect(windows.per_session).toEqual({ limit: 5, spent: 1.25, remaining: 3.75 });
+  });
+
+  it('reports each threshold once per window', async () => {
+    const budget = new BudgetManager('spec', { per_session: 1, warning_threshold: 0.5 }, { dataDir });
+    budget.startSession('s1');
+
+    expect(await budget.record('s1', 0.4)).toEqual([]);
+    const [warning, ...rest] = await budget.record('s1', 0.2);
+    expect(rest).toEqual([]);
+    expect(warning).toMatchObject({ type: 'warning', event: { window: 'per_session', limit: 1 } });
+    expect(warning.event.spent).toBeCloseTo(0.6);
+    expect(await budget.record('s1', 0.1)).toEqual([]);
+    expect((await budget.record('s1', 0.3)).map(crossing => crossing.type)).toEqual(['exceeded']);
+    expect(await budget.record('s1', 0.1)).toEqual([]);
+  });
+
+  it('reports message thresholds again for a new message', async () => {
+    const budget = new BudgetManager('spec', { per_message: 1 }, { dataDir });
+    budget.startSession('s1');
+
+    expect(await budget.record('s1', 0.9)).toHaveLength(1);
+    budget.startMessage('s1');
+    expect(await budget.record('s1', 0.9)).toHaveLength(1);
+  });
+
+  it('refuses calls once a window is exhausted', async () => {
+    const budget = new BudgetManager('spec', { per_session: 1 }, { dataDir });
+    budget.startSession('s1');
+
+    await budget.record('s1', 0.5);
+    expect(await budget.getExhaustion('s1')).toBeNull();
+    await expect(budget.assertWithinBudget('s1')).resolves.toBeUndefined();
+
+    await budget.record('s1', 0.5);
+    await expect(budget.assertWithinBudget('s1')).rejects.toThrow(BudgetExceededError);
+    expect(await budget.getExhaustion('s1')).toMatchObject({ window: 'per_session', spent: 1, limit: 1 });
+  });
+
+  it('finds windows an estimated call would bring near exhaustion', async () => {
+    const budget = new BudgetManager('spec', { per_session: 1, warning_threshold: 0.8 }, { dataDir });
+    budget.startSession('s1');
+    await budget.record('s1', 0.5);
+
+    expect(budget.getNearExhaustedWindow('s1', 0.2)).toBeNull();
+    expect(budget.getNearExhaustedWindow('s1', 0.3)).toBe('per_session');
+  });
+
+  it('keeps session windows apart and shares day and month windows', async () => {
+    const budget = new BudgetManager('spec', { per_session: 1, per_day: 10, per_month: 100 }, { dataDir });
+    budget.startSession('s1');
+    budget.startSession('s2');
+
+    await budget.record('s1', 0.25);
+    await budget.record('s2', 0.5);
+
+    expect(budget.getStatus('s1').windows.per_session?.spent).toBe(0.25);
+    expect(budget.getStatus('s2').windows.per_session?.spent).toBe(0.5);
+    expect(budget.getStatus().windows).toEqual({
+      per_day: { limit: 10, spent: 0.75, remaining: 9.25 },
+      per_month: { limit: 100, spent: 0.75, remaining: 99.25 }
+    });
+  });
+
+  it('persists day and month spend for later runs and other managers', async () => {
+    const first = new BudgetManager('spec', { per_day: 1 }, { dataDir });
+    first.startSession('s1');
+    await first.record('s1', 0.5);
+
+    const second = new BudgetManager('spec', { per_day: 1 }, { dataDir });
+    await second.load();
+    second.startSession('s2');
+    expect(second.getStatus('s2').windows.per_day?.spent).toBe(0.5);
+
+    await second.record('s2', 0.5);
+    expect(await first.getExhaustion('s1')).toMatchObject({ window: 'per_day', spent: 1 });
+  });
+
+  it('tracks downgrades per session', () => {
+    const budget = new BudgetManager('spec', { per_session: 1, downgrade: { large: 'small' } }, { dataDir });
+    budget.startSession('s1');
+
+    expect(budget.getDowngradePresetId('large')).toBe('small');
+    expect(budget.getDowngradePresetId('small')).toBeNull();
+
+    budget.setDowngrade('s1', 'writer', 'small');
+    expect(budget.getStatus('s1').downgraded_agents).toEqual({ writer: 'small' });
+
+    budget.setDowngrade('s1', 'writer', null);
+    expect(budget.getStatus('s1').downgraded_agents).toEqual({});
+  });
+
+  it('rejects sessions that were not started', () => {
+    const budget = new BudgetManager('spec', { per_session: 1 }, { dataDir });
+
+    expect(() => budget.getStatus('missing')).toThrow('Budget session not started: missing');
+  });
+
+  it('rejects unsafe spec IDs', () => {
+    expect(() => new BudgetManager('../spec', { per_day: 1 }, { dataDir })).toThrow('Invalid spec ID: ../spec');
+  });
+});
@@ -0,0 +1,405 @@
+import * as path from 'path';
+import { ServiceSpecBudget } from '../models';
+import { getDataDir, readJsonFile, writeJsonFile, withFileLock, assertSafeId } from '../storage';
+import { BudgetWindow, BudgetWindowStatus, BudgetStatus, BudgetEvent } from './index';
+
+const DEFAULT_WARNING_THRESHOLD = 0.8;
+
+// How long persisted day and month totals are kept
+const DAYS_KEPT = 62;
+const MONTHS_KEPT = 24;
+
+const WINDOWS: BudgetWindow[] = ['per_message', 'per_session', 'per_day', 'per_month'];
+
+// Windows whose spend all sessions add to
+const SHARED_WINDOWS: BudgetWindow[] = ['per_day', 'per_month'];
+
+const WINDOW_LABELS: Record<BudgetWindow, string> = {
+  per_message: 'per-message',
+  per_session: 'per-session',
+  per_day: 'daily',
+  per_month: 'monthly'
+};
+
+/**
+ * Persisted spend of a swarm, keyed by UTC day (YYYY-MM-DD) and month (YYYY-MM)
+ */
+interface SpendLedger {
+  days: Record<string, number>;
+  months: Record<string, number>;
+}
+
+/**
+ * Spend of one session in its message and session windows
+ */
+interface SessionSpend {
+  message: number;
+  session: number;
+  crossed: Set<string>;                  // Message and session thresholds already reported
+  downgrades: Map<string, string>;       // Agent ID to the downgrade preset it runs on
+}
+
+/**
+ * A budget threshold crossed by a recorded call
+ */
+export interface BudgetCrossing {
+  type: 'warning' | 'exceeded';
+  event: BudgetEvent;
+}
+
+/**
+ * Thrown when a call would be made while a swarm budget is exhausted
+ */
+export class BudgetExceededError extends Error {
+  window: BudgetWindow;
+  spent: number;
+  limit: number;
+
+  constructor(window: BudgetWindow, spent: number, limit: number) {
+    super(
+      `The swarm's ${WINDOW_LABELS[window]} budget of $${limit.toFixed(2)} is exhausted ` +
+      `(spent $${spent.toFixed(4)}), so no further model or tool calls will be made until it resets.`
+    );
+    this.name = 'BudgetExceededError';
+    this.window = window;
+    this.spent = spent;
+    this.limit = limit;
+  }
+}
+
+/**
+ * Tracks swarm spend against the budget of a service spec
+ *
+ * Message and session spend live in memory, separately for every open
+ * session. Day and month spend is shared by all sessions and stored in
+ * `<dataDir>/cost-<specId>.json`, so it carries over between runs. Every
+ * process running the spec adds to that ledger under a file lock, and
+ * each budget check reads it again, so they see each other's spend.
+ */
+export class BudgetManager {
+  private budget: ServiceSpecBudget;
+  private filePath: string;
+  private ledger: SpendLedger;
+  private sessions: Map<string, SessionSpend>;
+  private crossed: Set<string>;
+  private writeQueue: Promise<void>;
+
+  constructor(specId: string, budget: ServiceSpecBudget, options?: { dataDir?: string }) {
+    assertSafeId(specId, 'spec');
+
+    this.budget = budget;
+    this.filePath = path.join(options?.dataDir || getDataDir(), `cost-${specId}.json`);
+    this.ledger = { days: {}, months: {} };
+    this.sessions = new Map();
+    this.crossed = new Set();
+    this.writeQueue = Promise.resolve();
+  }
+
+  /**
+   * Load persisted day and month spend
+   */
+  async load(): Promise<void> {
+    this.ledger = await this.readLedger();
+  }
+
+  /**
+   * Start tracking the message and session spend of a session
+   *
+   * A resumed session passes what it has spent so far.
+   */
+  startSession(sessionId: string, sessionSpend = 0): void {
+    this.sessions.set(sessionId, {
+      message: 0,
+      session: sessionSpend,
+      crossed: new Set(),
+      downgrades: new Map()
+    });
+  }
+
+  /**
+   * Stop tracking a session
+   */
+  endSession(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  /**
+   * Reset a session's message spend for a new user message
+   *
+   * A resumed message passes what it has spent so far.
+   */
+  startMessage(sessionId: string, messageSpend = 0): void {
+    const spend = this.getSessionSpend(sessionId);
+    spend.message = messageSpend;
+
+    for (const key of Array.from(spend.crossed)) {
+      if (key.includes(':per_message:')) {
+        spend.crossed.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Get spend versus limit of every configured window
+   *
+   * Without a session, only the shared day and month windows are reported.
+   * Day and month spend is as of the last check or recorded call.
+   */
+  getStatus(sessionId?: string): BudgetStatus {
+    const spend = sessionId ? this.getSessionSpend(sessionId) : null;
+    const windows: BudgetStatus['windows'] = {};
+
+    for (const window of WINDOWS) {
+      if (!spend && !SHARED_WINDOWS.includes(window)) continue;
+
+      const status = this.getWindowStatus(window, spend);
+      if (status) {
+        windows[window] = status;
+      }
+    }
+
+    return {
+      windows,
+      downgraded_agents: Object.fromEntries(spend?.downgrades || [])
+    };
+  }
+
+  /**
+   * Get an error describing the first budget window exhausted for a session, if any
+   *
+   * Reads the day and month spend other processes recorded since the last check.
+   */
+  async getExhaustion(sessionId: string): Promise<BudgetExceededError | null> {
+    const spend = this.getSessionSpend(sessionId);
+    await this.refreshLedger();
+
+    for (const window of WINDOWS) {
+      const status = this.getWindowStatus(window, spend);
+      if (status && status.spent >= status.limit) {
+        return new BudgetExceededError(window, status.spent, status.limit);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Throw if any budget window of a session is exhausted
+   */
+  async assertWithinBudget(sessionId: string): Promise<void> {
+    const exhaustion = await this.getExhaustion(sessionId);
+    if (exhaustion) {
+      throw exhaustion;
+    }
+  }
+
+  /**
+   * Find a window that would be near exhaustion after a session spends `estimate` more
+   *
+   * Day and month spend is as of the last check or recorded call.
+   */
+  getNearExhaustedWindow(sessionId: string, estimate: number): BudgetWindow | null {
+    const threshold = this.budget.warning_threshold ?? DEFAULT_WARNING_THRESHOLD;
+    const spend = this.getSessionSpend(sessionId);
+
+    for (const window of WINDOWS) {
+      const status = this.getWindowStatus(window, spend);
+      if (status && status.spent + estimate >= status.limit * threshold) {
+        return window;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Get the configured downgrade preset for a preset, if any
+   */
+  getDowngradePresetId(presetId: string): string | null {
+    return this.budget.downgrade?.[presetId] || null;
+  }
+
+  /**
+   * Note that an agent runs on a downgrade preset in a session, or no longer does (null)
+   */
+  setDowngrade(sessionId: string, agentId: string, presetId: string | null): void {
+    const downgrades = this.getSessionSpend(sessionId).downgrades;
+
+    if (presetId) {
+      downgrades.set(agentId, presetId);
+    } else {
+      downgrades.delete(agentId);
+    }
+  }
+
+  /**
+   * Add the cost of a session's call to every window and persist day and month spend
+   *
+   * Returns the warning and exhaustion thresholds this call crossed.
+   */
+  async record(sessionId: string, cost: number): Promise<BudgetCrossing[]> {
+    const spend = this.getSessionSpend(sessionId);
+
+    if (cost > 0) {
+      spend.message += cost;
+      spend.session += cost;
+
+      // Lock across processes, and re-read, so concurrent runs of the same spec add up
+      const write = this.writeQueue.then(() => withFileLock(this.filePath, async () => {
+        const ledger = await this.readLedger();
+        const { day, month } = currentPeriod();
+        ledger.days[day] = (ledger.days[day] || 0) + cost;
+        ledger.months[month] = (ledger.months[month] || 0) + cost;
+
+        this.ledger = pruneLedger(ledger);
+        await writeJsonFile(this.filePath, this.ledger);
+      }));
+
+      this.writeQueue = write.catch(() => undefined);
+      await write;
+    }
+
+    return this.collectCrossings(spend);
+  }
+
+  /**
+   * Get the message and session spend of an open session
+   */
+  private getSessionSpend(sessionId: string): SessionSpend {
+    const spend = this.sessions.get(sessionId);
+    if (!spend) {
+      throw new Error(`Budget session not started: ${sessionId}`);
+    }
+
+    return spend;
+  }
+
+  /**
+   * Get spend versus limit of one window, or null if it has no limit
+   */
+  private getWindowStatus(window: BudgetWindow, spend: SessionSpend | null): BudgetWindowStatus | null {
+    const limit = this.budget[window];
+    if (!limit) return null;
+
+    const spent = this.getSpend(window, spend);
+
+    return {
+      limit,
+      spent,
+      remaining: Math.max(0, limit - spent)
+    };
+  }
+
+  /**
+   * Get the spend of the current period of a window
+   */
+  private getSpend(window: BudgetWindow, spend: SessionSpend | null): number {
+    const { day, month } = currentPeriod();
+
+    switch (window) {
+      case 'per_message':
+        return spend?.message || 0;
+
+      case 'per_session':
+        return spend?.session || 0;
+
+      case 'per_day':
+        return this.ledger.days[day] || 0;
+
+      case 'per_month':
+        return this.ledger.months[month] || 0;
+    }
+  }
+
+  /**
+   * Report each window's warning and exhaustion thresholds once per period
+   *
+   * Day and month thresholds are reported once for all sessions, message and
+   * session thresholds once for each session.
+   */
+  private collectCrossings(spend: SessionSpend): BudgetCrossing[] {
+    const threshold = this.budget.warning_threshold ?? DEFAULT_WARNING_THRESHOLD;
+    const crossings: BudgetCrossing[] = [];
+
+    for (const window of WINDOWS) {
+      const status = this.getWindowStatus(window, spend);
+      if (!status) continue;
+
+      const event: BudgetEvent = { window, spent: status.spent, limit: status.limit };
+      const key = `${window}:${this.getPeriodKey(window)}`;
+      const crossed = SHARED_WINDOWS.includes(window) ? this.crossed : spend.crossed;
+
+      if (status.spent >= status.limit) {
+        if (!crossed.has(`exceeded:${key}`)) {
+          crossed.add(`exceeded:${key}`);
+          crossings.push({ type: 'exceeded', event });
+        }
+      } else if (status.spent >= status.limit * threshold) {
+        if (!crossed.has(`warning:${key}`)) {
+          crossed.add(`warning:${key}`);
+          crossings.push({ type: 'warning', event });
+        }
+      }
+    }
+
+    return crossings;
+  }
+
+  /**
+   * Identify the current period of a window, so crossings repeat in a new day or month
+   */
+  private getPeriodKey(window: BudgetWindow): string {
+    const { day, month } = currentPeriod();
+    return window === 'per_day' ? day : window === 'per_month' ? month : '';
+  }
+
+  /**
+   * Read the ledger from disk
+   */
+  private async readLedger(): Promise<SpendLedger> {
+    return toLedger(await readJsonFile<SpendLedger>(this.filePath));
+  }
+
+  /**
+   * Pick up day and month spend that other processes recorded since the last read
+   *
+   * The ledger is written atomically, so a read never sees a partial write.
+   * When the budget has no day or month limit there is nothing to read.
+   */
+  private async refreshLedger(): Promise<void> {
+    if (SHARED_WINDOWS.some(window => this.budget[window])) {
+      this.ledger = await this.readLedger();
+    }
+  }
+}
+
+/**
+ * Get the current UTC day and month keys
+ */
+function currentPeriod(): { day: string; month: string } {
+  const iso = new Date().toISOString();
+  return { day: iso.slice(0, 10), month: iso.slice(0, 7) };
+}
+
+/**
+ * Fill in the parts of a stored ledger that are missing
+ */
+function toLedger(stored: SpendLedger | null): SpendLedger {
+  return {
+    days: stored?.days || {},
+    months: stored?.months || {}
+  };
+}
+
+/**
+ * Drop day and month totals that no budget window can refer to any more
+ */
+function pruneLedger(ledger: SpendLedger): SpendLedger {
+  const days = Object.keys(ledger.days).sort().slice(-DAYS_KEPT);
+  const months = Object.keys(ledger.months).sort().slice(-MONTHS_KEPT);
+
+  return {
+    days: Object.fromEntries(days.map(day => [day, ledger.days[day]])),
+    months: Object.fromEntries(months.map(month => [month, ledger.months[month]]))
+  };
+}
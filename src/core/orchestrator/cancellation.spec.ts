@@ -0,0 +1,70 @@
+import { MessageCancelledError, linkAbortSignal, raceSignal, throwIfAborted } from './cancellation';
+
+describe('cancellation', () => {
+  it('explains why a message was cancelled', () => {
+    const stepTimeout = new MessageCancelledError('step_timeout', { timeout: 50, agentId: 'writer', agentName: 'Writer' });
+
+    expect(stepTimeout).toMatchObject({ name: 'MessageCancelledError', reason: 'step_timeout', agentId: 'writer' });
+    expect(stepTimeout.message).toBe('Agent "Writer" did not finish its step within 50 ms, so the message was cancelled.');
+    expect(new MessageCancelledError('message_timeout', { timeout: 100 }).message)
+      .toBe('The message did not finish within 100 ms and was cancelled.');
+    expect(new MessageCancelledError('aborted').message).toBe('The message was cancelled.');
+  });
+
+  describe('linkAbortSignal', () => {
+    it('aborts the controller with the reason it is given, until detached', () => {
+      const parent = new AbortController();
+      const linked = new AbortController();
+      const detached = new AbortController();
+
+      linkAbortSignal(parent.signal, linked, () => 'linked reason');
+      linkAbortSignal(parent.signal, detached)();
+      parent.abort('parent reason');
+
+      expect(linked.signal.reason).toBe('linked reason');
+      expect(detached.signal.aborted).toBe(false);
+    });
+
+    it('aborts at once with the reason of a parent that has already aborted', () => {
+      const controller = new AbortController();
+
+      linkAbortSignal(AbortSignal.abort('gone'), controller);
+
+      expect(controller.signal.reason).toBe('gone');
+    });
+
+    it('does nothing without a parent', () => {
+      const controller = new AbortController();
+
+      linkAbortSignal(undefined, controller)();
+
+      expect(controller.signal.aborted).toBe(false);
+    });
+  });
+
+  describe('raceSignal', () => {
+    it('settles with the promise while the signal has not aborted', async () => {
+      await expect(raceSignal(Promise.resolve('done'), new AbortController().signal)).resolves.toBe('done');
+      await expect(raceSignal(Promise.reject(new Error('failed')), undefined)).rejects.toThrow('failed');
+    });
+
+    it('rejects with the reason as soon as the signal aborts, abandoning the promise', async () => {
+      const controller = new AbortController();
+      const reason = new MessageCancelledError('aborted');
+      const pending = raceSignal(new Promise(() => undefined), controller.signal);
+
+      controller.abort(reason);
+
+      await expect(pending).rejects.toBe(reason);
+      await expect(raceSignal(Promise.reject(new Error('ignored')), AbortSignal.abort(reason))).rejects.toBe(reason);
+    });
+  });
+
+  it('throws the reason of an aborted signal', () => {
+    const reason = new MessageCancelledError('aborted');
+
+    expect(() => throwIfAborted(AbortSignal.abort(reason))).toThrow(reason);
+    expect(() => throwIfAborted(new AbortController().signal)).not.toThrow();
+    expect(() => throwIfAborted(undefined)).not.toThrow();
+  });
+});
@@ -0,0 +1,100 @@
+import { CancelReason } from './index';
+
+/**
+ * Thrown when a message is cancelled or runs out of time
+ *
+ * The session keeps the message's checkpoint, so it can be finished with
+ * `resumeRun()`.
+ */
+export class MessageCancelledError extends Error {
+  reason: CancelReason;
+  agentId?: string;
+
+  constructor(reason: CancelReason, details?: { timeout?: number; agentId?: string; agentName?: string }) {
+    super(describeCancellation(reason, details));
+    this.name = 'MessageCancelledError';
+    this.reason = reason;
+    this.agentId = details?.agentId;
+  }
+}
+
+/**
+ * Abort a controller when a parent signal aborts
+ *
+ * The controller is aborted with `getReason()`, or else with the parent's
+ * reason. Returns a function that detaches the controller from the parent
+ * again.
+ */
+export function linkAbortSignal(
+  parent: AbortSignal | undefined,
+  controller: AbortController,
+  getReason?: () => unknown
+): () => void {
+  if (!parent) {
+    return () => undefined;
+  }
+
+  const onAbort = (): void => controller.abort(getReason ? getReason() : parent.reason);
+
+  if (parent.aborted) {
+    onAbort();
+    return () => undefined;
+  }
+
+  parent.addEventListener('abort', onAbort, { once: true });
+
+  return () => parent.removeEventListener('abort', onAbort);
+}
+
+/**
+ * Settle with a promise, or reject with the signal's reason as soon as it aborts
+ *
+ * Calls that do not watch the signal themselves are abandoned rather than awaited.
+ */
+export async function raceSignal<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  if (signal.aborted) {
+    promise.catch(() => undefined); // Abandoned, so its failure is of no interest
+    throw signal.reason;
+  }
+
+  let onAbort: () => void = () => undefined;
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+  try {
+    return await Promise.race([promise, aborted]);
+  } finally {
+    signal.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Throw the signal's reason if it has aborted
+ */
+export function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw signal.reason;
+  }
+}
+
+/**
+ * Explain a cancellation to the user
+ */
+function describeCancellation(reason: CancelReason, details?: { timeout?: number; agentName?: string }): string {
+  switch (reason) {
+    case 'message_timeout':
+      return `The message did not finish within ${details?.timeout} ms and was cancelled.`;
+
+    case 'step_timeout':
+      return `Agent "${details?.agentName}" did not finish its step within ${details?.timeout} ms, so the message was cancelled.`;
+
+    default:
+      return 'The message was cancelled.';
+  }
+}
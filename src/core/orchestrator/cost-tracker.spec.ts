@@ -0,0 +1,90 @@
+import { ModelPreset } from '../models';
+import { CostTracker } from './cost-tracker';
+
+const PRESET: ModelPreset = {
+  id: 'priced',
+  provider: 'mock',
+  model: 'mock-model',
+  temperature: 0,
+  top_p: 1,
+  max_tokens: 100,
+  pricing: { input_per_million: 1_000_000, output_per_million: 2_000_000 }
+};
+
+describe('CostTracker', () => {
+  let tracker: CostTracker;
+
+  beforeEach(() => {
+    tracker = new CostTracker();
+  });
+
+  it('attributes calls to agents and turns', () => {
+    tracker.startSession('s1');
+    tracker.startTurn('s1');
+    tracker.recordModelCall('s1', 'writer', PRESET, { input_tokens: 1, output_tokens: 1 });
+    tracker.startTurn('s1');
+    tracker.recordModelCall('s1', 'editor', PRESET, { input_tokens: 2, output_tokens: 0 });
+    tracker.recordToolCall('s1', 'editor', 'search', { data: 'ok', metadata: { cost: 0.5 } });
+
+    expect(tracker.getTotals()).toMatchObject({ cost: 5.5, total_tokens: 4, llm_calls: 2, tool_calls: 1 });
+    expect(tracker.getTotals({ session_id: 's1', agent_id: 'editor', turn: 2 }).cost).toBe(2.5);
+    expect(tracker.getTotals({ turn: 1 }).cost).toBe(3);
+    expect(tracker.getRecords({ agent_id: 'editor' }).map(record => record.name)).toEqual(['mock-model', 'search']);
+    expect(tracker.getRecords({ session_id: 'other' })).toEqual([]);
+  });
+
+  it('charges nothing for tool calls without a positive reported cost', () => {
+    tracker.startSession('s1');
+
+    expect(tracker.recordToolCall('s1', 'a', 'search', { data: 'ok', metadata: { cost: -1 } }).cost).toBe(0);
+    expect(tracker.recordToolCall('s1', 'a', 'search', { data: 'ok' }).cost).toBe(0);
+  });
+
+  it('replaces rather than double-counts the calls of a resumed session', () => {
+    tracker.startSession('s1');
+    tracker.startTurn('s1');
+    const record = tracker.recordModelCall('s1', 'writer', PRESET, { input_tokens: 1, output_tokens: 0 });
+
+    tracker.startSession('s1', { records: [record], turn: 1 });
+
+    expect(tracker.getTotals().cost).toBe(1);
+    expect(tracker.getTotals({ session_id: 's1' }).cost).toBe(1);
+    expect(tracker.getRecords()).toHaveLength(1);
+    expect(tracker.startTurn('s1')).toBe(2);
+  });
+
+  it('keeps the calls of an ended session in the totals across sessions only', () => {
+    tracker.startSession('s1');
+    tracker.recordModelCall('s1', 'writer', PRESET, { input_tokens: 1, output_tokens: 0 });
+    tracker.startSession('s2');
+    tracker.recordModelCall('s2', 'writer', PRESET, { input_tokens: 0, output_tokens: 1 });
+
+    tracker.endSession('s1');
+
+    expect(tracker.getTotals().cost).toBe(3);
+    expect(tracker.getTotals({ session_id: 's1' }).cost).toBe(0);
+    expect(tracker.getRecords().map(record => record.session_id)).toEqual(['s2']);
+  });
+
+  it('does not count an ended session again when it is resumed', () => {
+    tracker.startSession('s1');
+    const record = tracker.recordModelCall('s1', 'writer', PRESET, { input_tokens: 1, output_tokens: 0 });
+    tracker.endSession('s1');
+
+    tracker.startSession('s1', { records: [record], turn: 1 });
+
+    expect(tracker.getTotals().cost).toBe(1);
+    expect(tracker.getTotals({ session_id: 's1' }).cost).toBe(1);
+  });
+
+  it('estimates the worst-case cost of a call from its max_tokens', () => {
+    const estimate = tracker.estimateModelCall(PRESET, {
+      model: 'mock-model',
+      messages: [{ role: 'user', content: 'hi' }],
+      max_tokens: 10
+    });
+
+    expect(estimate.output_tokens).toBe(10);
+    expect(estimate.cost).toBe(estimate.input_tokens + 20);
+  });
+});
@@ -0,0 +1,257 @@
+import { ModelPreset } from '../models';
+import { getPresetPricing, calculateCost } from '../models/model-catalog';
+import { ChatRequest, TokenUsage } from '../providers';
+import { estimateRequestTokens } from '../providers/token-estimator';
+import { MCPToolResult } from '../mcp';
+import { CostRecord, CostTotals, CostFilter, CostEstimate } from './index';
+
+/**
+ * Thrown when an agent that reached its max_cost tries to make another call
+ */
+export class CostLimitExceededError extends Error {
+  agentId: string;
+  spent: number;
+  limit: number;
+
+  constructor(agentId: string, agentName: string, spent: number, limit: number) {
+    super(
+      `Agent "${agentName}" reached its cost limit of $${limit.toFixed(2)} ` +
+      `(spent $${spent.toFixed(4)}), so it will make no further model or tool calls in this session.`
+    );
+    this.name = 'CostLimitExceededError';
+    this.agentId = agentId;
+    this.spent = spent;
+    this.limit = limit;
+  }
+}
+
+/**
+ * Calls and running totals of a session being tracked
+ */
+interface SessionCosts {
+  turn: number;
+  records: CostRecord[];
+  totals: Map<string, CostTotals>; // By agent and turn key
+}
+
+/**
+ * Records the token usage and cost of every LLM and tool call
+ *
+ * Calls are attributed to the calling agent and to a session and its
+ * current turn, so totals can be queried along any of those dimensions.
+ * Any number of sessions can record calls at the same time. Totals are
+ * kept running as calls are recorded, and a session's calls are dropped
+ * when it ends; they still count in the totals across sessions.
+ */
+export class CostTracker {
+  private sessions: Map<string, SessionCosts>;
+  private totals: Map<string, CostTotals>;
+  private endedSessions: Set<string>;
+
+  constructor() {
+    this.sessions = new Map();
+    this.totals = new Map();
+    this.endedSessions = new Set();
+  }
+
+  /**
+   * Start attributing calls to a session
+   *
+   * When resuming a stored session, its earlier calls are restored and turns
+   * continue from the last one.
+   */
+  startSession(sessionId: string, resume?: { records: CostRecord[]; turn: number }): void {
+    const previous = this.sessions.get(sessionId);
+    const session: SessionCosts = { turn: resume?.turn || 0, records: [], totals: new Map() };
+    this.sessions.set(sessionId, session);
+
+    if (!resume) return;
+
+    // Replace, rather than repeat, calls already counted for this session
+    for (const record of previous?.records || []) {
+      this.addToTotals(this.totals, record, -1);
+    }
+    const counted = this.endedSessions.delete(sessionId);
+
+    for (const record of resume.records) {
+      this.addRecord({ ...record, session_id: sessionId }, !counted);
+    }
+  }
+
+  /**
+   * Stop tracking a session and drop its calls
+   *
+   * Its calls still count in the totals across sessions, but no longer in
+   * `getRecords` or the session's own totals.
+   */
+  endSession(sessionId: string): void {
+    if (this.sessions.delete(sessionId)) {
+      this.endedSessions.add(sessionId);
+    }
+  }
+
+  /**
+   * Start a new turn within a session
+   */
+  startTurn(sessionId: string): number {
+    const session = this.getSession(sessionId);
+    session.turn++;
+    return session.turn;
+  }
+
+  /**
+   * Get the current turn number of a session (0 before the first message)
+   */
+  getTurn(sessionId: string): number {
+    return this.sessions.get(sessionId)?.turn || 0;
+  }
+
+  /**
+   * Estimate the tokens and worst-case cost of an LLM call before making it
+   */
+  estimateModelCall(preset: ModelPreset, request: ChatRequest): CostEstimate {
+    const inputTokens = estimateRequestTokens(preset.provider, request);
+    const outputTokens = request.max_tokens;
+
+    return {
+      input_tokens: inputTokens,
+      output_tokens: outputTokens,
+      cost: calculateCost(getPresetPricing(preset), inputTokens, outputTokens)
+    };
+  }
+
+  /**
+   * Record a completed LLM call in a session's current turn
+   */
+  recordModelCall(sessionId: string, agentId: string, preset: ModelPreset, usage: TokenUsage): CostRecord {
+    return this.addRecord({
+      agent_id: agentId,
+      session_id: sessionId,
+      turn: this.getTurn(sessionId),
+      kind: 'llm',
+      name: preset.model,
+      input_tokens: usage.input_tokens,
+      output_tokens: usage.output_tokens,
+      cost: calculateCost(getPresetPricing(preset), usage.input_tokens, usage.output_tokens),
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * Record a completed MCP tool call in a session's current turn, using the cost reported by the server
+   */
+  recordToolCall(sessionId: string, agentId: string, toolId: string, result: MCPToolResult): CostRecord {
+    const cost = result.metadata?.cost;
+
+    return this.addRecord({
+      agent_id: agentId,
+      session_id: sessionId,
+      turn: this.getTurn(sessionId),
+      kind: 'tool',
+      name: toolId,
+      input_tokens: 0,
+      output_tokens: 0,
+      cost: typeof cost === 'number' && cost > 0 ? cost : 0,
+      timestamp: result.metadata?.timestamp || Date.now()
+    });
+  }
+
+  /**
+   * Get recorded calls of the tracked sessions matching a filter
+   */
+  getRecords(filter?: CostFilter): CostRecord[] {
+    const sessions = filter?.session_id !== undefined
+      ? [this.sessions.get(filter.session_id)]
+      : Array.from(this.sessions.values());
+
+    return sessions.flatMap(session => session?.records || []).filter(record =>
+      (filter?.agent_id === undefined || record.agent_id === filter.agent_id) &&
+      (filter?.turn === undefined || record.turn === filter.turn)
+    );
+  }
+
+  /**
+   * Get the running totals of the calls matching a filter
+   */
+  getTotals(filter?: CostFilter): CostTotals {
+    const totals = filter?.session_id !== undefined
+      ? this.sessions.get(filter.session_id)?.totals
+      : this.totals;
+
+    return { ...(totals?.get(totalsKey(filter?.agent_id, filter?.turn)) || emptyTotals()) };
+  }
+
+  /**
+   * Get the costs of a session, tracking it on first use
+   */
+  private getSession(sessionId: string): SessionCosts {
+    let session = this.sessions.get(sessionId);
+    if (!session) {
+      session = { turn: 0, records: [], totals: new Map() };
+      this.sessions.set(sessionId, session);
+    }
+
+    return session;
+  }
+
+  /**
+   * Store a record and add it to the session's totals and, unless they
+   * already include it, the totals across sessions
+   */
+  private addRecord(record: CostRecord, acrossSessions: boolean = true): CostRecord {
+    const session = this.getSession(record.session_id);
+    session.records.push(record);
+    this.addToTotals(session.totals, record, 1);
+
+    if (acrossSessions) {
+      this.addToTotals(this.totals, record, 1);
+    }
+
+    return record;
+  }
+
+  /**
+   * Add a record to, or with a sign of -1 remove it from, every total it counts in
+   */
+  private addToTotals(totalsByKey: Map<string, CostTotals>, record: CostRecord, sign: 1 | -1): void {
+    for (const agentId of [undefined, record.agent_id]) {
+      for (const turn of [undefined, record.turn]) {
+        const key = totalsKey(agentId, turn);
+        const totals = totalsByKey.get(key) || emptyTotals();
+
+        totals.input_tokens += sign * record.input_tokens;
+        totals.output_tokens += sign * record.output_tokens;
+        totals.total_tokens += sign * (record.input_tokens + record.output_tokens);
+        totals.cost += sign * record.cost;
+        if (record.kind === 'llm') {
+          totals.llm_calls += sign;
+        } else {
+          totals.tool_calls += sign;
+        }
+
+        totalsByKey.set(key, totals);
+      }
+    }
+  }
+}
+
+/**
+ * Key of the totals for an agent and turn, either of which may be any
+ */
+function totalsKey(agentId: string | undefined, turn: number | undefined): string {
+  return `${agentId === undefined ? '*' : `=${agentId}`}\0${turn === undefined ? '*' : turn}`;
+}
+
+/**
+ * Totals of no calls
+ */
+function emptyTotals(): CostTotals {
+  return {
+    input_tokens: 0,
+    output_tokens: 0,
+    total_tokens: 0,
+    cost: 0,
+    llm_calls: 0,
+    tool_calls: 0
+  };
+}
@@ -1,141 +1,33 @@
 import { Agent, ModelPreset } from '../models';
 import { MCPClient } from '../mcp/mcp-client';
-import { AutoGenAdapter } from '../../adapters/autogen-adapter';
-import { CrewAIAdapter } from '../../adapters/crewai-adapter';
-import { LangGraphAdapter } from '../../adapters/langgraph-adapter';
-import { LangChainAdapter } from '../../adapters/langchain-adapter';
-
-/**
- * Framework implementation interface
- */
-export interface Framework {
-  initialize(agents: Map<string, any>): Promise<void>;
-  execute(message: string): Promise<string>;
-  cleanup(): Promise<void>;
-}
+import { FrameworkAdapter } from '../../adapters';
+import { AgentRuntime } from './agent-runtime';
+import { Framework, FrameworkOptions, FrameworkRegistry } from './framework-registry';
 
 /**
  * Factory for creating framework-specific components
+ *
+ * @deprecated Use FrameworkRegistry, which also runs custom frameworks. This
+ * factory only looks up the registry's plugins and will be removed.
  */
 export class FrameworkFactory {
-  private autoGenAdapter: AutoGenAdapter;
-  private crewAIAdapter: CrewAIAdapter;
-  private langGraphAdapter: LangGraphAdapter;
-  private langChainAdapter: LangChainAdapter;
-  
-  constructor(mcpClient: MCPClient) {
-    this.autoGenAdapter = new AutoGenAdapter(mcpClient);
-    this.crewAIAdapter = new CrewAIAdapter(mcpClient);
-    this.langGraphAdapter = new LangGraphAdapter(mcpClient);
-    this.langChainAdapter = new LangChainAdapter(mcpClient);
-  }
-  
-  /**
-   * Create a framework implementation
-   */
-  createFramework(type: string, config: any): Framework {
-    switch (type) {
-      case 'autogen':
-        return this.createAutoGenFramework(config);
-      
-      case 'crewai':
-        return this.createCrewAIFramework(config);
-      
-      case 'langgraph':
-        return this.createLangGraphFramework(config);
-      
-      case 'langchain':
-        return this.createLangChainFramework(config);
-      
-      default:
-        throw new Error(`Unsupported framework type: ${type}`);
-    }
-  }
-  
-  /**
-   * Create an AutoGen framework implementation
-   */
-  private createAutoGenFramework(config: any): Framework {
-    // Placeholder implementation
-    return {
-      async initialize(agents: Map<string, any>): Promise<void> {
-        // Initialize AutoGen framework
-      },
-      
-      async execute(message: string): Promise<string> {
-        // Execute AutoGen workflow
-        return `AutoGen response to: ${message}`;
-      },
-      
-      async cleanup(): Promise<void> {
-        // Clean up AutoGen resources
-      }
-    };
-  }
-  
-  /**
-   * Create a CrewAI framework implementation
-   */
-  private createCrewAIFramework(config: any): Framework {
-    // Placeholder implementation
-    return {
-      async initialize(agents: Map<string, any>): Promise<void> {
-        // Initialize CrewAI framework
-      },
-      
-      async execute(message: string): Promise<string> {
-        // Execute CrewAI workflow
-        return `CrewAI response to: ${message}`;
-      },
-      
-      async cleanup(): Promise<void> {
-        // Clean up CrewAI resources
-      }
-    };
-  }
-  
-  /**
-   * Create a LangGraph framework implementation
-   */
-  private createLangGraphFramework(config: any): Framework {
-    // Placeholder implementation
-    return {
-      async initialize(agents: Map<string, any>): Promise<void> {
-        // Initialize LangGraph framework
-      },
-      
-      async execute(message: string): Promise<string> {
-        // Execute LangGraph workflow
-        return `LangGraph response to: ${message}`;
-      },
-      
-      async cleanup(): Promise<void> {
-        // Clean up LangGraph resources
-      }
-    };
+  private mcpClient: MCPClient;
+  private registry: FrameworkRegistry;
+  private adapters: Map<string, FrameworkAdapter>;
+
+  constructor(mcpClient: MCPClient, registry?: FrameworkRegistry) {
+    this.mcpClient = mcpClient;
+    this.registry = registry || new FrameworkRegistry();
+    this.adapters = new Map();
   }
-  
+
   /**
-   * Create a LangChain framework implementation
+   * Create a framework implementation running on the native agent runtime
    */
-  private createLangChainFramework(config: any): Framework {
-    // Placeholder implementation
-    return {
-      async initialize(agents: Map<string, any>): Promise<void> {
-        // Initialize LangChain framework
-      },
-      
-      async execute(message: string): Promise<string> {
-        // Execute LangChain workflow
-        return `LangChain response to: ${message}`;
-      },
-      
-      async cleanup(): Promise<void> {
-        // Clean up LangChain resources
-      }
-    };
+  createFramework(type: string, config: any, runtime: AgentRuntime, options?: FrameworkOptions): Framework {
+    return this.registry.getFramework(type).createFramework(runtime, config, options || {});
   }
-  
+
   /**
    * Create an AutoGen agent
    */
@@ -144,9 +36,9 @@ export class FrameworkFactory {
     modelPreset: ModelPreset,
     mcpClient: MCPClient
   ): Promise<any> {
-    return this.autoGenAdapter.createAgent(agent, modelPreset);
+    return this.getAdapter('autogen').createAgent(agent, modelPreset);
   }
-  
+
   /**
    * Create a CrewAI agent
    */
@@ -155,9 +47,9 @@ export class FrameworkFactory {
     modelPreset: ModelPreset,
     mcpClient: MCPClient
   ): Promise<any> {
-    return this.crewAIAdapter.createAgent(agent, modelPreset);
+    return this.getAdapter('crewai').createAgent(agent, modelPreset);
   }
-  
+
   /**
    * Create a LangGraph agent
    */
@@ -166,9 +58,9 @@ export class FrameworkFactory {
     modelPreset: ModelPreset,
     mcpClient: MCPClient
   ): Promise<any> {
-    return this.langGraphAdapter.createNodeDescription(agent, modelPreset);
+    return this.getAdapter('langgraph').createAgent(agent, modelPreset);
   }
-  
+
   /**
    * Create a LangChain agent
    */
@@ -177,13 +69,19 @@ export class FrameworkFactory {
     modelPreset: ModelPreset,
     mcpClient: MCPClient
   ): Promise<any> {
-    // For LangChain, we don't create individual agents
-    // Instead, we'll configure the router in the framework
-    return {
-      id: agent.id,
-      name: agent.name,
-      model: modelPreset.model,
-      provider: modelPreset.provider
-    };
+    return this.getAdapter('langchain').createAgent(agent, modelPreset);
   }
-}
\ No newline at end of file
+
+  /**
+   * Get the adapter of a framework type, creating it on first use
+   */
+  private getAdapter(type: string): FrameworkAdapter {
+    let adapter = this.adapters.get(type);
+    if (!adapter) {
+      adapter = this.registry.getFramework(type).createAdapter(this.mcpClient);
+      this.adapters.set(type, adapter);
+    }
+
+    return adapter;
+  }
+}
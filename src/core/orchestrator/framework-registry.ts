@@ -0,0 +1,127 @@
+import { z } from 'zod';
+import { ChatMessage } from '../providers';
+import { ServiceSpec, SpecDiagnostic } from '../models';
+import { findGraphIssues } from '../models/state-graph';
+import { MCPClient } from '../mcp/mcp-client';
+import { FrameworkAdapter, ToolExecutor } from '../../adapters';
+import { AutoGenAdapter } from '../../adapters/autogen-adapter';
+import { CrewAIAdapter } from '../../adapters/crewai-adapter';
+import { LangGraphAdapter } from '../../adapters/langgraph-adapter';
+import { LangChainAdapter } from '../../adapters/langchain-adapter';
+import { AgentRuntime } from './agent-runtime';
+import { GroupChatFramework, GroupChatConfigSchema, findGroupChatIssues } from './frameworks/group-chat-framework';
+import { CrewFramework, CrewConfigSchema, findCrewIssues } from './frameworks/crew-framework';
+import { StateGraphFramework, StateGraphConfigSchema } from './frameworks/state-graph-framework';
+import { RouterFramework, RouterConfigSchema, findRouterIssues } from './frameworks/router-framework';
+import { RuntimeAgent, SpeakerSelector } from './index';
+
+/**
+ * Framework implementation interface
+ */
+export interface Framework {
+  initialize(agents: Map<string, RuntimeAgent>): Promise<void>;
+  execute(message: string): Promise<string>;
+  cleanup(): Promise<void>;
+  restore?(messages: ChatMessage[]): void; // Continue a resumed session's conversation
+  resume?(message: string, state: any): Promise<string>; // Finish a message from a checkpoint snapshot
+}
+
+/**
+ * Host-supplied hooks available to framework implementations
+ */
+export interface FrameworkOptions {
+  selectSpeaker?: SpeakerSelector;  // Picks speakers in manual group chats
+}
+
+/**
+ * An orchestration style, registered under the `orchestration.type` it handles
+ */
+export interface FrameworkPlugin {
+  type: string;
+  createAdapter(mcpClient: MCPClient, executeTool?: ToolExecutor): FrameworkAdapter; // Converted tools call executeTool
+  createFramework(runtime: AgentRuntime, config: any, options: FrameworkOptions): Framework;
+  configSchema?: z.ZodTypeAny;      // Shape of `orchestration.config`, checked by spec validation
+  validateConfig?(config: any, spec: ServiceSpec): SpecDiagnostic[]; // Further checks of a well-formed config
+}
+
+/**
+ * Maps `orchestration.type` to the plugin that builds and runs the swarm
+ *
+ * The built-in frameworks are registered the same way as custom ones.
+ */
+export class FrameworkRegistry {
+  private plugins: Map<string, FrameworkPlugin>;
+
+  constructor() {
+    this.plugins = new Map();
+
+    this.registerFramework({
+      type: 'autogen',
+      createAdapter: (mcpClient, executeTool) => new AutoGenAdapter(mcpClient, executeTool),
+      createFramework: (runtime, config, options) => new GroupChatFramework(runtime, config, options.selectSpeaker),
+      configSchema: GroupChatConfigSchema,
+      validateConfig: (config, spec) => findGroupChatIssues(config, spec.agents.map(agent => agent.id))
+    });
+
+    this.registerFramework({
+      type: 'crewai',
+      createAdapter: (mcpClient, executeTool) => new CrewAIAdapter(mcpClient, executeTool),
+      createFramework: (runtime, config) => new CrewFramework(runtime, config),
+      configSchema: CrewConfigSchema,
+      validateConfig: (config, spec) => findCrewIssues(config, spec.agents.map(agent => agent.id))
+    });
+
+    this.registerFramework({
+      type: 'langgraph',
+      createAdapter: (mcpClient, executeTool) => new LangGraphAdapter(mcpClient, executeTool),
+      createFramework: (runtime, config) => new StateGraphFramework(runtime, config),
+      configSchema: StateGraphConfigSchema,
+      validateConfig: (config, spec) => findGraphIssues(config, spec.agents.map(agent => agent.id))
+    });
+
+    this.registerFramework({
+      type: 'langchain',
+      createAdapter: (mcpClient, executeTool) => new LangChainAdapter(mcpClient, executeTool),
+      createFramework: (runtime, config) => new RouterFramework(runtime, config),
+      configSchema: RouterConfigSchema,
+      validateConfig: (config, spec) => findRouterIssues(config, spec.agents.map(agent => agent.id))
+    });
+  }
+
+  /**
+   * Register a framework, replacing any existing one with the same type
+   */
+  registerFramework(plugin: FrameworkPlugin): void {
+    if (!plugin.type) {
+      throw new Error('Framework plugin needs a type');
+    }
+
+    this.plugins.set(plugin.type, plugin);
+  }
+
+  /**
+   * Check whether a framework type is registered
+   */
+  hasFramework(type: string): boolean {
+    return this.plugins.has(type);
+  }
+
+  /**
+   * List registered framework types
+   */
+  listFrameworks(): string[] {
+    return Array.from(this.plugins.keys());
+  }
+
+  /**
+   * Get the plugin for a framework type
+   */
+  getFramework(type: string): FrameworkPlugin {
+    const plugin = this.plugins.get(type);
+    if (!plugin) {
+      throw new Error(`Unsupported framework type: ${type}`);
+    }
+
+    return plugin;
+  }
+}
@@ -0,0 +1,36 @@
+import { RuntimeAgent } from '../index';
+
+/**
+ * Find the agent a model reply refers to
+ *
+ * A reply that is exactly an agent's ID or name wins; otherwise the agent
+ * whose ID or name appears first in the reply. Returns null if none does.
+ */
+export function matchAgent(reply: string, candidates: RuntimeAgent[]): RuntimeAgent | null {
+  const text = reply.trim().toLowerCase();
+
+  const exact = candidates.find(agent => agent.id.toLowerCase() === text || agent.name.toLowerCase() === text);
+  if (exact) return exact;
+
+  let best: RuntimeAgent | null = null;
+  let bestIndex = Infinity;
+
+  for (const agent of candidates) {
+    for (const label of [agent.id, agent.name]) {
+      const index = text.indexOf(label.toLowerCase());
+      if (index !== -1 && index < bestIndex) {
+        best = agent;
+        bestIndex = index;
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * List agents as a roster for selection prompts
+ */
+export function formatRoster(agents: RuntimeAgent[]): string {
+  return agents.map(agent => `- ${agent.id}: ${agent.name}, ${agent.role}`).join('\n');
+}
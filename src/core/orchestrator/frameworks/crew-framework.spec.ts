@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ServiceSpec } from '../../models';
+import { MockRule } from '../../providers/mock-client';
+import { SwarmOrchestrator } from '../swarm-orchestrator';
+import { SwarmEvent, CrewReport, CrewTaskEvent } from '../index';
+import { CrewConfig } from './crew-framework';
+
+/**
+ * Build a crew of a manager, a researcher and a writer on the mock preset "scripted"
+ */
+function createSpec(config: CrewConfig): ServiceSpec {
+  return {
+    id: 'crew',
+    name: 'Crew',
+    agents: [
+      { id: 'manager', name: 'Manager', role: 'Leads the crew', tools: [], model_preset_id: 'scripted' },
+      { id: 'researcher', name: 'Researcher', role: 'Finds facts', tools: [], model_preset_id: 'scripted' },
+      { id: 'writer', name: 'Writer', role: 'Writes articles', tools: [], model_preset_id: 'scripted' }
+    ],
+    orchestration: { type: 'crewai', config: { ...config } },
+    created_at: 1,
+    updated_at: 1
+  };
+}
+
+describe('CrewFramework', () => {
+  let dataDir: string;
+  let orchestrator: SwarmOrchestrator | null;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'crew-'));
+    orchestrator = null;
+  });
+
+  afterEach(async () => {
+    await orchestrator?.stop();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Start a crew whose agents reply from mock rules, collecting task starts and reports
+   */
+  async function startCrew(config: CrewConfig, rules: MockRule[]): Promise<{ starts: CrewTaskEvent[]; reports: CrewReport[] }> {
+    fs.writeFileSync(path.join(dataDir, 'presets.json'), JSON.stringify({
+      presets: [{ id: 'scripted', extends: 'mock', provider_options: { rules } }]
+    }));
+
+    const starts: CrewTaskEvent[] = [];
+    const reports: CrewReport[] = [];
+    orchestrator = new SwarmOrchestrator(createSpec(config), { dataDir });
+    orchestrator.on(SwarmEvent.TASK_START, (event: CrewTaskEvent) => starts.push(event));
+    orchestrator.on(SwarmEvent.CREW_REPORT, (report: CrewReport) => reports.push(report));
+    await orchestrator.start();
+
+    return { starts, reports };
+  }
+
+  it('runs one task per agent in spec order, each with the previous output as context', async () => {
+    const { starts, reports } = await startCrew({}, [
+      { system: '^You are Manager', reply: 'Plan' },
+      { system: '^You are Researcher', message: '### .*\\(Manager\\)\\nPlan', reply: 'Facts' },
+      { system: '^You are Writer', message: '### .*\\(Researcher\\)\\nFacts', reply: 'Article' }
+    ]);
+
+    expect(await orchestrator!.sendMessage('Write about bees')).toBe('Article');
+    expect(starts.map(event => event.agentId)).toEqual(['manager', 'researcher', 'writer']);
+    expect(reports[0]).toMatchObject({ process: 'sequential', final_output: 'Article' });
+    expect(reports[0].tasks.map(task => task.output)).toEqual(['Plan', 'Facts', 'Article']);
+  });
+
+  it('lets the manager delegate and send work back for revision in the hierarchical process', async () => {
+    const { starts, reports } = await startCrew({
+      process: 'hierarchical',
+      max_revisions: 2,
+      tasks: [{ description: 'Research {input}', expected_output: 'Three facts' }]
+    }, [
+      { system: 'Delegate each task', reply: 'researcher' },
+      { system: 'Check that work meets', message: 'Result:\\nTwo facts', reply: 'Find one more fact' },
+      { system: 'Check that work meets', reply: 'APPROVED' },
+      { system: '^You are Researcher', message: 'Find one more fact', reply: 'Three facts' },
+      { system: '^You are Researcher', reply: 'Two facts' }
+    ]);
+
+    expect(await orchestrator!.sendMessage('bees')).toBe('Three facts');
+    expect(starts.map(event => event.agentId)).toEqual(['researcher', 'researcher']);
+    expect(reports[0].tasks).toEqual([expect.objectContaining({ agent_id: 'researcher', output: 'Three facts', revisions: 1 })]);
+  });
+});
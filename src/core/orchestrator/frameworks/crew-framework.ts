@@ -0,0 +1,475 @@
+import { z } from 'zod';
+import { SpecDiagnostic } from '../../models';
+import { Framework } from '../framework-registry';
+import { AgentRuntime } from '../agent-runtime';
+import { CostLimitExceededError } from '../cost-tracker';
+import { SwarmEvent, RuntimeAgent, CrewTaskResult, CrewReport, CrewTaskEvent } from '../index';
+import { matchAgent, formatRoster } from './agent-selection';
+
+const DEFAULT_MAX_REVISIONS = 1;
+const APPROVED = 'APPROVED';
+const CONFIG_PATH = '$.orchestration.config';
+
+/**
+ * A unit of work for the crew
+ */
+export interface CrewTask {
+  id?: string;                          // Lets other tasks refer to this one by name
+  description: string;                  // "{input}" is replaced with the user's message
+  expected_output: string;
+  agent_id?: string;                    // Required in the sequential process
+  dependencies?: Array<number | string>; // Earlier tasks (index or id) whose output is context
+}
+
+/**
+ * `orchestration.config` of a CrewAI-style crew
+ */
+export interface CrewConfig {
+  process?: 'sequential' | 'hierarchical'; // Default: sequential
+  tasks?: CrewTask[];                      // Default: one task per agent, in spec order
+  manager_agent_id?: string;               // Hierarchical: agent that delegates and reviews (default: the first agent)
+  max_revisions?: number;                  // Hierarchical: reworks per task the manager may request (default: 1)
+}
+
+/**
+ * zod schema for CrewConfig
+ */
+export const CrewConfigSchema = z.object({
+  process: z.enum(['sequential', 'hierarchical']).optional(),
+  tasks: z.array(z.object({
+    id: z.string().min(1).optional(),
+    description: z.string().min(1),
+    expected_output: z.string().min(1),
+    agent_id: z.string().min(1).optional(),
+    dependencies: z.array(z.union([z.number().int().nonnegative(), z.string().min(1)])).optional()
+  }).passthrough()).optional(),
+  manager_agent_id: z.string().min(1).optional(),
+  max_revisions: z.number().int().nonnegative().optional()
+}).passthrough();
+
+/**
+ * A task with its dependencies resolved to indices
+ */
+interface ResolvedTask extends CrewTask {
+  index: number;
+  dependencyIndices: number[];
+}
+
+/**
+ * Progress of a crew run, checkpointed after each task
+ */
+interface CrewSnapshot {
+  results: CrewTaskResult[]; // Results of the completed tasks, in order
+  excluded: string[];        // Agents that reached their cost limit
+}
+
+/**
+ * CrewAI-style task pipeline
+ *
+ * Every message runs the crew's tasks in order. A task's prompt holds the
+ * message, the task, its expected output and the outputs of the tasks it
+ * depends on. In the sequential process each task goes to its assigned
+ * agent; in the hierarchical process a manager agent delegates each task
+ * and reviews the result. The last successful output is the response, and
+ * all outputs are emitted as a crew report. The run is checkpointed after
+ * every task, so an interrupted run continues with the pending tasks.
+ */
+export class CrewFramework implements Framework {
+  private runtime: AgentRuntime;
+  private config: CrewConfig;
+  private process: 'sequential' | 'hierarchical';
+  private maxRevisions: number;
+  private agents: RuntimeAgent[];
+  private tasks: ResolvedTask[];
+  private excluded: Set<string>;
+  private lastReport: CrewReport | null;
+  private lastError: CostLimitExceededError | null;
+
+  constructor(runtime: AgentRuntime, config?: CrewConfig) {
+    this.runtime = runtime;
+    this.config = config || {};
+    this.process = this.config.process || 'sequential';
+    this.maxRevisions = this.config.max_revisions ?? DEFAULT_MAX_REVISIONS;
+    this.agents = [];
+    this.tasks = [];
+    this.excluded = new Set();
+    this.lastReport = null;
+    this.lastError = null;
+
+    if (!['sequential', 'hierarchical'].includes(this.process)) {
+      throw new Error(`Unsupported crew process: ${this.process}`);
+    }
+  }
+
+  /**
+   * Resolve and check the crew's tasks against its agents
+   */
+  async initialize(agents: Map<string, RuntimeAgent>): Promise<void> {
+    this.agents = Array.from(agents.values());
+    this.excluded.clear();
+    this.lastReport = null;
+
+    const managerId = this.config.manager_agent_id;
+    if (managerId && !agents.has(managerId)) {
+      throw new Error(`Unknown manager_agent_id: ${managerId}`);
+    }
+
+    const tasks = this.config.tasks?.length ? this.config.tasks : this.getDefaultTasks();
+    this.tasks = resolveTasks(tasks);
+
+    for (const task of this.tasks) {
+      if (task.agent_id && !agents.has(task.agent_id)) {
+        throw new Error(`Task ${task.index} is assigned to unknown agent: ${task.agent_id}`);
+      }
+
+      if (!task.agent_id && this.process === 'sequential') {
+        throw new Error(`Task ${task.index} needs an agent_id in the sequential process`);
+      }
+    }
+  }
+
+  /**
+   * Run every task for a message and return the final output
+   */
+  async execute(message: string): Promise<string> {
+    return this.runTasks(message, []);
+  }
+
+  /**
+   * Continue an interrupted run with the tasks that had not completed
+   */
+  async resume(message: string, snapshot: CrewSnapshot): Promise<string> {
+    this.excluded = new Set(snapshot.excluded);
+    return this.runTasks(message, snapshot.results);
+  }
+
+  /**
+   * Get the report of the most recent crew run
+   */
+  getLastReport(): CrewReport | null {
+    return this.lastReport;
+  }
+
+  /**
+   * Forget the last report
+   */
+  async cleanup(): Promise<void> {
+    this.lastReport = null;
+  }
+
+  /**
+   * Run the tasks after those already completed and report the final output
+   */
+  private async runTasks(message: string, results: CrewTaskResult[]): Promise<string> {
+    this.lastError = null;
+
+    for (const task of this.tasks.slice(results.length)) {
+      const result = await this.runTask(task, message, results);
+      results.push(result);
+      this.runtime.emit(SwarmEvent.TASK_COMPLETE, result);
+
+      const checkpoint: CrewSnapshot = { results, excluded: Array.from(this.excluded) };
+      await this.runtime.checkpoint(checkpoint);
+    }
+
+    const finalOutput = [...results].reverse().find(result => result.output !== null)?.output ?? '';
+
+    this.lastReport = {
+      process: this.process,
+      tasks: results,
+      final_output: finalOutput
+    };
+    this.runtime.emit(SwarmEvent.CREW_REPORT, this.lastReport);
+
+    if (!finalOutput && this.lastError) {
+      throw this.lastError;
+    }
+
+    return finalOutput;
+  }
+
+  /**
+   * Run one task with the configured process
+   */
+  private async runTask(task: ResolvedTask, message: string, results: CrewTaskResult[]): Promise<CrewTaskResult> {
+    const prompt = this.getTaskPrompt(task, message, results);
+    const result: CrewTaskResult = {
+      index: task.index,
+      task_id: task.id,
+      description: task.description,
+      agent_id: null,
+      output: null,
+      revisions: 0
+    };
+
+    if (this.process === 'sequential') {
+      const agentId = task.agent_id!;
+      result.agent_id = agentId;
+
+      try {
+        result.output = await this.runAgent(task, agentId, prompt);
+      } catch (error) {
+        // Later tasks still run, without this task's output
+        if (!(error instanceof CostLimitExceededError)) throw error;
+        this.excluded.add(agentId);
+        this.lastError = error;
+        result.error = error.message;
+      }
+
+      return result;
+    }
+
+    return this.runDelegated(task, prompt, result);
+  }
+
+  /**
+   * Let the manager delegate a task and review the output, reassigning it if
+   * the chosen worker reaches its cost limit
+   */
+  private async runDelegated(task: ResolvedTask, prompt: string, result: CrewTaskResult): Promise<CrewTaskResult> {
+    while (true) {
+      const worker = await this.delegate(task);
+      if (!worker) {
+        result.error = result.error || `No agent is available for task ${task.index}`;
+        return result;
+      }
+
+      result.agent_id = worker.id;
+
+      try {
+        let output = await this.runAgent(task, worker.id, prompt);
+
+        while (result.revisions < this.maxRevisions) {
+          const feedback = await this.review(task, output);
+          if (feedback === null) break;
+
+          result.revisions++;
+          output = await this.runAgent(
+            task,
+            worker.id,
+            `${prompt}\n\nYour previous answer:\n${output}\n\nFeedback from your manager:\n${feedback}\n\nRevise your answer.`
+          );
+        }
+
+        result.output = output;
+        delete result.error;
+        return result;
+      } catch (error) {
+        if (!(error instanceof CostLimitExceededError)) throw error;
+        this.excluded.add(worker.id);
+        this.lastError = error;
+        result.error = error.message;
+      }
+    }
+  }
+
+  /**
+   * Run an agent on a task prompt
+   */
+  private async runAgent(task: ResolvedTask, agentId: string, prompt: string): Promise<string> {
+    const event: CrewTaskEvent = { index: task.index, taskId: task.id, agentId };
+    this.runtime.emit(SwarmEvent.TASK_START, event);
+
+    const result = await this.runtime.run(agentId, prompt);
+    return result.content;
+  }
+
+  /**
+   * Pick the worker for a task: its assigned agent, else whoever the manager names
+   *
+   * Falls back to the first available worker when the manager's reply names
+   * no one or the manager reached its cost limit.
+   */
+  private async delegate(task: ResolvedTask): Promise<RuntimeAgent | null> {
+    const workers = this.getWorkers();
+    if (workers.length === 0) return null;
+
+    const assigned = workers.find(agent => agent.id === task.agent_id);
+    if (assigned) return assigned;
+
+    const reply = await this.askManager(
+      'You manage a crew of agents. Delegate each task to the coworker best suited for it.',
+      `Coworkers:\n${formatRoster(workers)}\n\nTask: ${task.description}\nExpected output: ${task.expected_output}\n\n` +
+        'Reply with only the ID of the coworker who should do this task.'
+    );
+
+    return (reply !== null && matchAgent(reply, workers)) || workers[0];
+  }
+
+  /**
+   * Ask the manager whether an output meets the task's expected output
+   *
+   * Returns the manager's feedback, or null if the output is approved.
+   */
+  private async review(task: ResolvedTask, output: string): Promise<string | null> {
+    const reply = await this.askManager(
+      'You manage a crew of agents. Check that work meets the expected output before accepting it.',
+      `Task: ${task.description}\nExpected output: ${task.expected_output}\n\nResult:\n${output}\n\n` +
+        `Reply with ${APPROVED} if the result meets the expected output; otherwise explain what must change.`
+    );
+
+    if (reply === null || reply.trim().toUpperCase().startsWith(APPROVED)) {
+      return null;
+    }
+
+    return reply.trim();
+  }
+
+  /**
+   * Make a coordination call with the manager's model
+   *
+   * Returns null when the manager reached its cost limit.
+   */
+  private async askManager(system: string, content: string): Promise<string | null> {
+    const managerId = this.getManagerId();
+    if (this.excluded.has(managerId)) return null;
+
+    try {
+      const response = await this.runtime.complete(managerId, {
+        system,
+        messages: [{ role: 'user', content }],
+        temperature: 0
+      });
+      return response.content;
+    } catch (error) {
+      if (!(error instanceof CostLimitExceededError)) throw error;
+      this.excluded.add(managerId);
+      return null;
+    }
+  }
+
+  /**
+   * Build a task's prompt from the message, the task and its context
+   */
+  private getTaskPrompt(task: ResolvedTask, message: string, results: CrewTaskResult[]): string {
+    let prompt = `Request: ${message}\n\n` +
+      `Task: ${task.description.split('{input}').join(message)}\n` +
+      `Expected output: ${task.expected_output}`;
+
+    if (task.dependencyIndices.length > 0) {
+      const context = task.dependencyIndices.map(index => {
+        const dependency = results[index];
+        const author = dependency.agent_id ? this.runtime.getAgent(dependency.agent_id).name : 'no one';
+        const output = dependency.output ?? `(This task failed: ${dependency.error})`;
+        return `### ${dependency.description} (${author})\n${output}`;
+      });
+
+      prompt += `\n\nContext from earlier tasks:\n\n${context.join('\n\n')}`;
+    }
+
+    return prompt;
+  }
+
+  /**
+   * Get the agent that delegates and reviews in the hierarchical process
+   */
+  private getManagerId(): string {
+    return this.config.manager_agent_id || this.agents[0].id;
+  }
+
+  /**
+   * Get the agents a manager can delegate to
+   *
+   * The manager only does tasks itself when it is the only agent.
+   */
+  private getWorkers(): RuntimeAgent[] {
+    const managerId = this.getManagerId();
+    const available = this.agents.filter(agent => !this.excluded.has(agent.id));
+    const workers = available.filter(agent => agent.id !== managerId);
+
+    return workers.length > 0 || this.agents.length > 1 ? workers : available;
+  }
+
+  /**
+   * Give every agent one task on the message, each building on the previous one
+   */
+  private getDefaultTasks(): CrewTask[] {
+    return this.agents.map((agent, index) => ({
+      description: '{input}',
+      expected_output: `Your contribution as ${agent.name}: ${agent.role}`,
+      agent_id: agent.id,
+      dependencies: index > 0 ? [index - 1] : []
+    }));
+  }
+}
+
+/**
+ * Statically check a crew config against the spec's agents
+ *
+ * Reports an unknown manager, tasks assigned to unknown agents or, in the
+ * sequential process, to no agent, dependencies on tasks that do not come
+ * earlier, and duplicate task IDs.
+ */
+export function findCrewIssues(config: CrewConfig | undefined, agentIds: string[]): SpecDiagnostic[] {
+  const diagnostics: SpecDiagnostic[] = [];
+  const error = (path: string, code: string, message: string): void => {
+    diagnostics.push({ path: `${CONFIG_PATH}${path}`, code, message, severity: 'error' });
+  };
+  const process = config?.process || 'sequential';
+  const indexById = new Map<string, number>();
+
+  const managerId = config?.manager_agent_id;
+  if (managerId !== undefined && !agentIds.includes(managerId)) {
+    error('.manager_agent_id', 'unknown_agent', `Manager "${managerId}" is not an agent`);
+  }
+
+  (config?.tasks || []).forEach((task, index) => {
+    const path = `.tasks[${index}]`;
+
+    if (task.agent_id !== undefined && !agentIds.includes(task.agent_id)) {
+      error(`${path}.agent_id`, 'unknown_agent', `Task ${index} is assigned to unknown agent "${task.agent_id}"`);
+    } else if (task.agent_id === undefined && process === 'sequential') {
+      error(path, 'invalid_task', `Task ${index} needs an agent_id in the sequential process`);
+    }
+
+    (task.dependencies || []).forEach((dependency, dependencyIndex) => {
+      const target = typeof dependency === 'number' ? dependency : indexById.get(dependency);
+      if (target === undefined || target >= index) {
+        error(`${path}.dependencies[${dependencyIndex}]`, 'invalid_task',
+          `Task ${index} depends on ${JSON.stringify(dependency)}, which is not an earlier task`);
+      }
+    });
+
+    if (task.id !== undefined) {
+      if (indexById.has(task.id)) {
+        error(`${path}.id`, 'invalid_task', `Duplicate task id "${task.id}"`);
+      } else {
+        indexById.set(task.id, index);
+      }
+    }
+  });
+
+  return diagnostics;
+}
+
+/**
+ * Resolve task dependencies to indices and check that they point backwards
+ */
+function resolveTasks(tasks: CrewTask[]): ResolvedTask[] {
+  const indexById = new Map<string, number>();
+
+  return tasks.map((task, index) => {
+    if (!task.description || !task.expected_output) {
+      throw new Error(`Task ${index} needs a description and an expected_output`);
+    }
+
+    const dependencyIndices = (task.dependencies || []).map(dependency => {
+      const dependencyIndex = typeof dependency === 'number' ? dependency : indexById.get(dependency);
+
+      if (dependencyIndex === undefined || dependencyIndex < 0 || dependencyIndex >= index) {
+        throw new Error(`Task ${index} depends on ${JSON.stringify(dependency)}, which is not an earlier task`);
+      }
+
+      return dependencyIndex;
+    });
+
+    if (task.id) {
+      if (indexById.has(task.id)) {
+        throw new Error(`Duplicate task id: ${task.id}`);
+      }
+      indexById.set(task.id, index);
+    }
+
+    return { ...task, index, dependencyIndices };
+  });
+}
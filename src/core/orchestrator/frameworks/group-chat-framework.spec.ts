@@ -0,0 +1,93 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ServiceSpec } from '../../models';
+import { MockRule } from '../../providers/mock-client';
+import { SwarmOrchestrator } from '../swarm-orchestrator';
+import { SwarmEvent, SpeakerSelectedEvent } from '../index';
+import { GroupChatConfig } from './group-chat-framework';
+
+/**
+ * Build a group chat of a writer and a reviewer on the mock preset "scripted"
+ */
+function createSpec(config: GroupChatConfig): ServiceSpec {
+  return {
+    id: 'chat',
+    name: 'Chat',
+    agents: [
+      { id: 'writer', name: 'Writer', role: 'Writes drafts', tools: [], model_preset_id: 'scripted' },
+      { id: 'reviewer', name: 'Reviewer', role: 'Reviews drafts', tools: [], model_preset_id: 'scripted' }
+    ],
+    orchestration: { type: 'autogen', config: { ...config } },
+    created_at: 1,
+    updated_at: 1
+  };
+}
+
+describe('GroupChatFramework', () => {
+  let dataDir: string;
+  let orchestrator: SwarmOrchestrator | null;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'group-chat-'));
+    orchestrator = null;
+  });
+
+  afterEach(async () => {
+    await orchestrator?.stop();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Start a group chat whose agents reply from mock rules, collecting the selected speakers
+   */
+  async function startChat(config: GroupChatConfig, rules: MockRule[]): Promise<SpeakerSelectedEvent[]> {
+    fs.writeFileSync(path.join(dataDir, 'presets.json'), JSON.stringify({
+      presets: [{ id: 'scripted', extends: 'mock', provider_options: { rules } }]
+    }));
+
+    const speakers: SpeakerSelectedEvent[] = [];
+    orchestrator = new SwarmOrchestrator(createSpec(config), { dataDir });
+    orchestrator.on(SwarmEvent.SPEAKER_SELECTED, (event: SpeakerSelectedEvent) => speakers.push(event));
+    await orchestrator.start();
+
+    return speakers;
+  }
+
+  it('takes turns until a reply ends with TERMINATE and answers with that reply', async () => {
+    const speakers = await startChat({}, [
+      { system: '^You are Writer', reply: 'A draft' },
+      { system: '^You are Reviewer', reply: 'Looks good.\nTERMINATE' }
+    ]);
+
+    expect(await orchestrator!.sendMessage('Write a haiku')).toBe('Looks good.');
+    expect(speakers).toEqual([
+      { round: 1, agentId: 'writer', method: 'round_robin' },
+      { round: 2, agentId: 'reviewer', method: 'round_robin' }
+    ]);
+  });
+
+  it('ends the chat at max_round or on the termination keyword', async () => {
+    const speakers = await startChat({ max_round: 3, termination_keyword: 'SHIP IT' }, [
+      { system: '^You are Writer', message: 'ship', reply: 'SHIP IT' },
+      { system: '^You are Writer', reply: 'Another draft' },
+      { system: '^You are Reviewer', reply: 'Needs work' }
+    ]);
+
+    expect(await orchestrator!.sendMessage('Write')).toBe('Another draft');
+    expect(speakers.map(event => event.agentId)).toEqual(['writer', 'reviewer', 'writer']);
+
+    expect(await orchestrator!.sendMessage('Please ship')).toBe('SHIP IT');
+    expect(speakers.slice(3).map(event => event.agentId)).toEqual(['writer']);
+  });
+
+  it('lets the selector model pick speakers in auto mode', async () => {
+    const speakers = await startChat({ speaker_selection_method: 'auto', selector_agent_id: 'writer' }, [
+      { system: 'coordinate a group chat', reply: 'reviewer' },
+      { system: '^You are Reviewer', reply: 'Reviewed. TERMINATE' }
+    ]);
+
+    expect(await orchestrator!.sendMessage('Check this')).toBe('Reviewed.');
+    expect(speakers).toEqual([{ round: 1, agentId: 'reviewer', method: 'auto' }]);
+  });
+});
@@ -0,0 +1,337 @@
+import { z } from 'zod';
+import { ChatMessage } from '../../providers';
+import { SpecDiagnostic } from '../../models';
+import { Framework } from '../framework-registry';
+import { AgentRuntime } from '../agent-runtime';
+import { CostLimitExceededError } from '../cost-tracker';
+import { SwarmEvent, RuntimeAgent, SpeakerSelector, SpeakerSelectedEvent } from '../index';
+import { matchAgent, formatRoster } from './agent-selection';
+import { TranscriptEntry, renderTranscript, restoreTranscript } from './transcript';
+
+const DEFAULT_MAX_ROUND = 10;
+const TERMINATE = 'TERMINATE';
+const CONFIG_PATH = '$.orchestration.config';
+
+/**
+ * Progress of a chat, checkpointed after each turn
+ */
+interface ChatSnapshot {
+  transcript: TranscriptEntry[];
+  excluded: string[];        // Agents that reached their cost limit
+  round: number;             // Round to run next
+  previous_id: string | null;
+  answer: string;            // Latest reply
+}
+
+/**
+ * `orchestration.config` of an AutoGen-style group chat
+ */
+export interface GroupChatConfig {
+  speaker_selection_method?: 'round_robin' | 'manual' | 'auto'; // Default: round_robin
+  max_round?: number;            // Max speaker turns per message (default: 10)
+  termination_keyword?: string;  // End the chat when a reply contains this text
+  allow_repeat_speaker?: boolean; // Let an agent speak twice in a row (default: false)
+  selector_agent_id?: string;    // Agent whose model picks speakers in auto mode (default: the first agent)
+}
+
+/**
+ * zod schema for GroupChatConfig
+ */
+export const GroupChatConfigSchema = z.object({
+  speaker_selection_method: z.enum(['round_robin', 'manual', 'auto']).optional(),
+  max_round: z.number().int().positive().optional(),
+  termination_keyword: z.string().min(1).optional(),
+  allow_repeat_speaker: z.boolean().optional(),
+  selector_agent_id: z.string().min(1).optional()
+}).passthrough();
+
+/**
+ * AutoGen-style group chat
+ *
+ * Agents take turns on a shared transcript. Each turn is a full agent run,
+ * so a speaker may call tools before answering. The chat ends after
+ * `max_round` turns, when a reply contains the termination keyword, or when
+ * a reply ends with "TERMINATE". The chat is checkpointed after every turn,
+ * and a message joins the transcript only once it is answered, so a failed
+ * or cancelled message can be sent again.
+ */
+export class GroupChatFramework implements Framework {
+  private runtime: AgentRuntime;
+  private config: GroupChatConfig;
+  private method: 'round_robin' | 'manual' | 'auto';
+  private maxRound: number;
+  private selectSpeaker: SpeakerSelector | undefined;
+  private agents: RuntimeAgent[];
+  private transcript: TranscriptEntry[];
+  private excluded: Set<string>;
+
+  constructor(runtime: AgentRuntime, config?: GroupChatConfig, selectSpeaker?: SpeakerSelector) {
+    this.runtime = runtime;
+    this.config = config || {};
+    this.method = this.config.speaker_selection_method || 'round_robin';
+    this.maxRound = this.config.max_round || DEFAULT_MAX_ROUND;
+    this.selectSpeaker = selectSpeaker;
+    this.agents = [];
+    this.transcript = [];
+    this.excluded = new Set();
+
+    if (!['round_robin', 'manual', 'auto'].includes(this.method)) {
+      throw new Error(`Unsupported speaker_selection_method: ${this.method}`);
+    }
+
+    if (this.method === 'manual' && !this.selectSpeaker) {
+      throw new Error('Manual speaker selection requires a selectSpeaker callback');
+    }
+  }
+
+  /**
+   * Prepare a new, empty chat
+   */
+  async initialize(agents: Map<string, RuntimeAgent>): Promise<void> {
+    this.agents = Array.from(agents.values());
+    this.transcript = [];
+    this.excluded.clear();
+
+    if (this.config.selector_agent_id && !agents.has(this.config.selector_agent_id)) {
+      throw new Error(`Unknown selector_agent_id: ${this.config.selector_agent_id}`);
+    }
+  }
+
+  /**
+   * Add a user message to the chat and let agents talk until the chat terminates
+   */
+  async execute(message: string): Promise<string> {
+    const transcript = [...this.transcript, { agentId: null, message: { role: 'user' as const, content: message } }];
+
+    return this.chat(transcript, 1, null, '');
+  }
+
+  /**
+   * Continue an interrupted chat with the round after its last completed turn
+   */
+  async resume(message: string, snapshot: ChatSnapshot): Promise<string> {
+    this.excluded = new Set(snapshot.excluded);
+
+    const previous = this.agents.find(agent => agent.id === snapshot.previous_id) || null;
+    return this.chat(snapshot.transcript, snapshot.round, previous, snapshot.answer);
+  }
+
+  /**
+   * Continue the chat of a resumed session
+   */
+  restore(messages: ChatMessage[]): void {
+    this.transcript = restoreTranscript(messages);
+  }
+
+  /**
+   * Clear the transcript
+   */
+  async cleanup(): Promise<void> {
+    this.transcript = [];
+  }
+
+  /**
+   * Let agents talk on a transcript from a given round until the chat
+   * terminates, then keep the transcript for the next message
+   */
+  private async chat(
+    transcript: TranscriptEntry[],
+    firstRound: number,
+    previous: RuntimeAgent | null,
+    answer: string
+  ): Promise<string> {
+    let lastError: CostLimitExceededError | null = null;
+
+    for (let round = firstRound; round <= this.maxRound; round++) {
+      const candidates = this.agents.filter(agent =>
+        !this.excluded.has(agent.id) &&
+        (agent !== previous || this.config.allow_repeat_speaker || this.agents.length === 1)
+      );
+      if (candidates.length === 0) break;
+
+      const speaker = await this.selectNextSpeaker(transcript, candidates, previous);
+      if (!speaker) break;
+
+      const event: SpeakerSelectedEvent = { round, agentId: speaker.id, method: this.method };
+      this.runtime.emit(SwarmEvent.SPEAKER_SELECTED, event);
+
+      let content: string;
+      try {
+        const result = await this.runtime.run(speaker.id, renderTranscript(transcript, speaker.id), {
+          system: this.getSystemPrompt(speaker)
+        });
+        content = result.content;
+      } catch (error) {
+        // The chat continues without an agent that reached its cost limit
+        if (!(error instanceof CostLimitExceededError)) throw error;
+        this.excluded.add(speaker.id);
+        lastError = error;
+        continue;
+      }
+
+      transcript.push({
+        agentId: speaker.id,
+        message: { role: 'assistant', name: speaker.name, content }
+      });
+
+      const reply = stripTermination(content);
+      if (reply) {
+        answer = reply;
+      }
+      previous = speaker;
+
+      if (this.isTermination(content)) break;
+
+      const checkpoint: ChatSnapshot = {
+        transcript,
+        excluded: Array.from(this.excluded),
+        round: round + 1,
+        previous_id: speaker.id,
+        answer
+      };
+      await this.runtime.checkpoint(checkpoint);
+    }
+
+    if (!answer && lastError) {
+      throw lastError;
+    }
+
+    this.transcript = transcript;
+    return answer;
+  }
+
+  /**
+   * Pick the next speaker according to the selection method
+   */
+  private async selectNextSpeaker(
+    transcript: TranscriptEntry[],
+    candidates: RuntimeAgent[],
+    previous: RuntimeAgent | null
+  ): Promise<RuntimeAgent | null> {
+    switch (this.method) {
+      case 'manual': {
+        const agentId = await this.selectSpeaker!(candidates, transcript.map(entry => entry.message));
+        if (agentId === null) return null;
+
+        const speaker = candidates.find(agent => agent.id === agentId);
+        if (!speaker) {
+          throw new Error(`Selected speaker is not available: ${agentId}`);
+        }
+        return speaker;
+      }
+
+      case 'auto':
+        return await this.selectByModel(transcript, candidates) || this.selectRoundRobin(candidates, previous);
+
+      default:
+        return this.selectRoundRobin(candidates, previous);
+    }
+  }
+
+  /**
+   * Pick the agent after the previous speaker in spec order
+   */
+  private selectRoundRobin(candidates: RuntimeAgent[], previous: RuntimeAgent | null): RuntimeAgent {
+    const start = previous ? this.agents.indexOf(previous) + 1 : 0;
+
+    for (let i = 0; i < this.agents.length; i++) {
+      const agent = this.agents[(start + i) % this.agents.length];
+      if (candidates.includes(agent)) {
+        return agent;
+      }
+    }
+
+    return candidates[0];
+  }
+
+  /**
+   * Ask the selector agent's model who should speak next
+   *
+   * Returns null when the model is unavailable or its reply names no candidate.
+   */
+  private async selectByModel(transcript: TranscriptEntry[], candidates: RuntimeAgent[]): Promise<RuntimeAgent | null> {
+    const selectorId = this.config.selector_agent_id ||
+      this.agents.find(agent => !this.excluded.has(agent.id))?.id;
+    if (!selectorId || this.excluded.has(selectorId)) return null;
+
+    const roster = formatRoster(candidates);
+    const conversation = transcript
+      .map(entry => `${entry.message.name || 'User'}: ${entry.message.content}`)
+      .join('\n\n');
+
+    let reply: string;
+    try {
+      const response = await this.runtime.complete(selectorId, {
+        system: 'You coordinate a group chat. Choose who should speak next to move the task forward.',
+        messages: [{
+          role: 'user',
+          content: `Participants:\n${roster}\n\nConversation:\n${conversation}\n\n` +
+            'Reply with only the ID of the participant who should speak next.'
+        }],
+        temperature: 0
+      });
+      reply = response.content;
+    } catch (error) {
+      if (!(error instanceof CostLimitExceededError)) throw error;
+      this.excluded.add(selectorId);
+      return null;
+    }
+
+    return matchAgent(reply, candidates);
+  }
+
+  /**
+   * Extend an agent's system prompt with the group chat rules
+   */
+  private getSystemPrompt(speaker: RuntimeAgent): string {
+    const others = this.agents
+      .filter(agent => agent !== speaker)
+      .map(agent => `${agent.name} (${agent.role})`);
+
+    let prompt = speaker.system_prompt;
+    if (others.length > 0) {
+      prompt += `\n\nYou are taking part in a group chat with: ${others.join(', ')}.`;
+    }
+    prompt += `\nWhen the task is complete, end your reply with ${TERMINATE}.`;
+
+    return prompt;
+  }
+
+  /**
+   * Check whether a reply ends the chat
+   */
+  private isTermination(content: string): boolean {
+    if (content.trimEnd().endsWith(TERMINATE)) {
+      return true;
+    }
+
+    const keyword = this.config.termination_keyword;
+    return !!keyword && content.includes(keyword);
+  }
+}
+
+/**
+ * Statically check a group chat config against the spec's agents
+ */
+export function findGroupChatIssues(config: GroupChatConfig | undefined, agentIds: string[]): SpecDiagnostic[] {
+  const selectorId = config?.selector_agent_id;
+
+  if (selectorId !== undefined && !agentIds.includes(selectorId)) {
+    return [{
+      path: `${CONFIG_PATH}.selector_agent_id`,
+      code: 'unknown_agent',
+      message: `Speaker selector "${selectorId}" is not an agent`,
+      severity: 'error'
+    }];
+  }
+
+  return [];
+}
+
+/**
+ * Remove a trailing TERMINATE marker from a reply
+ */
+function stripTermination(content: string): string {
+  const trimmed = content.trimEnd();
+  return trimmed.endsWith(TERMINATE) ? trimmed.slice(0, -TERMINATE.length).trimEnd() : trimmed;
+}
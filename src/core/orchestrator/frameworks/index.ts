@@ -0,0 +1,6 @@
+// Native framework implementations run by the agent runtime
+
+export { GroupChatFramework, GroupChatConfig, GroupChatConfigSchema, findGroupChatIssues } from './group-chat-framework';
+export { CrewFramework, CrewConfig, CrewTask, CrewConfigSchema, findCrewIssues } from './crew-framework';
+export { StateGraphFramework, GraphRecursionError, StateGraphConfigSchema } from './state-graph-framework';
+export { RouterFramework, RouterConfig, RouterRoute, RouterConfigSchema, findRouterIssues } from './router-framework';
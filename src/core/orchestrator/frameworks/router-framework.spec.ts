@@ -0,0 +1,126 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ServiceSpec } from '../../models';
+import { ChatRequest } from '../../providers';
+import { MockClient, MockRule } from '../../providers/mock-client';
+import { ProviderRegistry } from '../../providers/provider-registry';
+import { SwarmOrchestrator } from '../swarm-orchestrator';
+import { SwarmEvent, RouteDecisionEvent } from '../index';
+import { RouterConfig } from './router-framework';
+
+/**
+ * Build a router over a generalist, billing and tech agent on the mock preset "scripted"
+ */
+function createSpec(config: RouterConfig): ServiceSpec {
+  return {
+    id: 'router',
+    name: 'Router',
+    agents: [
+      { id: 'general', name: 'General', role: 'Answers anything', tools: [], model_preset_id: 'scripted' },
+      { id: 'billing', name: 'Billing', role: 'Handles invoices and refunds', tools: [], model_preset_id: 'scripted' },
+      { id: 'tech', name: 'Tech', role: 'Fixes technical problems', tools: [], model_preset_id: 'scripted' }
+    ],
+    orchestration: { type: 'langchain', config: { ...config } },
+    created_at: 1,
+    updated_at: 1
+  };
+}
+
+const RULES: MockRule[] = [
+  { system: 'route user messages', message: 'printer', reply: '{"agent_id": "tech", "confidence": 0.9, "reason": "Hardware"}' },
+  { system: 'route user messages', reply: '{"agent_id": "billing", "confidence": 0.2, "reason": "Unsure"}' },
+  { system: '^You are General', reply: 'general answer' },
+  { system: '^You are Billing', reply: 'billing answer' },
+  { system: '^You are Tech', reply: 'tech answer' }
+];
+
+describe('RouterFramework', () => {
+  let dataDir: string;
+  let orchestrator: SwarmOrchestrator | null;
+  let requests: ChatRequest[];
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'router-'));
+    orchestrator = null;
+    requests = [];
+  });
+
+  afterEach(async () => {
+    await orchestrator?.stop();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Start a router whose agents reply from the mock rules, collecting decisions and model requests
+   */
+  async function startRouter(config: RouterConfig): Promise<RouteDecisionEvent[]> {
+    fs.writeFileSync(path.join(dataDir, 'presets.json'), JSON.stringify({
+      presets: [{ id: 'scripted', extends: 'mock', provider_options: { rules: RULES } }]
+    }));
+
+    const providerRegistry = new ProviderRegistry();
+    providerRegistry.registerProvider('mock', preset => {
+      const client = MockClient.fromOptions(preset.provider_options);
+      const chat = client.chat.bind(client);
+      client.chat = (request, options) => {
+        requests.push({ ...request, messages: [...request.messages] });
+        return chat(request, options);
+      };
+      return client;
+    }, { perSession: true });
+
+    const decisions: RouteDecisionEvent[] = [];
+    orchestrator = new SwarmOrchestrator(createSpec(config), { dataDir, providerRegistry });
+    orchestrator.on(SwarmEvent.ROUTE_SELECTED, (decision: RouteDecisionEvent) => decisions.push(decision));
+    await orchestrator.start();
+
+    return decisions;
+  }
+
+  it('routes on patterns and keywords and falls back to the default agent', async () => {
+    const decisions = await startRouter({
+      router: {
+        routes: [
+          { pattern: 'refund|invoice', agent_id: 'billing' },
+          { keywords: ['crash'], agent_id: 'tech' }
+        ]
+      }
+    });
+
+    expect(await orchestrator!.sendMessage('I want a REFUND')).toBe('billing answer');
+    expect(await orchestrator!.sendMessage('The app crashed')).toBe('general answer');
+    expect(await orchestrator!.sendMessage('It keeps crash-ing')).toBe('tech answer');
+
+    expect(decisions.map(decision => [decision.agentId, decision.method, decision.route])).toEqual([
+      ['billing', 'pattern', 0],
+      ['general', 'default', undefined],
+      ['tech', 'keyword', 1]
+    ]);
+  });
+
+  it('asks the classifier in hybrid mode and keeps low-confidence choices with the default agent', async () => {
+    const decisions = await startRouter({ router: { mode: 'hybrid', routes: [{ keywords: ['refund'], agent_id: 'billing' }] } });
+
+    expect(await orchestrator!.sendMessage('My printer is on fire')).toBe('tech answer');
+    expect(await orchestrator!.sendMessage('Something odd')).toBe('general answer');
+
+    expect(decisions).toEqual([
+      { agentId: 'tech', method: 'classifier', reason: 'Hardware', confidence: 0.9 },
+      expect.objectContaining({ agentId: 'general', method: 'default', confidence: 0.2 })
+    ]);
+  });
+
+  it('shows the chosen agent the whole conversation', async () => {
+    await startRouter({ router: { routes: [{ keywords: ['refund'], agent_id: 'billing' }] } });
+
+    await orchestrator!.sendMessage('Hello');
+    await orchestrator!.sendMessage('A refund please');
+
+    expect(requests[requests.length - 1].messages).toEqual([
+      { role: 'user', content: 'Hello' },
+      { role: 'user', content: 'General: general answer' },
+      { role: 'user', content: 'A refund please' }
+    ]);
+  });
+});
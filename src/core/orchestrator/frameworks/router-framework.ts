@@ -0,0 +1,377 @@
+import { z } from 'zod';
+import { ChatMessage } from '../../providers';
+import { SpecDiagnostic } from '../../models';
+import { Framework } from '../framework-registry';
+import { AgentRuntime } from '../agent-runtime';
+import { CostLimitExceededError } from '../cost-tracker';
+import { SwarmEvent, RuntimeAgent, RouteDecisionEvent } from '../index';
+import { matchAgent, formatRoster } from './agent-selection';
+import { TranscriptEntry, renderTranscript, restoreTranscript } from './transcript';
+
+const DEFAULT_CONFIDENCE_THRESHOLD = 0.5;
+const CONFIG_PATH = '$.orchestration.config.router';
+
+/**
+ * A route to an agent, taken when the message matches its pattern or contains one of its keywords
+ */
+export interface RouterRoute {
+  pattern?: string;          // Regular expression, matched case-insensitively
+  keywords?: string[];       // Matched case-insensitively as whole words
+  agent_id: string;
+}
+
+/**
+ * `orchestration.config` of a LangChain-style router
+ */
+export interface RouterConfig {
+  router?: {
+    mode?: 'pattern' | 'classifier' | 'hybrid'; // Default: pattern; hybrid asks the classifier when no route matches
+    routes?: RouterRoute[];
+    default_agent_id?: string;                   // Default: the first agent
+    classifier_agent_id?: string;                // Agent whose model classifies (default: the default agent)
+    confidence_threshold?: number;               // Below this the default agent answers (default: 0.5)
+    unrated_confidence?: number;                 // Confidence of a reply that names an agent without one (default: 0)
+  };
+}
+
+/**
+ * zod schema for RouterConfig
+ */
+export const RouterConfigSchema = z.object({
+  router: z.object({
+    mode: z.enum(['pattern', 'classifier', 'hybrid']).optional(),
+    routes: z.array(z.object({
+      pattern: z.string().min(1).optional(),
+      keywords: z.array(z.string().min(1)).optional(),
+      agent_id: z.string().min(1)
+    })).optional(),
+    default_agent_id: z.string().min(1).optional(),
+    classifier_agent_id: z.string().min(1).optional(),
+    confidence_threshold: z.number().min(0).max(1).optional(),
+    unrated_confidence: z.number().min(0).max(1).optional()
+  }).passthrough().optional()
+}).passthrough();
+
+/**
+ * A classifier's choice of agent
+ */
+interface Classification {
+  agent: RuntimeAgent | null;
+  confidence: number;
+  reason: string;
+}
+
+/**
+ * LangChain-style router
+ *
+ * Each message goes to exactly one agent, chosen by the first matching
+ * route, by a classifier model that compares the message with the agents'
+ * roles, or by falling back to the default agent. The agent sees the whole
+ * conversation so far, whoever answered earlier messages. A message joins
+ * the conversation only once it is answered, so a failed or cancelled
+ * message can be sent again.
+ */
+export class RouterFramework implements Framework {
+  private runtime: AgentRuntime;
+  private config: NonNullable<RouterConfig['router']>;
+  private mode: 'pattern' | 'classifier' | 'hybrid';
+  private routes: RouterRoute[];
+  private defaultAgentId: string;
+  private classifierAgentId: string;
+  private confidenceThreshold: number;
+  private unratedConfidence: number;
+  private agents: RuntimeAgent[];
+  private transcript: TranscriptEntry[];
+
+  constructor(runtime: AgentRuntime, config?: RouterConfig) {
+    this.runtime = runtime;
+    this.config = config?.router || {};
+    this.mode = this.config.mode || 'pattern';
+    this.routes = this.config.routes || [];
+    this.defaultAgentId = '';
+    this.classifierAgentId = '';
+    this.confidenceThreshold = this.config.confidence_threshold ?? DEFAULT_CONFIDENCE_THRESHOLD;
+    this.unratedConfidence = this.config.unrated_confidence ?? 0;
+    this.agents = [];
+    this.transcript = [];
+
+    if (!['pattern', 'classifier', 'hybrid'].includes(this.mode)) {
+      throw new Error(`Unsupported router mode: ${this.mode}`);
+    }
+  }
+
+  /**
+   * Check the routes against the agents and start an empty conversation
+   */
+  async initialize(agents: Map<string, RuntimeAgent>): Promise<void> {
+    this.agents = Array.from(agents.values());
+    this.transcript = [];
+    this.defaultAgentId = this.config.default_agent_id || this.agents[0]?.id || '';
+    this.classifierAgentId = this.config.classifier_agent_id || this.defaultAgentId;
+
+    for (const [label, agentId] of [['default_agent_id', this.defaultAgentId], ['classifier_agent_id', this.classifierAgentId]]) {
+      if (!agents.has(agentId)) {
+        throw new Error(`Unknown router ${label}: ${agentId}`);
+      }
+    }
+
+    this.routes.forEach((route, index) => {
+      if (!agents.has(route.agent_id)) {
+        throw new Error(`Route ${index} points to unknown agent: ${route.agent_id}`);
+      }
+
+      if (!route.pattern && !route.keywords?.length) {
+        throw new Error(`Route ${index} needs a pattern or keywords`);
+      }
+
+      if (route.pattern) {
+        try {
+          new RegExp(route.pattern, 'i');
+        } catch {
+          throw new Error(`Route ${index} has an invalid pattern: ${route.pattern}`);
+        }
+      }
+    });
+  }
+
+  /**
+   * Route a message to one agent and return its answer
+   */
+  async execute(message: string): Promise<string> {
+    const transcript = [...this.transcript, { agentId: null, message: { role: 'user' as const, content: message } }];
+
+    let decision = await this.route(message);
+    let content: string;
+
+    try {
+      content = await this.runAgent(transcript, decision);
+    } catch (error) {
+      // Let the default agent answer in place of one that reached its cost limit
+      if (!(error instanceof CostLimitExceededError) || decision.agentId === this.defaultAgentId) throw error;
+
+      decision = {
+        agentId: this.defaultAgentId,
+        method: 'default',
+        reason: `${this.runtime.getAgent(decision.agentId).name} reached its cost limit`
+      };
+      content = await this.runAgent(transcript, decision);
+    }
+
+    this.transcript = transcript;
+    return content;
+  }
+
+  /**
+   * Continue the conversation of a resumed session
+   */
+  restore(messages: ChatMessage[]): void {
+    this.transcript = restoreTranscript(messages);
+  }
+
+  /**
+   * Forget the conversation
+   */
+  async cleanup(): Promise<void> {
+    this.transcript = [];
+  }
+
+  /**
+   * Report a routing decision and run the chosen agent on the conversation
+   */
+  private async runAgent(transcript: TranscriptEntry[], decision: RouteDecisionEvent): Promise<string> {
+    this.runtime.emit(SwarmEvent.ROUTE_SELECTED, decision);
+
+    const agent = this.runtime.getAgent(decision.agentId);
+    const result = await this.runtime.run(agent.id, renderTranscript(transcript, agent.id));
+
+    transcript.push({
+      agentId: agent.id,
+      message: { role: 'assistant', name: agent.name, content: result.content }
+    });
+
+    return result.content;
+  }
+
+  /**
+   * Decide which agent handles a message
+   */
+  private async route(message: string): Promise<RouteDecisionEvent> {
+    if (this.mode !== 'classifier') {
+      const matched = this.matchRoutes(message);
+      if (matched) return matched;
+
+      if (this.mode === 'pattern') {
+        return { agentId: this.defaultAgentId, method: 'default', reason: 'No route matched the message' };
+      }
+    }
+
+    const classification = await this.classify(message);
+
+    if (!classification.agent) {
+      return { agentId: this.defaultAgentId, method: 'default', reason: classification.reason };
+    }
+
+    if (classification.confidence < this.confidenceThreshold) {
+      return {
+        agentId: this.defaultAgentId,
+        method: 'default',
+        reason: `Classifier chose ${classification.agent.id} with confidence ${classification.confidence}, ` +
+          `below the threshold of ${this.confidenceThreshold}: ${classification.reason}`,
+        confidence: classification.confidence
+      };
+    }
+
+    return {
+      agentId: classification.agent.id,
+      method: 'classifier',
+      reason: classification.reason,
+      confidence: classification.confidence
+    };
+  }
+
+  /**
+   * Find the first route whose pattern or keywords match a message
+   */
+  private matchRoutes(message: string): RouteDecisionEvent | null {
+    for (let index = 0; index < this.routes.length; index++) {
+      const route = this.routes[index];
+
+      if (route.pattern && new RegExp(route.pattern, 'i').test(message)) {
+        return { agentId: route.agent_id, method: 'pattern', reason: `Message matches /${route.pattern}/`, route: index };
+      }
+
+      const keyword = route.keywords?.find(candidate =>
+        new RegExp(`\\b${escapeRegExp(candidate)}\\b`, 'i').test(message)
+      );
+      if (keyword) {
+        return { agentId: route.agent_id, method: 'keyword', reason: `Message contains "${keyword}"`, route: index };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Ask the classifier agent's model which agent's role fits a message best
+   */
+  private async classify(message: string): Promise<Classification> {
+    let reply: string;
+
+    try {
+      const response = await this.runtime.complete(this.classifierAgentId, {
+        system: 'You route user messages to the agent whose role fits them best.',
+        messages: [{
+          role: 'user',
+          content: `Agents:\n${formatRoster(this.agents)}\n\nMessage:\n${message}\n\n` +
+            'Reply with only a JSON object: {"agent_id": "<ID>", "confidence": <0 to 1>, "reason": "<one sentence>"}'
+        }],
+        temperature: 0
+      });
+      reply = response.content;
+    } catch (error) {
+      if (!(error instanceof CostLimitExceededError)) throw error;
+      return { agent: null, confidence: 0, reason: 'The classifier reached its cost limit' };
+    }
+
+    return parseClassification(reply, this.agents, this.unratedConfidence);
+  }
+}
+
+/**
+ * Statically check a router config against the spec's agents
+ *
+ * Reports unknown default, classifier and route agents, routes without a
+ * pattern or keywords, and invalid patterns.
+ */
+export function findRouterIssues(config: RouterConfig | undefined, agentIds: string[]): SpecDiagnostic[] {
+  const diagnostics: SpecDiagnostic[] = [];
+  const error = (path: string, code: string, message: string): void => {
+    diagnostics.push({ path: `${CONFIG_PATH}${path}`, code, message, severity: 'error' });
+  };
+  const router = config?.router || {};
+
+  for (const field of ['default_agent_id', 'classifier_agent_id'] as const) {
+    const agentId = router[field];
+    if (agentId !== undefined && !agentIds.includes(agentId)) {
+      error(`.${field}`, 'unknown_agent', `Router ${field} "${agentId}" is not an agent`);
+    }
+  }
+
+  (router.routes || []).forEach((route, index) => {
+    const path = `.routes[${index}]`;
+
+    if (!agentIds.includes(route.agent_id)) {
+      error(`${path}.agent_id`, 'unknown_agent', `Route ${index} points to unknown agent "${route.agent_id}"`);
+    }
+
+    if (!route.pattern && !route.keywords?.length) {
+      error(path, 'invalid_route', `Route ${index} needs a pattern or keywords`);
+    }
+
+    if (route.pattern) {
+      try {
+        new RegExp(route.pattern, 'i');
+      } catch {
+        error(`${path}.pattern`, 'invalid_route', `Invalid regular expression "${route.pattern}"`);
+      }
+    }
+  });
+
+  return diagnostics;
+}
+
+/**
+ * Read a confidence given as a number or numeric string, clamped to 0..1, or null if there is none
+ */
+function readConfidence(value: unknown): number | null {
+  if (typeof value !== 'number' && (typeof value !== 'string' || value.trim() === '')) {
+    return null;
+  }
+
+  const confidence = Number(value);
+  return Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : null;
+}
+
+/**
+ * Read a classifier reply, accepting a bare agent ID when it is not JSON
+ *
+ * A reply without a usable confidence gets `unratedConfidence`, so by
+ * default it falls below the threshold and the default agent answers.
+ */
+function parseClassification(reply: string, agents: RuntimeAgent[], unratedConfidence: number): Classification {
+  const json = reply.match(/\{[\s\S]*\}/)?.[0];
+
+  if (json) {
+    try {
+      const parsed = JSON.parse(json);
+      const agent = agents.find(candidate => candidate.id === parsed.agent_id) ||
+        matchAgent(String(parsed.agent_id ?? ''), agents);
+      const confidence = readConfidence(parsed.confidence);
+
+      return {
+        agent,
+        confidence: confidence ?? unratedConfidence,
+        reason: agent
+          ? String(parsed.reason || 'No reason given')
+          : `Classifier named unknown agent ${JSON.stringify(parsed.agent_id)}`
+      };
+    } catch {
+      // Fall through to a plain-text reply
+    }
+  }
+
+  const agent = matchAgent(reply, agents);
+
+  return {
+    agent,
+    confidence: agent ? unratedConfidence : 0,
+    reason: agent ? 'Classifier named the agent without a confidence' : `Classifier reply names no agent: ${reply.trim()}`
+  };
+}
+
+/**
+ * Escape a string for use in a regular expression
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,209 @@
+import { Tracer } from '../../tracing';
+import { ChatMessage } from '../../providers';
+import { StateGraphConfig } from '../../models';
+import { AgentRuntime, AgentRuntimeHost } from '../agent-runtime';
+import { SwarmEvent, RuntimeAgent, GraphStepEvent } from '../index';
+import { StateGraphFramework, GraphRecursionError } from './state-graph-framework';
+
+/**
+ * Build a runtime whose agents reply with scripted answers in turn, recording the messages they are sent
+ */
+function createRuntime(replies: Record<string, string[]>): {
+  runtime: AgentRuntime;
+  steps: GraphStepEvent[];
+  checkpoints: any[];
+  requests: Record<string, ChatMessage[][]>;
+} {
+  const tracer = new Tracer();
+  const steps: GraphStepEvent[] = [];
+  const checkpoints: any[] = [];
+  const requests: Record<string, ChatMessage[][]> = {};
+
+  const host: AgentRuntimeHost = {
+    callModel: async (agentId, request) => {
+      requests[agentId] = [...(requests[agentId] || []), [...request.messages]];
+      const content = replies[agentId].shift();
+      if (content === undefined) {
+        throw new Error(`No reply left for ${agentId}`);
+      }
+      return { content, tool_calls: [], stop_reason: 'end_turn', usage: { input_tokens: 1, output_tokens: 1 }, model: 'test' };
+    },
+    executeTool: async () => {
+      throw new Error('No tools');
+    },
+    recordAgentMessage: () => undefined,
+    saveCheckpoint: async state => {
+      checkpoints.push(JSON.parse(JSON.stringify(state)));
+    },
+    startSpan: (kind, name, attributes, parent) => tracer.startSpan(kind, name, { parent, attributes }),
+    emit: (event, payload) => {
+      if (event === SwarmEvent.GRAPH_STEP) {
+        steps.push(payload);
+      }
+      return true;
+    }
+  };
+
+  const agents = new Map<string, RuntimeAgent>(Object.keys(replies).map(id => [id, {
+    id,
+    name: id,
+    role: id,
+    system_prompt: `You are ${id}`,
+    tools: [],
+    definition: {} as any,
+    implementation: null
+  }]));
+
+  return { runtime: new AgentRuntime(host, agents), steps, checkpoints, requests };
+}
+
+/**
+ * Initialize a state graph on a runtime's agents
+ */
+async function createGraph(runtime: AgentRuntime, config?: StateGraphConfig): Promise<StateGraphFramework> {
+  const framework = new StateGraphFramework(runtime, config);
+  await framework.initialize(new Map(runtime.listAgents().map(agent => [agent.id, agent])));
+  return framework;
+}
+
+const REVIEW_LOOP: StateGraphConfig = {
+  nodes: [
+    { id: 'write', agent_id: 'writer', output_key: 'draft' },
+    { id: 'review', agent_id: 'reviewer', output_key: 'verdict' }
+  ],
+  edges: [{ from: 'write', to: 'review' }],
+  conditional_edges: [{
+    from: 'review',
+    key: 'verdict',
+    routes: [{ equals: 'approve', to: 'END' }, { contains: 'revise', to: 'write' }]
+  }],
+  state: {
+    draft: { type: 'string' },
+    verdict: { type: 'string' }
+  }
+};
+
+describe('StateGraphFramework', () => {
+  it('runs the agents in order by default and answers with the last reply', async () => {
+    const { runtime, steps } = createRuntime({ a: ['from a'], b: ['from b'] });
+    const framework = await createGraph(runtime);
+
+    expect(await framework.execute('start')).toBe('from b');
+    expect(steps.map(step => [step.node, step.next])).toEqual([['a', 'b'], ['b', 'END']]);
+  });
+
+  it('follows conditional edges on a state key until END', async () => {
+    const { runtime, steps, checkpoints } = createRuntime({
+      writer: ['draft 1', 'draft 2'],
+      reviewer: ['please revise', ' approve ']
+    });
+    const framework = await createGraph(runtime, REVIEW_LOOP);
+
+    expect(await framework.execute('Write a poem')).toBe(' approve ');
+    expect(steps.map(step => step.next)).toEqual(['review', 'write', 'review', 'END']);
+    expect(framework.getLastState()?.values).toEqual({ draft: 'draft 2', verdict: 'approve' });
+
+    // Every step but the last is checkpointed with the node to run next
+    expect(checkpoints.map(checkpoint => checkpoint.current)).toEqual(['review', 'write', 'review']);
+  });
+
+  it('routes on the last reply without a key and falls back to the default', async () => {
+    const { runtime, steps } = createRuntime({ triage: ['a billing question'], billing: ['paid'], support: ['helped'] });
+    const framework = await createGraph(runtime, {
+      nodes: [
+        { id: 'triage', agent_id: 'triage' },
+        { id: 'billing', agent_id: 'billing' },
+        { id: 'support', agent_id: 'support' }
+      ],
+      conditional_edges: [{ from: 'triage', routes: [{ matches: '^refund', to: 'billing' }], default: 'support' }],
+      finish_points: ['billing', 'support']
+    });
+
+    expect(await framework.execute('Help')).toBe('helped');
+    expect(steps.map(step => step.node)).toEqual(['triage', 'support']);
+  });
+
+  it('coerces replies to the type of their state key', async () => {
+    const { runtime } = createRuntime({ scorer: ['Score: 7.5 out of 10'], checker: ['Yes, it passes'] });
+    const framework = await createGraph(runtime, {
+      nodes: [
+        { id: 'score', agent_id: 'scorer', output_key: 'score' },
+        { id: 'check', agent_id: 'checker', output_key: 'passed' }
+      ],
+      state: { score: { type: 'number' }, passed: { type: 'boolean', default: false } }
+    });
+
+    await framework.execute('Grade this');
+
+    expect(framework.getLastState()?.values).toEqual({ score: 7.5, passed: true });
+  });
+
+  it('fails when no route matches and there is no default', async () => {
+    const { runtime } = createRuntime({ writer: ['draft'], reviewer: ['maybe'] });
+    const framework = await createGraph(runtime, REVIEW_LOOP);
+
+    await expect(framework.execute('Write')).rejects.toThrow('No route from node "review" matches "maybe"');
+  });
+
+  it('stops a loop at the recursion limit', async () => {
+    const { runtime } = createRuntime({ writer: ['1', '2', '3'], reviewer: ['revise', 'revise', 'revise'] });
+    const framework = await createGraph(runtime, { ...REVIEW_LOOP, recursion_limit: 3 });
+
+    await expect(framework.execute('Write')).rejects.toThrow(GraphRecursionError);
+  });
+
+  it('continues an interrupted run at the checkpointed node', async () => {
+    const { runtime, checkpoints } = createRuntime({ a: ['from a'], b: ['from b'] });
+    const framework = await createGraph(runtime);
+    await framework.execute('start');
+
+    const { runtime: resumed, steps } = createRuntime({ a: [], b: ['from b again'] });
+    const resumedFramework = await createGraph(resumed);
+
+    expect(await resumedFramework.resume('start', checkpoints[0])).toBe('from b again');
+    expect(steps.map(step => step.node)).toEqual(['b']);
+  });
+
+  it('shows nodes the earlier messages of the conversation but starts each message with fresh state', async () => {
+    const { runtime, requests } = createRuntime({ scorer: ['5', '7'] });
+    const framework = await createGraph(runtime, {
+      nodes: [{ id: 'score', agent_id: 'scorer', output_key: 'score' }],
+      state: { score: { type: 'number' }, notes: { type: 'string', default: 'none' } }
+    });
+
+    await framework.execute('Grade the first essay');
+    await framework.execute('Grade the second essay');
+
+    expect(requests.scorer[1]).toEqual([
+      { role: 'user', content: 'Grade the first essay' },
+      { role: 'assistant', content: '5' },
+      { role: 'user', content: 'Grade the second essay' }
+    ]);
+    expect(framework.getLastState()).toEqual({
+      values: { score: 7, notes: 'none' },
+      messages: [{ role: 'user', content: 'Grade the second essay' }, { role: 'assistant', name: 'scorer', content: '7' }],
+      step: 1
+    });
+  });
+
+  it('continues the conversation of a resumed session', async () => {
+    const { runtime, requests } = createRuntime({ a: ['from a'] });
+    const framework = await createGraph(runtime);
+
+    framework.restore([{ role: 'user', content: 'Earlier' }, { role: 'assistant', content: 'Answer' }]);
+    await framework.execute('Now');
+
+    expect(requests.a[0]).toEqual([
+      { role: 'user', content: 'Earlier' },
+      { role: 'user', content: 'Swarm: Answer' },
+      { role: 'user', content: 'Now' }
+    ]);
+  });
+
+  it('refuses an invalid graph', async () => {
+    const { runtime } = createRuntime({ a: [] });
+
+    await expect(createGraph(runtime, { edges: [{ from: 'a', to: 'b' }] }))
+      .rejects.toThrow('Invalid state graph:\n  $.orchestration.config.edges[0].to: Unknown graph node "b"');
+  });
+});
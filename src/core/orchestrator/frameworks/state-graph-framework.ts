@@ -0,0 +1,337 @@
+import { z } from 'zod';
+import {
+  StateGraphConfig,
+  StateGraphNode,
+  StateGraphChannel,
+  StateGraphRoute,
+  GRAPH_END,
+  ResolvedStateGraph,
+  resolveStateGraph,
+  findGraphIssues
+} from '../../models';
+import { ChatMessage } from '../../providers';
+import { Framework } from '../framework-registry';
+import { AgentRuntime } from '../agent-runtime';
+import { SwarmEvent, RuntimeAgent, GraphState, GraphStepEvent } from '../index';
+import { TranscriptEntry, renderTranscript, restoreTranscript } from './transcript';
+
+/**
+ * zod schema for StateGraphConfig
+ *
+ * References between nodes are checked by findGraphIssues.
+ */
+export const StateGraphConfigSchema = z.object({
+  nodes: z.array(z.object({
+    id: z.string().min(1),
+    agent_id: z.string().min(1),
+    output_key: z.string().min(1).optional()
+  })).optional(),
+  edges: z.array(z.object({
+    from: z.string().min(1),
+    to: z.string().min(1)
+  })).optional(),
+  conditional_edges: z.array(z.object({
+    from: z.string().min(1),
+    key: z.string().min(1).optional(),
+    routes: z.array(z.object({
+      equals: z.union([z.string(), z.number(), z.boolean()]).optional(),
+      contains: z.string().optional(),
+      matches: z.string().optional(),
+      to: z.string().min(1)
+    })),
+    default: z.string().min(1).optional()
+  })).optional(),
+  entry_point: z.string().min(1).optional(),
+  finish_points: z.array(z.string().min(1)).optional(),
+  state: z.record(z.object({
+    type: z.enum(['string', 'number', 'boolean', 'json']),
+    default: z.any().optional()
+  })).optional(),
+  recursion_limit: z.number().int().positive().optional()
+}).passthrough();
+
+/**
+ * Progress of a graph run, checkpointed after each step
+ */
+interface GraphSnapshot {
+  state: GraphState;
+  transcript: TranscriptEntry[];
+  current: string;           // Node to run next
+  answer: string;            // Latest reply
+}
+
+/**
+ * Thrown when a graph run exceeds its recursion limit
+ */
+export class GraphRecursionError extends Error {
+  limit: number;
+
+  constructor(limit: number) {
+    super(`The graph did not reach END within its recursion limit of ${limit} steps.`);
+    this.name = 'GraphRecursionError';
+    this.limit = limit;
+  }
+}
+
+/**
+ * LangGraph-style state graph executor
+ *
+ * A message starts a run at the entry point. Each step runs one node's
+ * agent on the shared transcript, writes its reply to the node's state key
+ * and follows the node's edge, conditional edge or finish point. The run
+ * ends at END, and the last reply is the response. Nodes see the whole
+ * conversation, including earlier messages and their responses, while the
+ * state starts afresh for every message. The run is checkpointed after
+ * every step, so an interrupted run continues at the next node. A message
+ * joins the conversation only once the run reaches END, so a failed or
+ * cancelled message can be sent again.
+ */
+export class StateGraphFramework implements Framework {
+  private runtime: AgentRuntime;
+  private config: StateGraphConfig;
+  private graph: ResolvedStateGraph | null;
+  private nodes: Map<string, StateGraphNode>;
+  private lastState: GraphState | null;
+  private transcript: TranscriptEntry[];
+
+  constructor(runtime: AgentRuntime, config?: StateGraphConfig) {
+    this.runtime = runtime;
+    this.config = config || {};
+    this.graph = null;
+    this.nodes = new Map();
+    this.lastState = null;
+    this.transcript = [];
+  }
+
+  /**
+   * Resolve the graph and reject it if it is not runnable
+   */
+  async initialize(agents: Map<string, RuntimeAgent>): Promise<void> {
+    const agentIds = Array.from(agents.keys());
+    const issues = findGraphIssues(this.config, agentIds);
+
+    if (issues.length > 0) {
+      throw new Error(`Invalid state graph:\n${issues.map(issue => `  ${issue.path}: ${issue.message}`).join('\n')}`);
+    }
+
+    this.graph = resolveStateGraph(this.config, agentIds);
+    this.nodes = new Map(this.graph.nodes.map(node => [node.id, node]));
+    this.lastState = null;
+    this.transcript = [];
+  }
+
+  /**
+   * Add a user message to the conversation and run the graph from the entry point to END
+   */
+  async execute(message: string): Promise<string> {
+    const graph = this.getGraph();
+
+    const state: GraphState = {
+      values: getInitialValues(graph.state),
+      messages: [{ role: 'user', content: message }],
+      step: 0
+    };
+
+    return this.run(graph, {
+      state,
+      transcript: [...this.transcript, { agentId: null, message: state.messages[0] }],
+      current: graph.entry_point,
+      answer: ''
+    });
+  }
+
+  /**
+   * Continue an interrupted run at the node after its last completed step
+   */
+  async resume(message: string, snapshot: GraphSnapshot): Promise<string> {
+    return this.run(this.getGraph(), snapshot);
+  }
+
+  /**
+   * Continue the conversation of a resumed session
+   */
+  restore(messages: ChatMessage[]): void {
+    this.transcript = restoreTranscript(messages);
+  }
+
+  /**
+   * Get the state of the most recent run
+   */
+  getLastState(): GraphState | null {
+    return this.lastState;
+  }
+
+  /**
+   * Forget the last run and the conversation
+   */
+  async cleanup(): Promise<void> {
+    this.lastState = null;
+    this.transcript = [];
+  }
+
+  /**
+   * Get the resolved graph
+   */
+  private getGraph(): ResolvedStateGraph {
+    if (!this.graph) {
+      throw new Error('State graph is not initialized');
+    }
+
+    return this.graph;
+  }
+
+  /**
+   * Run nodes from the snapshot's current node until END, then keep its transcript for the next message
+   */
+  private async run(graph: ResolvedStateGraph, snapshot: GraphSnapshot): Promise<string> {
+    const { state, transcript } = snapshot;
+    this.lastState = state;
+
+    let current = snapshot.current;
+    let answer = snapshot.answer;
+
+    while (current !== GRAPH_END) {
+      if (state.step >= graph.recursion_limit) {
+        throw new GraphRecursionError(graph.recursion_limit);
+      }
+      state.step++;
+
+      const node = this.nodes.get(current)!;
+      const agent = this.runtime.getAgent(node.agent_id);
+      const result = await this.runtime.run(agent.id, renderTranscript(transcript, agent.id));
+
+      const reply = { role: 'assistant' as const, name: agent.name, content: result.content };
+      state.messages.push(reply);
+      transcript.push({ agentId: agent.id, message: reply });
+      answer = result.content;
+
+      if (node.output_key) {
+        state.values[node.output_key] = coerceValue(node.output_key, graph.state[node.output_key], result.content);
+      }
+
+      const next = this.getNextNode(graph, node.id, state);
+
+      const event: GraphStepEvent = {
+        step: state.step,
+        node: node.id,
+        agentId: agent.id,
+        next,
+        values: { ...state.values }
+      };
+      this.runtime.emit(SwarmEvent.GRAPH_STEP, event);
+
+      current = next;
+      if (current !== GRAPH_END) {
+        const checkpoint: GraphSnapshot = { state, transcript, current, answer };
+        await this.runtime.checkpoint(checkpoint);
+      }
+    }
+
+    this.transcript = transcript;
+    return answer;
+  }
+
+  /**
+   * Follow the outgoing transition of a node
+   */
+  private getNextNode(graph: ResolvedStateGraph, nodeId: string, state: GraphState): string {
+    if (graph.finish_points.includes(nodeId)) {
+      return GRAPH_END;
+    }
+
+    const edge = graph.edges.find(candidate => candidate.from === nodeId);
+    if (edge) {
+      return edge.to;
+    }
+
+    const conditional = graph.conditional_edges.find(candidate => candidate.from === nodeId)!;
+    const value = conditional.key
+      ? state.values[conditional.key]
+      : state.messages[state.messages.length - 1].content;
+
+    const route = conditional.routes.find(candidate => matchesRoute(candidate, value));
+    if (route) {
+      return route.to;
+    }
+
+    if (conditional.default === undefined) {
+      throw new Error(`No route from node "${nodeId}" matches ${JSON.stringify(value)}`);
+    }
+
+    return conditional.default;
+  }
+}
+
+/**
+ * Build the initial state values from the declared defaults
+ */
+function getInitialValues(channels: Record<string, StateGraphChannel>): Record<string, any> {
+  const values: Record<string, any> = {};
+
+  for (const [key, channel] of Object.entries(channels)) {
+    values[key] = channel.default ?? null;
+  }
+
+  return values;
+}
+
+/**
+ * Convert an agent's reply to the type of the state key it is written to
+ */
+function coerceValue(key: string, channel: StateGraphChannel | undefined, reply: string): any {
+  const text = reply.trim();
+
+  switch (channel?.type) {
+    case 'number': {
+      const match = text.match(/-?\d+(\.\d+)?/);
+      if (!match) {
+        throw new Error(`State key "${key}" expects a number, got: ${text}`);
+      }
+      return parseFloat(match[0]);
+    }
+
+    case 'boolean':
+      if (/^(true|yes)\b/i.test(text)) return true;
+      if (/^(false|no)\b/i.test(text)) return false;
+      throw new Error(`State key "${key}" expects true or false, got: ${text}`);
+
+    case 'json': {
+      // Accept the reply itself or the first JSON object or array in it
+      const candidates = [text, text.match(/[[{][\s\S]*[\]}]/)?.[0]];
+      for (const candidate of candidates) {
+        if (!candidate) continue;
+        try {
+          return JSON.parse(candidate);
+        } catch {
+          // Try the next candidate
+        }
+      }
+      throw new Error(`State key "${key}" expects JSON, got: ${text}`);
+    }
+
+    default:
+      return text;
+  }
+}
+
+/**
+ * Check whether a value satisfies every condition of a route
+ */
+function matchesRoute(route: StateGraphRoute, value: any): boolean {
+  const text = typeof value === 'string' ? value.trim() : JSON.stringify(value ?? null);
+
+  if (route.equals !== undefined) {
+    const equal = typeof value === 'string' ? text === String(route.equals) : value === route.equals;
+    if (!equal) return false;
+  }
+
+  if (route.contains !== undefined && !text.includes(route.contains)) {
+    return false;
+  }
+
+  if (route.matches !== undefined && !new RegExp(route.matches).test(text)) {
+    return false;
+  }
+
+  return true;
+}
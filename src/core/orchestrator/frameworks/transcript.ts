@@ -0,0 +1,48 @@
+import { ChatMessage } from '../../providers';
+
+/**
+ * An entry of a transcript shared by several agents; agentId is null for the user
+ */
+export interface TranscriptEntry {
+  agentId: string | null;
+  message: ChatMessage;
+}
+
+/**
+ * Render a shared transcript from one agent's point of view
+ *
+ * The agent's own turns are assistant messages; everyone else's are user
+ * messages prefixed with the speaker's name, if they have one.
+ */
+export function renderTranscript(transcript: TranscriptEntry[], agentId: string): ChatMessage[] {
+  const messages: ChatMessage[] = transcript.map(entry => {
+    if (entry.agentId === agentId) {
+      return { role: 'assistant', content: entry.message.content };
+    }
+
+    return {
+      role: 'user',
+      content: entry.message.name ? `${entry.message.name}: ${entry.message.content}` : entry.message.content
+    };
+  });
+
+  // Providers expect the conversation to end with a user message
+  if (messages[messages.length - 1]?.role === 'assistant') {
+    messages.push({ role: 'user', content: 'Continue.' });
+  }
+
+  return messages;
+}
+
+/**
+ * Rebuild a shared transcript from a resumed session's messages
+ *
+ * Only the user's messages and the swarm's responses are kept, so earlier
+ * responses are attributed to the swarm rather than to individual agents.
+ */
+export function restoreTranscript(messages: ChatMessage[]): TranscriptEntry[] {
+  return messages.map(message => message.role === 'user'
+    ? { agentId: null, message: { role: 'user', content: message.content } }
+    : { agentId: null, message: { role: 'assistant', name: message.name || 'Swarm', content: message.content } }
+  );
+}
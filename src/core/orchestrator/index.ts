@@ -1,4 +1,8 @@
 // Orchestrator components for Swarm-Builder
+import { Agent } from '../models';
+import { ChatRequest, ChatMessage, ChatResponse, ToolDefinition, StopReason } from '../providers';
+import { MCPToolResult, ApprovalRecord } from '../mcp';
+import { Span } from '../tracing';
 
 export interface SwarmMetrics {
   execution_time: number;
@@ -13,20 +17,420 @@ export interface SwarmMetrics {
     [agentId: string]: number;
     total: number;
   };
+  budget?: BudgetStatus;     // Spend versus the spec's budget, if it has one
+}
+
+/**
+ * A budget window of a service spec
+ */
+export type BudgetWindow = 'per_message' | 'per_session' | 'per_day' | 'per_month';
+
+/**
+ * Spend versus limit in one budget window
+ */
+export interface BudgetWindowStatus {
+  limit: number;             // Limit in USD
+  spent: number;             // Spend in the current window in USD
+  remaining: number;         // Never negative
+}
+
+/**
+ * Spend versus budget of a swarm
+ */
+export interface BudgetStatus {
+  windows: {
+    [window in BudgetWindow]?: BudgetWindowStatus;
+  };
+  downgraded_agents: {       // Agents currently running on a downgrade preset
+    [agentId: string]: string;
+  };
+}
+
+/**
+ * Payload of the BUDGET_WARNING and BUDGET_EXCEEDED events
+ */
+export interface BudgetEvent {
+  window: BudgetWindow;
+  spent: number;
+  limit: number;
+}
+
+/**
+ * Payload of the AGENT_DOWNGRADED event
+ */
+export interface AgentDowngradeEvent {
+  agentId: string;
+  fromPresetId: string;
+  toPresetId: string;
+  window: BudgetWindow;      // Window that is near exhaustion
+}
+
+/**
+ * A single metered LLM or tool call
+ */
+export interface CostRecord {
+  agent_id: string;          // Agent that made the call
+  session_id: string;        // Session the call belongs to
+  turn: number;              // Turn (user message) within the session, starting at 1
+  kind: 'llm' | 'tool';
+  name: string;              // Model name or tool ID
+  input_tokens: number;      // 0 for tool calls
+  output_tokens: number;     // 0 for tool calls
+  cost: number;              // Cost in USD
+  timestamp: number;
+}
+
+/**
+ * A conversation with a swarm, stored so it can be resumed
+ */
+export interface Session {
+  id: string;
+  spec_id: string;
+  spec_revision: number | null; // Stored spec revision the session started on; null for unsaved specs
+  created_at: number;
+  updated_at: number;
+  messages: ChatMessage[];   // User messages and swarm responses
+  transcripts: {             // Messages each agent added, by agent ID
+    [agentId: string]: ChatMessage[];
+  };
+  tool_calls: SessionToolCall[];
+  costs: CostRecord[];
+  approvals?: ApprovalRecord[]; // Decisions on tool calls that needed approval
+  checkpoint?: RunCheckpoint | null; // Progress of a message whose handling did not finish
+}
+
+/**
+ * Progress of a message in flight, saved so an interrupted run can be resumed
+ */
+export interface RunCheckpoint {
+  message: string;           // The user message being handled
+  turn: number;
+  step: number;              // Agent steps completed
+  state: any;                // Framework snapshot after the last completed step; null before the first
+  calls: CheckpointCall[];   // Model and tool calls made since the last completed step
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * A model or tool call recorded in a checkpoint
+ *
+ * A side-effecting tool call is recorded before it runs; if neither result
+ * nor error is set, the run was interrupted while the tool was running.
+ */
+export interface CheckpointCall {
+  kind: 'llm' | 'tool';
+  agent_id: string;
+  response?: ChatResponse;   // Model response (llm)
+  tool_id?: string;          // Tool calls only
+  params?: any;
+  side_effects?: boolean;
+  result?: MCPToolResult;
+  error?: string;
+}
+
+/**
+ * An MCP tool call made during a session
+ */
+export interface SessionToolCall {
+  agent_id: string;
+  tool_id: string;
+  params: any;
+  result?: any;              // Data returned by the tool
+  error?: string;            // Set if the call failed
+  cost?: number;             // Cost reported by the server, in USD
+  turn: number;
+  timestamp: number;
+}
+
+/**
+ * Overview of a stored session
+ */
+export interface SessionSummary {
+  id: string;
+  spec_id: string;
+  spec_revision: number | null;
+  created_at: number;
+  updated_at: number;
+  message_count: number;
+  cost: number;              // Total cost in USD
+}
+
+/**
+ * Aggregated usage of a set of calls
+ */
+export interface CostTotals {
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  cost: number;              // Cost in USD
+  llm_calls: number;
+  tool_calls: number;
+}
+
+/**
+ * Selects the calls to aggregate; omitted fields match everything
+ */
+export interface CostFilter {
+  agent_id?: string;
+  session_id?: string;
+  turn?: number;
+}
+
+/**
+ * An LLM call made on behalf of an agent
+ *
+ * The model and any omitted sampling parameters come from the agent's preset.
+ */
+export type AgentChatRequest = Omit<ChatRequest, 'model' | 'max_tokens'> & {
+  max_tokens?: number;
+};
+
+/**
+ * Pre-call estimate of an LLM call
+ */
+export interface CostEstimate {
+  input_tokens: number;      // Estimated prompt tokens
+  output_tokens: number;     // Worst case: the request's max_tokens
+  cost: number;              // Upper bound in USD
+}
+
+/**
+ * Payload of the COST_LIMIT_WARNING and COST_LIMIT_EXCEEDED events
+ */
+export interface CostLimitEvent {
+  agentId: string;
+  spent: number;             // Session spend of the agent in USD
+  limit: number;             // The agent's max_cost
+}
+
+/**
+ * An MCP tool as offered to an agent's model
+ */
+export interface RuntimeTool {
+  tool_id: string;           // MCP tool ID (server:tool)
+  definition: ToolDefinition; // Name, description and schema shown to the model
+  side_effects: boolean;     // Declared by the server; such calls are never repeated when resuming a run
+}
+
+/**
+ * An agent ready to run in the native runtime
+ */
+export interface RuntimeAgent {
+  id: string;
+  name: string;
+  role: string;
+  system_prompt: string;     // System prompt of every model call
+  tools: RuntimeTool[];      // Tools the model may call
+  definition: Agent;         // Agent as defined in the spec
+  implementation: any;       // Framework-specific object built by the adapter
+}
+
+/**
+ * Options for a single agent run
+ */
+export interface AgentRunOptions {
+  system?: string;           // Replaces the agent's system prompt
+  maxTurns?: number;         // Max model calls before giving up (default: the runtime's limit)
+}
+
+/**
+ * Outcome of a single agent run
+ */
+export interface AgentRunResult {
+  agent_id: string;
+  content: string;           // Final answer of the agent
+  messages: ChatMessage[];   // Messages the run added to the conversation
+  turns: number;             // Number of model calls made
+  stop_reason: StopReason | 'max_turns';
+}
+
+/**
+ * Payload of the AGENT_MESSAGE event
+ */
+export interface AgentMessageEvent {
+  agentId: string;
+  message: ChatMessage;
+}
+
+/**
+ * Picks the next speaker of a group chat; return null to end the chat
+ */
+export type SpeakerSelector = (candidates: RuntimeAgent[], transcript: ChatMessage[]) => Promise<string | null>;
+
+/**
+ * Payload of the SPEAKER_SELECTED event
+ */
+export interface SpeakerSelectedEvent {
+  round: number;             // Round within the current message, starting at 1
+  agentId: string;
+  method: 'round_robin' | 'manual' | 'auto';
+}
+
+/**
+ * Outcome of one task of a crew run
+ */
+export interface CrewTaskResult {
+  index: number;             // Position in `tasks`, starting at 0
+  task_id?: string;
+  description: string;
+  agent_id: string | null;   // Agent that produced the output, null if none could
+  output: string | null;     // null if the task failed
+  error?: string;
+  revisions: number;         // Reworks requested by the manager (hierarchical process)
+}
+
+/**
+ * Final report of a crew run, emitted as CREW_REPORT
+ */
+export interface CrewReport {
+  process: 'sequential' | 'hierarchical';
+  tasks: CrewTaskResult[];
+  final_output: string;      // Output of the last task that succeeded
+}
+
+/**
+ * Payload of the TASK_START event
+ */
+export interface CrewTaskEvent {
+  index: number;
+  taskId?: string;
+  agentId: string;
+}
+
+/**
+ * Shared state of a state graph run
+ */
+export interface GraphState<V extends Record<string, any> = Record<string, any>> {
+  values: V;                 // Typed state keys written by nodes
+  messages: ChatMessage[];   // The user's message and every node's reply
+  step: number;              // Node executions so far
+}
+
+/**
+ * Payload of the GRAPH_STEP event
+ */
+export interface GraphStepEvent {
+  step: number;              // Starting at 1
+  node: string;
+  agentId: string;
+  next: string;              // Node chosen next, or "END"
+  values: Record<string, any>;
+}
+
+/**
+ * Payload of the ROUTE_SELECTED event
+ */
+export interface RouteDecisionEvent {
+  agentId: string;
+  method: 'pattern' | 'keyword' | 'classifier' | 'default';
+  reason: string;            // Why this agent was chosen
+  route?: number;            // Index of the matching route
+  confidence?: number;       // Classifier confidence, 0 to 1
+}
+
+/**
+ * Options for handling one user message
+ */
+export interface SendMessageOptions {
+  signal?: AbortSignal;      // Cancels the message when aborted
+  timeout?: number;          // Time limit in ms (default: the orchestrator's messageTimeout)
+}
+
+/**
+ * Options for a single model or tool call
+ */
+export interface CallOptions {
+  signal?: AbortSignal;      // Cancels the call; calls made through the agent runtime carry their message's signal
+  span?: Span;               // Span to trace the call under (default: the message's)
+}
+
+/**
+ * Why a message was cancelled
+ */
+export type CancelReason = 'aborted' | 'message_timeout' | 'step_timeout';
+
+/**
+ * Payload of the MESSAGE_CANCELLED event
+ */
+export interface MessageCancelledEvent {
+  reason: CancelReason;
+  message: string;           // The user message that was cancelled
+  turn: number;
+  agentId?: string;          // Agent whose step timed out (step_timeout)
+}
+
+/**
+ * Payload of the APPROVAL_REQUESTED event
+ */
+export interface ApprovalRequestedEvent {
+  sessionId: string;
+  agentId: string;
+  toolId: string;
+  params: any;
+}
+
+/**
+ * Options for opening a session on a running orchestrator
+ */
+export interface OpenSessionOptions {
+  sessionId?: string;              // Stored session to resume (default: start a new one)
+  selectSpeaker?: SpeakerSelector; // Default: the orchestrator's selectSpeaker
+  signal?: AbortSignal;            // Stops waiting for a free session slot when aborted
+}
+
+/**
+ * Payload of the SESSION_OPENED and SESSION_CLOSED events
+ */
+export interface SessionEvent {
+  sessionId: string;
+}
+
+/**
+ * Payload of the SESSION_QUEUED event
+ */
+export interface SessionQueuedEvent {
+  position: number;          // Sessions waiting ahead of this one, plus one
+  open: number;              // Sessions open
+  limit: number;             // maxConcurrentSessions
 }
 
 export enum SwarmEvent {
   START = 'start',
   STOP = 'stop',
   MESSAGE = 'message',
+  MESSAGE_CANCELLED = 'message:cancelled',
+  SESSION_OPENED = 'session:opened',
+  SESSION_CLOSED = 'session:closed',
+  SESSION_QUEUED = 'session:queued',
   AGENT_START = 'agent:start',
   AGENT_STOP = 'agent:stop',
   AGENT_MESSAGE = 'agent:message',
   AGENT_ERROR = 'agent:error',
+  SPEAKER_SELECTED = 'groupchat:speaker_selected',
+  TASK_START = 'crew:task_start',
+  TASK_COMPLETE = 'crew:task_complete',
+  CREW_REPORT = 'crew:report',
+  GRAPH_STEP = 'graph:step',
+  ROUTE_SELECTED = 'router:route_selected',
+  COST_LIMIT_WARNING = 'cost:limit_warning',
   COST_LIMIT_EXCEEDED = 'cost:limit_exceeded',
+  BUDGET_WARNING = 'budget:warning',
+  BUDGET_EXCEEDED = 'budget:exceeded',
+  AGENT_DOWNGRADED = 'agent:downgraded',
+  REPLAY_MISMATCH = 'replay:mismatch',
+  APPROVAL_REQUESTED = 'approval:requested',
+  APPROVAL_DECIDED = 'approval:decided',
   ERROR = 'error'
 }
 
 // Re-export components
 export { SwarmOrchestrator } from './swarm-orchestrator';
+export { SwarmSession, SwarmSessionHost } from './swarm-session';
+export { FrameworkRegistry, FrameworkPlugin, Framework, FrameworkOptions } from './framework-registry';
 export { FrameworkFactory } from './framework-factory';
+export { AgentRuntime, AgentRuntimeHost } from './agent-runtime';
+export { CostTracker, CostLimitExceededError } from './cost-tracker';
+export { BudgetManager, BudgetExceededError } from './budget-manager';
+export { SessionManager, SessionManagerOptions } from './session-manager';
+export { MessageCancelledError } from './cancellation';
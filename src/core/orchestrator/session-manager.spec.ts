@@ -0,0 +1,75 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SessionManager } from './session-manager';
+
+describe('SessionManager', () => {
+  let dataDir: string;
+  let manager: SessionManager;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-manager-'));
+    manager = new SessionManager({ dataDir });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('creates empty sessions without storing them', async () => {
+    const session = manager.createSession('support', 3);
+
+    expect(session).toMatchObject({ spec_id: 'support', spec_revision: 3, messages: [], costs: [], approvals: [] });
+    expect(manager.createSession('support', 3).id).not.toBe(session.id);
+    expect(await manager.getSession(session.id)).toBeNull();
+  });
+
+  it('stores a session and stamps its update time', async () => {
+    const session = manager.createSession('support', null);
+    session.updated_at = 0;
+    session.messages.push({ role: 'user', content: 'Hello' });
+
+    await manager.saveSession(session);
+
+    expect(session.updated_at).toBeGreaterThan(0);
+    expect(await manager.getSession(session.id)).toEqual(session);
+    expect(fs.readdirSync(path.join(dataDir, 'sessions'))).toEqual([`${session.id}.json`]);
+  });
+
+  it('lists summaries, most recently updated first, optionally for one spec', async () => {
+    const first = manager.createSession('support', 1);
+    first.messages.push({ role: 'user', content: 'Hi' }, { role: 'assistant', content: 'Hello' });
+    first.costs.push(
+      { agent_id: 'a', session_id: first.id, turn: 1, kind: 'llm', name: 'm', input_tokens: 1, output_tokens: 1, cost: 0.25, timestamp: 1 },
+      { agent_id: 'a', session_id: first.id, turn: 1, kind: 'tool', name: 't', input_tokens: 0, output_tokens: 0, cost: 0.5, timestamp: 2 }
+    );
+    await manager.saveSession(first);
+    const second = manager.createSession('sales', null);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await manager.saveSession(second);
+
+    expect((await manager.listSessions()).map(summary => summary.id)).toEqual([second.id, first.id]);
+    expect(await manager.listSessions('support')).toEqual([{
+      id: first.id,
+      spec_id: 'support',
+      spec_revision: 1,
+      created_at: first.created_at,
+      updated_at: first.updated_at,
+      message_count: 2,
+      cost: 0.75
+    }]);
+  });
+
+  it('deletes sessions and reports ones that did not exist', async () => {
+    const session = manager.createSession('support', null);
+    await manager.saveSession(session);
+
+    expect(await manager.deleteSession(session.id)).toBe(true);
+    expect(await manager.deleteSession(session.id)).toBe(false);
+    expect(await manager.listSessions()).toEqual([]);
+  });
+
+  it('rejects unsafe IDs', async () => {
+    await expect(manager.getSession('../spec')).rejects.toThrow('Invalid session ID: ../spec');
+  });
+});
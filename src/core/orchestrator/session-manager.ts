@@ -0,0 +1,114 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { getDataDir, readJsonFile, writeJsonFile, listDir, assertSafeId } from '../storage';
+import { Session, SessionSummary } from './index';
+
+export interface SessionManagerOptions {
+  dataDir?: string;               // Root data directory (default: ~/.swarm-builder)
+}
+
+/**
+ * File-backed store for conversation sessions
+ *
+ * Each session is one file, rewritten after every message:
+ *
+ *   <dataDir>/sessions/<session-id>.json
+ */
+export class SessionManager {
+  private sessionsDir: string;
+
+  constructor(options?: SessionManagerOptions) {
+    this.sessionsDir = path.join(options?.dataDir || getDataDir(), 'sessions');
+  }
+
+  /**
+   * Create a new, unsaved session for a spec
+   */
+  createSession(specId: string, specRevision: number | null): Session {
+    const now = Date.now();
+
+    return {
+      id: randomUUID(),
+      spec_id: specId,
+      spec_revision: specRevision,
+      created_at: now,
+      updated_at: now,
+      messages: [],
+      transcripts: {},
+      tool_calls: [],
+      costs: [],
+      approvals: []
+    };
+  }
+
+  /**
+   * Store a session, stamping its update time
+   */
+  async saveSession(session: Session): Promise<void> {
+    assertSafeId(session.id, 'session');
+
+    session.updated_at = Date.now();
+    await writeJsonFile(this.getSessionPath(session.id), session);
+  }
+
+  /**
+   * Get a session by ID
+   */
+  async getSession(id: string): Promise<Session | null> {
+    assertSafeId(id, 'session');
+    return readJsonFile<Session>(this.getSessionPath(id));
+  }
+
+  /**
+   * List stored sessions, most recently updated first
+   */
+  async listSessions(specId?: string): Promise<SessionSummary[]> {
+    const summaries: SessionSummary[] = [];
+
+    for (const file of await listDir(this.sessionsDir)) {
+      if (!file.endsWith('.json')) continue;
+
+      const session = await readJsonFile<Session>(path.join(this.sessionsDir, file));
+      if (!session || (specId && session.spec_id !== specId)) continue;
+
+      summaries.push({
+        id: session.id,
+        spec_id: session.spec_id,
+        spec_revision: session.spec_revision,
+        created_at: session.created_at,
+        updated_at: session.updated_at,
+        message_count: session.messages.length,
+        cost: session.costs.reduce((total, record) => total + record.cost, 0)
+      });
+    }
+
+    return summaries.sort((a, b) => b.updated_at - a.updated_at);
+  }
+
+  /**
+   * Delete a session
+   *
+   * Returns false if it did not exist.
+   */
+  async deleteSession(id: string): Promise<boolean> {
+    assertSafeId(id, 'session');
+
+    try {
+      await fs.promises.unlink(this.getSessionPath(id));
+      return true;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the file path of a session
+   */
+  private getSessionPath(id: string): string {
+    return path.join(this.sessionsDir, `${id}.json`);
+  }
+}
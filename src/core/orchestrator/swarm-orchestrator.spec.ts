@@ -0,0 +1,278 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Agent, ServiceSpec } from '../models';
+import { MockRule } from '../providers/mock-client';
+import { ApprovalRequest } from '../mcp';
+import { MCPApprovalManager } from '../mcp/mcp-approval-manager';
+import { MCPServerRegistry } from '../mcp/mcp-server-registry';
+import { AutoGenAdapter } from '../../adapters/autogen-adapter';
+import { FrameworkRegistry } from './framework-registry';
+import { CostLimitExceededError } from './cost-tracker';
+import { MessageCancelledError } from './cancellation';
+import { SwarmOrchestrator } from './swarm-orchestrator';
+import { CostLimitEvent, RuntimeAgent, SessionQueuedEvent, SwarmEvent } from './index';
+
+/**
+ * Build a spec whose agents run on the mock preset "scripted"
+ */
+function createSpec(agents: Array<Partial<Agent> & { id: string }>, type: string = 'crewai'): ServiceSpec {
+  return {
+    id: 'support',
+    name: 'Support',
+    agents: agents.map(agent => ({ name: agent.id, role: 'helper', tools: [], model_preset_id: 'scripted', ...agent })),
+    orchestration: { type, config: {} },
+    created_at: 1,
+    updated_at: 1
+  };
+}
+
+/**
+ * Store a mock preset with the given rules and a price of $0.10 per token
+ */
+function writePreset(dataDir: string, rules: MockRule[]): void {
+  fs.writeFileSync(path.join(dataDir, 'presets.json'), JSON.stringify({
+    presets: [{
+      id: 'scripted',
+      extends: 'mock',
+      provider_options: { rules },
+      pricing: { input_per_million: 100_000, output_per_million: 100_000 }
+    }]
+  }));
+}
+
+/**
+ * Register a framework, "tooling", that answers each message by calling the
+ * first tool the adapter converted for the first agent with the message
+ */
+function createToolingRegistry(): FrameworkRegistry {
+  const registry = new FrameworkRegistry();
+
+  registry.registerFramework({
+    type: 'tooling',
+    createAdapter: (mcpClient, executeTool) => new AutoGenAdapter(mcpClient, executeTool),
+    createFramework: () => {
+      let agent: RuntimeAgent | undefined;
+
+      return {
+        initialize: async agents => {
+          agent = Array.from(agents.values())[0];
+        },
+        execute: async message => JSON.stringify(await agent?.implementation.tools[0].function({ message })),
+        cleanup: async () => undefined
+      };
+    }
+  });
+
+  return registry;
+}
+
+/**
+ * Register an MCP server, "tools", whose placeholder connection offers an echo tool
+ */
+function createServerRegistry(): MCPServerRegistry {
+  const registry = new MCPServerRegistry();
+  registry.registerServer({ id: 'tools', endpoint: 'http://localhost:1', transport: 'http' });
+  return registry;
+}
+
+describe('SwarmOrchestrator', () => {
+  let dataDir: string;
+  let orchestrator: SwarmOrchestrator | null;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'swarm-orchestrator-'));
+    orchestrator = null;
+  });
+
+  afterEach(async () => {
+    await orchestrator?.stop();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  describe('cost limits', () => {
+    it('halts an agent at its max_cost and refuses its further calls', async () => {
+      writePreset(dataDir, [{ reply: 'done' }]);
+      orchestrator = new SwarmOrchestrator(createSpec([{ id: 'writer', max_cost: 0.5 }]), { dataDir });
+      const exceeded: CostLimitEvent[] = [];
+      orchestrator.on(SwarmEvent.COST_LIMIT_EXCEEDED, (event: CostLimitEvent) => exceeded.push(event));
+      await orchestrator.start();
+
+      expect(await orchestrator.sendMessage('hello')).toBe('done');
+
+      expect(exceeded).toEqual([{ agentId: 'writer', spent: expect.any(Number), limit: 0.5 }]);
+      expect(exceeded[0].spent).toBeGreaterThanOrEqual(0.5);
+      expect(orchestrator.isAgentHalted('writer')).toBe(true);
+
+      const call = orchestrator.callModel('writer', { messages: [{ role: 'user', content: 'again' }] });
+      await expect(call).rejects.toThrow(CostLimitExceededError);
+      await expect(call).rejects.toThrow('Agent "writer" reached its cost limit of $0.50');
+
+      expect(await orchestrator.sendMessage('more'))
+        .toBe('Every agent in this swarm has reached its cost limit, so no further work can be done in this session.');
+      expect(exceeded).toHaveLength(1);
+    });
+
+    it('warns once an agent passes its warning threshold', async () => {
+      writePreset(dataDir, [{ reply: 'done' }]);
+      orchestrator = new SwarmOrchestrator(createSpec([{ id: 'writer', max_cost: 1000, cost_warning_threshold: 0.001 }]), { dataDir });
+      const warnings: CostLimitEvent[] = [];
+      orchestrator.on(SwarmEvent.COST_LIMIT_WARNING, (event: CostLimitEvent) => warnings.push(event));
+      await orchestrator.start();
+
+      await orchestrator.sendMessage('hello');
+      await orchestrator.sendMessage('again');
+
+      expect(warnings.map(event => [event.agentId, event.limit])).toEqual([['writer', 1000]]);
+      expect(orchestrator.isAgentHalted('writer')).toBe(false);
+    });
+  });
+
+  describe('sessions', () => {
+    it('handles the messages of open sessions side by side, each in its own conversation', async () => {
+      writePreset(dataDir, [{ message: 'slow', delay_ms: 5000, reply: 'Too late' }, { reply: 'done' }]);
+      orchestrator = new SwarmOrchestrator(createSpec([{ id: 'writer' }], 'langchain'), { dataDir, defaultSession: false });
+      await orchestrator.start();
+      const first = await orchestrator.openSession();
+      const second = await orchestrator.openSession();
+
+      const pending = first.sendMessage('slow please');
+      expect(await second.sendMessage('quick')).toBe('done');
+      first.cancelMessage();
+      await expect(pending).rejects.toThrow(MessageCancelledError);
+
+      expect(orchestrator.getOpenSessions()).toEqual([first, second]);
+      expect(first.getSession().messages.map(message => message.content)).toEqual(['slow please']);
+      expect(second.getSession().messages.map(message => message.content)).toEqual(['quick', 'done']);
+      expect(first.getPendingRun()?.message).toBe('slow please');
+      expect(second.getPendingRun()).toBeNull();
+      expect(first.getCostTotals().llm_calls).toBe(0);
+      expect(second.getCostTotals()).toEqual(orchestrator.getCostTotals({ session_id: second.getId() }));
+      expect(second.getMetrics().cost.writer).toBeGreaterThan(0);
+      expect(first.getMetrics().cost.total).toBe(0);
+    });
+
+    it('keeps the cost limits of each session apart', async () => {
+      writePreset(dataDir, [{ reply: 'done' }]);
+      orchestrator = new SwarmOrchestrator(createSpec([{ id: 'writer', max_cost: 0.5 }]), { dataDir, defaultSession: false });
+      await orchestrator.start();
+      const first = await orchestrator.openSession();
+      const second = await orchestrator.openSession();
+
+      await first.sendMessage('hello');
+
+      expect(first.isAgentHalted('writer')).toBe(true);
+      expect(second.isAgentHalted('writer')).toBe(false);
+      expect(await second.sendMessage('hello')).toBe('done');
+    });
+
+    it('queues sessions beyond maxConcurrentSessions until one closes', async () => {
+      writePreset(dataDir, [{ reply: 'done' }]);
+      orchestrator = new SwarmOrchestrator(createSpec([{ id: 'writer' }]), { dataDir, maxConcurrentSessions: 1 });
+      const queued: SessionQueuedEvent[] = [];
+      orchestrator.on(SwarmEvent.SESSION_QUEUED, (event: SessionQueuedEvent) => queued.push(event));
+      await orchestrator.start();
+
+      let opened = false;
+      const waiting = orchestrator.openSession().then(session => {
+        opened = true;
+        return session;
+      });
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      expect(opened).toBe(false);
+      expect(orchestrator.getQueuedSessionCount()).toBe(1);
+      expect(queued).toEqual([{ position: 1, open: 1, limit: 1 }]);
+
+      await orchestrator.getDefaultSession()?.close();
+      const session = await waiting;
+
+      expect(orchestrator.getOpenSessions()).toEqual([session]);
+      expect(orchestrator.getQueuedSessionCount()).toBe(0);
+      await expect(orchestrator.sendMessage('hello')).rejects.toThrow('is closed');
+      expect(await session.sendMessage('hello')).toBe('done');
+    });
+
+    it('stops waiting for a slot when aborted or when the swarm stops', async () => {
+      writePreset(dataDir, [{ reply: 'done' }]);
+      orchestrator = new SwarmOrchestrator(createSpec([{ id: 'writer' }]), { dataDir, maxConcurrentSessions: 1 });
+      await orchestrator.start();
+
+      const controller = new AbortController();
+      const aborted = orchestrator.openSession({ signal: controller.signal });
+      const stopped = orchestrator.openSession();
+      controller.abort(new Error('Gave up'));
+
+      await expect(aborted).rejects.toThrow('Gave up');
+      expect(orchestrator.getQueuedSessionCount()).toBe(1);
+
+      const rejected = expect(stopped).rejects.toThrow('Swarm stopped');
+      await orchestrator.stop();
+      await rejected;
+      expect(() => new SwarmOrchestrator(createSpec([{ id: 'writer' }]), { maxConcurrentSessions: 0 }))
+        .toThrow('maxConcurrentSessions must be a positive integer');
+    });
+  });
+
+  describe('tool calls', () => {
+    /**
+     * Start a "tooling" swarm, without a default session, whose agent may call tools:echo with the given permissions
+     */
+    async function startToolingSwarm(
+      permissions: NonNullable<Agent['mcp']>['permissions'],
+      approvalManager?: MCPApprovalManager
+    ): Promise<SwarmOrchestrator> {
+      writePreset(dataDir, [{ reply: 'done' }]);
+      const spec = createSpec([{ id: 'writer', mcp: { servers: ['tools'], tools: ['tools:echo'], permissions } }], 'tooling');
+
+      orchestrator = new SwarmOrchestrator(spec, {
+        dataDir,
+        serverRegistry: createServerRegistry(),
+        frameworkRegistry: createToolingRegistry(),
+        approvalManager,
+        defaultSession: false
+      });
+      await orchestrator.start();
+
+      return orchestrator;
+    }
+
+    it('runs the tools the adapter converts in the session that calls them', async () => {
+      const swarm = await startToolingSwarm({ 'tools:echo': { maxCallsPerSession: 1 } });
+      const first = await swarm.openSession();
+      const second = await swarm.openSession();
+
+      expect(JSON.parse(await first.sendMessage('hello'))).toEqual({ result: { message: 'hello' } });
+      expect(JSON.parse(await first.sendMessage('again'))).toEqual({
+        error: expect.objectContaining({ code: 'permission_denied', message: expect.stringContaining('Call limit exceeded (1/1)') })
+      });
+      expect(JSON.parse(await second.sendMessage('hello'))).toEqual({ result: { message: 'hello' } });
+
+      expect(first.getCostTotals().tool_calls).toBe(1);
+      expect(second.getCostTotals().tool_calls).toBe(1);
+    });
+
+    it('asks for approval in the session that makes the call', async () => {
+      const requests: ApprovalRequest[] = [];
+      const approvalManager = new MCPApprovalManager({
+        handler: async request => {
+          requests.push(request);
+          return { action: 'deny', reason: 'Not now' };
+        }
+      });
+      const swarm = await startToolingSwarm({ 'tools:echo': { requireApproval: true } }, approvalManager);
+      await swarm.openSession();
+      const session = await swarm.openSession();
+
+      expect(JSON.parse(await session.sendMessage('hello'))).toEqual({
+        error: expect.objectContaining({ code: 'approval_denied', agent_id: 'writer', tool_id: 'tools:echo' })
+      });
+      expect(requests).toEqual([expect.objectContaining({
+        session_id: session.getId(),
+        agent_id: 'writer',
+        tool_id: 'tools:echo',
+        params: { message: 'hello' }
+      })]);
+    });
+  });
+});
@@ -2,43 +2,167 @@ import { EventEmitter } from 'events';
 import { ServiceSpec, Agent, ModelPreset } from '../models';
 import { ServiceSpecManager } from '../models/service-spec-manager';
 import { ModelPresetManager } from '../models/model-preset-manager';
+import { ServiceSpecValidator } from '../models/spec-validator';
 import { MCPClient } from '../mcp/mcp-client';
-import { FrameworkFactory } from './framework-factory';
-import { SwarmEvent, SwarmMetrics } from './';
+import { MCPServerRegistry } from '../mcp/mcp-server-registry';
+import { MCPTool, MCPToolResult } from '../mcp';
+import { MCPApprovalManager } from '../mcp/mcp-approval-manager';
+import { MCPPermissionManager, MCPPermissionOptions } from '../mcp/mcp-permission-manager';
+import { ProviderRegistry } from '../providers/provider-registry';
+import { ChatResponse } from '../providers';
+import { getPresetCapabilities } from '../models/model-catalog';
+import { FrameworkRegistry } from './framework-registry';
+import { CostTracker } from './cost-tracker';
+import { BudgetManager } from './budget-manager';
+import { SessionManager } from './session-manager';
+import { SwarmSession, SwarmSessionHost } from './swarm-session';
+import { throwIfAborted } from './cancellation';
+import { Tracer } from '../tracing';
+import { Cassette, ReplayMismatch } from '../replay';
+import {
+  SwarmEvent,
+  SwarmMetrics,
+  AgentChatRequest,
+  CostTotals,
+  CostFilter,
+  RuntimeAgent,
+  RuntimeTool,
+  SpeakerSelector,
+  Session,
+  SessionEvent,
+  SessionQueuedEvent,
+  OpenSessionOptions,
+  RunCheckpoint,
+  SendMessageOptions,
+  CallOptions
+} from './';
+
+/**
+ * Options for creating a swarm orchestrator
+ */
+export interface SwarmOrchestratorOptions {
+  dataDir?: string;                   // Root data directory (default: ~/.swarm-builder)
+  serverRegistry?: MCPServerRegistry; // Configurations of the MCP servers agents use
+  providerRegistry?: ProviderRegistry; // LLM provider clients (default: the built-in providers)
+  frameworkRegistry?: FrameworkRegistry; // Orchestration types (default: the built-in frameworks)
+  costWarningThreshold?: number;       // Default fraction of max_cost that triggers a warning (default: 0.8)
+  selectSpeaker?: SpeakerSelector;     // Picks speakers when a group chat uses manual selection
+  sessionId?: string;                  // Stored session to resume as the default session (default: start a new one)
+  defaultSession?: boolean;            // Open a default session on start() (default: true)
+  maxConcurrentSessions?: number;      // Sessions open at once; further ones wait (default: no limit)
+  messageTimeout?: number;             // Time limit in ms for handling one message (default: none)
+  stepTimeout?: number;                // Time limit in ms for one agent run within a message (default: none)
+  tracer?: Tracer;                     // Records spans of sessions, messages and calls; shut down by stop() (default: not exported)
+  cassette?: Cassette;                 // Records provider and MCP exchanges, or replays them instead of calling out
+  approvalManager?: MCPApprovalManager; // Decides tool calls that need approval (default: one without a reviewer, denying them)
+  permissionManager?: MCPPermissionManager; // Checks agents' tool calls; loaded with the spec's MCP permissions on start()
+}
+
+/**
+ * A caller of openSession() waiting for a free session slot
+ */
+interface SessionWaiter {
+  resolve(): void;
+  reject(error: Error): void;
+}
+
+const DEFAULT_COST_WARNING_THRESHOLD = 0.8;
 
 export class SwarmOrchestrator extends EventEmitter {
+  private dataDir: string | undefined;
   private serviceSpec: ServiceSpec | null;
   private serviceSpecManager: ServiceSpecManager;
   private modelPresetManager: ModelPresetManager;
+  private serverRegistry: MCPServerRegistry | null;
   private mcpClient: MCPClient;
-  private frameworkFactory: FrameworkFactory;
+  private connectedServers: Set<string>;
+  private providerRegistry: ProviderRegistry;
+  private costTracker: CostTracker;
+  private costWarningThreshold: number;
+  private budgetManager: BudgetManager | null;
+  private frameworkRegistry: FrameworkRegistry;
+  private selectSpeaker: SpeakerSelector | undefined;
+  private sessionManager: SessionManager;
+  private tracer: Tracer;
+  private cassette: Cassette | null;
+  private approvalManager: MCPApprovalManager;
+  private permissionManager: MCPPermissionManager;
+  private resumeSessionId: string | undefined;
+  private openDefaultSession: boolean;
+  private sessionHost: SwarmSessionHost | null;
+  private sessions: Map<string, SwarmSession>;
+  private defaultSession: SwarmSession | null;
+  private maxConcurrentSessions: number;
+  private sessionSlotsInUse: number;
+  private sessionWaiters: SessionWaiter[];
+  private messageTimeout: number | undefined;
+  private stepTimeout: number | undefined;
   private isRunning: boolean;
-  private metrics: SwarmMetrics;
-  private agents: Map<string, any>;
+  private agents: Map<string, Omit<RuntimeAgent, 'implementation'>>;
+  private agentPresets: Map<string, ModelPreset>;
+  private modelPresets: Map<string, ModelPreset>;
   private startTime: number;
+  private stopTime: number;
+  private specLoaded: Promise<void>;
   
-  constructor(serviceSpecId: string) {
+  /**
+   * Create an orchestrator for a stored spec ID, or for a spec object
+   * (for example one loaded from a spec file)
+   */
+  constructor(serviceSpec: string | ServiceSpec, options?: SwarmOrchestratorOptions) {
     super();
     
+    const maxConcurrentSessions = options?.maxConcurrentSessions ?? Infinity;
+    if (maxConcurrentSessions !== Infinity && (!Number.isInteger(maxConcurrentSessions) || maxConcurrentSessions < 1)) {
+      throw new Error('maxConcurrentSessions must be a positive integer');
+    }
+    
+    this.dataDir = options?.dataDir;
     this.serviceSpec = null;
-    this.serviceSpecManager = new ServiceSpecManager();
-    this.modelPresetManager = new ModelPresetManager();
-    this.mcpClient = new MCPClient();
-    this.frameworkFactory = new FrameworkFactory(this.mcpClient);
+    this.serviceSpecManager = new ServiceSpecManager({ dataDir: options?.dataDir });
+    this.modelPresetManager = new ModelPresetManager({ dataDir: options?.dataDir });
+    this.serverRegistry = options?.serverRegistry || null;
+    this.permissionManager = options?.permissionManager || new MCPPermissionManager();
+    this.mcpClient = new MCPClient({ permissionManager: this.permissionManager });
+    this.connectedServers = new Set();
+    this.providerRegistry = options?.providerRegistry || new ProviderRegistry();
+    this.costTracker = new CostTracker();
+    this.costWarningThreshold = options?.costWarningThreshold ?? DEFAULT_COST_WARNING_THRESHOLD;
+    this.budgetManager = null;
+    this.frameworkRegistry = options?.frameworkRegistry || new FrameworkRegistry();
+    this.selectSpeaker = options?.selectSpeaker;
+    this.sessionManager = new SessionManager({ dataDir: options?.dataDir });
+    this.tracer = options?.tracer || new Tracer();
+    this.cassette = options?.cassette || null;
+    this.approvalManager = options?.approvalManager || new MCPApprovalManager();
+    this.resumeSessionId = options?.sessionId;
+    this.openDefaultSession = options?.defaultSession ?? true;
+    this.sessionHost = null;
+    this.sessions = new Map();
+    this.defaultSession = null;
+    this.maxConcurrentSessions = maxConcurrentSessions;
+    this.sessionSlotsInUse = 0;
+    this.sessionWaiters = [];
+    this.messageTimeout = options?.messageTimeout;
+    this.stepTimeout = options?.stepTimeout;
     this.isRunning = false;
     this.agents = new Map();
+    this.agentPresets = new Map();
+    this.modelPresets = new Map();
     this.startTime = 0;
+    this.stopTime = 0;
     
-    this.metrics = {
-      execution_time: 0,
-      tokens_used: {},
-      cost: {
-        total: 0
-      }
-    };
+    this.cassette?.on('mismatch', (mismatch: ReplayMismatch) => this.emit(SwarmEvent.REPLAY_MISMATCH, mismatch));
     
     // Load service specification
-    this.loadServiceSpec(serviceSpecId);
+    if (typeof serviceSpec === 'string') {
+      this.specLoaded = this.loadServiceSpec(serviceSpec);
+      // Errors are emitted by loadServiceSpec and rethrown from start()
+      this.specLoaded.catch(() => undefined);
+    } else {
+      this.serviceSpec = serviceSpec;
+      this.specLoaded = Promise.resolve();
+    }
   }
   
   /**
@@ -60,12 +184,17 @@ export class SwarmOrchestrator extends EventEmitter {
   
   /**
    * Start the swarm
+   *
+   * Connects the MCP servers, loads presets and agents, and opens the
+   * default session unless the `defaultSession` option is false.
    */
   async start(): Promise<void> {
     if (this.isRunning) {
       return; // Already running
     }
     
+    await this.specLoaded;
+    
     if (!this.serviceSpec) {
       throw new Error('Service specification not loaded');
     }
@@ -73,36 +202,69 @@ export class SwarmOrchestrator extends EventEmitter {
     try {
       this.isRunning = true;
       this.startTime = Date.now();
+      this.defaultSession = null;
       this.emit(SwarmEvent.START);
       
-      // Initialize metrics
-      this.metrics = {
-        execution_time: 0,
-        tokens_used: {},
-        cost: {
-          total: 0
-        }
-      };
-      
-      // Load model presets for all agents
-      const modelPresets = await this.loadModelPresets();
+      // Load the recording to replay, or start a new one
+      await this.cassette?.open();
       
       // Connect to MCP servers
       await this.connectMCPServers();
       
-      // Initialize agents
-      await this.initializeAgents(modelPresets);
+      // Validate the spec now that server tools are known
+      const validator = new ServiceSpecValidator({
+        modelPresetManager: this.modelPresetManager,
+        serverRegistry: this.serverRegistry || undefined,
+        mcpClient: this.mcpClient,
+        frameworkRegistry: this.frameworkRegistry
+      });
+      await validator.assertValid(this.serviceSpec);
       
-      // Start the appropriate framework
-      const framework = this.frameworkFactory.createFramework(
-        this.serviceSpec.orchestration.type,
-        this.serviceSpec.orchestration.config
-      );
+      // Load model presets for all agents
+      this.modelPresets = await this.loadModelPresets();
       
-      await framework.initialize(this.agents);
+      // Load spend so far against the spec's budget
+      this.budgetManager = null;
+      if (this.serviceSpec.budget) {
+        this.budgetManager = new BudgetManager(this.serviceSpec.id, this.serviceSpec.budget, { dataDir: this.dataDir });
+        await this.budgetManager.load();
+      }
+      
+      // Initialize agents; each session builds their framework implementations
+      const plugin = this.frameworkRegistry.getFramework(this.serviceSpec.orchestration.type);
+      await this.initializeAgents(this.modelPresets);
+      
+      // Everything sessions share; each runs its own framework on the native runtime
+      this.sessionHost = {
+        spec: this.serviceSpec,
+        agents: this.agents,
+        agentPresets: this.agentPresets,
+        modelPresets: this.modelPresets,
+        plugin,
+        providerRegistry: this.providerRegistry,
+        mcpClient: this.mcpClient,
+        costTracker: this.costTracker,
+        budgetManager: this.budgetManager,
+        sessionManager: this.sessionManager,
+        tracer: this.tracer,
+        cassette: this.cassette,
+        permissionManager: this.permissionManager,
+        approvalManager: this.approvalManager,
+        costWarningThreshold: this.costWarningThreshold,
+        messageTimeout: this.messageTimeout,
+        stepTimeout: this.stepTimeout,
+        emit: (event, ...args) => this.emit(event, ...args),
+        releaseSession: session => this.releaseSession(session)
+      };
+      
+      if (this.openDefaultSession) {
+        this.defaultSession = await this.openSession({ sessionId: this.resumeSessionId });
+      }
       
     } catch (error) {
       this.isRunning = false;
+      this.sessionHost = null;
+      await this.disconnectMCPServers();
       this.emit(SwarmEvent.ERROR, error);
       throw error;
     }
@@ -110,6 +272,9 @@ export class SwarmOrchestrator extends EventEmitter {
   
   /**
    * Stop the swarm
+   *
+   * Closes every open session, cancelling messages in flight, and rejects
+   * calls to openSession() still waiting for a slot.
    */
   async stop(): Promise<void> {
     if (!this.isRunning) {
@@ -117,13 +282,23 @@ export class SwarmOrchestrator extends EventEmitter {
     }
     
     try {
-      // Update metrics
-      this.metrics.execution_time = Date.now() - this.startTime;
+      for (const waiter of this.sessionWaiters.splice(0)) {
+        waiter.reject(new Error('Swarm stopped'));
+      }
+      
+      for (const session of Array.from(this.sessions.values())) {
+        await session.close();
+      }
       
       // Disconnect from MCP servers
-      // TODO: Implement MCP server disconnection
+      await this.disconnectMCPServers();
       
+      await this.tracer.shutdown();
+      await this.cassette?.save();
+      
+      this.sessionHost = null;
       this.isRunning = false;
+      this.stopTime = Date.now();
       this.emit(SwarmEvent.STOP);
       
     } catch (error) {
@@ -133,41 +308,346 @@ export class SwarmOrchestrator extends EventEmitter {
   }
   
   /**
-   * Send a message to the swarm
+   * Open a session on the running swarm, or resume a stored one
+   *
+   * Sessions share the swarm's MCP connections and provider clients but
+   * keep their own conversation, metrics and limits. Once
+   * maxConcurrentSessions sessions are open, further calls wait, in order,
+   * until one closes.
    */
-  async sendMessage(message: string): Promise<string> {
+  async openSession(options?: OpenSessionOptions): Promise<SwarmSession> {
     if (!this.isRunning) {
       throw new Error('Swarm is not running');
     }
     
+    if (options?.sessionId && this.sessions.has(options.sessionId)) {
+      throw new Error(`Session ${options.sessionId} is already open`);
+    }
+    
+    await this.acquireSessionSlot(options?.signal);
+    
+    let session: SwarmSession | null = null;
     try {
-      this.emit(SwarmEvent.MESSAGE, { role: 'user', content: message });
-      
-      // TODO: Implement message handling logic based on the framework
-      
-      // Placeholder response
-      const response = `Response to: ${message}`;
+      if (!this.sessionHost) {
+        throw new Error('Swarm is not running');
+      }
       
-      this.emit(SwarmEvent.MESSAGE, { role: 'assistant', content: response });
+      const stored = await this.loadSession(options?.sessionId);
+      if (this.sessions.has(stored.id)) {
+        throw new Error(`Session ${stored.id} is already open`);
+      }
       
-      return response;
+      session = new SwarmSession(this.sessionHost, stored, {
+        selectSpeaker: options?.selectSpeaker ?? this.selectSpeaker
+      });
+      this.sessions.set(stored.id, session);
+      await session.open();
       
     } catch (error) {
-      this.emit(SwarmEvent.ERROR, error);
+      if (session) {
+        this.sessions.delete(session.getId());
+      }
+      this.releaseSessionSlot();
       throw error;
     }
+    
+    const event: SessionEvent = { sessionId: session.getId() };
+    this.emit(SwarmEvent.SESSION_OPENED, event);
+    
+    return session;
+  }
+  
+  /**
+   * Get an open session by ID
+   */
+  getOpenSession(id: string): SwarmSession | null {
+    return this.sessions.get(id) || null;
+  }
+  
+  /**
+   * List the open sessions
+   */
+  getOpenSessions(): SwarmSession[] {
+    return Array.from(this.sessions.values());
+  }
+  
+  /**
+   * Get the number of openSession() calls waiting for a free slot
+   */
+  getQueuedSessionCount(): number {
+    return this.sessionWaiters.length;
+  }
+  
+  /**
+   * Get the session opened by start(), or null if there is none
+   */
+  getDefaultSession(): SwarmSession | null {
+    return this.defaultSession;
+  }
+  
+  /**
+   * Send a message to the swarm in the default session
+   *
+   * Rejects with a MessageCancelledError if the message is cancelled or
+   * times out; its checkpoint is kept so resumeRun() can finish it.
+   */
+  async sendMessage(message: string, options?: SendMessageOptions): Promise<string> {
+    return this.requireDefaultSession().sendMessage(message, options);
+  }
+  
+  /**
+   * Finish the interrupted message of the default session
+   *
+   * See SwarmSession.resumeRun().
+   */
+  async resumeRun(options?: SendMessageOptions): Promise<string> {
+    return this.requireDefaultSession().resumeRun(options);
+  }
+  
+  /**
+   * Cancel the message being handled in the default session
+   *
+   * Returns false if no message is in flight.
+   */
+  cancelMessage(): boolean {
+    return this.defaultSession?.cancelMessage() || false;
+  }
+  
+  /**
+   * Get the checkpoint of an interrupted message in the default session, if any
+   */
+  getPendingRun(): RunCheckpoint | null {
+    return this.defaultSession?.getPendingRun() || null;
   }
   
   /**
    * Get swarm metrics
+   *
+   * With a default session, these are its metrics. Otherwise they add up
+   * the calls of every session this orchestrator has run.
    */
   getMetrics(): SwarmMetrics {
-    // Update execution time if running
-    if (this.isRunning) {
-      this.metrics.execution_time = Date.now() - this.startTime;
+    if (this.defaultSession) {
+      return this.defaultSession.getMetrics();
+    }
+    
+    const metrics: SwarmMetrics = {
+      execution_time: (this.isRunning ? Date.now() : this.stopTime) - this.startTime,
+      tokens_used: {},
+      cost: {
+        total: 0
+      }
+    };
+    
+    for (const agent of this.serviceSpec?.agents || []) {
+      const totals = this.costTracker.getTotals({ agent_id: agent.id });
+      if (totals.llm_calls + totals.tool_calls === 0) continue;
+      
+      if (totals.llm_calls > 0) {
+        metrics.tokens_used[agent.id] = {
+          input: totals.input_tokens,
+          output: totals.output_tokens,
+          total: totals.total_tokens
+        };
+      }
+      
+      metrics.cost[agent.id] = totals.cost;
+      metrics.cost.total += totals.cost;
+    }
+    
+    if (this.budgetManager) {
+      metrics.budget = this.budgetManager.getStatus();
     }
     
-    return this.metrics;
+    return metrics;
+  }
+  
+  /**
+   * Get usage and cost totals, optionally per agent, session or turn
+   */
+  getCostTotals(filter?: CostFilter): CostTotals {
+    return this.costTracker.getTotals(filter);
+  }
+  
+  /**
+   * Check whether an agent has reached its cost limit in the default session
+   */
+  isAgentHalted(agentId: string): boolean {
+    return this.defaultSession?.isAgentHalted(agentId) || false;
+  }
+  
+  /**
+   * Get the ID of the default session, or an empty string if there is none
+   */
+  getSessionId(): string {
+    return this.defaultSession?.getId() || '';
+  }
+  
+  /**
+   * Get the default session's stored form, or null if there is none
+   */
+  getSession(): Session | null {
+    return this.defaultSession?.getSession() || null;
+  }
+  
+  /**
+   * Get the store of this orchestrator's sessions
+   */
+  getSessionManager(): SessionManager {
+    return this.sessionManager;
+  }
+  
+  /**
+   * Get the manager checking agents' tool calls against their MCP permissions
+   */
+  getPermissionManager(): MCPPermissionManager {
+    return this.permissionManager;
+  }
+  
+  /**
+   * Get the manager deciding tool calls that need approval
+   */
+  getApprovalManager(): MCPApprovalManager {
+    return this.approvalManager;
+  }
+  
+  /**
+   * Get the tracer recording this orchestrator's spans
+   */
+  getTracer(): Tracer {
+    return this.tracer;
+  }
+  
+  /**
+   * Make an LLM call on behalf of an agent in the default session
+   *
+   * See SwarmSession.callModel().
+   */
+  async callModel(agentId: string, request: AgentChatRequest, options?: CallOptions): Promise<ChatResponse> {
+    return this.requireDefaultSession().callModel(agentId, request, options);
+  }
+  
+  /**
+   * Execute an MCP tool on behalf of an agent in the default session
+   *
+   * See SwarmSession.executeTool().
+   */
+  async executeTool(agentId: string, toolId: string, params: any, options?: CallOptions): Promise<MCPToolResult> {
+    return this.requireDefaultSession().executeTool(agentId, toolId, params, options);
+  }
+  
+  /**
+   * Get the default session of the running swarm
+   */
+  private requireDefaultSession(): SwarmSession {
+    if (!this.isRunning) {
+      throw new Error('Swarm is not running');
+    }
+    
+    if (!this.defaultSession) {
+      throw new Error('The swarm has no default session; use openSession()');
+    }
+    
+    return this.defaultSession;
+  }
+  
+  /**
+   * Take a session slot, waiting in line while maxConcurrentSessions are in use
+   */
+  private async acquireSessionSlot(signal?: AbortSignal): Promise<void> {
+    throwIfAborted(signal);
+    
+    if (this.sessionSlotsInUse < this.maxConcurrentSessions) {
+      this.sessionSlotsInUse++;
+      return;
+    }
+    
+    const event: SessionQueuedEvent = {
+      position: this.sessionWaiters.length + 1,
+      open: this.sessions.size,
+      limit: this.maxConcurrentSessions
+    };
+    
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = (): void => {
+        this.sessionWaiters.splice(this.sessionWaiters.indexOf(waiter), 1);
+        waiter.reject(signal!.reason);
+      };
+      
+      // A released slot is handed straight to the waiter, so the count stays the same
+      const waiter: SessionWaiter = {
+        resolve: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      };
+      
+      signal?.addEventListener('abort', onAbort);
+      this.sessionWaiters.push(waiter);
+      this.emit(SwarmEvent.SESSION_QUEUED, event);
+    });
+  }
+  
+  /**
+   * Give a session slot to the next waiter, or free it
+   */
+  private releaseSessionSlot(): void {
+    const next = this.sessionWaiters.shift();
+    if (next) {
+      next.resolve();
+    } else {
+      this.sessionSlotsInUse--;
+    }
+  }
+  
+  /**
+   * Forget a session that has closed and free its slot
+   */
+  private releaseSession(session: SwarmSession): void {
+    if (this.sessions.get(session.getId()) !== session) return;
+    
+    this.sessions.delete(session.getId());
+    this.releaseSessionSlot();
+  }
+  
+  /**
+   * Load a stored session to resume, or create a new one
+   */
+  private async loadSession(sessionId?: string): Promise<Session> {
+    const spec = this.serviceSpec!;
+    
+    if (!sessionId) {
+      return this.sessionManager.createSession(spec.id, await this.getSpecRevision());
+    }
+    
+    const stored = await this.sessionManager.getSession(sessionId);
+    if (!stored) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+    
+    if (stored.spec_id !== spec.id) {
+      throw new Error(`Session ${stored.id} belongs to service specification ${stored.spec_id}, not ${spec.id}`);
+    }
+    
+    return stored;
+  }
+  
+  /**
+   * Get the stored revision the running spec corresponds to, or null if it is not stored
+   */
+  private async getSpecRevision(): Promise<number | null> {
+    const spec = this.serviceSpec!;
+    
+    const current = await this.serviceSpecManager.getCurrentRevision(spec.id);
+    if (!current || current.spec.updated_at !== spec.updated_at) {
+      return null;
+    }
+    
+    return current.revision;
   }
   
   /**
@@ -178,11 +658,14 @@ export class SwarmOrchestrator extends EventEmitter {
     
     if (!this.serviceSpec) return modelPresets;
     
-    // Collect unique model preset IDs
+    // Collect unique model preset IDs, including budget downgrades
     const presetIds = new Set<string>();
     for (const agent of this.serviceSpec.agents) {
       presetIds.add(agent.model_preset_id);
     }
+    for (const presetId of Object.values(this.serviceSpec.budget?.downgrade || {})) {
+      presetIds.add(presetId);
+    }
     
     // Load model presets
     for (const presetId of presetIds) {
@@ -211,23 +694,44 @@ export class SwarmOrchestrator extends EventEmitter {
       }
     }
     
-    // Connect to MCP servers
-    // TODO: Implement MCP server connection logic
-    // This is a placeholder for the actual implementation
+    // Connect to every registered server; unknown servers are reported by validation
     for (const serverId of serverIds) {
-      // In a real implementation, we would connect to the server
-      // and register tools with the tool registry
-      console.log(`Connecting to MCP server: ${serverId}`);
+      const config = this.serverRegistry?.getServerConfig(serverId);
+      if (!config) continue;
+      
+      await this.mcpClient.connectServer(serverId, config.endpoint, {
+        transport: config.transport,
+        timeout: config.options?.timeout,
+        reconnect: config.options?.reconnect,
+        maxReconnectAttempts: config.options?.maxReconnectAttempts,
+        cassette: this.cassette || undefined
+      });
+      this.connectedServers.add(serverId);
     }
   }
   
+  /**
+   * Disconnect from all MCP servers connected by this orchestrator
+   */
+  private async disconnectMCPServers(): Promise<void> {
+    for (const serverId of this.connectedServers) {
+      await this.mcpClient.disconnectServer(serverId);
+    }
+    
+    this.connectedServers.clear();
+  }
+  
   /**
    * Initialize agents
+   *
+   * Their framework implementations are built by each session, so that the
+   * tools converted for them run in that session.
    */
   private async initializeAgents(modelPresets: Map<string, ModelPreset>): Promise<void> {
     if (!this.serviceSpec) return;
     
     this.agents.clear();
+    this.agentPresets.clear();
     
     for (const agent of this.serviceSpec.agents) {
       const preset = modelPresets.get(agent.model_preset_id);
@@ -235,49 +739,71 @@ export class SwarmOrchestrator extends EventEmitter {
         throw new Error(`Model preset not found: ${agent.model_preset_id}`);
       }
       
-      // Create agent-specific MCP client if needed
-      let agentMcpClient = this.mcpClient;
-      if (agent.mcp?.servers && agent.mcp.servers.length > 0) {
-        // In a real implementation, we would create a new MCP client
-        // or configure the existing one for this agent
-      }
-      
-      // Create agent based on the orchestration type
-      const agentImpl = await this.createAgentImplementation(
-        this.serviceSpec.orchestration.type,
-        agent,
-        preset,
-        agentMcpClient
-      );
+      this.agentPresets.set(agent.id, preset);
       
-      this.agents.set(agent.id, agentImpl);
+      this.agents.set(agent.id, {
+        id: agent.id,
+        name: agent.name,
+        role: agent.role,
+        system_prompt: agent.system_prompt || `You are ${agent.name}. ${agent.role}`,
+        tools: getPresetCapabilities(preset).tool_calling ? await this.resolveAgentTools(agent) : [],
+        definition: agent
+      });
     }
   }
   
   /**
-   * Create agent implementation based on the framework
+   * Resolve an agent's MCP tool references to the tools its model may call
+   *
+   * Plain tool names are looked up on the agent's servers. When two servers
+   * expose the same name, the model sees it prefixed with the server ID.
    */
-  private async createAgentImplementation(
-    frameworkType: string,
-    agent: Agent,
-    modelPreset: ModelPreset,
-    mcpClient: MCPClient
-  ): Promise<any> {
-    switch (frameworkType) {
-      case 'autogen':
-        return this.frameworkFactory.createAutoGenAgent(agent, modelPreset, mcpClient);
-      
-      case 'crewai':
-        return this.frameworkFactory.createCrewAIAgent(agent, modelPreset, mcpClient);
-      
-      case 'langgraph':
-        return this.frameworkFactory.createLangGraphAgent(agent, modelPreset, mcpClient);
+  private async resolveAgentTools(agent: Agent): Promise<RuntimeTool[]> {
+    const tools: MCPTool[] = [];
+    const permissions = new Map<string, MCPPermissionOptions>();
+    
+    for (const toolRef of agent.mcp?.tools || []) {
+      let matches: MCPTool[];
       
-      case 'langchain':
-        return this.frameworkFactory.createLangChainAgent(agent, modelPreset, mcpClient);
+      if (toolRef.includes(':')) {
+        const tool = await this.mcpClient.getTool(toolRef);
+        matches = tool ? [tool] : [];
+      } else {
+        matches = [];
+        for (const serverId of agent.mcp?.servers || []) {
+          const serverTools = await this.mcpClient.listTools({ serverId });
+          matches.push(...serverTools.filter(tool => tool.name === toolRef));
+        }
+      }
       
-      default:
-        throw new Error(`Unsupported framework type: ${frameworkType}`);
+      for (const tool of matches) {
+        if (!tools.some(t => t.id === tool.id)) {
+          tools.push(tool);
+        }
+        
+        // Permissions are keyed by the tool reference used in the spec
+        permissions.set(tool.id, { ...permissions.get(tool.id), ...agent.mcp?.permissions?.[toolRef] });
+      }
     }
+    
+    // The agent may call exactly its own tools, within their limits
+    for (const [toolId, options] of permissions) {
+      this.permissionManager.setPermission(agent.id, toolId, options);
+    }
+    this.permissionManager.setPolicy(agent.id, agent.mcp?.policy || null);
+    
+    return tools.map(tool => {
+      const ambiguous = tools.some(other => other !== tool && other.name === tool.name);
+      
+      return {
+        tool_id: tool.id,
+        side_effects: tool.metadata?.sideEffects === true,
+        definition: {
+          name: ambiguous ? `${tool.serverId}_${tool.name}` : tool.name,
+          description: tool.description,
+          parameters: tool.parameters
+        }
+      };
+    });
   }
-}
\ No newline at end of file
+}
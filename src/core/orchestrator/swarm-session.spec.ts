@@ -0,0 +1,206 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ServiceSpec } from '../models';
+import { ChatRequest } from '../providers';
+import { MockClient, MockRule } from '../providers/mock-client';
+import { ProviderRegistry } from '../providers/provider-registry';
+import { SwarmOrchestrator, SwarmOrchestratorOptions } from './swarm-orchestrator';
+import { MessageCancelledError } from './cancellation';
+
+/**
+ * Build a spec of one agent, "Helper", on the mock preset "scripted"
+ */
+function createSpec(type: string): ServiceSpec {
+  return {
+    id: 'support',
+    name: 'Support',
+    agents: [{ id: 'helper', name: 'Helper', role: 'Helps', tools: [], model_preset_id: 'scripted' }],
+    orchestration: { type, config: {} },
+    created_at: 1,
+    updated_at: 1
+  };
+}
+
+/**
+ * Render the messages of a model request as "role:content" lines
+ */
+function describeMessages(request: ChatRequest): string[] {
+  return request.messages.map(message => `${message.role}:${message.content}`);
+}
+
+describe('SwarmSession', () => {
+  let dataDir: string;
+  let orchestrators: SwarmOrchestrator[];
+  let requests: ChatRequest[];
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'swarm-session-'));
+    orchestrators = [];
+    requests = [];
+  });
+
+  afterEach(async () => {
+    for (const orchestrator of orchestrators) {
+      await orchestrator.stop();
+    }
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Start an orchestrator whose agent replies from mock rules, recording the requests it is sent
+   */
+  async function startSwarm(type: string, rules: MockRule[], options?: SwarmOrchestratorOptions): Promise<SwarmOrchestrator> {
+    fs.writeFileSync(path.join(dataDir, 'presets.json'), JSON.stringify({
+      presets: [{ id: 'scripted', extends: 'mock', provider_options: { rules, default_reply: 'ok' } }]
+    }));
+
+    const providerRegistry = new ProviderRegistry();
+    providerRegistry.registerProvider('mock', preset => {
+      const client = MockClient.fromOptions(preset.provider_options);
+      const chat = client.chat.bind(client);
+      client.chat = (request, chatOptions) => {
+        requests.push({ ...request, messages: [...request.messages] });
+        return chat(request, chatOptions);
+      };
+      return client;
+    }, { perSession: true });
+
+    const orchestrator = new SwarmOrchestrator(createSpec(type), { dataDir, providerRegistry, ...options });
+    orchestrators.push(orchestrator);
+    await orchestrator.start();
+
+    return orchestrator;
+  }
+
+  /**
+   * Wait until the agent has been sent a given number of model requests
+   */
+  async function waitForRequests(count: number): Promise<void> {
+    while (requests.length < count) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+  }
+
+  /**
+   * Send a message and cancel it once its request number `count` is in flight
+   */
+  async function sendAndCancel(orchestrator: SwarmOrchestrator, message: string, count: number): Promise<void> {
+    const pending = orchestrator.sendMessage(message);
+    await waitForRequests(count);
+    orchestrator.cancelMessage();
+
+    await expect(pending).rejects.toThrow(MessageCancelledError);
+  }
+
+  describe('persistence', () => {
+    it('stores every message and response with the spend of the session', async () => {
+      const orchestrator = await startSwarm('langchain', [{ reply: 'Hi there' }]);
+
+      await orchestrator.sendMessage('Hello');
+
+      const stored = await orchestrator.getSessionManager().getSession(orchestrator.getSessionId());
+      expect(stored?.messages).toEqual([{ role: 'user', content: 'Hello' }, { role: 'assistant', content: 'Hi there' }]);
+      expect(stored?.checkpoint).toBeNull();
+      expect(stored?.costs).toEqual([expect.objectContaining({ agent_id: 'helper', turn: 1, kind: 'llm' })]);
+      expect(stored?.transcripts.helper?.map(message => message.content)).toEqual(['Hi there']);
+
+      expect(await orchestrator.getSessionManager().listSessions('support')).toEqual([
+        expect.objectContaining({ id: orchestrator.getSessionId(), message_count: 2 })
+      ]);
+    });
+
+    it.each(['autogen', 'langchain', 'langgraph'])('resumes the conversation of a stored %s session', async type => {
+      const first = await startSwarm(type, [{ reply: 'First answer' }]);
+      await first.sendMessage('First question');
+      const sessionId = first.getSessionId();
+      const firstTurn = first.getCostTotals({ session_id: sessionId, turn: 1 });
+      await first.stop();
+
+      const second = await startSwarm(type, [], { sessionId });
+      const sent = requests.length;
+      await second.sendMessage('Second question');
+
+      expect(second.getSessionId()).toBe(sessionId);
+      expect(describeMessages(requests[sent])).toEqual([
+        'user:First question',
+        'user:Swarm: First answer',
+        'user:Second question'
+      ]);
+      expect(second.getSession()?.messages).toHaveLength(4);
+      expect(second.getCostTotals({ session_id: sessionId, turn: 1 })).toEqual(firstTurn);
+      expect(second.getMetrics().tokens_used.helper.total).toBeGreaterThan(firstTurn.total_tokens);
+    });
+
+    it('refuses to resume a session of another spec or one that does not exist', async () => {
+      const orchestrator = await startSwarm('langchain', []);
+      const other = orchestrator.getSessionManager().createSession('sales', null);
+      await orchestrator.getSessionManager().saveSession(other);
+
+      await expect(orchestrator.openSession({ sessionId: other.id }))
+        .rejects.toThrow(`Session ${other.id} belongs to service specification sales, not support`);
+      await expect(orchestrator.openSession({ sessionId: 'missing' })).rejects.toThrow('Session not found: missing');
+      await expect(orchestrator.openSession({ sessionId: orchestrator.getSessionId() }))
+        .rejects.toThrow(`Session ${orchestrator.getSessionId()} is already open`);
+    });
+  });
+
+  describe('checkpoints', () => {
+    const SLOW: MockRule = { message: 'slow', delay_ms: 5000, times: 1, reply: 'Too late' };
+
+    it.each(['autogen', 'crewai', 'langchain', 'langgraph'])(
+      'sends the message once when %s resumes a message cancelled in its first step',
+      async type => {
+        const orchestrator = await startSwarm(type, [SLOW, { reply: 'Done TERMINATE' }]);
+        await orchestrator.sendMessage('Hello');
+        const sent = requests.length;
+
+        await sendAndCancel(orchestrator, 'slow please', sent + 1);
+        expect(orchestrator.getPendingRun()).toMatchObject({ message: 'slow please', step: 0, state: null });
+
+        await orchestrator.resumeRun();
+
+        expect(requests[sent + 1]).toEqual(requests[sent]);
+        expect(describeMessages(requests[sent]).filter(line => line.includes('slow please'))).toHaveLength(1);
+        expect(orchestrator.getPendingRun()).toBeNull();
+        expect(orchestrator.getSession()?.messages.map(message => message.content)).toEqual([
+          'Hello', expect.any(String), 'slow please', expect.any(String)
+        ]);
+      }
+    );
+
+    it.each(['autogen', 'langchain', 'langgraph'])(
+      'leaves a message cancelled in %s out of the conversation once another is sent',
+      async type => {
+        const orchestrator = await startSwarm(type, [SLOW, { reply: 'Done TERMINATE' }]);
+        await orchestrator.sendMessage('Hello');
+        const sent = requests.length;
+
+        await sendAndCancel(orchestrator, 'slow please', sent + 1);
+        await orchestrator.sendMessage('next');
+
+        expect(describeMessages(requests[sent + 1]).some(line => line.includes('slow please'))).toBe(false);
+        expect(describeMessages(requests[sent + 1])).toContain('user:next');
+        expect(orchestrator.getPendingRun()).toBeNull();
+        expect(orchestrator.getSession()?.messages.map(message => message.content)).toEqual([
+          'Hello', expect.any(String), 'next', expect.any(String)
+        ]);
+      }
+    );
+
+    it('continues a group chat from the turn after its last checkpoint', async () => {
+      const orchestrator = await startSwarm('autogen', [
+        { message: 'go', times: 1, reply: 'First turn' },
+        { message: '^Continue\\.$', delay_ms: 5000, times: 1, reply: 'Too late' },
+        { reply: 'Second turn TERMINATE' }
+      ]);
+
+      await sendAndCancel(orchestrator, 'go', 2);
+      expect(orchestrator.getPendingRun()).toMatchObject({ step: 1, state: { round: 2, answer: 'First turn' } });
+
+      expect(await orchestrator.resumeRun()).toBe('Second turn');
+      expect(requests).toHaveLength(3);
+      expect(requests[2]).toEqual(requests[1]);
+    });
+  });
+});
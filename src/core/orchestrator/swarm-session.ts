@@ -0,0 +1,1051 @@
+import { EventEmitter } from 'events';
+import { isDeepStrictEqual } from 'util';
+import { ServiceSpec, Agent, ModelPreset } from '../models';
+import { MCPClient } from '../mcp/mcp-client';
+import { MCPToolResult, ApprovalResult } from '../mcp';
+import { MCPApprovalManager } from '../mcp/mcp-approval-manager';
+import { MCPPermissionManager } from '../mcp/mcp-permission-manager';
+import { ProviderRegistry } from '../providers/provider-registry';
+import { ChatRequest, ChatResponse, ChatMessage } from '../providers';
+import { FrameworkPlugin, Framework } from './framework-registry';
+import { AgentRuntime, AgentRuntimeHost } from './agent-runtime';
+import { CostTracker, CostLimitExceededError } from './cost-tracker';
+import { BudgetManager, BudgetExceededError } from './budget-manager';
+import { SessionManager } from './session-manager';
+import { MessageCancelledError, linkAbortSignal, raceSignal, throwIfAborted } from './cancellation';
+import { Tracer, Span, SpanKind, SpanAttributes } from '../tracing';
+import { Cassette } from '../replay';
+import {
+  SwarmEvent,
+  SwarmMetrics,
+  AgentChatRequest,
+  CostRecord,
+  CostTotals,
+  CostFilter,
+  CostLimitEvent,
+  AgentDowngradeEvent,
+  RuntimeAgent,
+  SpeakerSelector,
+  Session,
+  SessionEvent,
+  RunCheckpoint,
+  CheckpointCall,
+  SendMessageOptions,
+  CallOptions,
+  MessageCancelledEvent,
+  ApprovalRequestedEvent
+} from './';
+
+/**
+ * What a session shares with the orchestrator that opened it: the loaded
+ * swarm, the clients and trackers all sessions use, and a way to report
+ * events and the session's end
+ */
+export interface SwarmSessionHost {
+  spec: ServiceSpec;
+  agents: Map<string, Omit<RuntimeAgent, 'implementation'>>; // Each session adds its own implementations
+  agentPresets: Map<string, ModelPreset>;   // Preset of each agent, by agent ID
+  modelPresets: Map<string, ModelPreset>;   // Loaded presets by ID, including budget downgrades
+  plugin: FrameworkPlugin;
+  providerRegistry: ProviderRegistry;
+  mcpClient: MCPClient;
+  costTracker: CostTracker;
+  budgetManager: BudgetManager | null;
+  sessionManager: SessionManager;
+  tracer: Tracer;
+  cassette: Cassette | null;
+  permissionManager: MCPPermissionManager;
+  approvalManager: MCPApprovalManager;
+  costWarningThreshold: number;
+  messageTimeout?: number;
+  stepTimeout?: number;
+  emit(event: string | symbol, ...args: any[]): boolean;
+  releaseSession(session: SwarmSession): void;
+}
+
+/**
+ * One conversation with a running swarm
+ *
+ * Each session runs its own framework instance on its own transcript,
+ * checkpoint, metrics and agent cost limits. MCP connections, provider
+ * clients and the day and month spend of the swarm budget are shared with
+ * the orchestrator's other sessions. Messages sent to a session are handled
+ * one at a time, in order. Events are emitted on the session and on the
+ * orchestrator.
+ */
+export class SwarmSession extends EventEmitter implements AgentRuntimeHost {
+  private host: SwarmSessionHost;
+  private session: Session;
+  private selectSpeaker: SpeakerSelector | undefined;
+  private framework: Framework | null;
+  private runtime: AgentRuntime | null;
+  private replayPosition: number | null;
+  private messageController: AbortController | null;
+  private messageQueue: Promise<unknown>;
+  private costWarnedAgents: Set<string>;
+  private haltedAgents: Set<string>;
+  private metrics: SwarmMetrics;
+  private startTime: number;
+  private closed: boolean;
+  private sessionSpan: Span | null;
+  private messageSpan: Span | null;
+
+  constructor(host: SwarmSessionHost, session: Session, options?: { selectSpeaker?: SpeakerSelector }) {
+    super();
+
+    this.host = host;
+    this.session = session;
+    this.selectSpeaker = options?.selectSpeaker;
+    this.framework = null;
+    this.runtime = null;
+    this.replayPosition = null;
+    this.messageController = null;
+    this.messageQueue = Promise.resolve();
+    this.costWarnedAgents = new Set();
+    this.haltedAgents = new Set();
+    this.startTime = 0;
+    this.closed = false;
+    this.sessionSpan = null;
+    this.messageSpan = null;
+
+    // Metrics cover the whole session, including calls made before it was resumed
+    this.metrics = {
+      execution_time: 0,
+      tokens_used: {},
+      cost: {
+        total: 0
+      }
+    };
+  }
+
+  /**
+   * Restore the session's spend and start its framework
+   */
+  async open(): Promise<void> {
+    const { spec, costTracker, budgetManager } = this.host;
+    const session = this.session;
+
+    this.startTime = Date.now();
+    this.sessionSpan = this.host.tracer.startSpan('session', 'session', {
+      attributes: {
+        'swarm.session_id': session.id,
+        'swarm.spec_id': spec.id,
+        'swarm.framework': spec.orchestration.type,
+        'swarm.resumed': session.messages.length > 0
+      }
+    });
+
+    costTracker.startSession(session.id, {
+      records: session.costs,
+      turn: session.messages.filter(entry => entry.role === 'user').length
+    });
+    this.restoreCosts();
+    budgetManager?.startSession(session.id, this.metrics.cost.total);
+    this.host.approvalManager.startSession(session.id, session.approvals);
+    this.restoreToolUsage();
+
+    try {
+      const agents = await this.createAgents();
+      const runtime = new AgentRuntime(this, agents, {
+        maxTurns: spec.orchestration.config?.max_turns,
+        stepTimeout: this.host.stepTimeout
+      });
+      const framework = this.host.plugin.createFramework(
+        runtime,
+        spec.orchestration.config,
+        { selectSpeaker: this.selectSpeaker }
+      );
+
+      await framework.initialize(agents);
+      // An interrupted message is finished by resumeRun(), not restored as history
+      framework.restore?.(session.checkpoint ? session.messages.slice(0, -1) : session.messages);
+      this.framework = framework;
+      this.runtime = runtime;
+
+      await this.saveSession();
+    } catch (error) {
+      this.closed = true;
+      costTracker.endSession(session.id);
+      budgetManager?.endSession(session.id);
+      this.host.approvalManager.endSession(session.id);
+      this.host.permissionManager.endSession(session.id);
+      this.host.providerRegistry.endSession(session.id);
+      this.sessionSpan.recordError(error);
+      this.sessionSpan.end();
+      throw error;
+    }
+  }
+
+  /**
+   * End the session: cancel the message in flight, stop the framework and store the session
+   *
+   * A message cancelled by closing keeps its checkpoint, so it can be
+   * finished when the session is resumed.
+   */
+  async close(): Promise<void> {
+    if (this.closed) {
+      return; // Already closed
+    }
+
+    this.closed = true;
+    this.cancelMessage();
+    await this.messageQueue;
+
+    const { costTracker, budgetManager } = this.host;
+    const sessionId = this.session.id;
+
+    try {
+      this.metrics.execution_time = Date.now() - this.startTime;
+      if (budgetManager) {
+        this.metrics.budget = budgetManager.getStatus(sessionId);
+      }
+
+      await this.framework?.cleanup();
+      this.framework = null;
+      this.runtime = null;
+
+      await this.saveSession();
+    } finally {
+      this.sessionSpan?.setAttributes({
+        'swarm.messages': this.session.messages.filter(entry => entry.role === 'user').length,
+        'swarm.cost_usd': this.metrics.cost.total
+      });
+      this.sessionSpan?.end();
+      void this.host.tracer.flush();
+
+      costTracker.endSession(sessionId);
+      budgetManager?.endSession(sessionId);
+      this.host.approvalManager.endSession(sessionId);
+      this.host.permissionManager.endSession(sessionId);
+      this.host.providerRegistry.endSession(sessionId);
+      this.host.releaseSession(this);
+
+      const event: SessionEvent = { sessionId };
+      this.emit(SwarmEvent.SESSION_CLOSED, event);
+    }
+  }
+
+  /**
+   * Check whether the session has been closed
+   */
+  isClosed(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * Get the session ID
+   */
+  getId(): string {
+    return this.session.id;
+  }
+
+  /**
+   * Get the stored form of the session
+   */
+  getSession(): Session {
+    return this.session;
+  }
+
+  /**
+   * Send a message to the swarm in this session
+   *
+   * Waits for messages sent earlier to be handled. Rejects with a
+   * MessageCancelledError if the message is cancelled or times out; its
+   * checkpoint is kept so resumeRun() can finish it.
+   */
+  sendMessage(message: string, options?: SendMessageOptions): Promise<string> {
+    this.assertOpen();
+
+    return this.enqueue(() => {
+      this.assertOpen();
+
+      const turn = this.host.costTracker.startTurn(this.session.id);
+      this.host.budgetManager?.startMessage(this.session.id);
+      this.emit(SwarmEvent.MESSAGE, { role: 'user', content: message });
+
+      // Any interrupted message is abandoned in favor of the new one
+      if (this.session.checkpoint) {
+        this.session.messages.pop();
+      }
+
+      this.session.messages.push({ role: 'user', content: message });
+      this.session.checkpoint = {
+        message,
+        turn,
+        step: 0,
+        state: null,
+        calls: [],
+        created_at: Date.now(),
+        updated_at: Date.now()
+      };
+      this.replayPosition = null;
+
+      return this.handleMessage(message, null, options);
+    });
+  }
+
+  /**
+   * Finish the message whose handling was interrupted
+   *
+   * The framework continues from its last checkpoint, and model and tool
+   * calls completed after it are replayed from the checkpoint instead of
+   * being made again. A side-effecting tool call that was still running
+   * when the run was interrupted is reported to the agent as an error
+   * rather than repeated.
+   */
+  resumeRun(options?: SendMessageOptions): Promise<string> {
+    this.assertOpen();
+
+    return this.enqueue(() => {
+      this.assertOpen();
+
+      const checkpoint = this.session.checkpoint;
+      if (!checkpoint) {
+        throw new Error('No interrupted message to resume');
+      }
+
+      const spent = this.getCostTotals({ turn: checkpoint.turn }).cost;
+      this.host.budgetManager?.startMessage(this.session.id, spent);
+      this.replayPosition = 0;
+
+      return this.handleMessage(checkpoint.message, checkpoint, options);
+    });
+  }
+
+  /**
+   * Cancel the message being handled
+   *
+   * Returns false if no message is in flight.
+   */
+  cancelMessage(): boolean {
+    if (!this.messageController || this.messageController.signal.aborted) {
+      return false;
+    }
+
+    this.messageController.abort(new MessageCancelledError('aborted'));
+    return true;
+  }
+
+  /**
+   * Get the cancellation signal of the message being handled
+   */
+  getMessageSignal(): AbortSignal | undefined {
+    return this.messageController?.signal;
+  }
+
+  /**
+   * Get the checkpoint of an interrupted message, if any
+   */
+  getPendingRun(): RunCheckpoint | null {
+    return this.session.checkpoint || null;
+  }
+
+  /**
+   * Get the session's metrics
+   */
+  getMetrics(): SwarmMetrics {
+    if (!this.closed) {
+      this.metrics.execution_time = Date.now() - this.startTime;
+
+      if (this.host.budgetManager) {
+        this.metrics.budget = this.host.budgetManager.getStatus(this.session.id);
+      }
+    }
+
+    return this.metrics;
+  }
+
+  /**
+   * Get usage and cost totals of the session, optionally per agent or turn
+   */
+  getCostTotals(filter?: Omit<CostFilter, 'session_id'>): CostTotals {
+    return this.host.costTracker.getTotals({ ...filter, session_id: this.session.id });
+  }
+
+  /**
+   * Check whether an agent has reached its cost limit in this session
+   */
+  isAgentHalted(agentId: string): boolean {
+    return this.haltedAgents.has(agentId);
+  }
+
+  /**
+   * Emit an event on the session and on the orchestrator
+   */
+  emit(event: string | symbol, ...args: any[]): boolean {
+    // An error nobody listens for on the session is left to the orchestrator to raise
+    const handled = event !== SwarmEvent.ERROR || this.listenerCount(event) > 0
+      ? super.emit(event, ...args)
+      : false;
+
+    return this.host.emit(event, ...args) || handled;
+  }
+
+  /**
+   * Start a trace span, by default under the message being handled
+   */
+  startSpan(kind: SpanKind, name: string, attributes?: SpanAttributes, parent?: Span): Span {
+    return this.host.tracer.startSpan(kind, name, {
+      parent: parent || this.messageSpan || this.sessionSpan,
+      attributes
+    });
+  }
+
+  /**
+   * Add a message an agent produced to the session's transcript of that agent
+   */
+  recordAgentMessage(agentId: string, message: ChatMessage): void {
+    const transcript = this.session.transcripts[agentId] || [];
+    transcript.push(message);
+    this.session.transcripts[agentId] = transcript;
+  }
+
+  /**
+   * Store a framework snapshot taken after a completed agent step
+   *
+   * Calls made before the snapshot are covered by it, so they are dropped
+   * from the checkpoint.
+   */
+  async saveCheckpoint(state: any): Promise<void> {
+    const checkpoint = this.session.checkpoint;
+    if (!checkpoint) return;
+
+    // Copied, since the framework keeps changing its own objects
+    checkpoint.state = JSON.parse(JSON.stringify(state));
+    checkpoint.step++;
+    checkpoint.calls = [];
+    checkpoint.updated_at = Date.now();
+    this.replayPosition = null;
+
+    await this.saveSession();
+  }
+
+  /**
+   * Make an LLM call on behalf of an agent
+   *
+   * Every model call of the session goes through here so that its usage and
+   * cost are recorded against the agent. Throws a CostLimitExceededError
+   * once the agent has reached its max_cost, and a BudgetExceededError once
+   * a swarm budget is exhausted. Near exhaustion, the call may be made with
+   * the budget's downgrade preset instead of the agent's own.
+   */
+  async callModel(agentId: string, request: AgentChatRequest, options?: CallOptions): Promise<ChatResponse> {
+    const preset = this.getAgentPreset(agentId);
+    const span = this.startSpan('llm_call', `llm_call ${preset.model}`, {
+      'swarm.agent_id': agentId,
+      'swarm.preset_id': preset.id,
+      'gen_ai.system': preset.provider,
+      'gen_ai.request.model': preset.model
+    }, options?.span);
+
+    try {
+      return await this.makeModelCall(agentId, preset, request, options, span);
+    } catch (error) {
+      span.recordError(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Execute an MCP tool on behalf of an agent
+   *
+   * The call is checked against the agent's MCP permissions, and the cost
+   * reported by the server is recorded against the agent. A call refused by
+   * its permissions or a reviewer resolves with a result whose `error` says
+   * why. Throws a CostLimitExceededError once the agent has reached its
+   * max_cost, and a BudgetExceededError once a swarm budget is exhausted.
+   */
+  async executeTool(agentId: string, toolId: string, params: any, options?: CallOptions): Promise<MCPToolResult> {
+    this.getAgentPreset(agentId); // Ensures the session is open and the agent exists
+
+    const tool = this.host.agents.get(agentId)?.tools.find(candidate => candidate.tool_id === toolId);
+    const sideEffects = tool?.side_effects || false;
+    const span = this.startSpan('tool_call', `tool_call ${toolId}`, {
+      'swarm.agent_id': agentId,
+      'mcp.tool_id': toolId,
+      'mcp.side_effects': sideEffects
+    }, options?.span);
+
+    try {
+      return await this.runTool(agentId, toolId, params, sideEffects, options, span);
+    } catch (error) {
+      span.recordError(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Make a model call, or replay it from the checkpoint, recording it on its span
+   */
+  private async makeModelCall(
+    agentId: string,
+    agentPreset: ModelPreset,
+    request: AgentChatRequest,
+    options: CallOptions | undefined,
+    span: Span
+  ): Promise<ChatResponse> {
+    let preset = agentPreset;
+
+    const replayed = this.takeReplayedCall(call => call.kind === 'llm' && call.agent_id === agentId);
+    if (replayed?.response) {
+      span.setAttribute('swarm.replayed', true);
+      return replayed.response;
+    }
+
+    const signal = options?.signal;
+    throwIfAborted(signal);
+    this.assertWithinCostLimit(agentId);
+
+    if (this.host.budgetManager) {
+      await this.host.budgetManager.assertWithinBudget(this.session.id);
+      preset = this.selectBudgetPreset(agentId, preset, request);
+
+      if (preset !== agentPreset) {
+        span.setAttributes({
+          'swarm.preset_id': preset.id,
+          'swarm.downgraded_from': agentPreset.id,
+          'gen_ai.request.model': preset.model
+        });
+      }
+    }
+
+    const chatRequest = buildChatRequest(preset, request);
+    const send = () => this.host.providerRegistry.getClient(preset, this.session.id).chat(chatRequest, { signal });
+    const cassette = this.host.cassette;
+
+    let response: ChatResponse;
+    try {
+      response = await raceSignal(cassette ? cassette.exchange('llm', preset.provider, chatRequest, send) : send(), signal);
+    } catch (error) {
+      // Report a cancellation rather than the provider's abort error
+      throwIfAborted(signal);
+      throw error;
+    }
+
+    const record = this.host.costTracker.recordModelCall(this.session.id, agentId, preset, response.usage);
+    span.setAttributes({
+      'gen_ai.usage.input_tokens': response.usage.input_tokens,
+      'gen_ai.usage.output_tokens': response.usage.output_tokens,
+      'gen_ai.response.finish_reason': response.stop_reason,
+      'swarm.cost_usd': record.cost
+    });
+
+    await this.recordCost(record);
+    await this.journalCall({ kind: 'llm', agent_id: agentId, response });
+
+    return response;
+  }
+
+  /**
+   * Run an MCP tool, or replay it from the checkpoint, recording it on its span
+   */
+  private async runTool(
+    agentId: string,
+    toolId: string,
+    params: any,
+    sideEffects: boolean,
+    options: CallOptions | undefined,
+    span: Span
+  ): Promise<MCPToolResult> {
+    const replayed = this.takeReplayedCall(call =>
+      call.kind === 'tool' && call.agent_id === agentId && call.tool_id === toolId && isDeepStrictEqual(call.params, params)
+    );
+    if (replayed) {
+      span.setAttribute('swarm.replayed', true);
+      return this.replayToolCall(replayed);
+    }
+
+    const sessionId = this.session.id;
+    const signal = options?.signal;
+    throwIfAborted(signal);
+    this.assertWithinCostLimit(agentId);
+    await this.host.budgetManager?.assertWithinBudget(sessionId);
+
+    // A side-effecting call is recorded before it runs, so an interruption cannot hide it
+    const journaled: CheckpointCall = { kind: 'tool', agent_id: agentId, tool_id: toolId, params, side_effects: sideEffects };
+    if (sideEffects) {
+      await this.journalCall(journaled);
+    }
+
+    const call = {
+      agent_id: agentId,
+      tool_id: toolId,
+      params,
+      turn: this.host.costTracker.getTurn(sessionId),
+      timestamp: Date.now()
+    };
+
+    // The call runs with the parameters a reviewer approved; the journal keeps the agent's, to match on resume
+    let awaitingApproval = false;
+    const approve = async (requested: any): Promise<ApprovalResult> => {
+      awaitingApproval = true;
+      const approval = await this.approveToolCall(agentId, toolId, requested, signal, span);
+      awaitingApproval = false;
+      call.params = approval.params;
+      return approval;
+    };
+
+    let result: MCPToolResult;
+    try {
+      result = await raceSignal(this.host.mcpClient.executeTool(toolId, params, { agentId, sessionId, signal, approve }), signal);
+    } catch (error: any) {
+      const failure = signal?.aborted ? signal.reason : error;
+
+      // Cancelled before a reviewer decided, so the call never ran and is not journaled
+      if (awaitingApproval) {
+        const calls = this.session.checkpoint?.calls || [];
+        if (calls.includes(journaled)) {
+          calls.splice(calls.indexOf(journaled), 1);
+          await this.saveSession();
+        }
+        throw failure;
+      }
+
+      this.session.tool_calls.push({ ...call, error: failure.message });
+
+      // A cancelled side-effecting call may have taken effect, so it stays unfinished in the checkpoint
+      if (!signal?.aborted) {
+        journaled.error = error.message;
+        await this.journalCall(journaled, !sideEffects);
+      }
+      throw failure;
+    }
+
+    if (result.error) {
+      // A refused call did not run, so it has no cost
+      span.setAttribute('mcp.error.code', result.error.code);
+      journaled.result = result;
+      await this.journalCall(journaled, !sideEffects);
+      return result;
+    }
+
+    const record = this.host.costTracker.recordToolCall(sessionId, agentId, toolId, result);
+    span.setAttribute('swarm.cost_usd', record.cost);
+    this.session.tool_calls.push({ ...call, result: result.data, cost: record.cost });
+    await this.recordCost(record);
+    journaled.result = result;
+    await this.journalCall(journaled, !sideEffects);
+
+    return result;
+  }
+
+  /**
+   * Ask for approval of a tool call, recording the decision in the session
+   */
+  private async approveToolCall(
+    agentId: string,
+    toolId: string,
+    params: any,
+    signal: AbortSignal | undefined,
+    span: Span
+  ): Promise<ApprovalResult> {
+    const sessionId = this.session.id;
+    const event: ApprovalRequestedEvent = { sessionId, agentId, toolId, params };
+    this.emit(SwarmEvent.APPROVAL_REQUESTED, event);
+
+    const result = await this.host.approvalManager.requestApproval(agentId, toolId, params, undefined, { sessionId, signal });
+
+    this.session.approvals = [...(this.session.approvals || []), result.record];
+    await this.saveSession();
+
+    span.setAttributes({
+      'mcp.approval.action': result.record.action,
+      'mcp.approval.source': result.record.source
+    });
+    this.emit(SwarmEvent.APPROVAL_DECIDED, result.record);
+
+    return result;
+  }
+
+  /**
+   * Throw if the session has been closed
+   */
+  private assertOpen(): void {
+    if (this.closed) {
+      throw new Error(`Session ${this.session.id} is closed`);
+    }
+  }
+
+  /**
+   * Run a message after the ones already sent to this session
+   */
+  private enqueue(handle: () => Promise<string>): Promise<string> {
+    const result = this.messageQueue.then(handle);
+    this.messageQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Run a message through the framework, from the start or from a checkpoint
+   */
+  private async handleMessage(
+    message: string,
+    checkpoint: RunCheckpoint | null,
+    options?: SendMessageOptions
+  ): Promise<string> {
+    const controller = new AbortController();
+    const unlink = linkAbortSignal(options?.signal, controller, () => new MessageCancelledError('aborted'));
+    const timeout = options?.timeout ?? this.host.messageTimeout;
+    const timer = timeout
+      ? setTimeout(() => controller.abort(new MessageCancelledError('message_timeout', { timeout })), timeout)
+      : null;
+    this.messageController = controller;
+
+    const span = this.host.tracer.startSpan('message', 'message', {
+      parent: this.sessionSpan,
+      attributes: {
+        'swarm.session_id': this.session.id,
+        'swarm.turn': this.host.costTracker.getTurn(this.session.id),
+        'swarm.resumed': checkpoint !== null,
+        'swarm.message_length': message.length
+      }
+    });
+    this.messageSpan = span;
+
+    try {
+      await this.saveSession();
+
+      let response: string;
+
+      const exhaustion = await this.host.budgetManager?.getExhaustion(this.session.id);
+      if (exhaustion) {
+        response = exhaustion.message;
+      } else if (this.haltedAgents.size === this.host.spec.agents.length) {
+        response = 'Every agent in this swarm has reached its cost limit, so no further work can be done in this session.';
+      } else if (!this.framework || !this.runtime) {
+        throw new Error('Framework not initialized');
+      } else {
+        const framework = this.framework;
+        try {
+          // Frameworks waiting on something other than a call, such as a manual speaker choice, are abandoned;
+          // the calls they make afterwards carry this message's aborted signal and are refused.
+          // They resume from a copy, so a cancelled attempt leaves the checkpoint as it was.
+          response = await raceSignal(
+            this.runtime.handleMessage(controller.signal, () =>
+              checkpoint?.state != null && framework.resume
+                ? framework.resume(message, JSON.parse(JSON.stringify(checkpoint.state)))
+                : framework.execute(message)
+            ),
+            controller.signal
+          );
+        } catch (error) {
+          // A framework that cannot continue without the halted agent ends the turn here
+          if (!(error instanceof CostLimitExceededError || error instanceof BudgetExceededError)) throw error;
+          response = error.message;
+        }
+      }
+
+      this.emit(SwarmEvent.MESSAGE, { role: 'assistant', content: response });
+      this.session.messages.push({ role: 'assistant', content: response });
+      this.session.checkpoint = null;
+      span.setAttribute('swarm.response_length', response.length);
+
+      return response;
+
+    } catch (error) {
+      span.recordError(error);
+
+      // The checkpoint is kept, so resumeRun() can retry the message
+      if (error instanceof MessageCancelledError) {
+        span.setAttribute('swarm.cancel_reason', error.reason);
+
+        // Stop whatever is still running, such as the rest of a timed-out step's message
+        controller.abort(error);
+
+        const event: MessageCancelledEvent = {
+          reason: error.reason,
+          message,
+          turn: this.host.costTracker.getTurn(this.session.id),
+          agentId: error.agentId
+        };
+        this.emit(SwarmEvent.MESSAGE_CANCELLED, event);
+      } else {
+        this.emit(SwarmEvent.ERROR, error);
+      }
+      throw error;
+    } finally {
+      if (timer) clearTimeout(timer);
+      unlink();
+      this.messageController = null;
+      this.replayPosition = null;
+      await this.saveSession();
+
+      span.setAttribute('swarm.cost_usd', this.getCostTotals({ turn: this.host.costTracker.getTurn(this.session.id) }).cost);
+      span.end();
+      this.messageSpan = null;
+      void this.host.tracer.flush();
+    }
+  }
+
+  /**
+   * Add a call to the checkpoint, or update one already in it, and save the session
+   *
+   * Completed calls are added; side-effecting tool calls are added before
+   * they run and updated once they finish.
+   */
+  private async journalCall(call: CheckpointCall, append = true): Promise<void> {
+    const checkpoint = this.session.checkpoint;
+    if (!checkpoint) return;
+
+    if (append) {
+      checkpoint.calls.push(call);
+    }
+    checkpoint.updated_at = Date.now();
+
+    await this.saveSession();
+  }
+
+  /**
+   * Take the next call to replay from the checkpoint, if it is the call being made
+   *
+   * Once the run asks for a different call, it has diverged from the
+   * interrupted one: the remaining recorded calls are dropped and all further
+   * calls are made for real.
+   */
+  private takeReplayedCall(matches: (call: CheckpointCall) => boolean): CheckpointCall | null {
+    const calls = this.session.checkpoint?.calls;
+    if (this.replayPosition === null || !calls) return null;
+
+    const call = calls[this.replayPosition];
+    if (call && matches(call)) {
+      this.replayPosition++;
+      return call;
+    }
+
+    calls.splice(this.replayPosition);
+    this.replayPosition = null;
+    return null;
+  }
+
+  /**
+   * Return the recorded outcome of a tool call instead of running it again
+   */
+  private async replayToolCall(call: CheckpointCall): Promise<MCPToolResult> {
+    if (call.result) {
+      return call.result;
+    }
+
+    if (!call.error) {
+      // The run was interrupted while the tool was running, so whether it took effect is unknown
+      call.error = `The call to ${call.tool_id} was interrupted and may or may not have taken effect. ` +
+        'It has side effects, so it was not run again; check its effect before retrying it.';
+      await this.journalCall(call, false);
+    }
+
+    throw new Error(call.error);
+  }
+
+  /**
+   * Store the session with the costs recorded so far
+   */
+  private async saveSession(): Promise<void> {
+    this.session.costs = this.host.costTracker.getRecords({ session_id: this.session.id });
+    await this.host.sessionManager.saveSession(this.session);
+  }
+
+  /**
+   * Count the tool calls of a resumed session against its MCP permission limits
+   */
+  private restoreToolUsage(): void {
+    for (const call of this.session.tool_calls) {
+      this.host.permissionManager.recordToolUsage(call.agent_id, call.tool_id, call.cost, this.session.id);
+    }
+  }
+
+  /**
+   * Add the calls of a resumed session to the metrics, without repeating cost limit events
+   */
+  private restoreCosts(): void {
+    for (const record of this.session.costs) {
+      this.addToMetrics(record);
+    }
+
+    for (const agent of this.host.spec.agents) {
+      const spent = this.metrics.cost[agent.id] || 0;
+      if (!agent.max_cost) continue;
+
+      if (spent >= agent.max_cost) {
+        this.haltedAgents.add(agent.id);
+      } else if (spent >= agent.max_cost * (agent.cost_warning_threshold ?? this.host.costWarningThreshold)) {
+        this.costWarnedAgents.add(agent.id);
+      }
+    }
+  }
+
+  /**
+   * Build the framework's implementation of each agent
+   *
+   * The tools the adapter converts call executeTool() on this session, so
+   * they count against its limits, costs and budget and can be sent for
+   * approval.
+   */
+  private async createAgents(): Promise<Map<string, RuntimeAgent>> {
+    const adapter = this.host.plugin.createAdapter(
+      this.host.mcpClient,
+      (agentId, toolId, params) => this.executeTool(agentId, toolId, params)
+    );
+
+    const agents = new Map<string, RuntimeAgent>();
+    for (const agent of this.host.agents.values()) {
+      agents.set(agent.id, {
+        ...agent,
+        implementation: await adapter.createAgent(agent.definition, this.getAgentPreset(agent.id))
+      });
+    }
+
+    return agents;
+  }
+
+  /**
+   * Get the model preset of an agent
+   */
+  private getAgentPreset(agentId: string): ModelPreset {
+    this.assertOpen();
+
+    const preset = this.host.agentPresets.get(agentId);
+    if (!preset) {
+      throw new Error(`Unknown agent: ${agentId}`);
+    }
+
+    return preset;
+  }
+
+  /**
+   * Pick the preset for an agent's next call given the swarm budget
+   *
+   * When the call could bring a budget window near exhaustion and the budget
+   * names a downgrade for the agent's preset, the downgrade is used instead.
+   */
+  private selectBudgetPreset(agentId: string, preset: ModelPreset, request: AgentChatRequest): ModelPreset {
+    const budgetManager = this.host.budgetManager;
+    if (!budgetManager) return preset;
+
+    const sessionId = this.session.id;
+    const estimate = this.host.costTracker.estimateModelCall(preset, buildChatRequest(preset, request));
+    const window = budgetManager.getNearExhaustedWindow(sessionId, estimate.cost);
+    const downgradeId = window ? budgetManager.getDowngradePresetId(preset.id) : null;
+    const downgrade = downgradeId ? this.host.modelPresets.get(downgradeId) : undefined;
+
+    if (!window || !downgrade) {
+      budgetManager.setDowngrade(sessionId, agentId, null);
+      return preset;
+    }
+
+    if (budgetManager.getStatus(sessionId).downgraded_agents[agentId] !== downgrade.id) {
+      budgetManager.setDowngrade(sessionId, agentId, downgrade.id);
+
+      const event: AgentDowngradeEvent = {
+        agentId,
+        fromPresetId: preset.id,
+        toPresetId: downgrade.id,
+        window
+      };
+      this.emit(SwarmEvent.AGENT_DOWNGRADED, event);
+    }
+
+    return downgrade;
+  }
+
+  /**
+   * Add a recorded call to the session metrics and the swarm budget
+   */
+  private async recordCost(record: CostRecord): Promise<void> {
+    this.addToMetrics(record);
+    this.checkCostLimit(record.agent_id);
+
+    if (this.host.budgetManager) {
+      for (const crossing of await this.host.budgetManager.record(this.session.id, record.cost)) {
+        const event = crossing.type === 'exceeded' ? SwarmEvent.BUDGET_EXCEEDED : SwarmEvent.BUDGET_WARNING;
+        this.emit(event, crossing.event);
+      }
+    }
+  }
+
+  /**
+   * Add the usage and cost of a call to the session metrics
+   */
+  private addToMetrics(record: CostRecord): void {
+    if (record.kind === 'llm') {
+      const tokens = this.metrics.tokens_used[record.agent_id] || { input: 0, output: 0, total: 0 };
+      tokens.input += record.input_tokens;
+      tokens.output += record.output_tokens;
+      tokens.total = tokens.input + tokens.output;
+      this.metrics.tokens_used[record.agent_id] = tokens;
+    }
+
+    this.metrics.cost[record.agent_id] = (this.metrics.cost[record.agent_id] || 0) + record.cost;
+    this.metrics.cost.total += record.cost;
+  }
+
+  /**
+   * Refuse further calls by an agent that reached its cost limit
+   */
+  private assertWithinCostLimit(agentId: string): void {
+    if (!this.haltedAgents.has(agentId)) return;
+
+    const agent = this.getAgentSpec(agentId);
+    throw new CostLimitExceededError(
+      agentId,
+      agent.name,
+      this.metrics.cost[agentId] || 0,
+      agent.max_cost || 0
+    );
+  }
+
+  /**
+   * Emit cost limit events when an agent's spend crosses its thresholds
+   */
+  private checkCostLimit(agentId: string): void {
+    const agent = this.getAgentSpec(agentId);
+    if (!agent.max_cost) return;
+
+    const event: CostLimitEvent = {
+      agentId,
+      spent: this.metrics.cost[agentId] || 0,
+      limit: agent.max_cost
+    };
+
+    if (event.spent >= event.limit) {
+      if (!this.haltedAgents.has(agentId)) {
+        this.haltedAgents.add(agentId);
+        this.emit(SwarmEvent.COST_LIMIT_EXCEEDED, event);
+      }
+      return;
+    }
+
+    const threshold = agent.cost_warning_threshold ?? this.host.costWarningThreshold;
+    if (event.spent >= event.limit * threshold && !this.costWarnedAgents.has(agentId)) {
+      this.costWarnedAgents.add(agentId);
+      this.emit(SwarmEvent.COST_LIMIT_WARNING, event);
+    }
+  }
+
+  /**
+   * Get the spec definition of an agent
+   */
+  private getAgentSpec(agentId: string): Agent {
+    const agent = this.host.spec.agents.find(a => a.id === agentId);
+    if (!agent) {
+      throw new Error(`Unknown agent: ${agentId}`);
+    }
+
+    return agent;
+  }
+}
+
+/**
+ * Build a provider request from an agent request and a preset
+ */
+function buildChatRequest(preset: ModelPreset, request: AgentChatRequest): ChatRequest {
+  return {
+    ...request,
+    model: preset.model,
+    temperature: request.temperature ?? preset.temperature,
+    top_p: request.top_p ?? preset.top_p,
+    max_tokens: request.max_tokens ?? preset.max_tokens
+  };
+}
@@ -0,0 +1,157 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { AnthropicClient } from './anthropic-client';
+
+describe('AnthropicClient', () => {
+  let server: http.Server;
+  let baseURL: string;
+  let requests: Array<{ path: string; headers: http.IncomingHttpHeaders; body: any }>;
+  let reply: { status: number; body: any };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        requests.push({ path: req.url || '', headers: req.headers, body: JSON.parse(body || '{}') });
+        res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    reply = { status: 200, body: message([{ type: 'text', text: 'Hi there' }], 'end_turn') };
+  });
+
+  /**
+   * Build a Messages API reply
+   */
+  function message(content: any[], stopReason: string): any {
+    return {
+      id: 'msg_1',
+      type: 'message',
+      role: 'assistant',
+      model: 'claude-test-model',
+      content,
+      stop_reason: stopReason,
+      stop_sequence: null,
+      usage: { input_tokens: 20, output_tokens: 4 }
+    };
+  }
+
+  /**
+   * Create a client talking to the local server
+   */
+  function createClient(): AnthropicClient {
+    return new AnthropicClient({ apiKey: 'test-key', baseURL, maxRetries: 0, headers: { 'x-test': 'yes' } });
+  }
+
+  it('sends the system prompt, messages and tools and maps the reply', async () => {
+    const response = await createClient().chat({
+      model: 'claude-test-model',
+      system: 'Be brief',
+      messages: [{ role: 'user', content: 'Hello' }],
+      tools: [{ name: 'lookup', description: 'Look up a word', parameters: { type: 'object', properties: {} } }],
+      max_tokens: 50,
+      stop_sequences: ['STOP']
+    });
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].path).toBe('/v1/messages');
+    expect(requests[0].headers['x-api-key']).toBe('test-key');
+    expect(requests[0].headers['x-test']).toBe('yes');
+    expect(requests[0].body).toMatchObject({
+      model: 'claude-test-model',
+      system: 'Be brief',
+      messages: [{ role: 'user', content: [{ type: 'text', text: 'Hello' }] }],
+      tools: [{ name: 'lookup', description: 'Look up a word', input_schema: { type: 'object', properties: {} } }],
+      max_tokens: 50,
+      stop_sequences: ['STOP']
+    });
+
+    expect(response).toEqual({
+      content: 'Hi there',
+      tool_calls: [],
+      stop_reason: 'end_turn',
+      usage: { input_tokens: 20, output_tokens: 4 },
+      model: 'claude-test-model'
+    });
+  });
+
+  it('merges tool results into alternating user turns', async () => {
+    await createClient().chat({
+      model: 'claude-test-model',
+      messages: [
+        { role: 'user', content: 'Define two words' },
+        {
+          role: 'assistant',
+          content: 'Looking up',
+          tool_calls: [
+            { id: 'toolu_1', name: 'lookup', arguments: { word: 'bee' } },
+            { id: 'toolu_2', name: 'lookup', arguments: { word: 'wasp' } }
+          ]
+        },
+        { role: 'tool', content: 'an insect', tool_call_id: 'toolu_1' },
+        { role: 'tool', content: 'not found', tool_call_id: 'toolu_2', is_error: true },
+        { role: 'user', content: 'Thanks' }
+      ],
+      max_tokens: 50
+    });
+
+    expect(requests[0].body.messages).toEqual([
+      { role: 'user', content: [{ type: 'text', text: 'Define two words' }] },
+      {
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'Looking up' },
+          { type: 'tool_use', id: 'toolu_1', name: 'lookup', input: { word: 'bee' } },
+          { type: 'tool_use', id: 'toolu_2', name: 'lookup', input: { word: 'wasp' } }
+        ]
+      },
+      {
+        role: 'user',
+        content: [
+          { type: 'tool_result', tool_use_id: 'toolu_1', content: 'an insect' },
+          { type: 'tool_result', tool_use_id: 'toolu_2', content: 'not found', is_error: true },
+          { type: 'text', text: 'Thanks' }
+        ]
+      }
+    ]);
+  });
+
+  it('collects text and tool use blocks of the reply', async () => {
+    reply = {
+      status: 200,
+      body: message([
+        { type: 'text', text: 'Let me ' },
+        { type: 'text', text: 'check.' },
+        { type: 'tool_use', id: 'toolu_9', name: 'lookup', input: { word: 'swarm' } }
+      ], 'tool_use')
+    };
+
+    const response = await createClient().chat({
+      model: 'claude-test-model',
+      messages: [{ role: 'user', content: 'Define swarm' }],
+      max_tokens: 50
+    });
+
+    expect(response.content).toBe('Let me check.');
+    expect(response.stop_reason).toBe('tool_use');
+    expect(response.tool_calls).toEqual([{ id: 'toolu_9', name: 'lookup', arguments: { word: 'swarm' } }]);
+  });
+
+  it('rejects when the API returns an error', async () => {
+    reply = { status: 400, body: { type: 'error', error: { type: 'invalid_request_error', message: 'Bad model' } } };
+
+    await expect(createClient().chat({ model: 'nope', messages: [{ role: 'user', content: 'Go' }], max_tokens: 1 }))
+      .rejects.toThrow('Bad model');
+  });
+});
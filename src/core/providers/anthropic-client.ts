@@ -0,0 +1,143 @@
+import Anthropic from '@anthropic-ai/sdk';
+import {
+  ProviderClient,
+  ProviderClientOptions,
+  ChatRequest,
+  ChatOptions,
+  ChatResponse,
+  ChatMessage,
+  StopReason,
+  ToolCall
+} from './index';
+
+// Content blocks of the messages this client sends
+type ContentBlock = Anthropic.TextBlockParam | Anthropic.ToolUseBlockParam | Anthropic.ToolResultBlockParam;
+
+/**
+ * Provider client for Anthropic's Messages API
+ */
+export class AnthropicClient implements ProviderClient {
+  readonly provider = 'anthropic';
+  private client: Anthropic;
+
+  constructor(options?: ProviderClientOptions) {
+    this.client = new Anthropic({
+      apiKey: options?.apiKey,
+      baseURL: options?.baseURL,
+      defaultHeaders: options?.headers,
+      timeout: options?.timeout,
+      maxRetries: options?.maxRetries
+    });
+  }
+
+  /**
+   * Send a chat request
+   */
+  async chat(request: ChatRequest, options?: ChatOptions): Promise<ChatResponse> {
+    const response = await this.client.messages.create({
+      model: request.model,
+      system: request.system,
+      messages: this.convertMessages(request.messages),
+      tools: request.tools?.length
+        ? request.tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: { ...tool.parameters, type: 'object' as const }
+        }))
+        : undefined,
+      temperature: request.temperature,
+      top_p: request.top_p,
+      max_tokens: request.max_tokens,
+      stop_sequences: request.stop_sequences
+    }, { signal: options?.signal });
+
+    let content = '';
+    const toolCalls: ToolCall[] = [];
+
+    for (const block of response.content) {
+      if (block.type === 'text') {
+        content += block.text;
+      } else if (block.type === 'tool_use') {
+        toolCalls.push({
+          id: block.id,
+          name: block.name,
+          arguments: (block.input || {}) as Record<string, any>
+        });
+      }
+    }
+
+    return {
+      content,
+      tool_calls: toolCalls,
+      stop_reason: this.convertStopReason(response.stop_reason),
+      usage: {
+        input_tokens: response.usage.input_tokens,
+        output_tokens: response.usage.output_tokens
+      },
+      model: response.model
+    };
+  }
+
+  /**
+   * Convert chat messages to Anthropic message params
+   *
+   * Anthropic expects strictly alternating user/assistant turns, with tool
+   * results sent as blocks of a user message, so adjacent messages that map
+   * to the same role are merged.
+   */
+  private convertMessages(messages: ChatMessage[]): Anthropic.MessageParam[] {
+    const result: Array<{ role: 'user' | 'assistant'; content: ContentBlock[] }> = [];
+
+    for (const message of messages) {
+      const role = message.role === 'assistant' ? 'assistant' : 'user';
+      const blocks: ContentBlock[] = [];
+
+      if (message.role === 'tool') {
+        blocks.push({
+          type: 'tool_result',
+          tool_use_id: message.tool_call_id!,
+          content: message.content,
+          is_error: message.is_error || undefined
+        });
+      } else {
+        if (message.content) {
+          blocks.push({ type: 'text', text: message.content });
+        }
+
+        for (const call of message.tool_calls || []) {
+          blocks.push({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments });
+        }
+      }
+
+      if (blocks.length === 0) continue;
+
+      const previous = result[result.length - 1];
+      if (previous && previous.role === role) {
+        previous.content.push(...blocks);
+      } else {
+        result.push({ role, content: blocks });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Map an Anthropic stop reason to a provider-neutral one
+   */
+  private convertStopReason(reason: string | null): StopReason {
+    switch (reason) {
+      case 'tool_use':
+        return 'tool_use';
+
+      case 'max_tokens':
+        return 'max_tokens';
+
+      case 'stop_sequence':
+        return 'stop_sequence';
+
+      default:
+        return 'end_turn';
+    }
+  }
+}
@@ -0,0 +1,108 @@
+// LLM provider clients and interfaces
+
+/**
+ * A message in a chat conversation
+ */
+export interface ChatMessage {
+  role: 'user' | 'assistant' | 'tool';
+  content: string;           // Text content (tool output for role "tool")
+  name?: string;             // Optional speaker name, e.g. the agent that wrote it
+  tool_calls?: ToolCall[];   // Tool calls requested by an assistant message
+  tool_call_id?: string;     // For role "tool": the call this result answers
+  is_error?: boolean;        // For role "tool": whether the tool failed
+}
+
+/**
+ * A tool the model may call
+ */
+export interface ToolDefinition {
+  name: string;              // Tool name as shown to the model
+  description: string;       // What the tool does
+  parameters: {              // JSON schema of the tool input
+    type: string;
+    properties: Record<string, any>;
+    required?: string[];
+  };
+}
+
+/**
+ * A tool call requested by the model
+ */
+export interface ToolCall {
+  id: string;                // Provider-assigned call ID
+  name: string;              // Tool name
+  arguments: Record<string, any>; // Parsed tool input
+}
+
+/**
+ * Why the model stopped generating
+ */
+export type StopReason = 'end_turn' | 'tool_use' | 'max_tokens' | 'stop_sequence';
+
+/**
+ * Token usage of a single model call
+ */
+export interface TokenUsage {
+  input_tokens: number;
+  output_tokens: number;
+}
+
+/**
+ * A single model call
+ */
+export interface ChatRequest {
+  model: string;             // Provider model name
+  system?: string;           // System prompt
+  messages: ChatMessage[];   // Conversation so far
+  tools?: ToolDefinition[];  // Tools the model may call
+  temperature?: number;
+  top_p?: number;
+  max_tokens: number;        // Max tokens to generate
+  stop_sequences?: string[]; // Custom stop sequences
+}
+
+/**
+ * Result of a model call
+ */
+export interface ChatResponse {
+  content: string;           // Text of the reply
+  tool_calls: ToolCall[];    // Tool calls requested by the model
+  stop_reason: StopReason;
+  usage: TokenUsage;
+  model: string;             // Model that produced the reply
+}
+
+/**
+ * Per-call options of a chat request
+ */
+export interface ChatOptions {
+  signal?: AbortSignal;      // Aborts the HTTP request
+}
+
+/**
+ * Client for a single LLM provider
+ */
+export interface ProviderClient {
+  readonly provider: string;
+  chat(request: ChatRequest, options?: ChatOptions): Promise<ChatResponse>;
+}
+
+/**
+ * Connection options for a provider client
+ */
+export interface ProviderClientOptions {
+  apiKey?: string;                  // API key (default: provider environment variable)
+  baseURL?: string;                 // API base URL, e.g. a local stand-in server for tests
+  organization?: string;            // Organization ID (OpenAI)
+  headers?: Record<string, string>; // Extra headers sent with every request
+  timeout?: number;                 // Request timeout in ms
+  maxRetries?: number;              // Max retry attempts
+}
+
+// Export classes from separate files
+export { AnthropicClient } from './anthropic-client';
+export { OpenAIClient } from './openai-client';
+export { OpenAICompatibleClient } from './openai-compatible-client';
+export { MockClient, MockRule, MockScript } from './mock-client';
+export { ProviderRegistry, ProviderFactory, ProviderRegistryOptions, ProviderRegistration } from './provider-registry';
+export { estimateTokens, estimateRequestTokens } from './token-estimator';
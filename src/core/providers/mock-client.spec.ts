@@ -0,0 +1,127 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MockClient } from './mock-client';
+import { ChatRequest } from './index';
+
+/**
+ * Build a request whose last message is a user message
+ */
+function userRequest(content: string, system?: string): ChatRequest {
+  return {
+    model: 'mock-model',
+    system,
+    messages: [{ role: 'user', content }],
+    max_tokens: 100
+  };
+}
+
+describe('MockClient', () => {
+  it('replies with the first rule whose patterns all match', async () => {
+    const client = new MockClient({
+      rules: [
+        { system: 'reviewer', message: 'hello', reply: 'review' },
+        { message: 'hel+o', reply: 'greeting' },
+        { reply: 'fallback' }
+      ]
+    });
+
+    expect((await client.chat(userRequest('hello there', 'You are a writer'))).content).toBe('greeting');
+    expect((await client.chat(userRequest('hello', 'You are a reviewer'))).content).toBe('review');
+    expect((await client.chat(userRequest('bye'))).content).toBe('fallback');
+  });
+
+  it('matches the role of the last message', async () => {
+    const client = new MockClient({
+      rules: [
+        { role: 'tool', reply: 'got the result' },
+        { reply: 'calling' }
+      ]
+    });
+
+    const request = userRequest('go');
+    expect((await client.chat(request)).content).toBe('calling');
+
+    request.messages.push({ role: 'tool', content: '42', tool_call_id: 'call_1' });
+    expect((await client.chat(request)).content).toBe('got the result');
+  });
+
+  it('stops using a rule after its times run out', async () => {
+    const client = new MockClient({
+      rules: [{ reply: 'once', times: 1 }],
+      default_reply: 'default'
+    });
+
+    expect((await client.chat(userRequest('a'))).content).toBe('once');
+    expect((await client.chat(userRequest('a'))).content).toBe('default');
+  });
+
+  it('echoes the last message when no rule matches and there is no default reply', async () => {
+    const client = new MockClient();
+
+    expect((await client.chat(userRequest('ping'))).content).toBe('Mock response to: ping');
+  });
+
+  it('emits tool calls with a tool_use stop reason unless the rule overrides it', async () => {
+    const client = new MockClient({
+      rules: [
+        { message: 'search', tool_calls: [{ name: 'search', arguments: { query: 'x' } }] },
+        { message: 'cut', reply: 'cut off', stop_reason: 'max_tokens' }
+      ]
+    });
+
+    const search = await client.chat(userRequest('search'));
+    expect(search.stop_reason).toBe('tool_use');
+    expect(search.tool_calls).toEqual([{ id: 'mock_call_1', name: 'search', arguments: { query: 'x' } }]);
+
+    const cut = await client.chat(userRequest('cut'));
+    expect(cut.stop_reason).toBe('max_tokens');
+    expect(cut.tool_calls).toEqual([]);
+  });
+
+  it('reports the same usage for the same conversation', async () => {
+    const first = await new MockClient({ rules: [{ reply: 'abcdefgh' }] }).chat(userRequest('12345678', 'sys'));
+    const second = await new MockClient({ rules: [{ reply: 'abcdefgh' }] }).chat(userRequest('12345678', 'sys'));
+
+    expect(first.usage).toEqual(second.usage);
+    // "sys" + "user12345678" is 15 characters, "abcdefgh" + "[]" is 10
+    expect(first.usage).toEqual({ input_tokens: 5, output_tokens: 3 });
+    expect(first.model).toBe('mock-model');
+  });
+
+  it('rejects with the signal reason when aborted during a delay', async () => {
+    const client = new MockClient({ rules: [{ reply: 'late', delay_ms: 10000 }] });
+    const controller = new AbortController();
+
+    const reply = client.chat(userRequest('wait'), { signal: controller.signal });
+    controller.abort(new Error('stopped'));
+
+    await expect(reply).rejects.toThrow('stopped');
+  });
+
+  describe('fromFile', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mock-client-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('loads a YAML script', async () => {
+      const file = path.join(dir, 'script.yaml');
+      fs.writeFileSync(file, 'rules:\n  - message: hi\n    reply: from yaml\n');
+
+      expect((await MockClient.fromFile(file).chat(userRequest('hi'))).content).toBe('from yaml');
+    });
+
+    it('rejects a script without a rules list', () => {
+      const file = path.join(dir, 'script.json');
+      fs.writeFileSync(file, '{"default_reply": "x"}');
+
+      expect(() => MockClient.fromFile(file)).toThrow('must contain a "rules" list');
+    });
+  });
+});
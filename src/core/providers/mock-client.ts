@@ -0,0 +1,198 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import YAML from 'yaml';
+import {
+  ProviderClient,
+  ChatRequest,
+  ChatOptions,
+  ChatResponse,
+  ChatMessage,
+  StopReason,
+  ToolCall
+} from './index';
+
+/**
+ * A scripted reply of the mock provider
+ *
+ * A rule matches when every pattern it sets matches; patterns are regular
+ * expressions. The first matching rule with uses left produces the reply.
+ */
+export interface MockRule {
+  system?: string;           // Pattern for the system prompt
+  message?: string;          // Pattern for the content of the last message
+  role?: 'user' | 'assistant' | 'tool'; // Required role of the last message
+  reply?: string;            // Text to reply with
+  tool_calls?: Array<{       // Tool calls to emit instead of (or with) the text
+    name: string;
+    arguments?: Record<string, any>;
+  }>;
+  stop_reason?: StopReason;  // Override the stop reason
+  times?: number;            // Use the rule at most this many times
+  delay_ms?: number;         // Wait this long before replying, e.g. to exercise timeouts
+}
+
+/**
+ * Script for the mock provider
+ */
+export interface MockScript {
+  rules: MockRule[];
+  default_reply?: string;    // Reply when no rule matches (default: echo the last message)
+}
+
+/**
+ * Deterministic provider client for offline tests
+ *
+ * Replies come from a rule table instead of a model. Token usage is derived
+ * from text length (one token per four characters), so the same conversation
+ * always reports the same usage and cost.
+ *
+ * Select it with `provider: "mock"` and either
+ * `provider_options.script` (path to a YAML or JSON script file) or
+ * `provider_options.rules` (an inline rule table).
+ */
+export class MockClient implements ProviderClient {
+  readonly provider = 'mock';
+  private script: MockScript;
+  private uses: number[];
+  private callCount: number;
+
+  constructor(script?: MockScript) {
+    this.script = script || { rules: [] };
+    this.uses = this.script.rules.map(() => 0);
+    this.callCount = 0;
+  }
+
+  /**
+   * Create a mock client from a YAML or JSON script file
+   */
+  static fromFile(filePath: string): MockClient {
+    const text = fs.readFileSync(filePath, 'utf8');
+    const extension = path.extname(filePath).toLowerCase();
+    const script = extension === '.json' ? JSON.parse(text) : YAML.parse(text);
+
+    if (!script || !Array.isArray(script.rules)) {
+      throw new Error(`Mock script ${filePath} must contain a "rules" list`);
+    }
+
+    return new MockClient(script);
+  }
+
+  /**
+   * Create a mock client from a preset's provider_options
+   */
+  static fromOptions(options?: Record<string, any>): MockClient {
+    if (options?.script) {
+      return MockClient.fromFile(options.script);
+    }
+
+    return new MockClient({
+      rules: options?.rules || [],
+      default_reply: options?.default_reply
+    });
+  }
+
+  /**
+   * Answer a chat request from the script
+   */
+  async chat(request: ChatRequest, options?: ChatOptions): Promise<ChatResponse> {
+    const last = request.messages[request.messages.length - 1];
+    const rule = this.findRule(request.system || '', last);
+
+    if (rule?.delay_ms) {
+      await delay(rule.delay_ms, options?.signal);
+    }
+
+    let content: string;
+    let toolCalls: ToolCall[] = [];
+    let stopReason: StopReason = 'end_turn';
+
+    if (rule) {
+      content = rule.reply || '';
+      toolCalls = (rule.tool_calls || []).map(call => ({
+        id: `mock_call_${++this.callCount}`,
+        name: call.name,
+        arguments: call.arguments || {}
+      }));
+
+      if (toolCalls.length > 0) {
+        stopReason = 'tool_use';
+      }
+      if (rule.stop_reason) {
+        stopReason = rule.stop_reason;
+      }
+    } else {
+      content = this.script.default_reply ?? `Mock response to: ${last?.content || ''}`;
+    }
+
+    return {
+      content,
+      tool_calls: toolCalls,
+      stop_reason: stopReason,
+      usage: {
+        input_tokens: countTokens(
+          (request.system || '') +
+          request.messages.map(message => serializeMessage(message)).join('') +
+          JSON.stringify(request.tools || [])
+        ),
+        output_tokens: countTokens(content + JSON.stringify(toolCalls.map(call => [call.name, call.arguments])))
+      },
+      model: request.model
+    };
+  }
+
+  /**
+   * Find the first matching rule that still has uses left
+   */
+  private findRule(system: string, last: ChatMessage | undefined): MockRule | null {
+    for (let i = 0; i < this.script.rules.length; i++) {
+      const rule = this.script.rules[i];
+
+      if (rule.times !== undefined && this.uses[i] >= rule.times) continue;
+      if (rule.role && last?.role !== rule.role) continue;
+      if (rule.system && !new RegExp(rule.system).test(system)) continue;
+      if (rule.message && !new RegExp(rule.message).test(last?.content || '')) continue;
+
+      this.uses[i]++;
+      return rule;
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Deterministic token estimate: one token per four characters
+ */
+function countTokens(text: string): number {
+  return Math.max(1, Math.ceil(text.length / 4));
+}
+
+/**
+ * Flatten a message for token counting
+ */
+function serializeMessage(message: ChatMessage): string {
+  return message.role + message.content + (message.tool_calls ? JSON.stringify(message.tool_calls) : '');
+}
+
+/**
+ * Wait for a number of milliseconds, rejecting early if the signal aborts
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
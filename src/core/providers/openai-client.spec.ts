@@ -0,0 +1,150 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { OpenAIClient } from './openai-client';
+
+describe('OpenAIClient', () => {
+  let server: http.Server;
+  let baseURL: string;
+  let requests: Array<{ path: string; body: any }>;
+  let reply: { status: number; body: any };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        requests.push({ path: req.url || '', body: JSON.parse(body || '{}') });
+        res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    reply = { status: 200, body: completion({ role: 'assistant', content: 'Hi there' }, 'stop') };
+  });
+
+  /**
+   * Build a chat completion with one choice
+   */
+  function completion(message: any, finishReason: string): any {
+    return {
+      id: 'chatcmpl-1',
+      object: 'chat.completion',
+      created: 0,
+      model: 'gpt-4o-mini-2024-07-18',
+      choices: [{ index: 0, message, finish_reason: finishReason }],
+      usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 }
+    };
+  }
+
+  /**
+   * Create a client talking to the local server
+   */
+  function createClient(): OpenAIClient {
+    return new OpenAIClient({ apiKey: 'test-key', baseURL, maxRetries: 0 });
+  }
+
+  it('sends the system prompt, messages and tools and maps the reply', async () => {
+    const response = await createClient().chat({
+      model: 'gpt-4o-mini',
+      system: 'Be brief',
+      messages: [{ role: 'user', content: 'Hello' }],
+      tools: [{ name: 'lookup', description: 'Look up a word', parameters: { type: 'object', properties: {} } }],
+      temperature: 0.2,
+      max_tokens: 50
+    });
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].path).toBe('/v1/chat/completions');
+    expect(requests[0].body).toMatchObject({
+      model: 'gpt-4o-mini',
+      messages: [{ role: 'system', content: 'Be brief' }, { role: 'user', content: 'Hello' }],
+      tools: [{ type: 'function', function: { name: 'lookup', description: 'Look up a word' } }],
+      temperature: 0.2,
+      max_tokens: 50
+    });
+
+    expect(response).toEqual({
+      content: 'Hi there',
+      tool_calls: [],
+      stop_reason: 'end_turn',
+      usage: { input_tokens: 12, output_tokens: 3 },
+      model: 'gpt-4o-mini-2024-07-18'
+    });
+  });
+
+  it('sends max_completion_tokens and no sampling parameters to reasoning models', async () => {
+    await createClient().chat({
+      model: 'o3',
+      messages: [{ role: 'user', content: 'Think' }],
+      temperature: 0.2,
+      max_tokens: 500
+    });
+
+    expect(requests[0].body.max_completion_tokens).toBe(500);
+    expect(requests[0].body).not.toHaveProperty('max_tokens');
+    expect(requests[0].body).not.toHaveProperty('temperature');
+  });
+
+  it('round-trips tool calls and tool results', async () => {
+    reply = {
+      status: 200,
+      body: completion({
+        role: 'assistant',
+        content: null,
+        tool_calls: [
+          { id: 'call_1', type: 'function', function: { name: 'lookup', arguments: '{"word":"swarm"}' } },
+          { id: 'call_2', type: 'function', function: { name: 'lookup', arguments: 'not json' } }
+        ]
+      }, 'tool_calls')
+    };
+
+    const response = await createClient().chat({
+      model: 'gpt-4o-mini',
+      messages: [
+        { role: 'user', content: 'Define swarm' },
+        { role: 'assistant', content: '', tool_calls: [{ id: 'call_0', name: 'lookup', arguments: { word: 'bee' } }] },
+        { role: 'tool', content: 'an insect', tool_call_id: 'call_0' }
+      ],
+      max_tokens: 50
+    });
+
+    expect(requests[0].body.messages.slice(1)).toEqual([
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [{ id: 'call_0', type: 'function', function: { name: 'lookup', arguments: '{"word":"bee"}' } }]
+      },
+      { role: 'tool', tool_call_id: 'call_0', content: 'an insect' }
+    ]);
+
+    expect(response.stop_reason).toBe('tool_use');
+    expect(response.tool_calls).toEqual([
+      { id: 'call_1', name: 'lookup', arguments: { word: 'swarm' } },
+      { id: 'call_2', name: 'lookup', arguments: {} }
+    ]);
+  });
+
+  it('maps a length finish reason to max_tokens', async () => {
+    reply = { status: 200, body: completion({ role: 'assistant', content: 'Cut' }, 'length') };
+
+    const response = await createClient().chat({ model: 'gpt-4o-mini', messages: [{ role: 'user', content: 'Go' }], max_tokens: 1 });
+
+    expect(response.stop_reason).toBe('max_tokens');
+  });
+
+  it('rejects when the API returns an error', async () => {
+    reply = { status: 400, body: { error: { message: 'Bad model', type: 'invalid_request_error' } } };
+
+    await expect(createClient().chat({ model: 'nope', messages: [{ role: 'user', content: 'Go' }], max_tokens: 1 }))
+      .rejects.toThrow('Bad model');
+  });
+});
@@ -0,0 +1,162 @@
+import OpenAI from 'openai';
+import {
+  ProviderClient,
+  ProviderClientOptions,
+  ChatRequest,
+  ChatOptions,
+  ChatResponse,
+  ChatMessage,
+  StopReason,
+  ToolCall
+} from './index';
+import { getModelInfo } from '../models/model-catalog';
+
+/**
+ * Provider client for OpenAI's Chat Completions API
+ */
+export class OpenAIClient implements ProviderClient {
+  readonly provider: string = 'openai';
+  protected client: OpenAI;
+
+  constructor(options?: ProviderClientOptions) {
+    this.client = new OpenAI({
+      apiKey: options?.apiKey,
+      baseURL: options?.baseURL,
+      organization: options?.organization,
+      defaultHeaders: options?.headers,
+      timeout: options?.timeout,
+      maxRetries: options?.maxRetries
+    });
+  }
+
+  /**
+   * Send a chat request
+   */
+  async chat(request: ChatRequest, options?: ChatOptions): Promise<ChatResponse> {
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
+
+    if (request.system) {
+      messages.push({ role: 'system', content: request.system });
+    }
+    messages.push(...request.messages.map(message => this.convertMessage(message)));
+
+    // Reasoning models take max_completion_tokens and no sampling parameters
+    const reasoning = this.isReasoningModel(request.model);
+
+    const completion = await this.client.chat.completions.create({
+      model: request.model,
+      messages,
+      tools: request.tools?.length
+        ? request.tools.map(tool => ({
+          type: 'function' as const,
+          function: {
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.parameters
+          }
+        }))
+        : undefined,
+      temperature: reasoning ? undefined : request.temperature,
+      top_p: reasoning ? undefined : request.top_p,
+      max_tokens: reasoning ? undefined : request.max_tokens,
+      max_completion_tokens: reasoning ? request.max_tokens : undefined,
+      stop: request.stop_sequences
+    }, { signal: options?.signal });
+
+    const choice = completion.choices[0];
+    if (!choice) {
+      throw new Error(`${this.provider} returned no choices for model ${request.model}`);
+    }
+
+    const toolCalls: ToolCall[] = (choice.message.tool_calls || [])
+      .filter(call => call.type === 'function')
+      .map(call => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: parseArguments(call.function.arguments)
+      }));
+
+    return {
+      content: choice.message.content || '',
+      tool_calls: toolCalls,
+      stop_reason: this.convertStopReason(choice.finish_reason),
+      usage: {
+        input_tokens: completion.usage?.prompt_tokens || 0,
+        output_tokens: completion.usage?.completion_tokens || 0
+      },
+      model: completion.model
+    };
+  }
+
+  /**
+   * Check whether a model is a reasoning model
+   */
+  protected isReasoningModel(model: string): boolean {
+    return getModelInfo('openai', model)?.features.includes('reasoning') || false;
+  }
+
+  /**
+   * Convert a chat message to an OpenAI message param
+   */
+  private convertMessage(message: ChatMessage): OpenAI.Chat.ChatCompletionMessageParam {
+    switch (message.role) {
+      case 'tool':
+        return {
+          role: 'tool',
+          tool_call_id: message.tool_call_id || '',
+          content: message.content
+        };
+
+      case 'assistant':
+        return {
+          role: 'assistant',
+          content: message.content || null,
+          tool_calls: message.tool_calls?.length
+            ? message.tool_calls.map(call => ({
+              id: call.id,
+              type: 'function' as const,
+              function: {
+                name: call.name,
+                arguments: JSON.stringify(call.arguments)
+              }
+            }))
+            : undefined
+        };
+
+      default:
+        return {
+          role: 'user',
+          content: message.content
+        };
+    }
+  }
+
+  /**
+   * Map an OpenAI finish reason to a provider-neutral stop reason
+   */
+  private convertStopReason(reason: string | null): StopReason {
+    switch (reason) {
+      case 'tool_calls':
+      case 'function_call':
+        return 'tool_use';
+
+      case 'length':
+        return 'max_tokens';
+
+      default:
+        return 'end_turn';
+    }
+  }
+}
+
+/**
+ * Parse tool call arguments, tolerating malformed JSON from the model
+ */
+function parseArguments(json: string): Record<string, any> {
+  try {
+    const parsed = JSON.parse(json || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (error) {
+    return {};
+  }
+}
@@ -0,0 +1,51 @@
+import { ModelPreset } from '../models';
+import { getPresetCapabilities } from '../models/model-catalog';
+import { ProviderClientOptions, ChatRequest, ChatOptions, ChatResponse } from './index';
+import { OpenAIClient } from './openai-client';
+
+/**
+ * Provider client for self-hosted OpenAI-compatible servers
+ * (vLLM, llama.cpp server, Ollama and similar)
+ *
+ * The endpoint and extra headers come from the preset's `base_url` and
+ * `headers`. Tools are only sent when the preset declares tool calling.
+ */
+export class OpenAICompatibleClient extends OpenAIClient {
+  readonly provider: string = 'openai-compatible';
+  private toolCalling: boolean;
+
+  constructor(preset: ModelPreset, options?: ProviderClientOptions) {
+    const baseURL = options?.baseURL || preset.base_url;
+    if (!baseURL) {
+      throw new Error(`Preset ${preset.id}: base_url is required for openai-compatible presets`);
+    }
+
+    super({
+      ...options,
+      baseURL,
+      // Most self-hosted servers ignore the key, but the SDK requires one
+      apiKey: options?.apiKey || process.env.OPENAI_COMPATIBLE_API_KEY || 'not-needed',
+      headers: { ...preset.headers, ...options?.headers }
+    });
+
+    this.toolCalling = getPresetCapabilities(preset).tool_calling;
+  }
+
+  /**
+   * Send a chat request, dropping tools the model cannot call
+   */
+  async chat(request: ChatRequest, options?: ChatOptions): Promise<ChatResponse> {
+    if (!this.toolCalling && request.tools?.length) {
+      request = { ...request, tools: undefined };
+    }
+
+    return super.chat(request, options);
+  }
+
+  /**
+   * Self-hosted models take the classic sampling parameters
+   */
+  protected isReasoningModel(model: string): boolean {
+    return false;
+  }
+}
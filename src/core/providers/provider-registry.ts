@@ -0,0 +1,141 @@
+import { ModelPreset, ProviderConfig } from '../models';
+import { ProviderClient, ProviderClientOptions } from './index';
+import { AnthropicClient } from './anthropic-client';
+import { OpenAIClient } from './openai-client';
+import { OpenAICompatibleClient } from './openai-compatible-client';
+import { MockClient } from './mock-client';
+
+/**
+ * Creates a provider client for a model preset
+ */
+export type ProviderFactory = (preset: ModelPreset, options: ProviderClientOptions) => ProviderClient;
+
+/**
+ * How a provider's clients are shared
+ */
+export interface ProviderRegistration {
+  perSession?: boolean;      // Give every session its own client, for clients with state such as MockClient
+}
+
+export interface ProviderRegistryOptions {
+  providers?: ProviderConfig[];                          // API connection settings per provider
+  clientOptions?: Record<string, ProviderClientOptions>; // Per-provider overrides, e.g. a test baseURL
+}
+
+/**
+ * Maps the `provider` field of a model preset to a provider client
+ *
+ * Clients are created on first use and shared by every agent using the same
+ * preset. Clients of per-session providers are shared within a session only,
+ * so one session's calls cannot change what another is answered.
+ */
+export class ProviderRegistry {
+  private factories: Map<string, ProviderFactory>;
+  private perSession: Set<string>;
+  private clients: Map<string, ProviderClient>;
+  private configs: Map<string, ProviderConfig>;
+  private clientOptions: Record<string, ProviderClientOptions>;
+
+  constructor(options?: ProviderRegistryOptions) {
+    this.factories = new Map();
+    this.perSession = new Set();
+    this.clients = new Map();
+    this.configs = new Map();
+    this.clientOptions = options?.clientOptions || {};
+
+    for (const config of options?.providers || []) {
+      this.configs.set(config.provider, config);
+    }
+
+    this.registerProvider('anthropic', (preset, clientOptions) => new AnthropicClient(clientOptions));
+    this.registerProvider('openai', (preset, clientOptions) => new OpenAIClient(clientOptions));
+    this.registerProvider('openai-compatible', (preset, clientOptions) => new OpenAICompatibleClient(preset, clientOptions));
+    this.registerProvider('mock', preset => MockClient.fromOptions(preset.provider_options), { perSession: true });
+  }
+
+  /**
+   * Register a provider, replacing any existing one with the same name
+   */
+  registerProvider(provider: string, factory: ProviderFactory, registration?: ProviderRegistration): void {
+    this.factories.set(provider, factory);
+    if (registration?.perSession) {
+      this.perSession.add(provider);
+    } else {
+      this.perSession.delete(provider);
+    }
+
+    // Drop cached clients so the new factory takes effect
+    for (const key of Array.from(this.clients.keys())) {
+      if (key.startsWith(`${provider}\u0000`)) {
+        this.clients.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Check whether a provider is registered
+   */
+  hasProvider(provider: string): boolean {
+    return this.factories.has(provider);
+  }
+
+  /**
+   * List registered provider names
+   */
+  listProviders(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  /**
+   * Get the client for a model preset, as used by a session
+   *
+   * `sessionId` only matters for per-session providers; without it they get
+   * a client shared by all callers that name no session.
+   */
+  getClient(preset: ModelPreset, sessionId?: string): ProviderClient {
+    const scope = this.perSession.has(preset.provider) ? `\u0000${sessionId ?? ''}` : '';
+    const key = `${preset.provider}\u0000${preset.id}${scope}`;
+
+    let client = this.clients.get(key);
+    if (!client) {
+      const factory = this.factories.get(preset.provider);
+      if (!factory) {
+        throw new Error(`Unsupported provider: ${preset.provider}`);
+      }
+
+      client = factory(preset, this.getClientOptions(preset.provider));
+      this.clients.set(key, client);
+    }
+
+    return client;
+  }
+
+  /**
+   * Drop the per-session clients of a session once it has ended
+   */
+  endSession(sessionId: string): void {
+    for (const key of Array.from(this.clients.keys())) {
+      const [provider, , scope] = key.split('\u0000');
+      if (this.perSession.has(provider) && scope === sessionId) {
+        this.clients.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Build client options from the provider config and overrides
+   */
+  private getClientOptions(provider: string): ProviderClientOptions {
+    const config = this.configs.get(provider);
+
+    if (config && !config.enabled) {
+      throw new Error(`Provider is disabled: ${provider}`);
+    }
+
+    return {
+      apiKey: config?.api_key,
+      organization: config?.organization_id,
+      ...this.clientOptions[provider]
+    };
+  }
+}
@@ -0,0 +1,75 @@
+import { ChatMessage, ChatRequest, ToolDefinition } from './index';
+
+/**
+ * Average characters per token and fixed per-message overhead
+ * of each provider's tokenizer
+ */
+interface TokenizerProfile {
+  charsPerToken: number;
+  messageOverhead: number;   // Tokens added per message for role markers
+  requestOverhead: number;   // Tokens added once per request
+}
+
+const PROFILES: Record<string, TokenizerProfile> = {
+  // Claude tokenizers produce slightly more tokens per character than tiktoken
+  anthropic: { charsPerToken: 3.5, messageOverhead: 4, requestOverhead: 8 },
+  // cl100k / o200k: ~4 characters per token, 3 tokens per message, 3 to prime the reply
+  openai: { charsPerToken: 4, messageOverhead: 3, requestOverhead: 3 },
+  'openai-compatible': { charsPerToken: 4, messageOverhead: 3, requestOverhead: 3 },
+  // Same characters per token as MockClient, which reports usage of the whole serialized request, so estimates are close but not exact
+  mock: { charsPerToken: 4, messageOverhead: 0, requestOverhead: 0 }
+};
+
+/**
+ * Estimate the number of tokens in a piece of text
+ *
+ * This is a heuristic for pre-call budgeting; recorded costs always use
+ * the usage reported by the provider.
+ */
+export function estimateTokens(provider: string, text: string): number {
+  const profile = PROFILES[provider] || PROFILES.openai;
+  return Math.ceil(text.length / profile.charsPerToken);
+}
+
+/**
+ * Estimate the input tokens of a chat request before sending it
+ */
+export function estimateRequestTokens(provider: string, request: ChatRequest): number {
+  const profile = PROFILES[provider] || PROFILES.openai;
+
+  let tokens = profile.requestOverhead;
+
+  if (request.system) {
+    tokens += estimateTokens(provider, request.system) + profile.messageOverhead;
+  }
+
+  for (const message of request.messages) {
+    tokens += estimateTokens(provider, serializeMessage(message)) + profile.messageOverhead;
+  }
+
+  if (request.tools?.length) {
+    tokens += estimateTokens(provider, serializeTools(request.tools));
+  }
+
+  return Math.max(1, tokens);
+}
+
+/**
+ * Flatten a message to the text the tokenizer sees
+ */
+function serializeMessage(message: ChatMessage): string {
+  let text = message.content;
+
+  if (message.tool_calls?.length) {
+    text += JSON.stringify(message.tool_calls.map(call => [call.name, call.arguments]));
+  }
+
+  return text;
+}
+
+/**
+ * Flatten tool definitions to the text the tokenizer sees
+ */
+function serializeTools(tools: ToolDefinition[]): string {
+  return JSON.stringify(tools);
+}
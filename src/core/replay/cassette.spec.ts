@@ -0,0 +1,173 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ServiceSpec } from '../models';
+import { SwarmOrchestrator } from '../orchestrator/swarm-orchestrator';
+import { SwarmEvent } from '../orchestrator';
+import { CassetteFile, ReplayMismatch } from './index';
+import { Cassette, ReplayMismatchError } from './cassette';
+
+/**
+ * Build a router spec of one agent on the mock preset "scripted"
+ */
+function createSpec(): ServiceSpec {
+  return {
+    id: 'support',
+    name: 'Support',
+    agents: [{ id: 'helper', name: 'Helper', role: 'Helps', tools: [], model_preset_id: 'scripted' }],
+    orchestration: { type: 'langchain', config: {} },
+    created_at: 1,
+    updated_at: 1
+  };
+}
+
+describe('Cassette', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cassette-'));
+    file = path.join(dir, 'run.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Open a cassette on the test file
+   */
+  async function openCassette(mode: 'record' | 'replay', strict?: boolean): Promise<Cassette> {
+    const cassette = new Cassette(file, { mode, strict });
+    await cassette.open();
+    return cassette;
+  }
+
+  /**
+   * Record two answered calls and one that fails
+   */
+  async function record(): Promise<void> {
+    const cassette = await openCassette('record');
+
+    await cassette.exchange('llm', 'openai', { prompt: 'first', extra: undefined }, async () => ({ text: 'one' }));
+    await cassette.exchange('llm', 'openai', { prompt: 'second' }, async () => ({ text: 'two' }));
+    await expect(cassette.exchange('tool', 'ws://fs', { tool: 'read' }, async () => {
+      const error = new Error('No such file');
+      error.name = 'NotFoundError';
+      throw error;
+    })).rejects.toThrow('No such file');
+  }
+
+  it('writes each exchange to the file as it completes', async () => {
+    await record();
+
+    const stored: CassetteFile = JSON.parse(fs.readFileSync(file, 'utf8'));
+    expect(stored.version).toBe(1);
+    expect(stored.interactions).toEqual([
+      { kind: 'llm', target: 'openai', request: { prompt: 'first' }, response: { text: 'one' } },
+      { kind: 'llm', target: 'openai', request: { prompt: 'second' }, response: { text: 'two' } },
+      { kind: 'tool', target: 'ws://fs', request: { tool: 'read' }, error: { name: 'NotFoundError', message: 'No such file' } }
+    ]);
+  });
+
+  it('replays the recording of each request without sending it', async () => {
+    await record();
+    const cassette = await openCassette('replay');
+    const send = jest.fn();
+
+    expect(await cassette.exchange('llm', 'openai', { prompt: 'second' }, send)).toEqual({ text: 'two' });
+    const first = await cassette.exchange<{ text: string }>('llm', 'openai', { prompt: 'first' }, send);
+    first.text = 'changed';
+    await expect(cassette.exchange('tool', 'ws://fs', { tool: 'read' }, send))
+      .rejects.toMatchObject({ name: 'NotFoundError', message: 'No such file' });
+
+    expect(send).not.toHaveBeenCalled();
+    expect(cassette.getMismatches()).toEqual([]);
+    expect(cassette.getUnplayedCount()).toBe(0);
+    expect(JSON.parse(fs.readFileSync(file, 'utf8')).interactions[0].response).toEqual({ text: 'one' });
+  });
+
+  it('serves the next recording of a changed request and reports where it differs', async () => {
+    await record();
+    const cassette = await openCassette('replay');
+    const mismatches: ReplayMismatch[] = [];
+    cassette.on('mismatch', mismatch => mismatches.push(mismatch));
+
+    expect(await cassette.exchange('llm', 'openai', { prompt: 'edited', stream: true }, jest.fn())).toEqual({ text: 'one' });
+
+    expect(mismatches).toEqual([{
+      kind: 'llm',
+      target: 'openai',
+      index: 0,
+      expected: { prompt: 'first' },
+      actual: { prompt: 'edited', stream: true },
+      differences: ['$.prompt', '$.stream']
+    }]);
+    expect(cassette.getMismatches()).toEqual(mismatches);
+    expect(cassette.getUnplayedCount()).toBe(2);
+  });
+
+  it('throws on a changed request in strict mode and when no recording is left', async () => {
+    await record();
+    const strict = await openCassette('replay', true);
+    const lenient = await openCassette('replay');
+
+    await expect(strict.exchange('llm', 'openai', { prompt: 'edited' }, jest.fn()))
+      .rejects.toThrow('Replayed llm request to openai does not match recording #0: differs at $.prompt');
+    await expect(lenient.exchange('llm', 'anthropic', { prompt: 'first' }, jest.fn()))
+      .rejects.toThrow(ReplayMismatchError);
+    await expect(lenient.exchange('llm', 'anthropic', { prompt: 'first' }, jest.fn()))
+      .rejects.toThrow('No recorded llm exchange with anthropic is left to replay');
+  });
+
+  it('refuses a missing or newer cassette and exchanges before opening', async () => {
+    await expect(openCassette('replay')).rejects.toThrow(`Cassette not found: ${file}`);
+
+    fs.writeFileSync(file, JSON.stringify({ version: 2, recorded_at: 1, interactions: [] }));
+    await expect(openCassette('replay')).rejects.toThrow(`Unsupported cassette version 2 in ${file}`);
+
+    await expect(new Cassette(file, { mode: 'record' }).exchange('llm', 'openai', {}, jest.fn()))
+      .rejects.toThrow('Cassette is not open');
+  });
+
+  describe('swarm runs', () => {
+    /**
+     * Run one message through a swarm whose agent gives `reply`, with a cassette
+     */
+    async function runSwarm(cassette: Cassette, reply: string, message: string): Promise<[string, ReplayMismatch[]]> {
+      fs.writeFileSync(path.join(dir, 'presets.json'), JSON.stringify({
+        presets: [{ id: 'scripted', extends: 'mock', provider_options: { rules: [{ reply }] } }]
+      }));
+
+      const orchestrator = new SwarmOrchestrator(createSpec(), { dataDir: dir, cassette });
+      const mismatches: ReplayMismatch[] = [];
+      orchestrator.on(SwarmEvent.REPLAY_MISMATCH, (mismatch: ReplayMismatch) => mismatches.push(mismatch));
+
+      await orchestrator.start();
+      try {
+        return [await orchestrator.sendMessage(message), mismatches];
+      } finally {
+        await orchestrator.stop();
+      }
+    }
+
+    it('replays a recorded run instead of calling the model', async () => {
+      await runSwarm(new Cassette(file, { mode: 'record' }), 'Recorded answer', 'Hello');
+
+      const [response, mismatches] = await runSwarm(new Cassette(file, { mode: 'replay' }), 'Live answer', 'Hello');
+
+      expect(response).toBe('Recorded answer');
+      expect(mismatches).toEqual([]);
+    });
+
+    it('reports a replayed run whose prompt changed', async () => {
+      await runSwarm(new Cassette(file, { mode: 'record' }), 'Recorded answer', 'Hello');
+
+      const [response, mismatches] = await runSwarm(new Cassette(file, { mode: 'replay' }), 'Live answer', 'Goodbye');
+
+      expect(response).toBe('Recorded answer');
+      expect(mismatches).toEqual([expect.objectContaining({ kind: 'llm', target: 'mock', index: 0 })]);
+      expect(mismatches[0].differences).toContain('$.messages[0].content');
+    });
+  });
+});
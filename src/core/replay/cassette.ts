@@ -0,0 +1,255 @@
+import { EventEmitter } from 'events';
+import { isDeepStrictEqual } from 'util';
+import { readJsonFile, writeJsonFile } from '../storage';
+import {
+  CassetteMode,
+  CassetteOptions,
+  CassetteFile,
+  CassetteInteraction,
+  InteractionKind,
+  ReplayMismatch
+} from './index';
+
+const CASSETTE_VERSION = 1;
+
+// Differences listed per mismatch, so a large prompt change stays readable
+const MAX_DIFFERENCES = 20;
+
+/**
+ * Thrown when a replayed request has no matching recording
+ */
+export class ReplayMismatchError extends Error {
+  readonly mismatch: ReplayMismatch;
+
+  constructor(mismatch: ReplayMismatch) {
+    const where = mismatch.differences.length > 0 ? `: differs at ${mismatch.differences.join(', ')}` : '';
+    super(mismatch.index < 0
+      ? `No recorded ${mismatch.kind} exchange with ${mismatch.target} is left to replay`
+      : `Replayed ${mismatch.kind} request to ${mismatch.target} does not match recording #${mismatch.index}${where}`);
+    this.name = 'ReplayMismatchError';
+    this.mismatch = mismatch;
+  }
+}
+
+/**
+ * A file of provider and MCP exchanges, recorded from one run and served to another
+ *
+ * In record mode every exchange passed to exchange() is made and appended
+ * to the file as it completes. In replay mode nothing is sent: each request
+ * is answered with the first unplayed recording of the same request, or else
+ * the next unplayed recording of its kind and target, which is reported as a
+ * mismatch with a "mismatch" event. Strict replay throws a
+ * ReplayMismatchError instead.
+ */
+export class Cassette extends EventEmitter {
+  private filePath: string;
+  private mode: CassetteMode;
+  private strict: boolean;
+  private recordedAt: number;
+  private interactions: CassetteInteraction[];
+  private played: boolean[];
+  private mismatches: ReplayMismatch[];
+  private opened: boolean;
+  private writeQueue: Promise<void>;
+
+  constructor(filePath: string, options: CassetteOptions) {
+    super();
+
+    this.filePath = filePath;
+    this.mode = options.mode;
+    this.strict = options.strict ?? false;
+    this.recordedAt = 0;
+    this.interactions = [];
+    this.played = [];
+    this.mismatches = [];
+    this.opened = false;
+    this.writeQueue = Promise.resolve();
+  }
+
+  /**
+   * Get the cassette's mode
+   */
+  getMode(): CassetteMode {
+    return this.mode;
+  }
+
+  /**
+   * Check whether exchanges are served from the recording
+   */
+  isReplaying(): boolean {
+    return this.mode === 'replay';
+  }
+
+  /**
+   * Load the recording to replay, or start a new one
+   *
+   * Recording replaces the file's contents. Opening again has no effect.
+   */
+  async open(): Promise<void> {
+    if (this.opened) return;
+
+    if (this.mode === 'replay') {
+      const file = await readJsonFile<CassetteFile>(this.filePath);
+      if (!file) {
+        throw new Error(`Cassette not found: ${this.filePath}`);
+      }
+      if (file.version !== CASSETTE_VERSION) {
+        throw new Error(`Unsupported cassette version ${file.version} in ${this.filePath}`);
+      }
+
+      this.recordedAt = file.recorded_at;
+      this.interactions = file.interactions;
+      this.played = file.interactions.map(() => false);
+    } else {
+      this.recordedAt = Date.now();
+      this.interactions = [];
+      await this.save();
+    }
+
+    this.opened = true;
+  }
+
+  /**
+   * Make an exchange through the cassette
+   *
+   * `send` makes the real request; it is only called when recording.
+   */
+  async exchange<T>(kind: InteractionKind, target: string, request: any, send: () => Promise<T>): Promise<T> {
+    if (!this.opened) {
+      throw new Error('Cassette is not open');
+    }
+
+    // Compare and store requests as JSON, so undefined fields do not count
+    const normalized = request === null ? null : JSON.parse(JSON.stringify(request));
+
+    if (this.mode === 'replay') {
+      return this.replay(kind, target, normalized);
+    }
+
+    let response: T;
+    try {
+      response = await send();
+    } catch (error: any) {
+      this.interactions.push({
+        kind,
+        target,
+        request: normalized,
+        error: { name: error?.name || 'Error', message: error?.message || String(error) }
+      });
+      await this.save();
+      throw error;
+    }
+
+    this.interactions.push({ kind, target, request: normalized, response: JSON.parse(JSON.stringify(response)) });
+    await this.save();
+
+    return response;
+  }
+
+  /**
+   * Get the mismatches found while replaying
+   */
+  getMismatches(): ReplayMismatch[] {
+    return [...this.mismatches];
+  }
+
+  /**
+   * Count recorded exchanges not yet replayed
+   */
+  getUnplayedCount(): number {
+    return this.played.filter(played => !played).length;
+  }
+
+  /**
+   * Write the recording to the file
+   *
+   * Writes are made one at a time, in order.
+   */
+  save(): Promise<void> {
+    if (this.mode !== 'record') {
+      return Promise.resolve();
+    }
+
+    const file: CassetteFile = {
+      version: CASSETTE_VERSION,
+      recorded_at: this.recordedAt,
+      interactions: [...this.interactions]
+    };
+
+    const write = this.writeQueue.then(() => writeJsonFile(this.filePath, file));
+    this.writeQueue = write.catch(() => undefined);
+
+    return write;
+  }
+
+  /**
+   * Serve a request from the recording
+   */
+  private replay(kind: InteractionKind, target: string, request: any): any {
+    let index = this.interactions.findIndex((interaction, i) =>
+      !this.played[i] && interaction.kind === kind && interaction.target === target &&
+      isDeepStrictEqual(interaction.request, request)
+    );
+
+    if (index < 0) {
+      index = this.interactions.findIndex((interaction, i) =>
+        !this.played[i] && interaction.kind === kind && interaction.target === target
+      );
+
+      const expected = index < 0 ? undefined : this.interactions[index].request;
+      const mismatch: ReplayMismatch = {
+        kind,
+        target,
+        index,
+        expected,
+        actual: request,
+        differences: index < 0 ? [] : diffPaths(expected, request, '$').slice(0, MAX_DIFFERENCES)
+      };
+      this.mismatches.push(mismatch);
+      this.emit('mismatch', mismatch);
+
+      if (index < 0 || this.strict) {
+        throw new ReplayMismatchError(mismatch);
+      }
+    }
+
+    this.played[index] = true;
+    const interaction = this.interactions[index];
+
+    if (interaction.error) {
+      const error = new Error(interaction.error.message);
+      error.name = interaction.error.name;
+      throw error;
+    }
+
+    // Callers may change what they receive; the recording must stay intact
+    return JSON.parse(JSON.stringify(interaction.response ?? null));
+  }
+}
+
+/**
+ * List the JSON paths at which two values differ
+ */
+function diffPaths(expected: any, actual: any, path: string): string[] {
+  if (isDeepStrictEqual(expected, actual)) {
+    return [];
+  }
+
+  const bothObjects = typeof expected === 'object' && expected !== null &&
+    typeof actual === 'object' && actual !== null &&
+    Array.isArray(expected) === Array.isArray(actual);
+  if (!bothObjects) {
+    return [path];
+  }
+
+  if (Array.isArray(expected)) {
+    const differences: string[] = [];
+    for (let i = 0; i < Math.max(expected.length, actual.length); i++) {
+      differences.push(...diffPaths(expected[i], actual[i], `${path}[${i}]`));
+    }
+    return differences;
+  }
+
+  const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+  return Array.from(keys).flatMap(key => diffPaths(expected[key], actual[key], `${path}.${key}`));
+}
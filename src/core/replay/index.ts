@@ -0,0 +1,63 @@
+// Record and replay of swarm runs
+
+/**
+ * Whether a cassette captures exchanges or serves them
+ */
+export type CassetteMode = 'record' | 'replay';
+
+/**
+ * What an exchange was with: a model provider, an MCP tool call, or the
+ * capabilities fetched when connecting to an MCP server
+ */
+export type InteractionKind = 'llm' | 'tool' | 'server';
+
+/**
+ * An error thrown by a recorded exchange
+ */
+export interface RecordedError {
+  name: string;
+  message: string;
+}
+
+/**
+ * One recorded exchange
+ */
+export interface CassetteInteraction {
+  kind: InteractionKind;
+  target: string;            // Provider name, or MCP server endpoint
+  request: any;              // ChatRequest, { tool, params }, or null for server capabilities
+  response?: any;            // ChatResponse, MCPToolResult or capabilities, when the exchange succeeded
+  error?: RecordedError;     // When the exchange failed
+}
+
+/**
+ * Stored form of a cassette
+ */
+export interface CassetteFile {
+  version: number;
+  recorded_at: number;       // Unix time in ms
+  interactions: CassetteInteraction[];
+}
+
+/**
+ * A replayed request that differs from the recording
+ */
+export interface ReplayMismatch {
+  kind: InteractionKind;
+  target: string;
+  index: number;             // Recorded interaction served instead, or -1 if none was left
+  expected: any;             // Recorded request
+  actual: any;               // Request made during replay
+  differences: string[];     // JSON paths where the two differ
+}
+
+/**
+ * Options for a cassette
+ */
+export interface CassetteOptions {
+  mode: CassetteMode;
+  strict?: boolean;          // Replay: throw on a mismatch instead of serving the next recording (default: false)
+}
+
+// Export classes from separate files
+export { Cassette, ReplayMismatchError } from './cassette';
@@ -0,0 +1,91 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createJsonFile, readJsonFile, withFileLock, writeJsonFile } from './file-store';
+
+describe('file store', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-store-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes JSON atomically and reads a missing file as null', async () => {
+    const file = path.join(dir, 'nested', 'value.json');
+
+    expect(await readJsonFile(file)).toBeNull();
+    await writeJsonFile(file, { a: 1 });
+
+    expect(await readJsonFile(file)).toEqual({ a: 1 });
+    expect(fs.readdirSync(path.dirname(file))).toEqual(['value.json']);
+  });
+
+  it('creates a file only if it does not exist yet', async () => {
+    const file = path.join(dir, 'value.json');
+
+    expect(await createJsonFile(file, 1)).toBe(true);
+    expect(await createJsonFile(file, 2)).toBe(false);
+    expect(await readJsonFile(file)).toBe(1);
+  });
+
+  describe('withFileLock', () => {
+    it('runs one holder at a time and removes the lock afterwards', async () => {
+      const file = path.join(dir, 'ledger.json');
+      const events: string[] = [];
+
+      await Promise.all(['a', 'b'].map(name => withFileLock(file, async () => {
+        events.push(`${name} start`);
+        await new Promise(resolve => setTimeout(resolve, 30));
+        events.push(`${name} end`);
+      })));
+
+      expect(events[1]).toBe(events[0].replace('start', 'end'));
+      expect(fs.existsSync(`${file}.lock`)).toBe(false);
+    });
+
+    it('gives up after its timeout while another process holds the lock', async () => {
+      const file = path.join(dir, 'ledger.json');
+      fs.writeFileSync(`${file}.lock`, '');
+      const fn = jest.fn(async () => undefined);
+
+      await expect(withFileLock(file, fn, { timeout: 50 }))
+        .rejects.toThrow(`Timed out after 50 ms waiting for the lock on ${file}`);
+      expect(fn).not.toHaveBeenCalled();
+      expect(fs.existsSync(`${file}.lock`)).toBe(true);
+    });
+
+    it('breaks a lock left by a process that crashed', async () => {
+      const file = path.join(dir, 'ledger.json');
+      const lockPath = `${file}.lock`;
+      fs.writeFileSync(lockPath, '');
+      const stale = new Date(Date.now() - 60000);
+      fs.utimesSync(lockPath, stale, stale);
+
+      expect(await withFileLock(file, async () => 'done', { timeout: 1000 })).toBe('done');
+      expect(fs.readdirSync(dir)).toEqual([]);
+    });
+
+    it('lets only one of several processes break a stale lock', async () => {
+      const file = path.join(dir, 'ledger.json');
+      const lockPath = `${file}.lock`;
+      fs.writeFileSync(lockPath, '');
+      const stale = new Date(Date.now() - 60000);
+      fs.utimesSync(lockPath, stale, stale);
+
+      let holders = 0;
+      let maxHolders = 0;
+      await Promise.all([1, 2, 3].map(() => withFileLock(file, async () => {
+        maxHolders = Math.max(maxHolders, ++holders);
+        await new Promise(resolve => setTimeout(resolve, 20));
+        holders--;
+      }, { timeout: 2000 })));
+
+      expect(maxHolders).toBe(1);
+      expect(fs.readdirSync(dir)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// How long to wait before trying a held lock again
+const LOCK_RETRY_MS = 20;
+
+// Age after which a lock is taken to be left by a process that crashed
+const LOCK_STALE_MS = 10000;
+
+// How long to wait for a lock before giving up; longer than a lock takes to go stale
+const LOCK_TIMEOUT_MS = 30000;
+
+/**
+ * Get the root directory for Swarm-Builder data
+ *
+ * Defaults to ~/.swarm-builder and can be overridden with SWARM_BUILDER_HOME.
+ */
+export function getDataDir(): string {
+  return process.env.SWARM_BUILDER_HOME || path.join(os.homedir(), '.swarm-builder');
+}
+
+/**
+ * Make sure a directory exists
+ */
+export async function ensureDir(dir: string): Promise<void> {
+  await fs.promises.mkdir(dir, { recursive: true });
+}
+
+/**
+ * Write a file atomically
+ *
+ * The data is written to a temporary file in the same directory and then
+ * renamed over the target, so readers never observe a partial write.
+ */
+export async function writeFileAtomic(filePath: string, data: string): Promise<void> {
+  await ensureDir(path.dirname(filePath));
+
+  const tempPath = getTempPath(filePath);
+
+  try {
+    await fs.promises.writeFile(tempPath, data, 'utf8');
+    await fs.promises.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.promises.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Write a JSON file atomically
+ */
+export async function writeJsonFile(filePath: string, value: any): Promise<void> {
+  await writeFileAtomic(filePath, JSON.stringify(value, null, 2));
+}
+
+/**
+ * Create a JSON file atomically, failing if it already exists
+ *
+ * The data is written to a temporary file in the same directory and then
+ * hard-linked to the target, which fails if the target exists. Readers never
+ * observe a partial write, and a crash leaves no partial file at the target.
+ * Returns false instead of throwing when another writer got there first.
+ */
+export async function createJsonFile(filePath: string, value: any): Promise<boolean> {
+  await ensureDir(path.dirname(filePath));
+
+  const tempPath = getTempPath(filePath);
+
+  try {
+    await fs.promises.writeFile(tempPath, JSON.stringify(value, null, 2), 'utf8');
+    await fs.promises.link(tempPath, filePath);
+    return true;
+  } catch (error: any) {
+    if (error.code === 'EEXIST') {
+      return false;
+    }
+    throw error;
+  } finally {
+    await fs.promises.rm(tempPath, { force: true });
+  }
+}
+
+/**
+ * Read a JSON file, returning null if it does not exist
+ */
+export async function readJsonFile<T>(filePath: string): Promise<T | null> {
+  try {
+    const data = await fs.promises.readFile(filePath, 'utf8');
+    return JSON.parse(data) as T;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Run a function while holding a lock on a file that all processes respect
+ *
+ * The lock is a `<file>.lock` file, created exclusively and removed when
+ * the function settles. A lock older than a few seconds is taken to be left
+ * by a process that crashed, and is broken. Throws if the lock cannot be
+ * taken within `timeout` ms (default: 30 seconds).
+ */
+export async function withFileLock<T>(
+  filePath: string,
+  fn: () => Promise<T>,
+  options?: { timeout?: number }
+): Promise<T> {
+  const lockPath = `${filePath}.lock`;
+  const timeout = options?.timeout ?? LOCK_TIMEOUT_MS;
+  const deadline = Date.now() + timeout;
+  await ensureDir(path.dirname(filePath));
+
+  while (!(await tryLock(lockPath))) {
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out after ${timeout} ms waiting for the lock on ${filePath}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await fs.promises.rm(lockPath, { force: true });
+  }
+}
+
+/**
+ * Create a lock file, breaking it first if it is stale; false if another process holds it
+ */
+async function tryLock(lockPath: string): Promise<boolean> {
+  try {
+    await (await fs.promises.open(lockPath, 'wx')).close();
+    return true;
+  } catch (error: any) {
+    if (error.code !== 'EEXIST') throw error;
+  }
+
+  const stats = await fs.promises.stat(lockPath).catch(() => null);
+  if (!stats || Date.now() - stats.mtimeMs <= LOCK_STALE_MS) {
+    return false;
+  }
+
+  // Move the stale lock aside first: of several processes breaking it, only one can rename it
+  const stalePath = getTempPath(lockPath);
+  try {
+    await fs.promises.rename(lockPath, stalePath);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return false;
+    throw error;
+  }
+
+  // If another process broke it first and has since taken the lock, the moved lock is theirs; put it back
+  const moved = await fs.promises.stat(stalePath);
+  if (moved.ino !== stats.ino) {
+    await fs.promises.link(stalePath, lockPath).catch(error => {
+      if (error.code !== 'EEXIST') throw error;
+    });
+  }
+  await fs.promises.rm(stalePath, { force: true });
+
+  return false;
+}
+
+/**
+ * List the entries of a directory, returning an empty list if it does not exist
+ */
+export async function listDir(dir: string): Promise<string[]> {
+  try {
+    return await fs.promises.readdir(dir);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get a unique temporary path next to a file
+ */
+function getTempPath(filePath: string): string {
+  return `${filePath}.${process.pid}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+}
+
+/**
+ * Check that an ID is safe to use as a file name
+ */
+export function assertSafeId(id: string, kind: string): void {
+  if (!id || !/^[A-Za-z0-9._-]+$/.test(id) || id === '.' || id === '..') {
+    throw new Error(`Invalid ${kind} ID: ${id}`);
+  }
+}
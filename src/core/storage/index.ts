@@ -0,0 +1,4 @@
+// Local storage helpers for Swarm-Builder
+
+// Re-export helpers from separate files
+export * from './file-store';
@@ -0,0 +1,49 @@
+// Run tracing for Swarm-Builder
+
+/**
+ * What a span covers
+ */
+export type SpanKind = 'session' | 'message' | 'agent_step' | 'llm_call' | 'tool_call';
+
+/**
+ * Attribute values of a span
+ */
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * A finished span, as handed to exporters
+ */
+export interface SpanData {
+  trace_id: string;              // 32 hex characters, shared by every span of a session
+  span_id: string;               // 16 hex characters
+  parent_span_id: string | null; // null for the session span
+  name: string;
+  kind: SpanKind;
+  start_time: number;            // Unix time in ms
+  end_time: number;              // Unix time in ms
+  duration_ms: number;
+  status: 'ok' | 'error';
+  error?: string;                // Error message, when status is "error"
+  attributes: SpanAttributes;
+}
+
+/**
+ * Destination of finished spans
+ */
+export interface SpanExporter {
+  export(spans: SpanData[]): Promise<void>;
+  shutdown?(): Promise<void>;    // Release resources once no more spans will be exported
+}
+
+/**
+ * Options for a tracer
+ */
+export interface TracerOptions {
+  exporter?: SpanExporter;       // Default: none, so spans are not recorded
+  batchSize?: number;            // Finished spans buffered before an export (default: 64)
+}
+
+// Export classes from separate files
+export { Tracer, Span } from './tracer';
+export { JsonlSpanExporter } from './jsonl-exporter';
+export { OtlpHttpSpanExporter, OtlpHttpExporterOptions } from './otlp-exporter';
@@ -0,0 +1,54 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SpanData } from './index';
+import { JsonlSpanExporter } from './jsonl-exporter';
+
+/**
+ * Build a finished span
+ */
+function createSpan(name: string): SpanData {
+  return {
+    trace_id: '0'.repeat(32),
+    span_id: '1'.repeat(16),
+    parent_span_id: null,
+    name,
+    kind: 'session',
+    start_time: 1000,
+    end_time: 1500,
+    duration_ms: 500,
+    status: 'ok',
+    attributes: { 'swarm.spec_id': 'support' }
+  };
+}
+
+describe('JsonlSpanExporter', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'jsonl-exporter-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('appends one JSON span per line, creating the directory', async () => {
+    const file = path.join(dir, 'traces', 'run.jsonl');
+    const exporter = new JsonlSpanExporter(file);
+
+    await exporter.export([createSpan('a'), createSpan('b')]);
+    await exporter.export([createSpan('c')]);
+
+    const lines = fs.readFileSync(file, 'utf8').trimEnd().split('\n');
+    expect(lines.map(line => JSON.parse(line))).toEqual([createSpan('a'), createSpan('b'), createSpan('c')]);
+  });
+
+  it('writes nothing for an empty batch', async () => {
+    const file = path.join(dir, 'run.jsonl');
+
+    await new JsonlSpanExporter(file).export([]);
+
+    expect(fs.existsSync(file)).toBe(false);
+  });
+});
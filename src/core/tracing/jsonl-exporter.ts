@@ -0,0 +1,28 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ensureDir } from '../storage';
+import { SpanData, SpanExporter } from './index';
+
+/**
+ * Appends finished spans to a local file, one JSON object per line
+ *
+ * Each line is a SpanData record, so a trace can be inspected with tools
+ * such as `jq` or loaded line by line.
+ */
+export class JsonlSpanExporter implements SpanExporter {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Append spans to the file
+   */
+  async export(spans: SpanData[]): Promise<void> {
+    if (spans.length === 0) return;
+
+    await ensureDir(path.dirname(this.filePath));
+    await fs.promises.appendFile(this.filePath, spans.map(span => JSON.stringify(span)).join('\n') + '\n', 'utf8');
+  }
+}
@@ -0,0 +1,133 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { SpanData } from './index';
+import { OtlpHttpSpanExporter } from './otlp-exporter';
+
+/**
+ * A request received by the collector
+ */
+interface CollectedRequest {
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+/**
+ * Build a finished span
+ */
+function createSpan(extra?: Partial<SpanData>): SpanData {
+  return {
+    trace_id: 'a'.repeat(32),
+    span_id: 'b'.repeat(16),
+    parent_span_id: null,
+    name: 'swarm.session',
+    kind: 'session',
+    start_time: 1700000000123,
+    end_time: 1700000000456,
+    duration_ms: 333,
+    status: 'ok',
+    attributes: {},
+    ...extra
+  };
+}
+
+describe('OtlpHttpSpanExporter', () => {
+  let server: http.Server;
+  let endpoint: string;
+  let requests: CollectedRequest[];
+  let status: number;
+
+  beforeEach(async () => {
+    requests = [];
+    status = 200;
+    server = http.createServer((request, response) => {
+      let body = '';
+      request.on('data', chunk => body += chunk);
+      request.on('end', () => {
+        requests.push({ url: request.url, headers: request.headers, body: JSON.parse(body) });
+        if (status > 0) {
+          response.writeHead(status);
+          response.end('{}');
+        }
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/traces`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('posts spans as an OTLP JSON request', async () => {
+    const exporter = new OtlpHttpSpanExporter({ endpoint, headers: { Authorization: 'Bearer token' }, serviceName: 'support' });
+
+    await exporter.export([
+      createSpan({ attributes: { 'swarm.spec_id': 'support', 'swarm.resumed': false } }),
+      createSpan({
+        span_id: 'c'.repeat(16),
+        parent_span_id: 'b'.repeat(16),
+        name: 'swarm.llm_call',
+        kind: 'llm_call',
+        status: 'error',
+        error: 'Rate limited',
+        attributes: { 'gen_ai.usage.input_tokens': 12, 'swarm.cost_usd': 0.25 }
+      })
+    ]);
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe('/v1/traces');
+    expect(requests[0].headers).toMatchObject({ authorization: 'Bearer token', 'content-type': 'application/json' });
+
+    const [resourceSpans] = requests[0].body.resourceSpans;
+    expect(resourceSpans.resource.attributes).toEqual([{ key: 'service.name', value: { stringValue: 'support' } }]);
+    expect(resourceSpans.scopeSpans[0].spans).toEqual([
+      {
+        traceId: 'a'.repeat(32),
+        spanId: 'b'.repeat(16),
+        name: 'swarm.session',
+        kind: 1,
+        startTimeUnixNano: '1700000000123000000',
+        endTimeUnixNano: '1700000000456000000',
+        attributes: [
+          { key: 'swarm.spec_id', value: { stringValue: 'support' } },
+          { key: 'swarm.resumed', value: { boolValue: false } },
+          { key: 'swarm.span_kind', value: { stringValue: 'session' } }
+        ],
+        status: { code: 1 }
+      },
+      expect.objectContaining({
+        parentSpanId: 'b'.repeat(16),
+        kind: 3,
+        attributes: [
+          { key: 'gen_ai.usage.input_tokens', value: { intValue: '12' } },
+          { key: 'swarm.cost_usd', value: { doubleValue: 0.25 } },
+          { key: 'swarm.span_kind', value: { stringValue: 'llm_call' } }
+        ],
+        status: { code: 2, message: 'Rate limited' }
+      })
+    ]);
+  });
+
+  it('sends nothing for an empty batch', async () => {
+    await new OtlpHttpSpanExporter({ endpoint }).export([]);
+
+    expect(requests).toEqual([]);
+  });
+
+  it('rejects when the collector refuses the spans', async () => {
+    status = 503;
+
+    await expect(new OtlpHttpSpanExporter({ endpoint }).export([createSpan()]))
+      .rejects.toThrow(`OTLP export to ${endpoint} failed: 503 Service Unavailable`);
+  });
+
+  it('gives up on a collector that does not answer in time', async () => {
+    status = 0;
+
+    await expect(new OtlpHttpSpanExporter({ endpoint, timeout: 50 }).export([createSpan()])).rejects.toThrow();
+    expect(requests).toHaveLength(1);
+  });
+});
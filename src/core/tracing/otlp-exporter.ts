@@ -0,0 +1,112 @@
+import { SpanData, SpanExporter } from './index';
+
+const DEFAULT_ENDPOINT = 'http://localhost:4318/v1/traces';
+const DEFAULT_SERVICE_NAME = 'swarm-builder';
+const DEFAULT_TIMEOUT = 10000;
+
+// OTLP span kinds: calls to models and tools are client calls, the rest internal work
+const SPAN_KIND_INTERNAL = 1;
+const SPAN_KIND_CLIENT = 3;
+
+// OTLP status codes
+const STATUS_CODE_OK = 1;
+const STATUS_CODE_ERROR = 2;
+
+export interface OtlpHttpExporterOptions {
+  endpoint?: string;                   // Collector traces URL (default: http://localhost:4318/v1/traces)
+  headers?: Record<string, string>;    // Extra request headers, e.g. for authentication
+  serviceName?: string;                // `service.name` resource attribute (default: swarm-builder)
+  timeout?: number;                    // Request timeout in ms (default: 10000)
+}
+
+/**
+ * Sends finished spans to an OpenTelemetry collector with OTLP/HTTP, JSON encoding
+ *
+ * Span attributes become OTLP attributes; the span kind is kept as the
+ * `swarm.span_kind` attribute.
+ */
+export class OtlpHttpSpanExporter implements SpanExporter {
+  private endpoint: string;
+  private headers: Record<string, string>;
+  private serviceName: string;
+  private timeout: number;
+
+  constructor(options?: OtlpHttpExporterOptions) {
+    this.endpoint = options?.endpoint || DEFAULT_ENDPOINT;
+    this.headers = options?.headers || {};
+    this.serviceName = options?.serviceName || DEFAULT_SERVICE_NAME;
+    this.timeout = options?.timeout || DEFAULT_TIMEOUT;
+  }
+
+  /**
+   * Post spans to the collector
+   */
+  async export(spans: SpanData[]): Promise<void> {
+    if (spans.length === 0) return;
+
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { ...this.headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify(this.buildRequest(spans)),
+      signal: AbortSignal.timeout(this.timeout)
+    });
+
+    if (!response.ok) {
+      throw new Error(`OTLP export to ${this.endpoint} failed: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  /**
+   * Build an OTLP ExportTraceServiceRequest
+   */
+  private buildRequest(spans: SpanData[]): any {
+    return {
+      resourceSpans: [{
+        resource: {
+          attributes: toAttributes({ 'service.name': this.serviceName })
+        },
+        scopeSpans: [{
+          scope: { name: DEFAULT_SERVICE_NAME },
+          spans: spans.map(span => ({
+            traceId: span.trace_id,
+            spanId: span.span_id,
+            ...(span.parent_span_id ? { parentSpanId: span.parent_span_id } : {}),
+            name: span.name,
+            kind: span.kind === 'llm_call' || span.kind === 'tool_call' ? SPAN_KIND_CLIENT : SPAN_KIND_INTERNAL,
+            startTimeUnixNano: toUnixNano(span.start_time),
+            endTimeUnixNano: toUnixNano(span.end_time),
+            attributes: toAttributes({ ...span.attributes, 'swarm.span_kind': span.kind }),
+            status: span.status === 'error'
+              ? { code: STATUS_CODE_ERROR, message: span.error || '' }
+              : { code: STATUS_CODE_OK }
+          }))
+        }]
+      }]
+    };
+  }
+}
+
+/**
+ * Convert attributes to OTLP key-value pairs
+ */
+function toAttributes(attributes: Record<string, string | number | boolean>): any[] {
+  return Object.entries(attributes).map(([key, value]) => {
+    if (typeof value === 'boolean') {
+      return { key, value: { boolValue: value } };
+    }
+
+    if (typeof value === 'number') {
+      // 64-bit integers are strings in OTLP JSON
+      return { key, value: Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value } };
+    }
+
+    return { key, value: { stringValue: value } };
+  });
+}
+
+/**
+ * Convert a time in ms to the nanosecond string OTLP expects
+ */
+function toUnixNano(ms: number): string {
+  return (BigInt(ms) * BigInt(1000000)).toString();
+}
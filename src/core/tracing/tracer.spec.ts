@@ -0,0 +1,125 @@
+import { SpanData, SpanExporter } from './index';
+import { Tracer } from './tracer';
+
+/**
+ * Keeps exported batches in memory
+ */
+class MemoryExporter implements SpanExporter {
+  batches: SpanData[][];
+  shutDown: boolean;
+  private failOn: string[];
+
+  /**
+   * Fail the export of any batch holding a span named in `failOn`
+   */
+  constructor(failOn: string[] = []) {
+    this.batches = [];
+    this.shutDown = false;
+    this.failOn = failOn;
+  }
+
+  /**
+   * Keep a batch
+   */
+  async export(spans: SpanData[]): Promise<void> {
+    if (spans.some(span => this.failOn.includes(span.name))) {
+      throw new Error('Collector unavailable');
+    }
+    this.batches.push(spans);
+  }
+
+  /**
+   * Note that the exporter was shut down
+   */
+  async shutdown(): Promise<void> {
+    this.shutDown = true;
+  }
+}
+
+describe('Tracer', () => {
+  it('links child spans to their parent in one trace', async () => {
+    const exporter = new MemoryExporter();
+    const tracer = new Tracer({ exporter });
+
+    const session = tracer.startSpan('session', 'swarm.session', { attributes: { 'swarm.spec_id': 'support' } });
+    const message = tracer.startSpan('message', 'swarm.message', { parent: session });
+    message.setAttributes({ 'swarm.turn': 1, 'swarm.agent_id': undefined });
+    message.end();
+    session.end();
+    await tracer.flush();
+
+    const [messageData, sessionData] = exporter.batches[0];
+    expect(sessionData).toMatchObject({ parent_span_id: null, kind: 'session', status: 'ok', attributes: { 'swarm.spec_id': 'support' } });
+    expect(sessionData.trace_id).toMatch(/^[0-9a-f]{32}$/);
+    expect(messageData).toMatchObject({ trace_id: sessionData.trace_id, parent_span_id: sessionData.span_id, attributes: { 'swarm.turn': 1 } });
+    expect(messageData.span_id).toMatch(/^[0-9a-f]{16}$/);
+    expect(messageData.duration_ms).toBe(messageData.end_time - messageData.start_time);
+  });
+
+  it('records errors and ends a span only once', async () => {
+    const exporter = new MemoryExporter();
+    const tracer = new Tracer({ exporter });
+
+    const span = tracer.startSpan('tool_call', 'swarm.tool_call');
+    span.recordError(new TypeError('Bad parameters'));
+    span.end();
+    span.end();
+    await tracer.flush();
+
+    expect(exporter.batches).toEqual([[expect.objectContaining({
+      status: 'error',
+      error: 'Bad parameters',
+      attributes: { 'error.type': 'TypeError' }
+    })]]);
+  });
+
+  it('exports full batches as spans end and the rest on flush', async () => {
+    const exporter = new MemoryExporter();
+    const tracer = new Tracer({ exporter, batchSize: 2 });
+
+    for (const name of ['a', 'b', 'c']) {
+      tracer.startSpan('llm_call', name).end();
+    }
+    await tracer.flush();
+
+    expect(exporter.batches.map(batch => batch.map(span => span.name))).toEqual([['a', 'b'], ['c']]);
+  });
+
+  it('drops a batch that fails to export and keeps exporting later ones', async () => {
+    const exporter = new MemoryExporter(['lost']);
+    const tracer = new Tracer({ exporter });
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    try {
+      tracer.startSpan('llm_call', 'lost').end();
+      await tracer.flush();
+      tracer.startSpan('llm_call', 'kept').end();
+      await tracer.flush();
+
+      expect(exporter.batches.map(batch => batch.map(span => span.name))).toEqual([['kept']]);
+      expect(consoleError).toHaveBeenCalledWith('Error exporting 1 spans:', expect.any(Error));
+    } finally {
+      consoleError.mockRestore();
+    }
+  });
+
+  it('exports the remaining spans before shutting the exporter down', async () => {
+    const exporter = new MemoryExporter();
+    const tracer = new Tracer({ exporter });
+
+    tracer.startSpan('session', 'swarm.session').end();
+    await tracer.shutdown();
+
+    expect(exporter.batches).toHaveLength(1);
+    expect(exporter.shutDown).toBe(true);
+  });
+
+  it('creates spans without keeping them when it has no exporter', async () => {
+    const tracer = new Tracer();
+
+    tracer.startSpan('session', 'swarm.session').end();
+
+    expect(tracer.isEnabled()).toBe(false);
+    await expect(tracer.shutdown()).resolves.toBeUndefined();
+  });
+});
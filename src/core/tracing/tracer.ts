@@ -0,0 +1,165 @@
+import { randomBytes } from 'crypto';
+import { SpanKind, SpanAttributes, SpanData, SpanExporter, TracerOptions } from './index';
+
+const DEFAULT_BATCH_SIZE = 64;
+
+/**
+ * A timed operation within a traced run
+ *
+ * Attributes and errors can be added until the span is ended; ending it
+ * again has no effect.
+ */
+export class Span {
+  readonly traceId: string;
+  readonly spanId: string;
+  private parentSpanId: string | null;
+  private name: string;
+  private kind: SpanKind;
+  private startTime: number;
+  private attributes: SpanAttributes;
+  private error: string | null;
+  private ended: boolean;
+  private onEnd: (data: SpanData) => void;
+
+  constructor(
+    kind: SpanKind,
+    name: string,
+    parent: Span | null,
+    attributes: SpanAttributes,
+    onEnd: (data: SpanData) => void
+  ) {
+    this.traceId = parent?.traceId || randomBytes(16).toString('hex');
+    this.spanId = randomBytes(8).toString('hex');
+    this.parentSpanId = parent?.spanId || null;
+    this.name = name;
+    this.kind = kind;
+    this.startTime = Date.now();
+    this.attributes = { ...attributes };
+    this.error = null;
+    this.ended = false;
+    this.onEnd = onEnd;
+  }
+
+  /**
+   * Set one attribute
+   */
+  setAttribute(key: string, value: string | number | boolean): void {
+    this.attributes[key] = value;
+  }
+
+  /**
+   * Set several attributes, skipping undefined values
+   */
+  setAttributes(attributes: Record<string, string | number | boolean | undefined>): void {
+    for (const [key, value] of Object.entries(attributes)) {
+      if (value !== undefined) {
+        this.attributes[key] = value;
+      }
+    }
+  }
+
+  /**
+   * Mark the span as failed
+   */
+  recordError(error: any): void {
+    this.error = error?.message || String(error);
+    this.attributes['error.type'] = error?.name || 'Error';
+  }
+
+  /**
+   * Finish the span and hand it to the tracer
+   */
+  end(): void {
+    if (this.ended) return;
+    this.ended = true;
+
+    const endTime = Date.now();
+    this.onEnd({
+      trace_id: this.traceId,
+      span_id: this.spanId,
+      parent_span_id: this.parentSpanId,
+      name: this.name,
+      kind: this.kind,
+      start_time: this.startTime,
+      end_time: endTime,
+      duration_ms: endTime - this.startTime,
+      status: this.error === null ? 'ok' : 'error',
+      ...(this.error === null ? {} : { error: this.error }),
+      attributes: this.attributes
+    });
+  }
+}
+
+/**
+ * Creates spans and passes finished ones to an exporter in batches
+ *
+ * Without an exporter, spans are created but not kept. Exports run one at a
+ * time, in order; a failed export is reported and its spans dropped, so
+ * tracing never fails a run.
+ */
+export class Tracer {
+  private exporter: SpanExporter | null;
+  private batchSize: number;
+  private pending: SpanData[];
+  private exportQueue: Promise<void>;
+
+  constructor(options?: TracerOptions) {
+    this.exporter = options?.exporter || null;
+    this.batchSize = options?.batchSize || DEFAULT_BATCH_SIZE;
+    this.pending = [];
+    this.exportQueue = Promise.resolve();
+  }
+
+  /**
+   * Check whether spans are exported
+   */
+  isEnabled(): boolean {
+    return this.exporter !== null;
+  }
+
+  /**
+   * Start a span, as a child of `parent` or as the root of a new trace
+   */
+  startSpan(kind: SpanKind, name: string, options?: { parent?: Span | null; attributes?: SpanAttributes }): Span {
+    return new Span(kind, name, options?.parent || null, options?.attributes || {}, data => this.finishSpan(data));
+  }
+
+  /**
+   * Export the spans finished so far
+   *
+   * Resolves once they, and every earlier batch, have been exported or dropped.
+   */
+  flush(): Promise<void> {
+    const spans = this.pending.splice(0);
+    const exporter = this.exporter;
+    if (!exporter || spans.length === 0) {
+      return this.exportQueue;
+    }
+
+    this.exportQueue = this.exportQueue
+      .then(() => exporter.export(spans))
+      .catch(error => console.error(`Error exporting ${spans.length} spans:`, error));
+
+    return this.exportQueue;
+  }
+
+  /**
+   * Export the remaining spans and shut the exporter down
+   */
+  async shutdown(): Promise<void> {
+    await this.flush();
+    await this.exporter?.shutdown?.();
+  }
+
+  /**
+   * Buffer a finished span, exporting a batch once it is full
+   */
+  private finishSpan(data: SpanData): void {
+    if (!this.exporter) return;
+
+    this.pending.push(data);
+    if (this.pending.length >= this.batchSize) {
+      void this.flush();
+    }
+  }
+}
@@ -69,6 +69,10 @@ export class ModelPresetEditor {
       throw new Error('Model is required');
     }
     
+    if (this.currentPreset.provider === 'openai-compatible' && !this.currentPreset.base_url) {
+      throw new Error('Base URL is required for OpenAI-compatible providers');
+    }
+    
     // Save preset
     return await this.modelPresetManager.createPreset(this.currentPreset);
   }
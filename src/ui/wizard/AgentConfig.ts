@@ -91,6 +91,13 @@ export class AgentConfig {
     this.agentData.mcp.permissions[tool] = permissions;
   }
   
+  /**
+   * Set the policy on MCP tool call arguments
+   */
+  setMCPToolPolicy(policy: any): void {
+    this.agentData.mcp.policy = policy;
+  }
+  
   /**
    * Get agent data
    */
@@ -1,4 +1,4 @@
-import { ModelPreset } from '../../core/models';
+import { ModelPreset, ModelCapabilities, getPresetCapabilities } from '../../core/models';
 
 /**
  * Model selector component for the Service Wizard
@@ -10,11 +10,13 @@ export class ModelSelector {
   private presets: ModelPreset[];
   private selectedPresetId: string | null;
   private searchQuery: string;
+  private requireToolCalling: boolean;
   
   constructor(presets: ModelPreset[]) {
     this.presets = presets;
     this.selectedPresetId = null;
     this.searchQuery = '';
+    this.requireToolCalling = false;
   }
   
   /**
@@ -32,19 +34,34 @@ export class ModelSelector {
   }
   
   /**
-   * Get filtered presets based on the search query
+   * Only offer presets whose model supports tool calling,
+   * e.g. when the agent has MCP tools assigned
+   */
+  setRequireToolCalling(required: boolean): void {
+    this.requireToolCalling = required;
+  }
+  
+  /**
+   * Get filtered presets based on the search query and required capabilities
    */
   getFilteredPresets(): ModelPreset[] {
+    let presets = this.presets;
+    
+    if (this.requireToolCalling) {
+      presets = presets.filter(preset => getPresetCapabilities(preset).tool_calling);
+    }
+    
     if (!this.searchQuery) {
-      return this.presets;
+      return presets;
     }
     
     const query = this.searchQuery.toLowerCase();
     
-    return this.presets.filter(preset => 
+    return presets.filter(preset => 
       preset.id.toLowerCase().includes(query) ||
       preset.provider.toLowerCase().includes(query) ||
       preset.model.toLowerCase().includes(query) ||
+      (preset.base_url && preset.base_url.toLowerCase().includes(query)) ||
       (preset.description && preset.description.toLowerCase().includes(query))
     );
   }
@@ -85,4 +102,12 @@ export class ModelSelector {
     
     return this.presets.find(preset => preset.id === this.selectedPresetId) || null;
   }
+  
+  /**
+   * Get the capabilities of a preset's model
+   */
+  getPresetCapabilities(presetId: string): ModelCapabilities | null {
+    const preset = this.presets.find(p => p.id === presetId);
+    return preset ? getPresetCapabilities(preset) : null;
+  }
 }
\ No newline at end of file